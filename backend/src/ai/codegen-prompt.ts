@@ -0,0 +1,42 @@
+// src/ai/codegen-prompt.ts
+
+export type CodegenBrand = { name?: string; primaryColor?: string; font?: string; logoUrl?: string };
+
+/**
+ * System prompt for landing page code generation, shared by the HTTP codegen route and the
+ * gRPC GenerateCodeStream so both produce the same pages. It strongly biases the generator
+ * toward the ITTRI visual identity.
+ */
+export function codegenSystemPrompt(format: string, sections: string[], brand?: CodegenBrand | null): string {
+  const brandInfo = brand?.name
+    ? `Brand: ${brand.name}${brand.primaryColor ? `, Primary Color: ${brand.primaryColor}` : ''}${brand.font ? `, Font: ${brand.font}` : ''}${brand.logoUrl ? `, Logo: ${brand.logoUrl}` : ''}`
+    : '';
+
+  return [
+    `You are an expert landing page generator. Generate a modern, professional ${format.toUpperCase()} landing page.`,
+    `Required sections: ${sections.join(', ')}.`,
+    brandInfo ? `Brand requirements: ${brandInfo}` : '',
+    '',
+    'Design System (ITTRI Aesthetic):',
+    '- Background: Use cosmic gradient (bg-gradient-to-b from-sky-50 via-purple-50 to-indigo-50 dark:from-neutral-900 dark:via-neutral-900 dark:to-neutral-900)',
+    '- Glass morphism: Use class "glass" or bg-white/10 dark:bg-neutral-800/30 with backdrop-blur-md for cards/sections',
+    '- Buttons: Use class "btn-futuristic" for primary CTAs, or style with rounded-lg, gradient backgrounds, hover effects',
+    '- Typography: Use semantic HTML, proper heading hierarchy (h1-h6), responsive text sizing',
+    '- Spacing: Use Tailwind padding/margin utilities (p-4, p-6, p-8, mx-auto, max-w-7xl, etc.)',
+    '- Colors: Use CSS variables (var(--foreground), var(--background), var(--primary)) instead of hard-coded colors',
+    '- Responsive: Mobile-first design with sm:, md:, lg: breakpoints',
+    '- Accessibility: Include proper ARIA labels, alt text for images, semantic HTML',
+    '',
+    format === 'html' 
+      ? 'HTML Requirements: Include <!DOCTYPE html>, <html>, <head> with meta tags, <title>, link to Tailwind CSS CDN, and <body> with complete landing page structure.'
+      : 'React Requirements: Export default function component named App. Use React hooks if needed. Include proper imports.',
+    '',
+    'Content Guidelines:',
+    '- Write compelling, clear copy that explains the product/service value proposition',
+    '- Use power words and action-oriented language',
+    '- Include social proof elements (testimonials, stats, logos) when appropriate',
+    '- Ensure CTAs are clear and prominent',
+    '',
+    `Output only the ${format === 'html' ? 'complete, valid HTML document' : 'complete React component'} without any explanation, commentary, or markdown code blocks.`,
+  ].filter(Boolean).join('\n');
+}
@@ -1,4 +1,5 @@
 // src/ai/llm.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { LLMClient } from './types';
 import { buildOllamaProvider } from './providers/ollama';
 import { buildOpenAIProvider } from './providers/openai';
@@ -16,6 +17,14 @@ import { buildOpenAIProvider } from './providers/openai';
 let cachedClient: LLMClient | null = null;
 let cachedName: 'openai' | 'ollama' | null = null;
 
+// Per-async-context override (scripted/recorded providers in the conversation simulator)
+const overrideContext = new AsyncLocalStorage<LLMClient>();
+
+/** Run `fn` with getClient() returning `client`. */
+export function withLLMClient<T>(client: LLMClient, fn: () => Promise<T>): Promise<T> {
+  return overrideContext.run(client, fn);
+}
+
 function pickProvider(): 'openai' | 'ollama' {
   const raw = (process.env.LLM_PROVIDER_ID ?? process.env.LLM_PROVIDER ?? '1')
     .toString()
@@ -27,6 +36,9 @@ function pickProvider(): 'openai' | 'ollama' {
 }
 
 export async function getClient(): Promise<LLMClient> {
+  const override = overrideContext.getStore();
+  if (override) return override;
+
   const name = pickProvider();
   if (cachedClient && cachedName === name) return cachedClient;
 
@@ -1,6 +1,6 @@
 // src/ai/providers/ollama.ts
 import type { LLMClient, ChatMessage } from '../types';
-import { abortableFetch, withTimeout, basicAuthHeader, parseJSONLStream } from './utils';
+import { abortableFetch, withTimeout, basicAuthHeader, parseJSONLStream, parseToolArgs } from './utils';
 
 const OLLAMA_HOST = (process.env.ITTRI_HOST?.trim() || process.env.OLLAMA_HOST?.trim() || 'http://127.0.0.1:11434').replace(/\/+$/, '');
 const OLLAMA_MODEL = (process.env.ITTRI_MODEL?.trim() || process.env.OLLAMA_MODEL?.trim() || 'ITTRI');
@@ -19,14 +19,23 @@ function messagesToPrompt(messages: ChatMessage[]): string {
 
 export async function buildOllamaProvider(): Promise<LLMClient> {
   return {
-    async chat({ model, messages, stream = false, options }) {
+    async chat({ model, messages, stream = false, options, tools, tool_choice, signal }) {
       const prompt = messagesToPrompt(messages || []);
-      const body = { model: model || OLLAMA_MODEL, prompt, stream, options };
-      const response = await abortableFetch(`${OLLAMA_HOST}/api/generate`, { method: 'POST', headers: ollamaHeaders(), body: JSON.stringify(body) }, OLLAMA_TIMEOUT_MS);
+      // No native tool calling on /api/generate: constrain the output to the tool's JSON schema instead
+      const tool = !stream && tools?.length ? tools.find((t) => t.name === tool_choice?.name) || tools[0] : null;
+      const body = { model: model || OLLAMA_MODEL, prompt, stream, options, ...(tool ? { format: tool.parameters } : {}) };
+      const response = await abortableFetch(`${OLLAMA_HOST}/api/generate`, { method: 'POST', headers: ollamaHeaders(), body: JSON.stringify(body), signal }, OLLAMA_TIMEOUT_MS);
       if (!response.ok) throw new Error(`Ollama API error: ${response.status}`);
       if (!stream) {
         const json = await response.json();
-        return { message: { role: 'assistant', content: String(json?.response ?? '') } };
+        const content = String(json?.response ?? '');
+        return {
+          message: {
+            role: 'assistant',
+            content,
+            ...(tool ? { tool_calls: [{ name: tool.name, arguments: parseToolArgs(content) }] } : {}),
+          },
+        };
       }
       async function* convertStream() {
         for await (const chunk of parseJSONLStream(response) as any) {
@@ -37,9 +46,9 @@ export async function buildOllamaProvider(): Promise<LLMClient> {
       return convertStream();
     },
 
-    async generate({ model, prompt, stream = false, options }) {
+    async generate({ model, prompt, stream = false, options, signal }) {
       const body = { model: model || OLLAMA_MODEL, prompt, stream, options };
-      const response = await abortableFetch(`${OLLAMA_HOST}/api/generate`, { method: 'POST', headers: ollamaHeaders(), body: JSON.stringify(body) }, OLLAMA_TIMEOUT_MS);
+      const response = await abortableFetch(`${OLLAMA_HOST}/api/generate`, { method: 'POST', headers: ollamaHeaders(), body: JSON.stringify(body), signal }, OLLAMA_TIMEOUT_MS);
       if (!response.ok) throw new Error(`Ollama API error: ${response.status}`);
       if (!stream) return response.json();
       return parseJSONLStream(response) as any;
@@ -1,6 +1,6 @@
 // src/ai/providers/openai.ts
 import type { LLMClient } from '../types';
-import { abortableFetch, withTimeout, parseSSEStream } from './utils';
+import { abortableFetch, withTimeout, parseSSEStream, parseToolArgs } from './utils';
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
 const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
@@ -16,29 +16,39 @@ function openaiHeaders(): HeadersInit {
 
 export async function buildOpenAIProvider(): Promise<LLMClient> {
   return {
-    async chat({ model, messages, stream = false, options = {} }) {
+    async chat({ model, messages, stream = false, options = {}, tools, tool_choice, signal }) {
       const selectedModel = model && OPENAI_MODEL_PATTERN.test(model) ? model : OPENAI_MODEL;
-      const body = {
+      const body: any = {
         model: selectedModel,
         temperature: options.temperature,
         max_tokens: options.num_predict || options.max_tokens,
         stream: Boolean(stream),
         messages: messages || [],
       };
-      const response = await abortableFetch(`${OPENAI_BASE}/v1/chat/completions`, { method: 'POST', headers: openaiHeaders(), body: JSON.stringify(body) }, OPENAI_TIMEOUT_MS);
+      if (tools?.length && !stream) {
+        body.tools = tools.map((t) => ({
+          type: 'function',
+          function: { name: t.name, description: t.description, parameters: t.parameters },
+        }));
+        if (tool_choice) body.tool_choice = { type: 'function', function: { name: tool_choice.name } };
+      }
+      const response = await abortableFetch(`${OPENAI_BASE}/v1/chat/completions`, { method: 'POST', headers: openaiHeaders(), body: JSON.stringify(body), signal }, OPENAI_TIMEOUT_MS);
       if (!response.ok) {
         const text = await response.text().catch(() => '');
         throw new Error(`OpenAI chat API error: ${response.status} ${text}`);
       }
       if (!stream) {
         const json = await response.json();
-        const content = json?.choices?.[0]?.message?.content ?? '';
-        return { message: { role: 'assistant', content: String(content) } };
+        const msg = json?.choices?.[0]?.message;
+        const tool_calls = Array.isArray(msg?.tool_calls)
+          ? msg.tool_calls.map((c: any) => ({ name: c?.function?.name, arguments: parseToolArgs(c?.function?.arguments) }))
+          : undefined;
+        return { message: { role: 'assistant', content: String(msg?.content ?? ''), ...(tool_calls ? { tool_calls } : {}) } };
       }
       return parseSSEStream(response);
     },
 
-    async generate({ model, prompt, stream = false, options = {} }) {
+    async generate({ model, prompt, stream = false, options = {}, signal }) {
       const selectedModel = model && OPENAI_MODEL_PATTERN.test(model) ? model : OPENAI_MODEL;
       const body = {
         model: selectedModel,
@@ -47,7 +57,7 @@ export async function buildOpenAIProvider(): Promise<LLMClient> {
         stream: Boolean(stream),
         messages: [{ role: 'user', content: String(prompt ?? '') }],
       };
-      const response = await abortableFetch(`${OPENAI_BASE}/v1/chat/completions`, { method: 'POST', headers: openaiHeaders(), body: JSON.stringify(body) }, OPENAI_TIMEOUT_MS);
+      const response = await abortableFetch(`${OPENAI_BASE}/v1/chat/completions`, { method: 'POST', headers: openaiHeaders(), body: JSON.stringify(body), signal }, OPENAI_TIMEOUT_MS);
       if (!response.ok) {
         const text = await response.text().catch(() => '');
         throw new Error(`OpenAI generate API error: ${response.status} ${text}`);
@@ -17,9 +17,15 @@ export function withTimeout<T>(promise: Promise<T>, ms: number, label = 'timeout
   ]);
 }
 
+/** The timeout covers the response headers; `init.signal` (the caller) can abort at any point, mid-stream too. */
 export function abortableFetch(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const outer = init.signal;
+  if (outer) {
+    if (outer.aborted) controller.abort();
+    else outer.addEventListener('abort', () => controller.abort(), { once: true });
+  }
   return fetch(url, { ...init, signal: controller.signal }).finally(() => clearTimeout(timeout));
 }
 
@@ -73,3 +79,19 @@ export async function* parseJSONLStream(response: Response) {
     reader.releaseLock();
   }
 }
+
+/** Tool-call arguments arrive as a JSON string; keep the raw text when it doesn't parse. */
+export function parseToolArgs(raw: unknown): any {
+  if (raw && typeof raw === 'object') return raw;
+  const text = String(raw ?? '').trim();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    const m = text.match(/\{[\s\S]*\}/);
+    if (m) {
+      try { return JSON.parse(m[0]); } catch { /* fall through */ }
+    }
+    return text;
+  }
+}
@@ -16,10 +16,23 @@ export interface ChatOptions {
   max_tokens?: number;
 }
 
+/** Function/tool the model may call; `parameters` is a JSON Schema object. */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: any; // parsed JSON (raw string if the provider sent invalid JSON)
+}
+
 export interface ChatResponse {
   message: {
     role: 'assistant';
     content: string;
+    tool_calls?: ToolCall[];
   };
 }
 
@@ -46,6 +59,12 @@ export interface LLMClient {
     messages: ChatMessage[];
     stream?: boolean;
     options?: ChatOptions;
+    /** Non-streaming only. Providers without tool calling constrain the output to the first tool's schema instead. */
+    tools?: ToolSpec[];
+    /** Force a specific tool (default: model decides). */
+    tool_choice?: { name: string };
+    /** Aborts the upstream request, including a stream in progress. */
+    signal?: AbortSignal;
   }): Promise<ChatResponse | AsyncIterable<StreamChunk>>;
 
   generate(args: {
@@ -53,6 +72,7 @@ export interface LLMClient {
     prompt: string;
     stream?: boolean;
     options?: ChatOptions;
+    signal?: AbortSignal;
   }): Promise<GenerateResponse | AsyncIterable<StreamChunk>>;
 
   embeddings(args: {
@@ -2,6 +2,7 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import crypto from 'node:crypto';
 import { resolveDb } from './rls.js';
+import { redis, isRedisEnabled } from '../../utils/redis.js';
 export function idempotencyMiddleware(app: FastifyInstance) {
   return async (req: FastifyRequest, reply: FastifyReply) => {
     const key = req.headers['idempotency-key'] as string | undefined;
@@ -23,3 +24,35 @@ export async function storeIdempotent(app: FastifyInstance, req: FastifyRequest,
   const db = resolveDb(app);
   await db.raw(`INSERT INTO app.app_kv (key, value) VALUES (?, ?::jsonb) ON CONFLICT (key) DO NOTHING`, [idem.kvKey, JSON.stringify({ status, body })]);
 }
+
+function onceKey(key: string) {
+  return `once:${crypto.createHash('sha256').update(key).digest('hex')}`;
+}
+
+/**
+ * Claim a one-shot key (e.g. a webhook event id). Resolves false when the key was already claimed.
+ * Redis SET NX EX when connected, otherwise app_kv (durable, no TTL).
+ */
+export async function claimOnce(app: FastifyInstance, key: string, ttlSec = 7 * 24 * 3600): Promise<boolean> {
+  const kvKey = onceKey(key);
+  if (isRedisEnabled() && redis.status === 'ready') {
+    const res = await redis.set(kvKey, '1', 'EX', ttlSec, 'NX');
+    return res === 'OK';
+  }
+  const db = resolveDb(app);
+  const { rows } = await db.raw(
+    `INSERT INTO app.app_kv (key, value) VALUES (?, ?::jsonb) ON CONFLICT (key) DO NOTHING RETURNING key`,
+    [kvKey, JSON.stringify({ claimed_at: new Date().toISOString() })]
+  );
+  return rows.length > 0;
+}
+
+/** Give a claimed key back when the work it guarded failed, so the sender's retry is processed. */
+export async function releaseOnce(app: FastifyInstance, key: string): Promise<void> {
+  const kvKey = onceKey(key);
+  if (isRedisEnabled() && redis.status === 'ready') {
+    await redis.del(kvKey);
+    return;
+  }
+  await resolveDb(app).raw(`DELETE FROM app.app_kv WHERE key = ?`, [kvKey]);
+}
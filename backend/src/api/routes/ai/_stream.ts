@@ -0,0 +1,94 @@
+// src/api/routes/ai/_stream.ts
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+/**
+ * Token streams for the AI routes. The studio asks for Server-Sent Events
+ * (`Accept: text/event-stream`); other callers get the same events as NDJSON
+ * frames (`{"type":"<event>", ...data}`), which is what the routes sent before.
+ *
+ * `signal` aborts when the client goes away before `end()`, so the provider
+ * request is cancelled and nothing half-written gets persisted.
+ */
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface EventStream {
+  readonly signal: AbortSignal;
+  send(event: string, data: Record<string, unknown>): void;
+  end(): void;
+}
+
+const HEARTBEAT_MS = 15_000;
+
+export function streamFormat(req: FastifyRequest): StreamFormat {
+  return String(req.headers.accept || '').toLowerCase().includes('text/event-stream') ? 'sse' : 'ndjson';
+}
+
+export function openEventStream(req: FastifyRequest, reply: FastifyReply, format = streamFormat(req)): EventStream {
+  reply.hijack();
+  const raw = reply.raw;
+  // hijacked replies skip fastify's send path: carry over headers set by hooks (CORS, cookies)
+  for (const [k, v] of Object.entries(reply.getHeaders())) if (v !== undefined) raw.setHeader(k, v as any);
+  raw.writeHead(200, {
+    'content-type': format === 'sse' ? 'text/event-stream; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+    'cache-control': 'no-cache, no-transform',
+    connection: 'keep-alive',
+    'x-accel-buffering': 'no',
+  });
+  if (format === 'sse') raw.write(': ok\n\n');
+
+  const controller = new AbortController();
+  let ended = false;
+  const heartbeat =
+    format === 'sse'
+      ? setInterval(() => {
+          if (!raw.writableEnded) raw.write(': ping\n\n');
+        }, HEARTBEAT_MS)
+      : null;
+  raw.on('close', () => {
+    if (heartbeat) clearInterval(heartbeat);
+    if (!ended) {
+      ended = true;
+      controller.abort();
+      req.log.info('[ai/stream] client went away, generation cancelled');
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    send(event, data) {
+      if (ended || raw.writableEnded) return;
+      raw.write(
+        format === 'sse'
+          ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+          : `${JSON.stringify({ type: event, ...data })}\n`
+      );
+    },
+    end() {
+      if (ended) return;
+      ended = true;
+      if (heartbeat) clearInterval(heartbeat);
+      raw.end();
+    },
+  };
+}
+
+export function isAsyncIterable(x: any): x is AsyncIterable<any> {
+  return x != null && typeof x[Symbol.asyncIterator] === 'function';
+}
+
+/** Text of a provider chunk: generate() yields `response`, chat() yields `message.content`. */
+export function chunkToText(chunk: any): string {
+  if (!chunk) return '';
+  if (typeof chunk === 'string') return chunk;
+  if (chunk instanceof Uint8Array) return new TextDecoder().decode(chunk);
+  return (
+    chunk.response ??
+    chunk.delta ??
+    chunk.message?.content ??
+    chunk.content ??
+    (typeof chunk.text === 'string' ? chunk.text : '')
+  ) || '';
+}
+
+export const isAbortError = (e: any) => e?.name === 'AbortError';
@@ -4,14 +4,17 @@ import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { getClient } from '../../../ai/llm';
 import { ensureSession, appendUserMessage, appendAssistantMessage } from './_chatDb';
+import { openEventStream, isAsyncIterable, chunkToText, isAbortError } from './_stream';
 
 /**
  * Chat API for AI interactions.
  *
  * Exposes a POST /chat/send endpoint that accepts a user message and optionally
  * a session identifier. If no sessionId is provided or the specified session
- * does not exist, a new session is created. The endpoint supports streaming
- * responses from the underlying LLM provider when `stream` is true. It also
+ * does not exist, a new session is created. With `stream: true` the reply is
+ * streamed token by token (SSE or NDJSON, see ./_stream) and the assistant
+ * message is stored only once the stream completes; a client that disconnects
+ * cancels the generation and nothing is stored. It also
  * supports updating a `user_need` field within the session metadata when
  * `updateNeed` is provided.
  */
@@ -90,43 +93,44 @@ export default fp(async function chatPlugin(app: FastifyInstance) {
       // Get the LLM client
       const client = await getClient();
       const sysPrompt = 'You are a helpful assistant. Keep answers concise.';
-      const wantStream = Boolean(stream);
-      const llmResp = await client.chat({
-        messages: [
-          { role: 'system', content: sysPrompt },
-          { role: 'user', content: message },
-        ],
-        stream: wantStream,
-        options: { temperature: 0.2, max_tokens: 600 },
-      });
-      if (wantStream && Symbol.asyncIterator in Object(llmResp)) {
-        // Hijack the response to stream NDJSON chunks
-        reply.hijack();
-        reply.raw.setHeader('content-type', 'application/x-ndjson; charset=utf-8');
-        const enc = new TextEncoder();
+      const messages = [
+        { role: 'system' as const, content: sysPrompt },
+        { role: 'user' as const, content: message },
+      ];
+      const chatOptions = { temperature: 0.2, max_tokens: 600 };
+      if (stream) {
+        const events = openEventStream(req, reply);
+        events.send('start', { sessionId });
         let full = '';
         try {
-          for await (const chunk of llmResp as any) {
-            const delta =
-              (chunk as any)?.delta ??
-              (chunk as any)?.content ??
-              (chunk as any)?.response ??
-              (chunk as any)?.text ??
-              '';
-            if (!delta) continue;
-            full += delta;
-            reply.raw.write(enc.encode(JSON.stringify({ delta }) + '\n'));
+          const llmResp = await client.chat({ messages, stream: true, options: chatOptions, signal: events.signal });
+          if (isAsyncIterable(llmResp)) {
+            for await (const chunk of llmResp) {
+              const delta = chunkToText(chunk);
+              if (!delta) continue;
+              full += delta;
+              events.send('delta', { delta });
+            }
+          } else {
+            full = chunkToText(llmResp);
+            if (full) events.send('delta', { delta: full });
           }
+          if (events.signal.aborted) return;
+          await appendAssistantMessage(db, sessionId, full, { route: 'chat/send' });
+          events.send('final', { sessionId, reply: full });
         } catch (streamErr: any) {
-          req.log?.error?.({ err: streamErr?.message || String(streamErr) }, '[ai/chat] streaming error');
+          if (!events.signal.aborted && !isAbortError(streamErr)) {
+            req.log?.error?.({ err: streamErr?.message || String(streamErr) }, '[ai/chat] streaming error');
+            events.send('error', { message: 'failed_to_process_chat' });
+          }
         } finally {
-          await appendAssistantMessage(db, sessionId, full, { route: 'chat/send' });
-          reply.raw.end();
+          events.end();
         }
         return;
       }
+      const llmResp = await client.chat({ messages, stream: false, options: chatOptions });
       // Non-streaming: extract text response
-      const text = (llmResp as any)?.response ?? String(llmResp ?? '');
+      const text = chunkToText(llmResp);
       await appendAssistantMessage(db, sessionId, text, { route: 'chat/send' });
       return reply.send({ ok: true, sessionId, reply: text });
     } catch (err: any) {
@@ -3,7 +3,10 @@ import fp from 'fastify-plugin';
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { getClient } from '../../../ai/llm';
+import { codegenSystemPrompt } from '../../../ai/codegen-prompt';
 import { ensureSession, appendUserMessage, appendAssistantMessage } from './_chatDb';
+import { sanitizeLandingHtml } from '../../../worker/landing/validate';
+import { openEventStream, isAsyncIterable, chunkToText, isAbortError, type EventStream } from './_stream';
 
 //
 // Helper: Enhance the user prompt when it is too short.
@@ -83,20 +86,13 @@ declare module 'fastify' {
 
 const CODEGEN_GUARD = Symbol.for('plugin.codegen.registered');
 
-function isAsyncIterable(x: any): x is AsyncIterable<any> {
-  return x && typeof x[Symbol.asyncIterator] === 'function';
-}
-function chunkToText(chunk: any): string {
-  if (!chunk) return '';
-  if (typeof chunk === 'string') return chunk;
-  if (chunk instanceof Uint8Array) return new TextDecoder().decode(chunk);
-  return (
-    chunk.response ??
-    chunk.delta ??
-    chunk.message?.content ??
-    chunk.content ??
-    (typeof chunk.text === 'string' ? chunk.text : '')
-  ) || '';
+const modelName = () => process.env.OPENAI_MODEL ?? process.env.OLLAMA_MODEL ?? 'unknown';
+
+/** Result payload: html stays as generated (the studio edits it); the report says what publishing would strip. */
+function codegenData(text: string, format: 'html' | 'react', model: string) {
+  return format === 'html'
+    ? { html: text, report: sanitizeLandingHtml(text).report, meta: { format, model } }
+    : { react: { files: [{ path: 'page.tsx', contents: text }] }, meta: { format, model } };
 }
 
 export default fp(async (app: FastifyInstance) => {
@@ -136,131 +132,84 @@ export default fp(async (app: FastifyInstance) => {
         fileId,
       });
 
-      // Compose a system prompt that strongly biases the generator toward the ITTRI visual identity.
-      // Enhanced with more specific instructions for better landing page generation.
-      const brandInfo = brand?.name
-        ? `Brand: ${brand.name}${brand.primaryColor ? `, Primary Color: ${brand.primaryColor}` : ''}${brand.font ? `, Font: ${brand.font}` : ''}${brand.logoUrl ? `, Logo: ${brand.logoUrl}` : ''}`
-        : '';
+      const sys = codegenSystemPrompt(format, sections, brand);
 
-      const sys = [
-        `You are an expert landing page generator. Generate a modern, professional ${format.toUpperCase()} landing page.`,
-        `Required sections: ${sections.join(', ')}.`,
-        brandInfo ? `Brand requirements: ${brandInfo}` : '',
-        '',
-        'Design System (ITTRI Aesthetic):',
-        '- Background: Use cosmic gradient (bg-gradient-to-b from-sky-50 via-purple-50 to-indigo-50 dark:from-neutral-900 dark:via-neutral-900 dark:to-neutral-900)',
-        '- Glass morphism: Use class "glass" or bg-white/10 dark:bg-neutral-800/30 with backdrop-blur-md for cards/sections',
-        '- Buttons: Use class "btn-futuristic" for primary CTAs, or style with rounded-lg, gradient backgrounds, hover effects',
-        '- Typography: Use semantic HTML, proper heading hierarchy (h1-h6), responsive text sizing',
-        '- Spacing: Use Tailwind padding/margin utilities (p-4, p-6, p-8, mx-auto, max-w-7xl, etc.)',
-        '- Colors: Use CSS variables (var(--foreground), var(--background), var(--primary)) instead of hard-coded colors',
-        '- Responsive: Mobile-first design with sm:, md:, lg: breakpoints',
-        '- Accessibility: Include proper ARIA labels, alt text for images, semantic HTML',
-        '',
-        format === 'html' 
-          ? 'HTML Requirements: Include <!DOCTYPE html>, <html>, <head> with meta tags, <title>, link to Tailwind CSS CDN, and <body> with complete landing page structure.'
-          : 'React Requirements: Export default function component named App. Use React hooks if needed. Include proper imports.',
-        '',
-        'Content Guidelines:',
-        '- Write compelling, clear copy that explains the product/service value proposition',
-        '- Use power words and action-oriented language',
-        '- Include social proof elements (testimonials, stats, logos) when appropriate',
-        '- Ensure CTAs are clear and prominent',
-        '',
-        `Output only the ${format === 'html' ? 'complete, valid HTML document' : 'complete React component'} without any explanation, commentary, or markdown code blocks.`,
-      ].filter(Boolean).join('\n');
+      // Streams open before the prompt work so the client sees the session right away
+      // (and proxies get their headers); failures after this point become `error` events.
+      const events: EventStream | null = stream ? openEventStream(req, reply) : null;
+      events?.send('start', { sessionId });
 
-      // Optionally enhance short prompts to improve output. The original prompt is
-      // replaced if the helper returns a non-empty string. We keep a copy to
-      // record meta information about whether enhancement occurred.
-      const originalPrompt = prompt;
       try {
-        const enhanced = await maybeEnhancePrompt(prompt);
-        if (enhanced && enhanced !== prompt) {
-          prompt = enhanced;
-        }
-      } catch {
-        /* ignore enhancement errors and use original prompt */
-      }
-
-      await appendUserMessage(db, sessionId, [sys, prompt].join('\n'), {
-        route: 'codegen/gen',
-        format,
-        sections,
-        brand,
-        originalPrompt,
-        enhancedPrompt: prompt,
-      });
-
-      const client = await getClient();
-      const wantStream = Boolean(stream);
-
-      // providers return: GenerateResponse {response: string} OR AsyncIterable<StreamChunk>
-      const modelResp = await client.generate({
-        prompt: [sys, prompt].join('\n'),
-        stream: wantStream,
-        options: { temperature: options?.temperature ?? 0.2, max_tokens: options?.max_tokens },
-      });
-
-      // ---- Streaming (NDJSON)
-      if (wantStream && (isAsyncIterable(modelResp))) {
-        reply.hijack();
-        reply.raw.setHeader('content-type', 'application/x-ndjson; charset=utf-8');
-
-        const encoder = new TextEncoder();
-        let total = 0;
-        let assembled = '';
-
+        // Optionally enhance short prompts to improve output. The original prompt is
+        // replaced if the helper returns a non-empty string. We keep a copy to
+        // record meta information about whether enhancement occurred.
+        const originalPrompt = prompt;
         try {
-          for await (const chunk of modelResp) {
-            const delta = chunkToText(chunk);
-            if (delta) {
-              assembled += delta;
-              total += Buffer.byteLength(delta);
-            }
-            reply.raw.write(encoder.encode(JSON.stringify({ type: 'progress', bytes: total }) + '\n'));
+          const enhanced = await maybeEnhancePrompt(prompt);
+          if (enhanced && enhanced !== prompt) {
+            prompt = enhanced;
           }
-        } catch (e) {
-          reply.raw.write(encoder.encode(JSON.stringify({ type: 'error', message: String((e as any)?.message || e) }) + '\n'));
+        } catch {
+          /* ignore enhancement errors and use original prompt */
         }
 
-        await appendAssistantMessage(db, sessionId, assembled, {
-          model: process.env.OPENAI_MODEL ?? process.env.OLLAMA_MODEL ?? 'unknown',
+        await appendUserMessage(db, sessionId, [sys, prompt].join('\n'), {
+          route: 'codegen/gen',
           format,
+          sections,
+          brand,
+          originalPrompt,
+          enhancedPrompt: prompt,
         });
 
-        const finalData =
-          format === 'html'
-            ? { html: assembled, meta: { format, model: 'stream' } }
-            : { react: { files: [{ path: 'page.tsx', contents: assembled }] }, meta: { format, model: 'stream' } };
+        const client = await getClient();
 
-        reply.raw.write(encoder.encode(JSON.stringify({ type: 'final', sessionId, data: finalData }) + '\n'));
-        return reply.raw.end();
-      }
+        // providers return: GenerateResponse {response: string} OR AsyncIterable<StreamChunk>
+        const modelResp = await client.generate({
+          prompt: [sys, prompt].join('\n'),
+          stream: Boolean(events),
+          options: { temperature: options?.temperature ?? 0.2, max_tokens: options?.max_tokens },
+          signal: events?.signal,
+        });
+
+        // ---- Streaming (SSE or NDJSON): token deltas, then the final payload
+        if (events) {
+          let assembled = '';
+          if (isAsyncIterable(modelResp)) {
+            for await (const chunk of modelResp) {
+              const delta = chunkToText(chunk);
+              if (!delta) continue;
+              assembled += delta;
+              events.send('delta', { delta, bytes: Buffer.byteLength(assembled) });
+            }
+          } else {
+            assembled = chunkToText(modelResp);
+            if (assembled) events.send('delta', { delta: assembled, bytes: Buffer.byteLength(assembled) });
+          }
+          // cancelled by the client: nothing is persisted
+          if (events.signal.aborted) return;
 
-      // ---- Non-stream
-      const nonStream =
-        (modelResp as any).response ??
-        (modelResp as any).message?.content ??
-        (modelResp as any).content ??
-        '';
+          await appendAssistantMessage(db, sessionId, assembled, { model: modelName(), format });
+          events.send('final', { sessionId, data: codegenData(assembled, format, modelName()) });
+          return;
+        }
 
-      const saved = await appendAssistantMessage(db, sessionId, String(nonStream), {
-        model: process.env.OPENAI_MODEL ?? process.env.OLLAMA_MODEL ?? 'unknown',
-        format,
-      });
+        // ---- Non-stream
+        const nonStream = chunkToText(modelResp);
 
-      const metaModel = (saved as any)?.meta_json?.model || 'unknown';
+        const saved = await appendAssistantMessage(db, sessionId, nonStream, { model: modelName(), format });
 
-      if (format === 'html') {
-        return reply.send({ ok: true, sessionId, html: String(nonStream), meta: { format, model: metaModel } });
+        const metaModel = (saved as any)?.meta_json?.model || 'unknown';
+        return reply.send({ ok: true, sessionId, ...codegenData(nonStream, format, metaModel) });
+      } catch (e) {
+        if (!events) throw e;
+        if (!events.signal.aborted && !isAbortError(e)) {
+          req.log.error({ err: (e as any)?.message || String(e) }, '[codegen] streaming failed');
+          events.send('error', { message: String((e as any)?.message || e) });
+        }
+      } finally {
+        events?.end();
       }
-      return reply.send({
-        ok: true,
-        sessionId,
-        react: { files: [{ path: 'page.tsx', contents: String(nonStream) }] },
-        meta: { format, model: metaModel },
-      });
     }
   );
 });
@@ -0,0 +1,158 @@
+// src/api/routes/connectors.ts
+
+import crypto from 'node:crypto';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { isEncryptionConfigured, sealJson } from '../../lib/secretBox.js';
+import { PLATFORMS, isPlatform, type Platform } from '../../worker/connectors';
+
+/** Topics to subscribe to on each platform (shown to the seller with the webhook URL). */
+const TOPICS: Record<Platform, string[]> = {
+  shopify: ['orders/create', 'orders/updated', 'orders/cancelled'],
+  woocommerce: ['order.created', 'order.updated'],
+  youcan: ['order.create', 'order.update'],
+};
+
+function webhookUrl(request: FastifyRequest, source: { id: string; platform: string }) {
+  const base = (process.env.PUBLIC_API_BASE_URL || `${request.protocol}://${request.headers.host}`).replace(/\/+$/, '');
+  return `${base}/webhooks/orders/${source.platform}/${source.id}`;
+}
+
+function normalizeDomain(input: any): string | null {
+  const s = String(input ?? '').trim().toLowerCase();
+  if (!s) return null;
+  try {
+    return new URL(s.includes('://') ? s : `https://${s}`).host || null;
+  } catch {
+    return null;
+  }
+}
+
+export default async function connectorRoutes(fastify: FastifyInstance) {
+  const db = (fastify as any).db;
+
+  // Get auth middleware from app
+  const requireAuth = (fastify as any).requireAuth ?? ((_req: any, _rep: any, done: any) => done());
+  const requireSeller = async (req: any, rep: any) => {
+    const sellerId = (req.user as any)?.seller_id || (req.user as any)?.id;
+    if (!sellerId) {
+      return rep.code(403).send({ error: 'Seller access required' });
+    }
+  };
+
+  const ownStore = (storeId: string, sellerId: string) =>
+    db('public.stores').where({ id: storeId, seller_id: sellerId }).first();
+
+  const publicSource = (request: FastifyRequest, s: any) => ({
+    id: s.id,
+    platform: s.platform,
+    shop_domain: s.shop_domain,
+    status: s.status,
+    last_event_at: s.last_event_at,
+    created_at: s.created_at,
+    webhook_url: webhookUrl(request, s),
+    topics: TOPICS[s.platform as Platform] ?? [],
+  });
+
+  /**
+   * GET /api/v1/stores/:storeId/connectors
+   * Order sources (Shopify / WooCommerce / YouCan) feeding this store
+   */
+  fastify.get(
+    '/api/v1/stores/:storeId/connectors',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { storeId } = request.params as { storeId: string };
+      const sellerId = (request.user as any)?.seller_id;
+
+      if (!(await ownStore(storeId, sellerId))) {
+        return reply.code(404).send({ error: 'Store not found' });
+      }
+
+      const sources = await db('public.order_sources')
+        .where({ store_id: storeId })
+        .whereNot({ status: 'inactive' })
+        .orderBy('created_at', 'desc');
+
+      return reply.send({ connectors: sources.map((s: any) => publicSource(request, s)), platforms: PLATFORMS });
+    }
+  );
+
+  /**
+   * POST /api/v1/stores/:storeId/connectors
+   * Register an order source. Returns the webhook URL and signing secret to paste into the
+   * platform; pass `webhook_secret` when the platform issues its own (Shopify, YouCan).
+   */
+  fastify.post(
+    '/api/v1/stores/:storeId/connectors',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { storeId } = request.params as { storeId: string };
+      const body = (request.body as { platform?: string; shop_domain?: string; webhook_secret?: string }) ?? {};
+      const sellerId = (request.user as any)?.seller_id;
+
+      if (!isPlatform(body.platform)) {
+        return reply.code(400).send({ error: `platform must be one of ${PLATFORMS.join(', ')}` });
+      }
+      const shop_domain = normalizeDomain(body.shop_domain);
+      if (body.shop_domain && !shop_domain) {
+        return reply.code(400).send({ error: 'Invalid shop_domain' });
+      }
+      if (!isEncryptionConfigured()) {
+        return reply.code(503).send({ error: 'encryption_key_missing' });
+      }
+      if (!(await ownStore(storeId, sellerId))) {
+        return reply.code(404).send({ error: 'Store not found' });
+      }
+
+      const provided = String(body.webhook_secret ?? '').trim();
+      const webhook_secret = provided || crypto.randomBytes(24).toString('base64url');
+
+      try {
+        const [source] = await db('public.order_sources')
+          .insert({
+            store_id: storeId,
+            seller_id: sellerId,
+            platform: body.platform,
+            shop_domain,
+            credentials_json: { enc: sealJson({ webhook_secret }) },
+            status: 'active',
+          })
+          .returning('*');
+
+        return reply.send({
+          success: true,
+          connector: publicSource(request, source),
+          // Only echoed when we generated it; it can't be read back later
+          webhook_secret: provided ? undefined : webhook_secret,
+        });
+      } catch (e: any) {
+        if (e?.code === '23505') return reply.code(409).send({ error: 'Shop already connected to a store' });
+        throw e;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/stores/:storeId/connectors/:id
+   * Disconnect (secret wiped; later deliveries get 404)
+   */
+  fastify.delete(
+    '/api/v1/stores/:storeId/connectors/:id',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { storeId, id } = request.params as { storeId: string; id: string };
+      const sellerId = (request.user as any)?.seller_id;
+
+      if (!(await ownStore(storeId, sellerId))) {
+        return reply.code(404).send({ error: 'Store not found' });
+      }
+
+      const n = await db('public.order_sources')
+        .where({ id, store_id: storeId })
+        .update({ status: 'inactive', credentials_json: {}, updated_at: db.fn.now() });
+      if (!n) return reply.code(404).send({ error: 'Connector not found' });
+
+      return reply.send({ success: true });
+    }
+  );
+}
@@ -0,0 +1,106 @@
+import fp from 'fastify-plugin';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  CONNECTORS,
+  ConnectorError,
+  applyPlatformOrder,
+  isPlatform,
+  webhookSecret,
+} from '../../worker/connectors';
+
+type Params = { platform: string; sourceId: string };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATUS_BY_CODE: Record<string, number> = {
+  order_id_missing: 422,
+  store_not_found: 410,
+  orders_table_missing_key_column: 503,
+};
+
+/**
+ * Store platform order webhooks: POST /webhooks/orders/:platform/:sourceId
+ * The tenant is the order source in the URL; the body must be signed with that source's secret.
+ * Deliveries are at-least-once, which is fine: orders upsert by platform id and the
+ * conversation init job id is per order.
+ */
+export default fp(async function connectorWebhooks(app: FastifyInstance) {
+  const db: any =
+    typeof (app as any).db === 'function'
+      ? (app as any).db
+      : ((app as any).db?.knex ?? (app as any).db);
+
+  // Own scope so the raw-body parsers stay local to these routes
+  await app.register(async (scope) => {
+    scope.addContentTypeParser('application/json', { parseAs: 'string' }, (req, raw, done) => {
+      (req as any).rawBody = raw;
+      try {
+        done(null, raw ? JSON.parse(raw as string) : {});
+      } catch (e: any) {
+        e.statusCode = 400;
+        done(e, undefined);
+      }
+    });
+    // WooCommerce pings a new webhook with a form post (webhook_id=…)
+    scope.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (req, raw, done) => {
+      (req as any).rawBody = raw;
+      done(null, Object.fromEntries(new URLSearchParams(String(raw || ''))));
+    });
+
+    scope.post('/webhooks/orders/:platform/:sourceId', async (req: FastifyRequest<{ Params: Params }>, reply: FastifyReply) => {
+      const { platform, sourceId } = req.params;
+      if (!isPlatform(platform) || !UUID_RE.test(sourceId)) {
+        return reply.code(404).send({ ok: false, error: 'source_not_found' });
+      }
+      if (!db) {
+        app.log.warn('connector_webhook_no_db');
+        return reply.code(503).send({ ok: false, error: 'db_unavailable' });
+      }
+
+      const body: any = (req as any).body || {};
+      const rawBody = String((req as any).rawBody ?? '');
+      const connector = CONNECTORS[platform];
+
+      if (platform === 'woocommerce' && body.webhook_id && !req.headers['x-wc-webhook-topic']) {
+        return reply.send({ ok: true, ping: true });
+      }
+
+      const source = await db('public.order_sources').where({ id: sourceId, platform }).first();
+      if (!source || source.status === 'inactive') {
+        return reply.code(404).send({ ok: false, error: 'source_not_found' });
+      }
+
+      const secret = webhookSecret(source);
+      if (!secret) {
+        app.log.warn({ order_source_id: source.id }, 'connector_webhook_secret_unreadable');
+        return reply.code(503).send({ ok: false, error: 'secret_unavailable' });
+      }
+      if (!connector.verify(rawBody, req.headers, secret)) {
+        app.log.warn({ order_source_id: source.id, platform }, 'connector_webhook_signature_rejected');
+        return reply.code(401).send({ ok: false, error: 'invalid_signature' });
+      }
+
+      const ev = connector.event(req.headers, body);
+      if (!ev) return reply.send({ ok: true, ignored: true });
+
+      if (source.shop_domain && ev.shop && ev.shop.toLowerCase() !== String(source.shop_domain).toLowerCase()) {
+        app.log.warn({ order_source_id: source.id, shop: ev.shop }, 'connector_webhook_shop_mismatch');
+        return reply.code(403).send({ ok: false, error: 'shop_mismatch' });
+      }
+
+      try {
+        const order = connector.normalize(body);
+        const result = await applyPlatformOrder(db, source, order, ev.topic, app.log);
+        return reply.send({ ok: true, event_id: ev.event_id, ...result });
+      } catch (e: any) {
+        if (e instanceof ConnectorError) {
+          app.log.warn({ order_source_id: source.id, code: e.code }, 'connector_webhook_rejected');
+          return reply.code(STATUS_BY_CODE[e.code] ?? 422).send({ ok: false, error: e.code });
+        }
+        // 5xx so the platform retries the delivery
+        app.log.error({ order_source_id: source.id, err: e?.message || String(e) }, 'connector_webhook_error');
+        return reply.code(500).send({ ok: false, error: 'internal' });
+      }
+    });
+  });
+});
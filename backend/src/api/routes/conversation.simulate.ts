@@ -0,0 +1,98 @@
+// backend/src/api/routes/conversation.simulate.ts
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import fp from 'fastify-plugin';
+import {
+  runSimulation,
+  fixtureFromConversation,
+  SimulationError,
+  type SimFixture,
+} from '../../worker/conversation/simulator.js';
+
+type JwtUser = { id: string; role: 'seller' | 'admin' | string };
+
+const STATUS_BY_CODE: Record<string, number> = {
+  invalid_fixture: 400,
+  store_not_found: 404,
+  conversation_not_found: 404,
+  order_not_found: 404,
+  forbidden: 403,
+};
+
+async function asSeller(trx: any, sellerId: string) {
+  await trx.raw('SET LOCAL ROLE app_admin');
+  await trx.raw(`SELECT set_config('app.current_seller', ?, true)`, [sellerId]);
+}
+
+/**
+ * Conversation simulator (dev/staging): stubbed WhatsApp + scripted LLM, always rolled back.
+ * Mounted only when CONVO_SIMULATOR_ENABLED.
+ */
+export default fp(async function registerConversationSimulator(app: FastifyInstance) {
+  const baseDb: any =
+    typeof (app as any).db === 'function'
+      ? (app as any).db
+      : ((app as any).db?.knex ?? (app as any).db);
+
+  if (!baseDb) {
+    app.log.warn('Conversation simulator: no database bound to app.db; skipping.');
+    return;
+  }
+
+  const fail = (req: FastifyRequest, reply: FastifyReply, err: any, message: string) => {
+    if (err instanceof SimulationError) {
+      return reply.code(STATUS_BY_CODE[err.code] ?? 422).send({ ok: false, error: err.code });
+    }
+    req.log?.error?.(err);
+    return reply.code(500).send({ ok: false, error: 'internal', message });
+  };
+
+  // POST /conversations/simulate { store_id, fixture, mode?: 'scripted'|'live' }
+  app.post('/api/v1/conversations/simulate', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    const body = (req.body as any) ?? {};
+    const store_id = String(body.store_id ?? '');
+    const fixture = body.fixture as SimFixture;
+    const mode = body.mode === 'live' ? 'live' : 'scripted';
+    if (!store_id) return reply.code(400).send({ ok: false, error: 'store_id_required' });
+    if (!fixture?.order || !Array.isArray(fixture?.turns)) {
+      return reply.code(400).send({ ok: false, error: 'invalid_fixture' });
+    }
+
+    try {
+      const result = await runSimulation(baseDb, { ...fixture, name: fixture.name || 'adhoc' }, {
+        store_id,
+        mode,
+        seller_id: user.id,
+        prepare: (trx) => asSeller(trx, user.id),
+        log: req.log,
+      });
+      return reply.send({ ok: true, result });
+    } catch (err) {
+      return fail(req, reply, err, 'conversation_simulation_failed');
+    }
+  });
+
+  // GET /conversations/:id/fixture → replayable fixture recorded from a real conversation
+  app.get('/api/v1/conversations/:id/fixture', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    try {
+      const fixture = await baseDb.transaction(async (trx: any) => {
+        await asSeller(trx, user.id);
+        const convo = await trx('conversations').where({ id: String((req.params as any).id) }).first();
+        if (!convo) throw new SimulationError('conversation_not_found');
+        const store = await trx('stores').where({ id: convo.store_id, seller_id: user.id }).first();
+        if (!store) throw new SimulationError('forbidden');
+        return fixtureFromConversation(trx, convo.id);
+      });
+      return reply.send({ ok: true, fixture });
+    } catch (err) {
+      return fail(req, reply, err, 'conversation_fixture_failed');
+    }
+  });
+}, {
+  name: 'conversation-simulator-routes'
+});
@@ -1,7 +1,15 @@
 // backend/src/api/routes/conversation.ts
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
-import { conversationsForOrder, listRecentStoreConversationsLinkedToOrders } from '../../utils/conversations.js';
+import {
+  conversationsForOrder,
+  listRecentStoreConversationsLinkedToOrders,
+  conversationControl,
+} from '../../utils/conversations.js';
+import { sendWhatsAppText } from '../../utils/whatsappClient.js';
+import { isWithinSessionWindow } from '../../utils/whatsappTemplates.js';
+import { addFollowupJob, cancelFollowupJob } from '../../utils/worker-bus-conversation.js';
+import { followupPolicyForStore, resumedFollowupDueAt } from '../../worker/conversation/followups.js';
 
 type JwtUser = { id: string; role: 'seller' | 'admin' | string };
 
@@ -13,6 +21,10 @@ async function withAdmin<T>(knex: any, sellerId: string, fn: (trx: any) => Promi
   });
 }
 
+function mergeMeta(db: any, patch: any) {
+  return db.raw("COALESCE(metadata,'{}'::jsonb) || ?::jsonb", [JSON.stringify(patch)]);
+}
+
 export default fp(async function registerConversationRoutes(app: FastifyInstance) {
   const baseDb: any =
     typeof (app as any).db === 'function'
@@ -204,6 +216,161 @@ export default fp(async function registerConversationRoutes(app: FastifyInstance
       return reply.code(500).send({ ok: false, error: 'internal', message: 'conversation_update_failed' });
     }
   });
+
+  // ================== HUMAN TAKEOVER ==================
+  // POST /conversations/:id/takeover → AI pauses; the seller answers from the dashboard
+  app.post('/api/v1/conversations/:id/takeover', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    try {
+      const payload = await withAdmin(baseDb, user.id, async (db) => {
+        const seller = await db('sellers').where({ id: user.id }).first().catch(() => null);
+        if (!seller) return { code: 403 as const, body: { ok: false, error: 'not_seller' } };
+
+        const id = String((req.params as any).id);
+        const conversation = await db('conversations').where({ id }).first();
+        if (!conversation) return { code: 404 as const, body: { ok: false, error: 'conversation_not_found' } };
+
+        const store = await db('stores').where({ id: conversation.store_id, seller_id: seller.id }).first();
+        if (!store) return { code: 403 as const, body: { ok: false, error: 'forbidden' } };
+
+        const control = { mode: 'agent' as const, agent_id: user.id, since: new Date().toISOString() };
+        const patch: any = { control };
+
+        // No automated reminders while a human owns the thread
+        const f = conversation.metadata?.followup;
+        if (f && !f.cancelled_at) {
+          if (f.job_id) await cancelFollowupJob(String(f.job_id)).catch(() => false);
+          patch.followup = { ...f, cancelled_at: control.since, cancel_reason: 'agent_takeover' };
+        }
+
+        const [updated] = await db('conversations')
+          .where({ id })
+          .update({ metadata: mergeMeta(db, patch), updated_at: new Date() })
+          .returning('*');
+
+        return { code: 200 as const, body: { ok: true, conversation: updated, control } };
+      });
+
+      return reply.code(payload.code).send(payload.body);
+    } catch (err) {
+      req.log?.error?.(err);
+      return reply.code(500).send({ ok: false, error: 'internal', message: 'conversation_takeover_failed' });
+    }
+  });
+
+  // ================== HANDBACK TO AI ==================
+  // POST /conversations/:id/handback → the LLM answers the next customer message again
+  app.post('/api/v1/conversations/:id/handback', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    try {
+      const payload = await withAdmin(baseDb, user.id, async (db) => {
+        const seller = await db('sellers').where({ id: user.id }).first().catch(() => null);
+        if (!seller) return { code: 403 as const, body: { ok: false, error: 'not_seller' } };
+
+        const id = String((req.params as any).id);
+        const conversation = await db('conversations').where({ id }).first();
+        if (!conversation) return { code: 404 as const, body: { ok: false, error: 'conversation_not_found' } };
+
+        const store = await db('stores').where({ id: conversation.store_id, seller_id: seller.id }).first();
+        if (!store) return { code: 403 as const, body: { ok: false, error: 'forbidden' } };
+
+        const control = { mode: 'ai' as const, agent_id: null, since: new Date().toISOString() };
+        const patch: any = { control };
+
+        // Reschedule the reminder the takeover suspended; the worker re-checks replies and the order on fire
+        const f = conversation.metadata?.followup;
+        const policy = followupPolicyForStore(store);
+        if (f?.cancel_reason === 'agent_takeover' && f.attempt && conversation.status !== 'closed' && policy.enabled) {
+          const attempt = Number(f.attempt);
+          const due = resumedFollowupDueAt(policy, attempt, f.due_at ? new Date(f.due_at) : null, new Date(control.since));
+          if (due) {
+            try {
+              if (f.job_id) await cancelFollowupJob(String(f.job_id)).catch(() => false);
+              const job = await addFollowupJob(
+                { kind: 'followup', conversation_id: id, store_id: store.id, attempt },
+                { delay: Math.max(0, due.getTime() - Date.now()) }
+              );
+              patch.followup = { attempt, job_id: job.id, due_at: due.toISOString(), pinged_at: f.pinged_at };
+            } catch (e: any) {
+              req.log?.warn?.({ conversation_id: id, attempt, err: e?.message || String(e) }, 'conversation_followup_resume_failed');
+            }
+          }
+        }
+
+        const [updated] = await db('conversations')
+          .where({ id })
+          .update({ metadata: mergeMeta(db, patch), updated_at: new Date() })
+          .returning('*');
+
+        return { code: 200 as const, body: { ok: true, conversation: updated, control } };
+      });
+
+      return reply.code(payload.code).send(payload.body);
+    } catch (err) {
+      req.log?.error?.(err);
+      return reply.code(500).send({ ok: false, error: 'internal', message: 'conversation_handback_failed' });
+    }
+  });
+
+  // ================== AGENT MESSAGE ==================
+  // POST /conversations/:id/messages { text } → sent over the store's WhatsApp number as role 'agent'
+  app.post('/api/v1/conversations/:id/messages', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    const text = String(((req.body as any) ?? {}).text ?? '').trim();
+    if (!text) return reply.code(400).send({ ok: false, error: 'text_required' });
+    if (text.length > 4096) return reply.code(400).send({ ok: false, error: 'text_too_long' });
+
+    try {
+      const payload = await withAdmin(baseDb, user.id, async (db) => {
+        const seller = await db('sellers').where({ id: user.id }).first().catch(() => null);
+        if (!seller) return { code: 403 as const, body: { ok: false, error: 'not_seller' } };
+
+        const id = String((req.params as any).id);
+        const conversation = await db('conversations').where({ id }).first();
+        if (!conversation) return { code: 404 as const, body: { ok: false, error: 'conversation_not_found' } };
+
+        const store = await db('stores').where({ id: conversation.store_id, seller_id: seller.id }).first();
+        if (!store) return { code: 403 as const, body: { ok: false, error: 'forbidden' } };
+
+        if (conversationControl(conversation.metadata).mode !== 'agent') {
+          return { code: 409 as const, body: { ok: false, error: 'takeover_required' } };
+        }
+        const to = String(conversation.metadata?.to ?? '').trim();
+        if (!to) return { code: 409 as const, body: { ok: false, error: 'missing_destination_phone' } };
+
+        // Free-form text is only allowed within 24h of the customer's last message
+        if (!(await isWithinSessionWindow(db, id))) {
+          return { code: 409 as const, body: { ok: false, error: 'session_window_closed' } };
+        }
+
+        const sent = await sendWhatsAppText(db, store.id, to, text);
+        if (!sent.ok) return { code: 502 as const, body: { ok: false, error: 'whatsapp_send_failed', detail: sent.error } };
+
+        const [message] = await db('messages')
+          .insert({
+            conversation_id: id,
+            role: 'agent',
+            content: text,
+            metadata: { origin: 'dashboard', agent_id: user.id },
+            wa_message_id: sent.id ?? null,
+          })
+          .returning('*');
+
+        return { code: 201 as const, body: { ok: true, message } };
+      });
+
+      return reply.code(payload.code).send(payload.body);
+    } catch (err) {
+      req.log?.error?.(err);
+      return reply.code(500).send({ ok: false, error: 'internal', message: 'conversation_message_failed' });
+    }
+  });
 }, {
   name: 'conversation-routes'
 });
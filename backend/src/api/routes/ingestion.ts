@@ -1,8 +1,33 @@
 // src/api/routes/ingestion.ts
 
 import type { FastifyInstance } from 'fastify';
-import { preflightFromSource } from '../../worker/ingest';
-import { suggestMapping } from '../../utils/ingest-map';
+import { preflightFromSource, runIngestJob } from '../../worker/ingest';
+import {
+  CANONICAL_FIELDS,
+  MAPPING_PRESETS,
+  lockedMapping,
+  reviewMapping,
+  suggestMapping,
+  templateCoverage,
+  type MappingEntity,
+  type MappingTemplate,
+  type SavedMapping,
+} from '../../utils/ingest-map';
+import { aiSuggestMapping, INGEST_USE_LLM_MAPPING } from '../../utils/ingest-map-ai';
+import { addIngestJob, type IngestJob, type IngestMapping } from '../../utils/worker-bus-ingest';
+import { withQueuedRun } from '../../worker/ingest/runs';
+import { resetSheetSync } from '../../worker/ingest/sync';
+import { serviceAccountEmail } from '../../utils/googleSheets';
+import type { WritebackConfig } from '../../worker/conversation/writeback';
+
+type PreviewBody = {
+  gsheet_url?: string;
+  entity?: 'orders' | 'products';
+  mapping?: Omit<IngestMapping, 'entity' | 'dryRun' | 'validateOnly'>;
+  validateOnly?: boolean;
+};
+
+const SHEET_RE = /^https:\/\/docs\.google\.com\/spreadsheets\//i;
 
 export default async function ingestionRoutes(fastify: FastifyInstance) {
   const db = (fastify as any).db;
@@ -94,20 +119,20 @@ export default async function ingestionRoutes(fastify: FastifyInstance) {
   );
 
   /**
-   * POST /api/v1/ingestion/sheets/:id/mapping
-   * Save custom field mapping for a sheet
+   * GET /api/v1/ingestion/sheets/:id/runs/:runId
+   * Per-row report for one ingest run (rejected rows + accepted rows with warnings).
+   * `runId` may be "latest".
    */
-  fastify.post(
-    '/api/v1/ingestion/sheets/:id/mapping',
+  fastify.get(
+    '/api/v1/ingestion/sheets/:id/runs/:runId',
     { preHandler: [requireAuth, requireSeller] },
     async (request, reply) => {
-      const { id } = request.params as { id: string };
-      const { mapping, uniqueKey } = request.body as { mapping: Record<string, string>; uniqueKey?: string };
+      const { id, runId } = request.params as { id: string; runId: string };
       const sellerId = (request.user as any)?.seller_id;
 
       // Verify ownership
       const sheet = await db('public.store_sheets as ss')
-        .select('ss.*', 's.seller_id')
+        .select('ss.id', 's.seller_id')
         .join('public.stores as s', 's.id', 'ss.store_id')
         .where({ 'ss.id': id })
         .first();
@@ -116,37 +141,633 @@ export default async function ingestionRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'Sheet not found' });
       }
 
-      // Create mapping config object
-      const mappingConfig = {
-        fields: mapping,
-        uniqueKey: uniqueKey || 'order_id',
+      let run_id = runId;
+      if (runId === 'latest') {
+        const last = await db('public.ingestion_audit')
+          .select('run_id')
+          .where({ store_sheet_id: id })
+          .orderBy('processed_at', 'desc')
+          .first();
+        if (!last) return reply.code(404).send({ error: 'Run not found' });
+        run_id = last.run_id;
+      }
+
+      const rows = await db('public.ingestion_audit')
+        .select('row_number', 'external_row_id', 'status', 'error_message', 'processed_at')
+        .where({ store_sheet_id: id, run_id })
+        .orderBy('row_number', 'asc');
+
+      if (!rows.length) {
+        return reply.code(404).send({ error: 'Run not found' });
+      }
+
+      const counts = { error: 0, skipped: 0, success: 0 } as Record<string, number>;
+      for (const r of rows) counts[r.status] = (counts[r.status] || 0) + 1;
+
+      return reply.send({
+        run_id,
+        sheet_id: id,
+        counts: { rejected: counts.error + counts.skipped, warnings: counts.success },
+        rows: rows.map((r: any) => ({
+          row: r.row_number,
+          key: r.external_row_id,
+          status: r.status === 'success' ? 'warning' : r.status,
+          messages: String(r.error_message || '').split('\n').filter(Boolean),
+        })),
+      });
+    }
+  );
+
+  /**
+   * POST /api/v1/ingestion/stores/:storeId/preview
+   * Dry ingest: what would be inserted/updated/rejected, without writing orders/products.
+   * Pass `gsheet_url` to preview a sheet before switching the store to it.
+   */
+  fastify.post(
+    '/api/v1/ingestion/stores/:storeId/preview',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { storeId } = request.params as { storeId: string };
+      const body = (request.body || {}) as PreviewBody;
+      const sellerId = (request.user as any)?.seller_id;
+
+      const store = await db('public.stores').where({ id: storeId, seller_id: sellerId }).first();
+      if (!store) {
+        return reply.code(404).send({ error: 'Store not found' });
+      }
+
+      const url = typeof body.gsheet_url === 'string' ? body.gsheet_url.trim() : '';
+      if (url && !SHEET_RE.test(url)) {
+        return reply.code(400).send({ error: 'invalid_gsheet_url' });
+      }
+
+      const entity = body.entity === 'products' ? 'products' : 'orders';
+      const job: IngestJob = {
+        kind: 'ingest',
+        store_id: store.id,
+        seller_id: sellerId,
+        ...(url ? { source: { type: 'url' as const, url } } : {}),
+        mapping: {
+          ...(body.mapping || {}),
+          entity,
+          dryRun: true,
+          validateOnly: Boolean(body.validateOnly),
+        },
+      };
+
+      try {
+        const preview = await runIngestJob(db, job, request.log);
+        if (!preview) return reply.code(500).send({ error: 'Failed to preview ingest' });
+        if (!preview.ok) return reply.code(400).send({ error: preview.error, preview });
+        return reply.send({ success: true, preview });
+      } catch (error: any) {
+        fastify.log.error({ error: error.message, storeId }, 'ingest_preview_failed');
+        return reply.code(500).send({ error: 'Failed to preview ingest' });
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/ingestion/stores/:storeId/commit
+   * Run the real ingest of the store's enabled sheet, with the mapping that was previewed.
+   */
+  fastify.post(
+    '/api/v1/ingestion/stores/:storeId/commit',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { storeId } = request.params as { storeId: string };
+      const body = (request.body || {}) as PreviewBody;
+      const sellerId = (request.user as any)?.seller_id;
+
+      const store = await db('public.stores').where({ id: storeId, seller_id: sellerId }).first();
+      if (!store) {
+        return reply.code(404).send({ error: 'Store not found' });
+      }
+
+      const job = await withQueuedRun(
+        db,
+        {
+          kind: 'ingest',
+          store_id: store.id,
+          seller_id: sellerId,
+          trigger: 'manual',
+          mapping: {
+            ...(body.mapping || {}),
+            entity: body.entity === 'products' ? 'products' : 'orders',
+            dryRun: false,
+            validateOnly: false,
+          },
+        },
+        request.log
+      );
+
+      const result = await queueOrRunInline(job, request.log);
+      return reply.code(result.queued ? 200 : 202).send(result);
+    }
+  );
+
+  /** Queue a real run; without a queue (Redis disabled) run it in-process and let the seller poll the run. */
+  const queueOrRunInline = async (job: IngestJob, log: any) => {
+    const run_id = job.run_id ?? null;
+    try {
+      const queued = await addIngestJob(job);
+      return { success: true, jobId: queued.id, run_id, queued: true };
+    } catch (error: any) {
+      fastify.log.warn({ error: error.message, storeId: job.store_id }, 'ingest_commit_queue_unavailable_running_inline');
+      void runIngestJob(db, job, log).catch((e: any) =>
+        fastify.log.error({ error: String(e?.message || e), storeId: job.store_id }, 'ingest_commit_inline_failed')
+      );
+      return { success: true, run_id, queued: false };
+    }
+  };
+
+  const publicRun = (r: any) => ({
+    id: r.id,
+    store_id: r.store_id,
+    store_sheet_id: r.store_sheet_id,
+    job_id: r.job_id,
+    trigger: r.trigger,
+    entity: r.entity,
+    source: r.source,
+    status: r.status,
+    counts: { read: r.rows_read, written: r.rows_written, failed: r.rows_failed, warned: r.rows_warned },
+    error: r.error,
+    retry_of: r.retry_of,
+    attempts: r.attempts,
+    started_at: r.started_at,
+    finished_at: r.finished_at,
+    duration_ms: r.duration_ms,
+    created_at: r.created_at,
+  });
+
+  const ownRun = (runId: string, sellerId: string) =>
+    db('public.ingest_runs').where({ id: runId, seller_id: sellerId }).first();
+
+  /**
+   * GET /api/v1/ingestion/stores/:storeId/runs
+   * Ingest run history for a store, newest first (`?limit=`, `?before=<created_at>` to page)
+   */
+  fastify.get(
+    '/api/v1/ingestion/stores/:storeId/runs',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { storeId } = request.params as { storeId: string };
+      const { limit, before } = (request.query || {}) as { limit?: string; before?: string };
+      const sellerId = (request.user as any)?.seller_id;
+
+      const store = await db('public.stores').where({ id: storeId, seller_id: sellerId }).first();
+      if (!store) {
+        return reply.code(404).send({ error: 'Store not found' });
+      }
+
+      const q = db('public.ingest_runs')
+        .where({ store_id: storeId })
+        .orderBy('created_at', 'desc')
+        .limit(Math.min(Math.max(Number(limit) || 20, 1), 100));
+      if (before && !Number.isNaN(Date.parse(before))) q.where('created_at', '<', new Date(before));
+
+      const runs = await q;
+      return reply.send({ runs: runs.map(publicRun) });
+    }
+  );
+
+  /**
+   * GET /api/v1/ingestion/runs/:runId
+   * One run: mapping used, counts, and the rows it could not apply (first 200)
+   */
+  fastify.get(
+    '/api/v1/ingestion/runs/:runId',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { runId } = request.params as { runId: string };
+      const sellerId = (request.user as any)?.seller_id;
+
+      const run = await ownRun(runId, sellerId).catch(() => null);
+      if (!run) {
+        return reply.code(404).send({ error: 'Run not found' });
+      }
+
+      const [rows, stored, retries] = await Promise.all([
+        db('public.ingest_run_rows')
+          .select('row_number', 'external_key', 'reason', 'errors')
+          .where({ run_id: run.id })
+          .orderBy('row_number', 'asc')
+          .limit(200),
+        db('public.ingest_run_rows').where({ run_id: run.id }).count('* as count').first(),
+        db('public.ingest_runs').select('id', 'status', 'created_at').where({ retry_of: run.id }).orderBy('created_at', 'desc'),
+      ]);
+
+      return reply.send({
+        run: { ...publicRun(run), mapping: run.mapping },
+        failed_rows: rows.map((r: any) => ({
+          row: r.row_number,
+          key: r.external_key,
+          reason: r.reason,
+          messages: String(r.errors || '').split('\n').filter(Boolean),
+        })),
+        failed_rows_stored: Number(stored?.count ?? 0),
+        retries,
+      });
+    }
+  );
+
+  /**
+   * POST /api/v1/ingestion/runs/:runId/retry
+   * Replay the rows a run rejected or could not write, with the mapping it used
+   * (pass `mapping.fields` / `mapping.uniqueKey` to correct it).
+   */
+  fastify.post(
+    '/api/v1/ingestion/runs/:runId/retry',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { runId } = request.params as { runId: string };
+      const body = (request.body || {}) as { mapping?: Pick<IngestMapping, 'fields' | 'uniqueKey'> };
+      const sellerId = (request.user as any)?.seller_id;
+
+      const run = await ownRun(runId, sellerId).catch(() => null);
+      if (!run) {
+        return reply.code(404).send({ error: 'Run not found' });
+      }
+      if (run.status === 'queued' || run.status === 'running') {
+        return reply.code(409).send({ error: 'Run is still in progress' });
+      }
+
+      const failed = await db('public.ingest_run_rows').where({ run_id: run.id }).first('id');
+      if (!failed) {
+        return reply.code(409).send({ error: 'No failed rows to retry' });
+      }
+
+      const job = await withQueuedRun(
+        db,
+        {
+          kind: 'ingest',
+          store_id: run.store_id,
+          seller_id: sellerId,
+          trigger: 'retry',
+          retry_of: run.id,
+          mapping: {
+            entity: entityOf(run.entity),
+            fields: body.mapping?.fields ?? run.mapping?.fields,
+            uniqueKey: body.mapping?.uniqueKey ?? run.mapping?.uniqueKey,
+          },
+        },
+        request.log
+      );
+
+      const result = await queueOrRunInline(job, request.log);
+      return reply.code(result.queued ? 200 : 202).send(result);
+    }
+  );
+
+  const ownSheet = (id: string, sellerId: string) =>
+    db('public.store_sheets as ss')
+      .select('ss.*', 's.seller_id')
+      .join('public.stores as s', 's.id', 'ss.store_id')
+      .where({ 'ss.id': id })
+      .first()
+      .then((sheet: any) => (sheet && sheet.seller_id === sellerId ? sheet : null));
+
+  /** Built-in presets first, then the seller's own templates. */
+  const listTemplates = async (sellerId: string, entity: MappingEntity): Promise<MappingTemplate[]> => {
+    const rows = await db('public.mapping_templates')
+      .where({ seller_id: sellerId, entity })
+      .orderBy('name', 'asc');
+    return [
+      ...MAPPING_PRESETS.filter((t) => t.entity === entity),
+      ...rows.map((r: any) => ({ id: r.id, name: r.name, entity: r.entity, fields: r.fields, uniqueKey: r.unique_key ?? undefined })),
+    ];
+  };
+
+  /** { field: header } restricted to canonical fields; null when nothing usable is left. */
+  const cleanFields = (entity: MappingEntity, input: any): Record<string, string> | null => {
+    const out: Record<string, string> = {};
+    for (const f of CANONICAL_FIELDS[entity]) {
+      const h = input?.[f];
+      if (typeof h === 'string' && h.trim()) out[f] = h.trim().slice(0, 200);
+    }
+    return Object.keys(out).length ? out : null;
+  };
+
+  const entityOf = (v: any): MappingEntity => (v === 'products' ? 'products' : 'orders');
+
+  /**
+   * GET /api/v1/ingestion/sheets/:id/mapping
+   * Mapping review: per-field suggestion (locked > template > AI > heuristic) with confidence
+   * and sample values, plus the templates that fit these headers. `?template=<id>` previews one.
+   */
+  fastify.get(
+    '/api/v1/ingestion/sheets/:id/mapping',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const query = request.query as { entity?: string; template?: string };
+      const sellerId = (request.user as any)?.seller_id;
+      const entity = entityOf(query.entity);
+
+      const sheet = await ownSheet(id, sellerId);
+      if (!sheet) {
+        return reply.code(404).send({ error: 'Sheet not found' });
+      }
+
+      let headers: string[] = [];
+      let rows: any[] = [];
+      try {
+        const pf = await preflightFromSource(db, sheet.store_id, { type: 'url', url: sheet.gsheet_url });
+        headers = pf.headers;
+        rows = pf.rows;
+      } catch (error: any) {
+        fastify.log.warn({ error: error.message, sheetId: id }, 'mapping_review_preflight_failed');
+        return reply.code(502).send({ error: 'sheet_unreachable' });
+      }
+      if (!headers.length) {
+        return reply.code(422).send({ error: 'sheet_empty' });
+      }
+
+      const templates = await listTemplates(sellerId, entity);
+      const template = query.template ? templates.find((t) => t.id === query.template) : null;
+      if (query.template && !template) {
+        return reply.code(404).send({ error: 'Template not found' });
+      }
+
+      const locked = lockedMapping(sheet, entity);
+      let ai: Awaited<ReturnType<typeof aiSuggestMapping>> | null = null;
+      // Only worth a model call when the seller hasn't settled the mapping yet
+      if (!locked && !template && INGEST_USE_LLM_MAPPING) {
+        try {
+          ai = await aiSuggestMapping(entity, headers, rows.slice(0, 8));
+        } catch (error: any) {
+          fastify.log.warn({ error: error.message, sheetId: id }, 'mapping_review_ai_failed');
+        }
+      }
+
+      const review = reviewMapping(entity, headers, rows, { locked: template ? null : locked, template, ai });
+
+      return reply.send({
+        ...review,
+        headers,
+        locked: locked ? { template_id: locked.template_id ?? null, updated_at: locked.updated_at ?? null } : null,
+        stale_fields: locked ? Object.keys(locked.fields).filter((f) => !headers.includes(locked.fields[f])) : [],
+        templates: templates
+          .map((t) => ({ id: t.id, name: t.name, builtin: !!t.builtin, coverage: Math.round(templateCoverage(t, headers) * 100) / 100 }))
+          .sort((a, b) => b.coverage - a.coverage),
+      });
+    }
+  );
+
+  /**
+   * POST /api/v1/ingestion/sheets/:id/mapping
+   * Save the reviewed mapping as the sheet's locked mapping ({ field: header }).
+   * `save_as_template` also stores it as a named template for other stores.
+   */
+  fastify.post(
+    '/api/v1/ingestion/sheets/:id/mapping',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const body = (request.body as {
+        mapping?: Record<string, string>;
+        uniqueKey?: string;
+        entity?: string;
+        template_id?: string | null;
+        save_as_template?: string | null;
+      }) ?? {};
+      const sellerId = (request.user as any)?.seller_id;
+      const entity = entityOf(body.entity);
+
+      const sheet = await ownSheet(id, sellerId);
+      if (!sheet) {
+        return reply.code(404).send({ error: 'Sheet not found' });
+      }
+
+      const fields = cleanFields(entity, body.mapping);
+      if (!fields) {
+        return reply.code(400).send({ error: 'mapping must map at least one field' });
+      }
+      const uniqueKey = body.uniqueKey || (entity === 'products' ? 'sku' : 'order_id');
+      if (!fields[uniqueKey]) {
+        return reply.code(400).send({ error: `uniqueKey "${uniqueKey}" must be mapped to a column` });
+      }
+
+      const mappingConfig: SavedMapping = {
+        entity,
+        fields,
+        uniqueKey,
+        locked: true,
+        template_id: typeof body.template_id === 'string' ? body.template_id : null,
         updated_at: new Date().toISOString(),
       };
 
-      // FIXED: Actually persist the mapping as JSON
-      // We use JSONB column if it exists, or create a TEXT column and store JSON string
+      const templateName = String(body.save_as_template ?? '').trim().slice(0, 80);
       try {
-        await db('public.store_sheets')
-          .where({ id })
-          .update({
-            field_mapping: db.raw('?::jsonb', [JSON.stringify(mappingConfig)]),
-            updated_at: db.fn.now(),
-          });
-      } catch (err: any) {
-        // If field_mapping column doesn't exist, use raw_payload_json as fallback
-        if (err?.message?.includes('column "field_mapping"')) {
-          await db('public.store_sheets')
+        const template = await db.transaction(async (trx: any) => {
+          await trx('public.store_sheets')
             .where({ id })
             .update({
-              raw_payload_json: db.raw('?::jsonb', [JSON.stringify({ mapping: mappingConfig })]),
-              updated_at: db.fn.now(),
+              column_mapping: trx.raw('?::jsonb', [JSON.stringify(mappingConfig)]),
+              updated_at: trx.fn.now(),
             });
-        } else {
-          throw err;
+          await resetSheetSync(trx, id);
+          if (!templateName) return null;
+          const [row] = await trx('public.mapping_templates')
+            .insert({ seller_id: sellerId, name: templateName, entity, fields, unique_key: uniqueKey })
+            .returning(['id', 'name']);
+          return row;
+        });
+
+        return reply.send({ success: true, mapping: mappingConfig, template });
+      } catch (e: any) {
+        if (e?.code === '23505') return reply.code(409).send({ error: 'A template with this name already exists' });
+        throw e;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/ingestion/sheets/:id/mapping
+   * Unlock: ingest goes back to suggesting a mapping on each run
+   */
+  fastify.delete(
+    '/api/v1/ingestion/sheets/:id/mapping',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const sellerId = (request.user as any)?.seller_id;
+
+      if (!(await ownSheet(id, sellerId))) {
+        return reply.code(404).send({ error: 'Sheet not found' });
+      }
+
+      await db.transaction(async (trx: any) => {
+        await trx('public.store_sheets')
+          .where({ id })
+          .update({ column_mapping: trx.raw(`'{}'::jsonb`), updated_at: trx.fn.now() });
+        await resetSheetSync(trx, id);
+      });
+
+      return reply.send({ success: true });
+    }
+  );
+
+  /**
+   * GET /api/v1/ingestion/mapping-templates
+   * Built-in presets and the seller's saved templates
+   */
+  fastify.get(
+    '/api/v1/ingestion/mapping-templates',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const sellerId = (request.user as any)?.seller_id;
+      const entity = entityOf((request.query as { entity?: string }).entity);
+      return reply.send({ templates: await listTemplates(sellerId, entity) });
+    }
+  );
+
+  /**
+   * POST /api/v1/ingestion/mapping-templates
+   * Save a named template ({ field: header })
+   */
+  fastify.post(
+    '/api/v1/ingestion/mapping-templates',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const body = (request.body as { name?: string; entity?: string; fields?: Record<string, string>; uniqueKey?: string }) ?? {};
+      const sellerId = (request.user as any)?.seller_id;
+      const entity = entityOf(body.entity);
+
+      const name = String(body.name ?? '').trim().slice(0, 80);
+      if (!name) {
+        return reply.code(400).send({ error: 'name is required' });
+      }
+      const fields = cleanFields(entity, body.fields);
+      if (!fields) {
+        return reply.code(400).send({ error: 'fields must map at least one field' });
+      }
+
+      try {
+        const [template] = await db('public.mapping_templates')
+          .insert({ seller_id: sellerId, name, entity, fields, unique_key: body.uniqueKey || null })
+          .returning('*');
+        return reply.send({ success: true, template });
+      } catch (e: any) {
+        if (e?.code === '23505') return reply.code(409).send({ error: 'A template with this name already exists' });
+        throw e;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/ingestion/mapping-templates/:templateId
+   * Sheets locked from it keep their mapping
+   */
+  fastify.delete(
+    '/api/v1/ingestion/mapping-templates/:templateId',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { templateId } = request.params as { templateId: string };
+      const sellerId = (request.user as any)?.seller_id;
+
+      const n = await db('public.mapping_templates').where({ id: templateId, seller_id: sellerId }).del();
+      if (!n) return reply.code(404).send({ error: 'Template not found' });
+
+      return reply.send({ success: true });
+    }
+  );
+
+  /**
+   * GET /api/v1/ingestion/sheets/:id/writeback
+   * Write-back settings, the service account to share the sheet with, and outbox status
+   */
+  fastify.get(
+    '/api/v1/ingestion/sheets/:id/writeback',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const sellerId = (request.user as any)?.seller_id;
+
+      // Verify ownership
+      const sheet = await db('public.store_sheets as ss')
+        .select('ss.id', 'ss.writeback', 's.seller_id')
+        .join('public.stores as s', 's.id', 'ss.store_id')
+        .where({ 'ss.id': id })
+        .first();
+
+      if (!sheet || sheet.seller_id !== sellerId) {
+        return reply.code(404).send({ error: 'Sheet not found' });
+      }
+
+      const counts = await db('public.sheet_writebacks')
+        .select('status')
+        .count('* as n')
+        .where({ store_sheet_id: id })
+        .groupBy('status');
+      const lastFailed = await db('public.sheet_writebacks')
+        .select('external_key', 'last_error', 'updated_at')
+        .where({ store_sheet_id: id, status: 'failed' })
+        .orderBy('updated_at', 'desc')
+        .first();
+
+      return reply.send({
+        writeback: sheet.writeback ?? null,
+        service_account_email: serviceAccountEmail(),
+        counts: Object.fromEntries(counts.map((c: any) => [c.status, Number(c.n)])),
+        last_failure: lastFailed ?? null,
+      });
+    }
+  );
+
+  /**
+   * PUT /api/v1/ingestion/sheets/:id/writeback
+   * Configure which sheet columns receive confirm/cancel results (null turns it off)
+   */
+  fastify.put(
+    '/api/v1/ingestion/sheets/:id/writeback',
+    { preHandler: [requireAuth, requireSeller] },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const body = (request.body as { writeback?: Partial<WritebackConfig> | null }) ?? {};
+      const sellerId = (request.user as any)?.seller_id;
+
+      // Verify ownership
+      const sheet = await db('public.store_sheets as ss')
+        .select('ss.id', 's.seller_id')
+        .join('public.stores as s', 's.id', 'ss.store_id')
+        .where({ 'ss.id': id })
+        .first();
+
+      if (!sheet || sheet.seller_id !== sellerId) {
+        return reply.code(404).send({ error: 'Sheet not found' });
+      }
+
+      const wb = body.writeback;
+      const text = (v: any) => (typeof v === 'string' && v.trim() ? v.trim().slice(0, 200) : null);
+      let config: WritebackConfig | null = null;
+      if (wb) {
+        const status_column = text(wb.status_column);
+        if (!status_column) {
+          return reply.code(400).send({ error: 'status_column is required' });
         }
+        config = {
+          enabled: wb.enabled !== false,
+          status_column,
+          note_column: text(wb.note_column),
+          address_column: text(wb.address_column),
+          key_column: text(wb.key_column),
+          tab: text(wb.tab),
+          labels: {
+            ...(text(wb.labels?.confirmed) ? { confirmed: text(wb.labels?.confirmed)! } : {}),
+            ...(text(wb.labels?.cancelled) ? { cancelled: text(wb.labels?.cancelled)! } : {}),
+          },
+        };
       }
 
-      return reply.send({ success: true, mapping: mappingConfig });
+      await db('public.store_sheets')
+        .where({ id })
+        .update({
+          writeback: config ? db.raw('?::jsonb', [JSON.stringify(config)]) : null,
+          updated_at: db.fn.now(),
+        });
+
+      return reply.send({ success: true, writeback: config });
     }
   );
 
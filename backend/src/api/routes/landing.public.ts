@@ -0,0 +1,169 @@
+// src/api/routes/landing.public.ts
+import fp from 'fastify-plugin';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { resolveDb } from '../_shared/rls';
+import { randomBytes } from 'node:crypto';
+import {
+  LandingError,
+  STATIC_PAGE_CSP,
+  createLandingOrder,
+  isValidSlug,
+  landingCsp,
+  withBeacon,
+} from '../../worker/landing';
+import {
+  BEACON_EVENTS,
+  VISITOR_COOKIE,
+  pruneLandingVisitors,
+  recordLandingEvent,
+  visitorKey,
+  type LandingEvent,
+} from '../../worker/landing/metrics';
+import { assignVariant, runningVariants } from '../../worker/landing/experiments';
+import { LANDING_EVENT_RATE_MAX, LANDING_ORDER_RATE_MAX, LANDING_ORDER_RATE_WINDOW_MS } from '../../utils/flags';
+
+type Params = { slug: string };
+
+const STATUS_BY_CODE: Record<string, number> = {
+  page_not_found: 404,
+  invalid_name: 422,
+  invalid_phone: 422,
+  invalid_address: 422,
+  invalid_quantity: 422,
+  orders_unavailable: 503,
+};
+
+const NOT_FOUND_HTML =
+  '<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">' +
+  '<title>Page not found</title></head><body style="font:16px system-ui,sans-serif;text-align:center;padding:4rem 1rem">' +
+  '<h1>Page not found</h1><p>This page is no longer available.</p></body></html>';
+
+/** Hashed visitor id: the page cookie, else ip + user agent (cookies blocked). */
+function visitorOf(req: FastifyRequest): string {
+  const vid = (req as any).cookies?.[VISITOR_COOKIE];
+  return visitorKey(vid ? `c:${vid}` : `a:${req.ip}|${req.headers['user-agent'] ?? ''}`);
+}
+
+/** sendBeacon posts text/plain, fetch fallbacks may post JSON. */
+function parseEvent(body: any): { type: LandingEvent; variant: string | null } | null {
+  let b = body;
+  if (typeof b === 'string') {
+    try {
+      b = JSON.parse(b);
+    } catch {
+      return null;
+    }
+  }
+  if (!BEACON_EVENTS.includes(b?.type)) return null;
+  return { type: b.type, variant: typeof b.variant === 'string' ? b.variant : null };
+}
+
+/** Counters are best effort; a failed write never breaks the page or the order. */
+async function track(db: any, req: FastifyRequest, slug: string, event: LandingEvent, variant?: string | null) {
+  try {
+    return await recordLandingEvent(db, slug, event, visitorOf(req), variant);
+  } catch (e: any) {
+    req.log.warn({ slug, event, err: e?.message || String(e) }, 'landing_event_failed');
+    return false;
+  }
+}
+
+/**
+ * Hosted landing pages (no auth):
+ *   GET  /p/:slug                              → the published page (or the visitor's A/B variant)
+ *   POST /api/v1/public/landing/:slug/orders   → COD order from its form (rate limited per IP)
+ *   POST /api/v1/public/landing/:slug/events   → funnel beacon: { type: 'view' | 'form_start' }
+ */
+export default fp(async function landingPublic(app: FastifyInstance) {
+  const db = resolveDb(app);
+
+  app.get('/p/:slug', async (req: FastifyRequest<{ Params: Params }>, reply: FastifyReply) => {
+    const { slug } = req.params;
+    const page = isValidSlug(slug)
+      ? await db('public.landing_pages').select('id', 'html').where({ slug, status: 'published' }).first()
+      : null;
+
+    reply.header('content-type', 'text/html; charset=utf-8');
+    if (!page) return reply.header('content-security-policy', STATIC_PAGE_CSP).code(404).send(NOT_FOUND_HTML);
+
+    let vid: string | undefined = (req as any).cookies?.[VISITOR_COOKIE];
+    if (!vid) {
+      vid = randomBytes(12).toString('hex');
+      reply.setCookie(VISITOR_COOKIE, vid, {
+        path: '/',
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.protocol === 'https',
+        maxAge: 365 * 24 * 3600,
+      });
+    }
+    // A running A/B test serves the visitor's (sticky) variant instead of the page
+    let html: string = page.html;
+    let variant: string | null = null;
+    const variants = await runningVariants(db, page.id).catch((e: any) => {
+      req.log.warn({ slug, err: e?.message || String(e) }, 'landing_variants_failed');
+      return [];
+    });
+    if (variants.length) {
+      const v = assignVariant(variants[0].experiment_id, visitorKey(`c:${vid}`), variants);
+      html = v.html;
+      variant = v.id;
+    }
+
+    // Seller HTML runs on the API origin: only our scripts and the Tailwind runtime may execute
+    reply.header('content-security-policy', landingCsp(html, slug, variant));
+    // Short browser-only cache so a re-publish shows up within a minute (the response may set a cookie)
+    return reply.header('cache-control', 'private, max-age=60').send(withBeacon(html, slug, variant));
+  });
+
+  app.post(
+    '/api/v1/public/landing/:slug/events',
+    { config: { rateLimit: { max: LANDING_EVENT_RATE_MAX, timeWindow: 60_000 } } },
+    async (req: FastifyRequest<{ Params: Params }>, reply: FastifyReply) => {
+      const { slug } = req.params;
+      const ev = parseEvent((req as any).body);
+      if (!isValidSlug(slug) || !ev) return reply.code(400).send({ ok: false, error: 'invalid_event' });
+
+      await track(db, req, slug, ev.type, ev.variant);
+      if (Math.random() < 0.001) {
+        pruneLandingVisitors(db).catch((e: any) =>
+          req.log.warn({ err: e?.message || String(e) }, 'landing_visitor_prune_failed')
+        );
+      }
+      return reply.code(204).send();
+    }
+  );
+
+  app.post(
+    '/api/v1/public/landing/:slug/orders',
+    { config: { rateLimit: { max: LANDING_ORDER_RATE_MAX, timeWindow: LANDING_ORDER_RATE_WINDOW_MS } } },
+    async (req: FastifyRequest<{ Params: Params }>, reply: FastifyReply) => {
+      const { slug } = req.params;
+      if (!isValidSlug(slug)) return reply.code(404).send({ ok: false, error: 'page_not_found' });
+
+      const body: any = (req as any).body || {};
+      // Honeypot field hidden from people; bots get a normal-looking answer and no order
+      if (String(body.website ?? '').trim()) {
+        req.log.info({ slug }, 'landing_order_honeypot');
+        return reply.code(201).send({ ok: true });
+      }
+
+      // Every real attempt counts as a submit; orders are counted from the orders they create
+      await track(db, req, slug, 'submit');
+      try {
+        const { reference } = await createLandingOrder(db, slug, body, req.log);
+        return reply.code(201).send({ ok: true, reference });
+      } catch (e: any) {
+        if (e instanceof LandingError) {
+          return reply.code(STATUS_BY_CODE[e.code] ?? 422).send({
+            ok: false,
+            error: e.code,
+            message: e.message !== e.code ? e.message : undefined,
+          });
+        }
+        req.log.error({ slug, err: e?.message || String(e) }, 'landing_order_error');
+        return reply.code(500).send({ ok: false, error: 'internal' });
+      }
+    }
+  );
+}, { name: 'landing-public' });
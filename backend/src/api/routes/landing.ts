@@ -0,0 +1,217 @@
+// src/api/routes/landing.ts
+import fp from 'fastify-plugin';
+import { z } from 'zod';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { resolveDb } from '../_shared/rls';
+import {
+  LandingError,
+  landingPageUrl,
+  normalizeLandingForm,
+  ownHosts,
+  publishLandingPage,
+  sanitizeLandingHtml,
+} from '../../worker/landing';
+import { isHtmlContent } from '../../worker/landing/render';
+import {
+  MAX_VARIANTS,
+  createExperiment,
+  experimentStats,
+  promoteVariant,
+  stopExperiment,
+} from '../../worker/landing/experiments';
+
+const IdParam = z.object({ id: z.string().uuid() });
+
+const STATUS_BY_CODE: Record<string, number> = {
+  file_not_found: 404,
+  version_not_found: 404,
+  store_not_found: 404,
+  product_not_found: 404,
+  unsupported_content: 422,
+  invalid_slug: 400,
+  slug_taken: 409,
+  page_not_found: 404,
+  page_unpublished: 409,
+  experiment_running: 409,
+  experiment_not_found: 404,
+  experiment_ended: 409,
+  variant_not_found: 404,
+  invalid_split: 400,
+};
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    requireAuth?: any;
+  }
+}
+
+function publicBase(req: FastifyRequest) {
+  return process.env.PUBLIC_API_BASE_URL || `${req.protocol}://${req.headers.host}`;
+}
+
+/** Everything but the rendered html, plus the public URL. */
+function pageView(req: FastifyRequest, p: any) {
+  const { html: _html, ...rest } = p;
+  return { ...rest, url: landingPageUrl(publicBase(req), p.slug) };
+}
+
+function landingFailure(reply: FastifyReply, e: any) {
+  if (e instanceof LandingError) {
+    return reply.code(STATUS_BY_CODE[e.code] ?? 400).send({ ok: false, error: e.code, message: e.message });
+  }
+  throw e;
+}
+
+export default fp(async function registerLanding(app: FastifyInstance) {
+  const db = resolveDb(app);
+
+  // Build route options with auth
+  const routeOpts: any = {};
+  if (app.requireAuth) {
+    routeOpts.preHandler = app.requireAuth;
+  }
+
+  // List published/unpublished pages (optionally for one store)
+  app.get('/api/v1/landing/pages', routeOpts, async (req) => {
+    const sellerId = (req as any).user?.id;
+    const storeId = (req.query as any)?.store_id;
+    const q = db('landing_pages').where({ seller_id: sellerId }).orderBy('updated_at', 'desc');
+    if (storeId) q.andWhere({ store_id: String(storeId) });
+    const rows = await q;
+    return { ok: true, pages: rows.map((p: any) => pageView(req, p)) };
+  });
+
+  // Publish (or re-publish) an editor file version as a hosted page with the COD form
+  app.post('/api/v1/landing/pages', routeOpts, async (req, reply) => {
+    const sellerId = (req as any).user?.id;
+    const Parsed = z.object({
+      file_id: z.string().uuid(),
+      version_id: z.string().uuid().optional(),
+      store_id: z.string().uuid(),
+      product_id: z.string().uuid(),
+      slug: z.string().min(3).max(64).optional(),
+      title: z.string().max(200).optional(),
+      form: z.record(z.any()).optional(),
+    }).safeParse((req as any).body || {});
+    if (!Parsed.success) return reply.code(400).send({ ok: false, error: 'bad_request', details: Parsed.error.flatten() });
+
+    const form = normalizeLandingForm(Parsed.data.form);
+    if (!form.ok) return reply.code(400).send({ ok: false, error: 'invalid_form', message: form.error });
+
+    try {
+      const { page, url, version, report } = await publishLandingPage(
+        db,
+        { ...Parsed.data, seller_id: sellerId, form: form.form },
+        publicBase(req)
+      );
+      req.log.info({ landing_page_id: page.id, slug: page.slug, version, removed: report.removed }, 'landing_page_published');
+      return { ok: true, page: pageView(req, page), url, version, report };
+    } catch (e: any) {
+      return landingFailure(reply, e);
+    }
+  });
+
+  // Safety report for HTML before publish: what publishing would strip and what is missing
+  app.post('/api/v1/landing/validate', routeOpts, async (req, reply) => {
+    const Parsed = z.object({ content: z.string().max(2_000_000) }).safeParse((req as any).body || {});
+    if (!Parsed.success) return reply.code(400).send({ ok: false, error: 'bad_request' });
+    if (!isHtmlContent(Parsed.data.content)) {
+      return reply.code(422).send({ ok: false, error: 'unsupported_content', message: 'Only HTML pages can be published' });
+    }
+    const { report } = sanitizeLandingHtml(Parsed.data.content, { ownHosts: ownHosts(publicBase(req)) });
+    return { ok: true, report };
+  });
+
+  // Take a page offline (/p/:slug answers 404; re-publish to bring it back)
+  app.post('/api/v1/landing/pages/:id/unpublish', routeOpts, async (req, reply) => {
+    const params = IdParam.safeParse((req as any).params);
+    if (!params.success) return reply.code(400).send({ ok: false, error: 'bad_request' });
+    const sellerId = (req as any).user?.id;
+    const [page] = await db('landing_pages')
+      .where({ id: params.data.id, seller_id: sellerId })
+      .update({ status: 'unpublished' })
+      .returning('*');
+    if (!page) return reply.code(404).send({ ok: false, error: 'not_found' });
+    return { ok: true, page: pageView(req, page) };
+  });
+
+  /* ----------------------------- A/B tests ------------------------------ */
+
+  // Tests of a page, newest first, with per-variant counts and the significance readout
+  app.get('/api/v1/landing/pages/:id/experiments', routeOpts, async (req, reply) => {
+    const params = IdParam.safeParse((req as any).params);
+    if (!params.success) return reply.code(400).send({ ok: false, error: 'bad_request' });
+    const sellerId = (req as any).user?.id;
+    const rows = await db('landing_experiments')
+      .where({ landing_page_id: params.data.id, seller_id: sellerId })
+      .orderBy('created_at', 'desc')
+      .limit(20);
+    const experiments = [];
+    for (const x of rows) experiments.push({ ...x, ...(await experimentStats(db, x.id)) });
+    return { ok: true, experiments };
+  });
+
+  // Start a test: versions of the page's file with an optional split (even when omitted)
+  app.post('/api/v1/landing/pages/:id/experiments', routeOpts, async (req, reply) => {
+    const params = IdParam.safeParse((req as any).params);
+    const Parsed = z.object({
+      name: z.string().max(120).optional(),
+      variants: z.array(z.object({
+        version_id: z.string().uuid(),
+        weight: z.number().int().optional(),
+      })).min(2).max(MAX_VARIANTS),
+    }).safeParse((req as any).body || {});
+    if (!params.success || !Parsed.success) {
+      return reply.code(400).send({ ok: false, error: 'bad_request', details: Parsed.success ? undefined : Parsed.error.flatten() });
+    }
+
+    try {
+      const experiment = await createExperiment(
+        db,
+        {
+          seller_id: (req as any).user?.id,
+          landing_page_id: params.data.id,
+          name: Parsed.data.name,
+          variants: Parsed.data.variants,
+        },
+        publicBase(req)
+      );
+      req.log.info({ landing_page_id: params.data.id, experiment_id: experiment.id }, 'landing_experiment_started');
+      return reply.code(201).send({ ok: true, experiment: { ...experiment, ...(await experimentStats(db, experiment.id)) } });
+    } catch (e: any) {
+      return landingFailure(reply, e);
+    }
+  });
+
+  // Stop serving variants (the page goes back to its published version); stats stay readable
+  app.post('/api/v1/landing/experiments/:id/stop', routeOpts, async (req, reply) => {
+    const params = IdParam.safeParse((req as any).params);
+    if (!params.success) return reply.code(400).send({ ok: false, error: 'bad_request' });
+    try {
+      const experiment = await stopExperiment(db, (req as any).user?.id, params.data.id);
+      return { ok: true, experiment: { ...experiment, ...(await experimentStats(db, experiment.id)) } };
+    } catch (e: any) {
+      return landingFailure(reply, e);
+    }
+  });
+
+  // Make a variant's version the live page and end the test
+  app.post('/api/v1/landing/experiments/:id/promote', routeOpts, async (req, reply) => {
+    const params = IdParam.safeParse((req as any).params);
+    const Parsed = z.object({ variant_id: z.string().uuid() }).safeParse((req as any).body || {});
+    if (!params.success || !Parsed.success) return reply.code(400).send({ ok: false, error: 'bad_request' });
+    try {
+      const { page, url, version, report, variant } = await promoteVariant(
+        db,
+        (req as any).user?.id,
+        params.data.id,
+        Parsed.data.variant_id,
+        publicBase(req)
+      );
+      req.log.info({ landing_page_id: page.id, experiment_id: params.data.id, variant: variant.label, version }, 'landing_variant_promoted');
+      return { ok: true, page: pageView(req, page), url, version, report, variant };
+    } catch (e: any) {
+      return landingFailure(reply, e);
+    }
+  });
+}, { name: 'landing-pages' });
@@ -46,6 +46,22 @@ type Overview = {
     ai_confirmations: number;
     ai_confirmations_prev: number;
   }>;
+  landing: {
+    totals: LandingFunnel;
+    funnels: Array<LandingFunnel & { product_id: string; title: string | null }>;
+  };
+};
+
+/** Hosted landing page funnel: beacon counters (metrics_daily product rows) + attributed orders. */
+type LandingFunnel = {
+  views: number;
+  visitors: number;
+  form_starts: number;
+  form_submits: number;
+  orders: number;
+  confirmed: number;
+  view_to_order: number;     // orders / visitors
+  order_to_confirmed: number;
 };
 
 function clampDate(d: Date) {
@@ -314,7 +330,73 @@ const metricsPlugin = fp(async function registerMetrics(app: FastifyInstance) {
       }
     }
 
+    // Landing funnel per product: views → visitors → form starts → submits → orders → confirmed
+    const landingRows = await db.raw(
+      `
+      WITH m AS (
+        SELECT md.product_id,
+               SUM(md.impressions)::bigint  AS views,
+               SUM(md.visitors)::bigint     AS visitors,
+               SUM(md.form_starts)::bigint  AS form_starts,
+               SUM(md.form_submits)::bigint AS form_submits
+        FROM app.metrics_daily md
+        WHERE md.seller_id = current_setting('app.current_seller')::uuid
+          AND md.product_id IS NOT NULL
+          AND md.metric_date BETWEEN ? AND ?
+          ${currStoreFilter}
+        GROUP BY md.product_id
+      ),
+      o AS (
+        SELECT lp.product_id,
+               COUNT(*)::bigint AS orders,
+               -- confirmed by the buyer (AI or seller) or already moving to delivery
+               COUNT(*) FILTER (
+                 WHERE o.decision_result->>'status' = 'confirmed' OR o.status IN ('processing', 'completed')
+               )::bigint AS confirmed
+        FROM app.orders o
+        JOIN app.landing_pages lp ON lp.id = o.landing_page_id
+        WHERE lp.seller_id = current_setting('app.current_seller')::uuid
+          AND o.created_at::date BETWEEN ? AND ?
+          ${isUuid(q.storeId) ? 'AND o.store_id = ?' : ''}
+        GROUP BY lp.product_id
+      )
+      SELECT COALESCE(m.product_id, o.product_id) AS product_id,
+             p.title,
+             COALESCE(m.views, 0)        AS views,
+             COALESCE(m.visitors, 0)     AS visitors,
+             COALESCE(m.form_starts, 0)  AS form_starts,
+             COALESCE(m.form_submits, 0) AS form_submits,
+             COALESCE(o.orders, 0)       AS orders,
+             COALESCE(o.confirmed, 0)    AS confirmed
+      FROM m
+      FULL JOIN o ON o.product_id = m.product_id
+      LEFT JOIN app.products p ON p.id = COALESCE(m.product_id, o.product_id)
+      ORDER BY COALESCE(m.views, 0) DESC, COALESCE(o.orders, 0) DESC
+      `,
+      [...paramsCurr, ...paramsCurr]
+    ).then((r: any) => r.rows || []).catch(() => []);
+
     const toNum = (x: any) => (x == null ? 0 : Number(x));
+    const rate = (n: number, d: number) => (d > 0 ? Math.round((n / d) * 10000) / 10000 : 0);
+    const funnel = (r: any): LandingFunnel => {
+      const f = {
+        views: toNum(r.views),
+        visitors: toNum(r.visitors),
+        form_starts: toNum(r.form_starts),
+        form_submits: toNum(r.form_submits),
+        orders: toNum(r.orders),
+        confirmed: toNum(r.confirmed),
+      };
+      return { ...f, view_to_order: rate(f.orders, f.visitors), order_to_confirmed: rate(f.confirmed, f.orders) };
+    };
+    const funnels = landingRows.map((r: any) => ({ product_id: r.product_id, title: r.title ?? null, ...funnel(r) }));
+    const landingTotals = funnel(
+      ['views', 'visitors', 'form_starts', 'form_submits', 'orders', 'confirmed'].reduce(
+        (acc, k) => ({ ...acc, [k]: funnels.reduce((sum: number, f: any) => sum + f[k], 0) }),
+        {} as Record<string, number>
+      )
+    );
+
     const result: Overview = {
       range: { from: fmt(from), to: fmt(to), days: spanDays, previous: { from: fmt(prevFrom), to: fmt(prevTo) } },
       filter: { storeId: q.storeId ?? null },
@@ -343,6 +425,7 @@ const metricsPlugin = fp(async function registerMetrics(app: FastifyInstance) {
         ai_confirmations: toNum(r.ai_confirmations),
         ai_confirmations_prev: toNum(r.ai_confirmations_prev),
       })),
+      landing: { totals: landingTotals, funnels },
     };
 
     return reply.send({ ok: true, data: result });
@@ -3,6 +3,8 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
 import { maskPII } from '../../utils/pii.js';
 import { conversationsForOrder } from '../../utils/conversations.js';
+import { toE164 } from '../../utils/ingest-normalize.js';
+import { composeRisk, riskPolicyForStore, saveOrderRisk } from '../../worker/ingest/risk.js';
 
 /**
  * Minimal JWT user shape injected by upstream auth hook.
@@ -135,6 +137,14 @@ export default fp(async function registerOrderRoutes(app: FastifyInstance) {
           .orderBy('created_at', 'desc');
 
         if (q.status)    ordersQ = ordersQ.where('status', q.status);
+        // risk=flagged → medium or high and not cleared; risk=<level> → that level (scored by ingest)
+        if (q.risk === 'flagged') {
+          ordersQ = ordersQ.whereRaw(
+            "decision_result->'risk'->>'level' IN ('medium','high') AND COALESCE((decision_result->'risk'->>'cleared')::boolean, false) = false"
+          );
+        } else if (['low', 'medium', 'high'].includes(q.risk)) {
+          ordersQ = ordersQ.whereRaw("decision_result->'risk'->>'level' = ?", [q.risk]);
+        }
         if (q.from_date) ordersQ = ordersQ.where('created_at', '>=', q.from_date);
         if (q.to_date)   ordersQ = ordersQ.where('created_at', '<=', q.to_date);
 
@@ -290,6 +300,122 @@ export default fp(async function registerOrderRoutes(app: FastifyInstance) {
     }
   });
 
+  // RISK: POST /api/v1/orders/:id/risk  { action: 'clear' | 'block_phone', reason? }
+  // clear → the seller vouches for the order (messaged as usual); block_phone → its phone goes on the block list
+  app.post('/api/v1/orders/:id/risk', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    try {
+      const payload = await withAdmin(baseDb, user.id, async (db) => {
+        const seller = await db('sellers').where({ id: user.id }).first().catch(() => null);
+        if (!seller) return { code: 403 as const, body: { ok: false, error: 'not_seller' } };
+
+        const id = String((req.params as any).id);
+        const order = await db('orders').where({ id }).first();
+        if (!order) return { code: 404 as const, body: { ok: false, error: 'order_not_found' } };
+
+        // ensure the order belongs to this seller
+        const store = await db('stores').where({ id: order.store_id, seller_id: seller.id }).first();
+        if (!store) return { code: 403 as const, body: { ok: false, error: 'forbidden' } };
+
+        const { action, reason } = (req.body as any) ?? {};
+        const current = order.decision_result?.risk ?? null;
+
+        if (action === 'clear') {
+          if (!current) return { code: 409 as const, body: { ok: false, error: 'order_not_scored' } };
+          const risk = { ...current, cleared: true, cleared_at: new Date().toISOString() };
+          await saveOrderRisk(db, id, risk);
+          return { code: 200 as const, body: { ok: true, risk } };
+        }
+
+        if (action === 'block_phone') {
+          const customer = order.customer_id
+            ? await db('customers').select('phone').where({ id: order.customer_id }).first()
+            : null;
+          const phone = toE164(customer?.phone);
+          if (!phone) return { code: 409 as const, body: { ok: false, error: 'order_has_no_phone' } };
+
+          await db('blocked_phones')
+            .insert({ seller_id: seller.id, phone, reason: reason ? String(reason).slice(0, 200) : 'blocked from order' })
+            .onConflict(['seller_id', 'phone'])
+            .ignore();
+          const risk = composeRisk(
+            riskPolicyForStore(store),
+            [{ code: 'phone_blocked' }, ...(current?.reasons ?? []).filter((r: any) => r.code !== 'phone_blocked')],
+            current?.duplicate_of ?? null
+          );
+          await saveOrderRisk(db, id, risk);
+          return { code: 200 as const, body: { ok: true, risk, blocked_phone: phone } };
+        }
+
+        return { code: 400 as const, body: { ok: false, error: 'invalid_action', details: { allowed: ['clear', 'block_phone'] } } };
+      });
+
+      return reply.code(payload.code).send(payload.body);
+    } catch (err) {
+      req.log?.error?.(err);
+      return reply.code(500).send({ ok: false, error: 'internal', message: 'order_risk_update_failed' });
+    }
+  });
+
+  // BLOCK LIST: GET /api/v1/blocked-phones
+  app.get('/api/v1/blocked-phones', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    try {
+      const phones: any[] = await withAdmin(baseDb, user.id, (db) =>
+        db('blocked_phones').where({ seller_id: user.id }).orderBy('created_at', 'desc')
+      );
+      return reply.send({ ok: true, phones: phones.map((p: any) => ({ ...p, phone: maskPII(p.phone) })) });
+    } catch (err) {
+      req.log?.error?.(err);
+      return reply.code(500).send({ ok: false, error: 'internal', message: 'blocked_phones_list_failed' });
+    }
+  });
+
+  // BLOCK LIST: POST /api/v1/blocked-phones  { phone, reason? } (local numbers use the default calling code)
+  app.post('/api/v1/blocked-phones', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    const body = (req.body as any) ?? {};
+    const phone = toE164(body.phone);
+    if (!phone) return reply.code(400).send({ ok: false, error: 'invalid_phone' });
+
+    try {
+      const [row]: any[] = await withAdmin(baseDb, user.id, (db) =>
+        db('blocked_phones')
+          .insert({ seller_id: user.id, phone, reason: body.reason ? String(body.reason).slice(0, 200) : null })
+          .onConflict(['seller_id', 'phone'])
+          .merge(['reason'])
+          .returning('*')
+      );
+      return reply.code(201).send({ ok: true, blocked: { ...row, phone: maskPII(row.phone) } });
+    } catch (err) {
+      req.log?.error?.(err);
+      return reply.code(500).send({ ok: false, error: 'internal', message: 'blocked_phone_create_failed' });
+    }
+  });
+
+  // BLOCK LIST: DELETE /api/v1/blocked-phones/:id (already-scored orders keep their score)
+  app.delete('/api/v1/blocked-phones/:id', async (req: FastifyRequest, reply: FastifyReply) => {
+    const user = (req as any).user as JwtUser;
+    if (!user?.id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+    try {
+      const n = await withAdmin(baseDb, user.id, (db) =>
+        db('blocked_phones').where({ id: String((req.params as any).id), seller_id: user.id }).delete()
+      );
+      if (!n) return reply.code(404).send({ ok: false, error: 'blocked_phone_not_found' });
+      return reply.send({ ok: true });
+    } catch (err) {
+      req.log?.error?.(err);
+      return reply.code(500).send({ ok: false, error: 'internal', message: 'blocked_phone_delete_failed' });
+    }
+  });
+
   // ================== Order-scoped AI (ITTRI) via proxy ==================
   // POST /api/v1/orders/:id/ai
   app.post('/api/v1/orders/:id/ai', async (req: FastifyRequest, reply: FastifyReply) => {
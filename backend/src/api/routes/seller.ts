@@ -5,6 +5,16 @@ import { importJWK, jwtVerify, JWK } from 'jose';
 import { maskPII } from '../../utils/pii.js';
 import { resolveStoreLimit } from '../../utils/plan.js';
 import { listRecentStoreConversationsLinkedToOrders } from '../../utils/conversations.js';
+import { isWhatsAppEnvConfigured } from '../../utils/flags.js';
+import {
+  resolveWhatsAppSender,
+  sendWhatsAppText,
+  verifyWhatsAppCredentials,
+  WhatsAppChannelError,
+} from '../../utils/whatsappClient.js';
+import { isEncryptionConfigured, sealJson } from '../../lib/secretBox.js';
+import { normalizeStoreTemplates, TEMPLATE_VARIABLES } from '../../utils/whatsappTemplates.js';
+import { normalizeRiskPolicy, riskPolicyForStore } from '../../worker/ingest/risk.js';
 
 /* =========================================================================================
    Types & small utils
@@ -53,6 +63,22 @@ const isUuid = (s?: string) =>
   typeof s === 'string' &&
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(s);
 
+/** Channel row as returned to the UI — credentials never leave the server. */
+function publicChannel(ch: any) {
+  return {
+    id: ch.id,
+    phone_number_id: ch.phone_number_id,
+    display_phone: ch.display_phone ?? null,
+    waba_id: ch.waba_id ?? null,
+    status: ch.status,
+    has_credentials: !!ch.credentials_json?.enc,
+    verified_name: ch.metadata?.verified_name ?? null,
+    last_test_at: ch.metadata?.last_test_at ?? null,
+    last_test_ok: ch.metadata?.last_test_ok ?? null,
+    updated_at: ch.updated_at,
+  };
+}
+
 /* =========================================================================================
    AUTH/IDENTITY  (same precedence as other routes)
 ========================================================================================= */
@@ -760,6 +786,230 @@ export default async function registerSellerRoutes(app: FastifyInstance) {
     return reply.send({ ok: true, stores, count: stores.length });
   });
 
+  /* ================== WHATSAPP (per-store Business number) ================== */
+
+  // GET /seller/stores/:id/whatsapp  → connection status (never returns the token)
+  app.get('/seller/stores/:id/whatsapp', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    const ch = await db('channels')
+      .where({ store_id: id, provider: 'whatsapp' })
+      .orderBy('updated_at', 'desc')
+      .first();
+    return reply.send({
+      ok: true,
+      whatsapp: ch ? publicChannel(ch) : null,
+      env_fallback: isWhatsAppEnvConfigured(),
+    });
+  });
+
+  // PUT /seller/stores/:id/whatsapp  { phone_number_id, access_token, waba_id? }
+  app.put('/seller/stores/:id/whatsapp', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+    const body = (req.body as any) ?? {};
+
+    const phone_number_id = String(body.phone_number_id ?? '').trim();
+    const access_token = String(body.access_token ?? '').trim();
+    const waba_id = body.waba_id ? String(body.waba_id).trim() : null;
+    if (!/^\d{6,}$/.test(phone_number_id)) return reply.code(400).send({ ok: false, error: 'invalid_phone_number_id' });
+    if (!access_token) return reply.code(400).send({ ok: false, error: 'access_token_required' });
+    if (!isEncryptionConfigured()) return reply.code(503).send({ ok: false, error: 'encryption_key_missing' });
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    // Verify with Meta before persisting anything
+    const check = await verifyWhatsAppCredentials(access_token, phone_number_id);
+    if (!check.ok) {
+      return reply.code(422).send({ ok: false, error: 'whatsapp_credentials_rejected', detail: check.error });
+    }
+
+    try {
+      const channel = await db.transaction(async (trx: any) => {
+        // one WhatsApp channel per store: retire any previous number
+        await trx('channels')
+          .where({ store_id: id, provider: 'whatsapp' })
+          .whereNot({ phone_number_id })
+          .update({ status: 'inactive', credentials_json: {}, updated_at: new Date() });
+
+        const values = {
+          store_id: id,
+          seller_id: userId,
+          provider: 'whatsapp',
+          phone_number_id,
+          waba_id,
+          display_phone: check.display_phone ?? null,
+          credentials_json: { enc: sealJson({ access_token }) },
+          status: 'active',
+          metadata: { verified_name: check.verified_name ?? null, verified_at: new Date().toISOString() },
+          updated_at: new Date(),
+        };
+        const existing = await trx('channels').where({ store_id: id, provider: 'whatsapp', phone_number_id }).first();
+        const [row] = existing
+          ? await trx('channels').where({ id: existing.id }).update(values).returning('*')
+          : await trx('channels').insert(values).returning('*');
+        return row;
+      });
+      return reply.send({ ok: true, whatsapp: publicChannel(channel) });
+    } catch (e: any) {
+      if (e?.code === '23505') return reply.code(409).send({ ok: false, error: 'whatsapp_number_in_use' });
+      throw e;
+    }
+  });
+
+  // POST /seller/stores/:id/whatsapp/test  { to? } → re-verify, optionally send a test text
+  app.post('/seller/stores/:id/whatsapp/test', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+    const to = String(((req.body as any) ?? {}).to ?? '').trim();
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    let sender;
+    try {
+      sender = await resolveWhatsAppSender(db, id, { retest: true });
+    } catch (e) {
+      // unreadable credentials: the seller has to reconnect the number
+      if (e instanceof WhatsAppChannelError) return reply.code(409).send({ ok: false, error: e.code });
+      throw e;
+    }
+    if (!sender) return reply.code(409).send({ ok: false, error: 'whatsapp_not_connected' });
+
+    const check = await verifyWhatsAppCredentials(sender.token, sender.phoneNumberId);
+    if (sender.channel_id) {
+      await db('channels')
+        .where({ id: sender.channel_id })
+        .update({
+          status: check.ok ? 'active' : 'error',
+          metadata: db.raw("COALESCE(metadata,'{}'::jsonb) || ?::jsonb", [
+            JSON.stringify({ last_test_at: new Date().toISOString(), last_test_ok: check.ok }),
+          ]),
+          updated_at: new Date(),
+        });
+    }
+    if (!check.ok) return reply.code(422).send({ ok: false, error: 'whatsapp_credentials_rejected', source: sender.source, detail: check.error });
+
+    let sent: { ok: boolean; id?: string; error?: any } | null = null;
+    if (to) sent = await sendWhatsAppText(db, id, to, `✅ ${store.name}: WhatsApp is connected.`);
+
+    return reply.send({
+      ok: true,
+      source: sender.source,
+      display_phone: check.display_phone ?? null,
+      verified_name: check.verified_name ?? null,
+      test_message: sent,
+    });
+  });
+
+  // DELETE /seller/stores/:id/whatsapp → disconnect (credentials wiped, env fallback resumes)
+  app.delete('/seller/stores/:id/whatsapp', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    const n = await db('channels')
+      .where({ store_id: id, provider: 'whatsapp' })
+      .whereNot({ status: 'inactive' })
+      .update({ status: 'inactive', credentials_json: {}, updated_at: new Date() });
+    return reply.send({ ok: true, disconnected: Number(n) || 0 });
+  });
+
+  // GET /seller/stores/:id/whatsapp/templates → approved templates used outside the 24h window
+  app.get('/seller/stores/:id/whatsapp/templates', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    return reply.send({
+      ok: true,
+      templates: store.metadata?.whatsapp_templates ?? {},
+      variables: TEMPLATE_VARIABLES,
+    });
+  });
+
+  // PUT /seller/stores/:id/whatsapp/templates  { first_contact?, followup?, final_notice? } (full replace)
+  app.put('/seller/stores/:id/whatsapp/templates', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+
+    const parsed = normalizeStoreTemplates((req.body as any) ?? {});
+    if (!parsed.ok) return reply.code(400).send({ ok: false, error: parsed.error });
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    await db('public.stores')
+      .where({ id, seller_id: userId })
+      .update({
+        metadata: db.raw("COALESCE(metadata,'{}'::jsonb) || ?::jsonb", [
+          JSON.stringify({ whatsapp_templates: parsed.templates }),
+        ]),
+        updated_at: new Date(),
+      });
+    return reply.send({ ok: true, templates: parsed.templates });
+  });
+
+  // GET /seller/stores/:id/risk → order risk policy (stored overrides + effective values)
+  app.get('/seller/stores/:id/risk', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    return reply.send({ ok: true, risk: store.metadata?.risk ?? {}, effective: riskPolicyForStore(store) });
+  });
+
+  // PUT /seller/stores/:id/risk  { enabled?, action?, duplicate_window_hours?, review_at?, high_at? } (full replace)
+  app.put('/seller/stores/:id/risk', { preHandler: ensureSellerInline }, async (req, reply) => {
+    const user = (req as any).user as JwtUser;
+    const userId = user?.id;
+    const { id } = (req.params as any);
+
+    const parsed = normalizeRiskPolicy((req.body as any) ?? {});
+    if (!parsed.ok) return reply.code(400).send({ ok: false, error: parsed.error });
+
+    await ensureSeller(db, app.log, userId!, getEmailFromUser(user));
+    const store = await db('public.stores').where({ id, seller_id: userId }).first();
+    if (!store) return reply.code(404).send({ ok: false, error: 'store_not_found' });
+
+    await db('public.stores')
+      .where({ id, seller_id: userId })
+      .update({
+        metadata: db.raw("COALESCE(metadata,'{}'::jsonb) || ?::jsonb", [JSON.stringify({ risk: parsed.policy })]),
+        updated_at: new Date(),
+      });
+    return reply.send({
+      ok: true,
+      risk: parsed.policy,
+      effective: riskPolicyForStore({ metadata: { ...(store.metadata ?? {}), risk: parsed.policy } }),
+    });
+  });
+
   /* ================== AI (via proxy; unchanged) ================== */
   app.post('/seller/ai', { preHandler: ensureSellerInline }, async (req: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -1,10 +1,52 @@
 import fp from 'fastify-plugin';
+import crypto from 'node:crypto';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { addIncomingJob } from '../../utils/worker-bus-conversation';
+import { claimOnce, releaseOnce } from '../_shared/idempotency';
+import {
+  resolveStoreByPhoneNumberId,
+  findConversationForInbound,
+  isEnvPhoneNumberId,
+  applyWhatsAppStatus,
+} from '../../utils/whatsapp';
 
 type VerifyQuery = { 'hub.mode'?: string; 'hub.verify_token'?: string; 'hub.challenge'?: string };
 
+/** Messages older than this are treated as replays and dropped (Meta retries for ~7 days). */
+const MAX_EVENT_AGE_S = Number(process.env.WHATSAPP_WEBHOOK_MAX_AGE_S || 3 * 24 * 3600);
+
+/**
+ * X-Hub-Signature-256 = "sha256=" + HMAC-SHA256(app secret, raw body).
+ * Without WHATSAPP_APP_SECRET we only accept unsigned posts outside production.
+ */
+function verifySignature(raw: string, header: string | undefined): 'ok' | 'missing' | 'invalid' | 'unconfigured' {
+  const secret = (process.env.WHATSAPP_APP_SECRET || '').trim();
+  if (!secret) return 'unconfigured';
+  if (!header || !header.startsWith('sha256=')) return 'missing';
+  const expected = crypto.createHmac('sha256', secret).update(raw, 'utf8').digest();
+  const got = Buffer.from(header.slice('sha256='.length), 'hex');
+  if (got.length !== expected.length) return 'invalid';
+  return crypto.timingSafeEqual(got, expected) ? 'ok' : 'invalid';
+}
+
+/** Text the conversation worker sees for each supported inbound message type. */
+function inboundText(m: any): string | null {
+  if (m.type === 'text') return m.text?.body || '';
+  if (m.type === 'button') return m.button?.text || m.button?.payload || '';
+  if (m.type === 'interactive') {
+    const r = m.interactive?.button_reply || m.interactive?.list_reply;
+    return r?.title || r?.id || '';
+  }
+  if (m.type === 'location') return `LOCATION ${m.location?.latitude},${m.location?.longitude}`;
+  return null;
+}
+
 export default fp(async function whatsappWebhook(app: FastifyInstance) {
+  const db: any =
+    typeof (app as any).db === 'function'
+      ? (app as any).db
+      : ((app as any).db?.knex ?? (app as any).db);
+
   // Verification (GET)
   app.get('/webhooks/whatsapp', async (req: FastifyRequest<{ Querystring: VerifyQuery }>, reply: FastifyReply) => {
     const q = req.query || {};
@@ -15,57 +57,115 @@ export default fp(async function whatsappWebhook(app: FastifyInstance) {
     reply.code(403).send('forbidden');
   });
 
-  // Incoming events (POST)
-  app.post('/webhooks/whatsapp', async (req: FastifyRequest, reply: FastifyReply) => {
-    const body: any = (req as any).body || {};
-    try {
-      const entries = body.entry || [];
-      for (const e of entries) {
-        const changes = e.changes || [];
-        for (const c of changes) {
-          const value = c.value || {};
-          const messages = value.messages || [];
-          const metadata = value.metadata || {};
-          const store_id = (req.headers['x-store-id'] as string) || ''; // in multi-tenant, inject mapping
-          for (const m of messages) {
-            if (m.type === 'text') {
-              const conversation_id = (m.context && m.context.id) || (m.from + ':' + (value.metadata?.phone_number_id || ''));
-              await addIncomingJob({
-                kind: 'incoming',
-                conversation_id,
-                store_id,
-                from: m.from,
-                text: m.text?.body || '',
-                payload: m
-              });
-            } else if (m.type === 'button') {
-              const conversation_id = (m.from + ':' + (value.metadata?.phone_number_id || ''));
-              await addIncomingJob({
-                kind: 'incoming',
-                conversation_id,
-                store_id,
-                from: m.from,
-                text: (m.button?.text || m.button?.payload || ''),
-                payload: m
-              });
-            } else if (m.type === 'location') {
-              const conversation_id = (m.from + ':' + (value.metadata?.phone_number_id || ''));
-              await addIncomingJob({
-                kind: 'incoming',
-                conversation_id,
-                store_id,
-                from: m.from,
-                text: `LOCATION ${m.location?.latitude},${m.location?.longitude}`,
-                payload: m
-              });
+  const rejected = (reason: string) => (app as any).metrics?.whatsappWebhookRejectedTotal?.inc({ reason });
+  const duplicate = () => (app as any).metrics?.whatsappWebhookDuplicateTotal?.inc();
+
+  // Incoming events (POST) — own scope so the raw-body JSON parser stays local to this route
+  await app.register(async (scope) => {
+    scope.addContentTypeParser('application/json', { parseAs: 'string' }, (req, raw, done) => {
+      (req as any).rawBody = raw;
+      try {
+        done(null, raw ? JSON.parse(raw as string) : {});
+      } catch (e: any) {
+        e.statusCode = 400;
+        done(e, undefined);
+      }
+    });
+
+    scope.post('/webhooks/whatsapp', async (req: FastifyRequest, reply: FastifyReply) => {
+      const body: any = (req as any).body || {};
+
+      const sig = verifySignature(String((req as any).rawBody ?? ''), req.headers['x-hub-signature-256'] as string | undefined);
+      if (sig === 'missing' || sig === 'invalid' || (sig === 'unconfigured' && process.env.NODE_ENV === 'production')) {
+        rejected(sig === 'unconfigured' ? 'secret_unconfigured' : `signature_${sig}`);
+        app.log.warn({ reason: sig }, 'whatsapp_webhook_signature_rejected');
+        return reply.code(401).send({ ok: false, error: 'invalid_signature' });
+      }
+
+      if (!db) {
+        app.log.warn('whatsapp_webhook_no_db');
+        return reply.code(503).send({ ok: false, error: 'db_unavailable' });
+      }
+      try {
+        const entries = body.entry || [];
+        for (const e of entries) {
+          const changes = e.changes || [];
+          for (const c of changes) {
+            const value = c.value || {};
+            const messages = value.messages || [];
+
+            // Delivery receipts for our outbound messages (sent / delivered / read / failed)
+            for (const st of value.statuses || []) {
+              const changed = await applyWhatsAppStatus(db, st);
+              app.log.debug({ wa_message_id: st?.id, status: st?.status, changed }, 'whatsapp_webhook_status');
+            }
+
+            if (!messages.length) continue;
+
+            // Tenant comes from the receiving number, never from a header
+            const phone_number_id = String(value.metadata?.phone_number_id || '');
+            const channel = await resolveStoreByPhoneNumberId(db, phone_number_id);
+            if (!channel && !isEnvPhoneNumberId(phone_number_id)) {
+              app.log.warn({ phone_number_id }, 'whatsapp_webhook_unknown_number');
+              continue;
+            }
+
+            for (const m of messages) {
+              const ts = Number(m.timestamp || 0);
+              if (ts && Date.now() / 1000 - ts > MAX_EVENT_AGE_S) {
+                rejected('stale');
+                app.log.warn({ wa_message_id: m.id, age_s: Math.round(Date.now() / 1000 - ts) }, 'whatsapp_webhook_stale_event');
+                continue;
+              }
+              // Meta delivers at-least-once: first delivery of a message id wins
+              if (m.id && !(await claimOnce(app, `wa:msg:${m.id}`))) {
+                duplicate();
+                app.log.info({ wa_message_id: m.id }, 'whatsapp_webhook_duplicate');
+                continue;
+              }
+
+              // The claim only sticks once the message is queued; on failure Meta's retry gets through
+              try {
+                const text = inboundText(m);
+                if (text === null) {
+                  app.log.debug({ type: m.type }, 'whatsapp_webhook_unsupported_type');
+                  continue;
+                }
+
+                const convo = await findConversationForInbound(
+                  db,
+                  channel?.store_id ?? null,
+                  m.from,
+                  m.context?.id ?? null
+                );
+                if (!convo) {
+                  app.log.warn(
+                    { phone_number_id, store_id: channel?.store_id ?? null, wa_message_id: m.id },
+                    'whatsapp_webhook_conversation_not_found'
+                  );
+                  continue;
+                }
+
+                await addIncomingJob({
+                  kind: 'incoming',
+                  conversation_id: convo.id,
+                  store_id: convo.store_id,
+                  from: m.from,
+                  text,
+                  payload: m
+                });
+              } catch (err) {
+                if (m.id) await releaseOnce(app, `wa:msg:${m.id}`).catch(() => {});
+                throw err;
+              }
             }
           }
         }
+        reply.send({ ok: true });
+      } catch (e: any) {
+        app.log.error({ err: e, body }, 'whatsapp_webhook_error');
+        reply.code(400).send({ ok: false });
       }
-      reply.send({ ok: true });
-    } catch (e: any) {
-      app.log.error({ err: e, body }, 'whatsapp_webhook_error');
-      reply.code(400).send({ ok: false });
-    }
+    });
   });
 });
@@ -5,10 +5,11 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { randomUUID } from 'node:crypto';
 
-import { addIngestJob, getIngestQueue } from '../../utils/worker-bus-ingest';
+import { addIngestJob, getIngestQueue, requestIngestCancel } from '../../utils/worker-bus-ingest';
 import { INGEST_ACCEPT_UPLOAD, INGEST_ACCEPT_URL } from '../../utils/flags';
 import { getLastRedisError } from '../../utils/redis';
 import { installIngestWorker } from '../../worker/ingest';
+import { cancelQueuedRun, withQueuedRun } from '../../worker/ingest/runs';
 
 type KickUrlBody = {
   storeId?: string;
@@ -20,6 +21,7 @@ type KickUrlBody = {
     fields?: Record<string, string | string[]>;
     maxRows?: number;
     dryRun?: boolean;
+    validateOnly?: boolean;
   };
 };
 
@@ -38,8 +40,10 @@ export default fp(async function registerWorkerIngest(app: FastifyInstance) {
     app.log.info({ RUN_WORKERS }, 'ingest_worker_skipped_in_api');
   }
 
-  // Health
-  app.get('/api/v1/worker/ingest/health', { preHandler: app.requireAuth! }, async () => {
+  // Health (+ progress of the caller's running imports)
+  app.get('/api/v1/worker/ingest/health', { preHandler: app.requireAuth! }, async (req: FastifyRequest) => {
+    const user: any = (req as any).user || {};
+    const seller_id: string = user.id || user.sub;
     try {
       const q = getIngestQueue();
       const counts = await q.getJobCounts(
@@ -50,9 +54,13 @@ export default fp(async function registerWorkerIngest(app: FastifyInstance) {
         'delayed',
         'paused'
       );
+      const active = await q.getJobs(['active'], 0, 50);
       return {
         ok: true,
         queue: { name: q.name, ...counts },
+        running: active
+          .filter((j) => (j.data as any)?.kind === 'ingest' && (j.data as any)?.seller_id === seller_id)
+          .map((j) => ({ jobId: j.id, store_id: (j.data as any).store_id, progress: j.progress || null })),
         run_workers_in_api: RUN_WORKERS,
         last_redis_error: getLastRedisError(),
       };
@@ -73,6 +81,69 @@ export default fp(async function registerWorkerIngest(app: FastifyInstance) {
     warmed: true,
   }));
 
+  // Job state; dryRun/validateOnly jobs carry their preview as the return value
+  app.get(
+    '/api/v1/worker/ingest/jobs/:jobId',
+    { preHandler: app.requireAuth! },
+    async (req: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
+      const user: any = (req as any).user || {};
+      const seller_id: string = user.id || user.sub;
+      if (!seller_id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+      try {
+        const job = await getIngestQueue().getJob(req.params.jobId);
+        const data: any = job?.data;
+        if (!job || data?.kind !== 'ingest' || data?.seller_id !== seller_id) {
+          return reply.code(404).send({ ok: false, error: 'job_not_found' });
+        }
+        return reply.send({
+          ok: true,
+          jobId: job.id,
+          state: await job.getState(),
+          progress: job.progress || null,
+          failedReason: job.failedReason || undefined,
+          preview: job.returnvalue ?? null,
+        });
+      } catch (e: any) {
+        return reply.code(503).send({ ok: false, error: 'queue_unavailable', detail: String(e?.message || e) });
+      }
+    }
+  );
+
+  // Cancel: a queued job is dropped; a running one stops before its next chunk
+  app.post(
+    '/api/v1/worker/ingest/jobs/:jobId/cancel',
+    { preHandler: app.requireAuth! },
+    async (req: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
+      const user: any = (req as any).user || {};
+      const seller_id: string = user.id || user.sub;
+      if (!seller_id) return reply.code(401).send({ ok: false, error: 'unauthorized' });
+
+      try {
+        const job = await getIngestQueue().getJob(req.params.jobId);
+        const data: any = job?.data;
+        if (!job || data?.kind !== 'ingest' || data?.seller_id !== seller_id) {
+          return reply.code(404).send({ ok: false, error: 'job_not_found' });
+        }
+
+        const state = await job.getState();
+        if (state === 'waiting' || state === 'delayed' || state === 'prioritized') {
+          await job.remove();
+          await cancelQueuedRun(db, data.run_id);
+          return reply.send({ ok: true, jobId: job.id, state: 'removed' });
+        }
+        if (state !== 'active') {
+          return reply.code(409).send({ ok: false, error: 'job_not_running', state });
+        }
+
+        await requestIngestCancel(String(job.id));
+        return reply.code(202).send({ ok: true, jobId: job.id, state: 'cancelling' });
+      } catch (e: any) {
+        return reply.code(503).send({ ok: false, error: 'queue_unavailable', detail: String(e?.message || e) });
+      }
+    }
+  );
+
   // Kick via URL (JSON)
   app.post(
     '/api/v1/worker/ingest/kick',
@@ -98,7 +169,7 @@ export default fp(async function registerWorkerIngest(app: FastifyInstance) {
         return reply.code(400).send({ ok: false, error: 'missing_source_url' });
       }
 
-      const job = await addIngestJob({
+      const ingestJob = await withQueuedRun(db, {
         kind: 'ingest',
         store_id: store.id,
         seller_id,
@@ -109,9 +180,10 @@ export default fp(async function registerWorkerIngest(app: FastifyInstance) {
           contentType: body.source.contentType,
         },
         mapping: { entity, ...(body.mapping || {}) },
-      });
+      }, req.log);
+      const job = await addIngestJob(ingestJob);
 
-      return reply.send({ ok: true, jobId: job.id, store_id: store.id, entity, source: 'url' });
+      return reply.send({ ok: true, jobId: job.id, run_id: ingestJob.run_id ?? null, store_id: store.id, entity, source: 'url' });
     }
   );
 
@@ -166,7 +238,7 @@ export default fp(async function registerWorkerIngest(app: FastifyInstance) {
       await filePart.file.pipe(ws);
       await new Promise((r) => ws.on('finish', r));
 
-      const job = await addIngestJob({
+      const ingestJob = await withQueuedRun(db, {
         kind: 'ingest',
         store_id: store.id,
         seller_id,
@@ -177,9 +249,10 @@ export default fp(async function registerWorkerIngest(app: FastifyInstance) {
           contentType: filePart.mimetype,
         },
         mapping: { entity, ...(mappingJson || {}) },
-      });
+      }, req.log);
+      const job = await addIngestJob(ingestJob);
 
-      return reply.send({ ok: true, jobId: job.id, store_id: store.id, entity, source: 'upload' });
+      return reply.send({ ok: true, jobId: job.id, run_id: ingestJob.run_id ?? null, store_id: store.id, entity, source: 'upload' });
     }
   );
 });
@@ -10,6 +10,7 @@ import v1 from './v1/index';
 
 import { getDb, initializeDatabase } from '../db/index';
 import authContext from './plugin/auth-context';
+import metrics from '../plugins/metrics';
 
 // ⚙️ conversation worker + flags + bus
 import conversation from '../worker/conversation';
@@ -46,6 +47,9 @@ await app.register(jwt, {
   cookie: { cookieName: 'access_token' },
 });
 
+// Prometheus registry (/metrics) — counters are used by routes via app.metrics
+await app.register(metrics);
+
 // Auth context before routes
 await app.register(authContext);
 
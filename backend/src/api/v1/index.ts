@@ -13,6 +13,9 @@ import registerAuthRegister from '../routes/auth.register';
 import registerAuthRefresh from '../routes/auth.refresh';
 import registerSellerPublic from '../routes/seller.public';
 import registerSnapshotPublic from '../routes/snapshot.public';
+import registerWhatsAppWebhook from '../routes/whatsapp.webhook';
+import registerConnectorWebhooks from '../routes/connectors.webhook';
+import registerLandingPublic from '../routes/landing.public';
 
 // Seller (protected) — these modules declare absolute /api/v1/* paths internally,
 // so we DO NOT add an extra prefix to avoid /api/v1/api/v1 duplication.
@@ -20,6 +23,7 @@ import registerSeller from '../routes/seller';
 import registerProduct from '../routes/product';
 import registerOrder from '../routes/order';
 import registerConversation from '../routes/conversation';
+import registerConversationSimulator from '../routes/conversation.simulate';
 import registerMetric from '../routes/metric'; // will be namespaced at mount time
 
 // Admin (protected + admin-only)
@@ -32,9 +36,11 @@ import registerGenerate from '../routes/ai/generate'; // adds /api/v1/ai/generat
 
 // Extras (protected)
 import registerEditorFiles from '../routes/editor.files';
+import registerConnectors from '../routes/connectors';
+import registerLanding from '../routes/landing';
 // ⬇️ New: generic variable-schema ingest worker (replaces gsheet)
 import registerWorkerIngest from '../routes/worker.ingest';
-import { INGEST_ENABLED } from '../../utils/flags';
+import { INGEST_ENABLED, CONVO_SIMULATOR_ENABLED, LANDING_ENABLED } from '../../utils/flags';
 
 export default async function v1(app: FastifyInstance) {
   installErrorHandler(app);
@@ -59,6 +65,11 @@ export default async function v1(app: FastifyInstance) {
 
     await pub.register(registerSellerPublic);                 // defines its own paths
     await pub.register(registerSnapshotPublic, { prefix: '/api/v1' });
+    await pub.register(registerWhatsAppWebhook);              // Meta webhook: /webhooks/whatsapp
+    await pub.register(registerConnectorWebhooks);            // store platforms: /webhooks/orders/:platform/:sourceId
+    if (LANDING_ENABLED) {
+      await pub.register(registerLandingPublic);              // hosted pages /p/:slug + their COD order form
+    }
   });
 
   // ────────────────────────────────────────────────────────────────────────────
@@ -74,6 +85,9 @@ export default async function v1(app: FastifyInstance) {
     await sec.register(registerProduct);
     await sec.register(registerOrder);
     await sec.register(registerConversation);
+    if (CONVO_SIMULATOR_ENABLED) {
+      await sec.register(registerConversationSimulator);  // stubbed WA + scripted LLM, rolled back
+    }
 
     // ✅ Namespace metrics to avoid clashing and keep URLs tidy
     // Any internal paths will live under /api/v1/metric/*
@@ -85,6 +99,14 @@ export default async function v1(app: FastifyInstance) {
     // Ingestion management routes
     await sec.register((await import('../routes/ingestion')).default);
 
+    // Order connectors (Shopify / WooCommerce / YouCan webhooks)
+    await sec.register(registerConnectors);
+
+    // Landing studio publishing
+    if (LANDING_ENABLED) {
+      await sec.register(registerLanding);
+    }
+
     // 🔄 Variable-schema ingest worker (enabled via INGEST_ENABLED)
     if (INGEST_ENABLED) {
       await sec.register(registerWorkerIngest);
@@ -0,0 +1,74 @@
+-- 2025-10-20 per-store WhatsApp channel registry (idempotent, standalone)
+-- Maps a WhatsApp Cloud API phone_number_id to the store that owns it so
+-- inbound webhooks can be routed without any tenant header.
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS channels (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id         UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  seller_id        UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  provider         TEXT NOT NULL DEFAULT 'whatsapp' CHECK (provider IN ('whatsapp')),
+  phone_number_id  TEXT NOT NULL CHECK (btrim(phone_number_id) <> ''),
+  display_phone    TEXT,
+  waba_id          TEXT,
+  credentials_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status           TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active','inactive','error')),
+  metadata         JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Keep channels.seller_id in sync with the parent store
+CREATE OR REPLACE FUNCTION app._enforce_channel_seller_match()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE v_store_seller UUID;
+BEGIN
+  SELECT seller_id INTO v_store_seller FROM stores WHERE id = NEW.store_id;
+  IF v_store_seller IS NULL THEN
+    RAISE EXCEPTION 'channels.store_id % missing parent store', NEW.store_id;
+  END IF;
+  NEW.seller_id := v_store_seller;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_channel_seller_match ON channels;
+CREATE TRIGGER trg_channel_seller_match
+  BEFORE INSERT OR UPDATE OF store_id, seller_id ON channels
+  FOR EACH ROW EXECUTE FUNCTION app._enforce_channel_seller_match();
+
+DROP TRIGGER IF EXISTS trg_channels_timestamp ON channels;
+CREATE TRIGGER trg_channels_timestamp
+  BEFORE UPDATE ON channels
+  FOR EACH ROW EXECUTE FUNCTION app.update_timestamp();
+
+-- A phone number can only be live for one store at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_channels_active_phone
+  ON channels(provider, phone_number_id) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_channels_store ON channels(store_id, provider);
+
+-- Inbound routing matches conversations on the national part of the customer phone
+CREATE INDEX IF NOT EXISTS idx_conversations_store_to
+  ON conversations(store_id, (right(regexp_replace(COALESCE(metadata->>'to',''), '\D', '', 'g'), 9)));
+
+-- RLS (same shape as other seller_id tables)
+ALTER TABLE channels ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS channels_policy ON channels;
+CREATE POLICY channels_policy ON channels
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON channels TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- 2025-10-21 WhatsApp delivery/read receipts on outbound messages (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS wa_message_id       TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivery_status     TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivery_error      JSONB;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivery_updated_at TIMESTAMPTZ;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS check_message_delivery_status;
+ALTER TABLE messages ADD CONSTRAINT check_message_delivery_status
+  CHECK (delivery_status IS NULL OR delivery_status IN ('sent','delivered','read','failed'));
+
+-- Status callbacks are keyed by the WhatsApp message id (wamid.*)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_wa_message_id
+  ON messages(wa_message_id) WHERE wa_message_id IS NOT NULL;
@@ -0,0 +1,11 @@
+-- 2025-10-22 Ingest normalization: one customer per store + E.164 phone (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+-- Ingest upserts customers ON CONFLICT (store_id, phone) WHERE phone IS NOT NULL
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_store_phone
+  ON customers(store_id, phone) WHERE phone IS NOT NULL;
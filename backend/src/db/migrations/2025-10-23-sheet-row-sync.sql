@@ -0,0 +1,63 @@
+-- 2025-10-23 Change-aware sheet sync: per-row content hashes + change log (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+-- Older bootstraps (routes/seller.ts) create store_sheets without these
+ALTER TABLE store_sheets ADD COLUMN IF NOT EXISTS last_row_hash      TEXT;
+ALTER TABLE store_sheets ADD COLUMN IF NOT EXISTS sync_frequency_min INTEGER DEFAULT 5;
+ALTER TABLE store_sheets ADD COLUMN IF NOT EXISTS last_synced_at     TIMESTAMPTZ;
+
+-- Last known content of each sheet row, keyed by the row's external key (order id / sku)
+CREATE TABLE IF NOT EXISTS store_sheet_rows (
+  store_sheet_id UUID NOT NULL REFERENCES store_sheets(id) ON DELETE CASCADE,
+  external_key   TEXT NOT NULL CHECK (length(trim(external_key))>0),
+  row_hash       TEXT NOT NULL,
+  row_number     INTEGER CHECK (row_number IS NULL OR row_number>0),
+  data           JSONB NOT NULL DEFAULT '{}'::jsonb,
+  first_seen_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  removed_at     TIMESTAMPTZ,
+  PRIMARY KEY (store_sheet_id, external_key)
+);
+
+-- What each sync saw change (field-level before/after for edited rows)
+CREATE TABLE IF NOT EXISTS store_sheet_row_changes (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_sheet_id UUID NOT NULL REFERENCES store_sheets(id) ON DELETE CASCADE,
+  run_id         TEXT NOT NULL,
+  external_key   TEXT NOT NULL,
+  row_number     INTEGER,
+  change         TEXT NOT NULL CHECK (change IN ('new','changed','removed')),
+  fields         JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_row_changes_sheet ON store_sheet_row_changes(store_sheet_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sheet_row_changes_run ON store_sheet_row_changes(run_id);
+
+-- RLS (same shape as ingestion_audit: ownership through the parent sheet)
+ALTER TABLE store_sheet_rows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_sheet_row_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS store_sheet_rows_policy ON store_sheet_rows;
+CREATE POLICY store_sheet_rows_policy ON store_sheet_rows
+  FOR ALL TO app_user
+  USING (EXISTS (SELECT 1 FROM store_sheets WHERE store_sheets.id = store_sheet_rows.store_sheet_id AND store_sheets.seller_id = app.current_seller_id()))
+  WITH CHECK (EXISTS (SELECT 1 FROM store_sheets WHERE store_sheets.id = store_sheet_rows.store_sheet_id AND store_sheets.seller_id = app.current_seller_id()));
+
+DROP POLICY IF EXISTS store_sheet_row_changes_policy ON store_sheet_row_changes;
+CREATE POLICY store_sheet_row_changes_policy ON store_sheet_row_changes
+  FOR ALL TO app_user
+  USING (EXISTS (SELECT 1 FROM store_sheets WHERE store_sheets.id = store_sheet_row_changes.store_sheet_id AND store_sheets.seller_id = app.current_seller_id()))
+  WITH CHECK (EXISTS (SELECT 1 FROM store_sheets WHERE store_sheets.id = store_sheet_row_changes.store_sheet_id AND store_sheets.seller_id = app.current_seller_id()));
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON store_sheet_rows TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON store_sheet_row_changes TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
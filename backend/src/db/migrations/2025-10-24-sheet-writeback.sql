@@ -0,0 +1,45 @@
+-- 2025-10-24 Write conversation outcomes back to the seller's Google Sheet (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+-- { enabled, status_column, note_column?, address_column?, key_column?, tab?, labels? }; NULL = off
+ALTER TABLE store_sheets ADD COLUMN IF NOT EXISTS writeback JSONB;
+
+-- Outbox of cell updates; flushed in batches per sheet, retried with backoff
+CREATE TABLE IF NOT EXISTS sheet_writebacks (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_sheet_id  UUID NOT NULL REFERENCES store_sheets(id) ON DELETE CASCADE,
+  order_id        UUID REFERENCES orders(id) ON DELETE SET NULL,
+  external_key    TEXT NOT NULL CHECK (length(trim(external_key))>0),
+  outcome         TEXT NOT NULL CHECK (outcome IN ('confirmed','cancelled')),
+  note            TEXT,
+  address         TEXT,
+  status          TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','done','failed')),
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error      TEXT,
+  written_range   TEXT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_writebacks_due ON sheet_writebacks(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_sheet_writebacks_sheet ON sheet_writebacks(store_sheet_id, created_at DESC);
+
+ALTER TABLE sheet_writebacks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sheet_writebacks_policy ON sheet_writebacks;
+CREATE POLICY sheet_writebacks_policy ON sheet_writebacks
+  FOR ALL TO app_user
+  USING (EXISTS (SELECT 1 FROM store_sheets WHERE store_sheets.id = sheet_writebacks.store_sheet_id AND store_sheets.seller_id = app.current_seller_id()))
+  WITH CHECK (EXISTS (SELECT 1 FROM store_sheets WHERE store_sheets.id = sheet_writebacks.store_sheet_id AND store_sheets.seller_id = app.current_seller_id()));
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON sheet_writebacks TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
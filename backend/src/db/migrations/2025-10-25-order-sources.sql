@@ -0,0 +1,67 @@
+-- 2025-10-25 Store platform order connectors (Shopify / WooCommerce / YouCan) (idempotent, standalone)
+-- Each row is one signed webhook endpoint: /webhooks/orders/<platform>/<id>
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS order_sources (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id         UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  seller_id        UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  platform         TEXT NOT NULL CHECK (platform IN ('shopify','woocommerce','youcan')),
+  shop_domain      TEXT,
+  credentials_json JSONB NOT NULL DEFAULT '{}'::jsonb,   -- { enc: sealJson({ webhook_secret }) }
+  status           TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active','inactive','error')),
+  metadata         JSONB NOT NULL DEFAULT '{}'::jsonb,
+  last_event_at    TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Keep order_sources.seller_id in sync with the parent store (same as channels)
+CREATE OR REPLACE FUNCTION app._enforce_order_source_seller_match()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE v_store_seller UUID;
+BEGIN
+  SELECT seller_id INTO v_store_seller FROM stores WHERE id = NEW.store_id;
+  IF v_store_seller IS NULL THEN
+    RAISE EXCEPTION 'order_sources.store_id % missing parent store', NEW.store_id;
+  END IF;
+  NEW.seller_id := v_store_seller;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_order_source_seller_match ON order_sources;
+CREATE TRIGGER trg_order_source_seller_match
+  BEFORE INSERT OR UPDATE OF store_id, seller_id ON order_sources
+  FOR EACH ROW EXECUTE FUNCTION app._enforce_order_source_seller_match();
+
+DROP TRIGGER IF EXISTS trg_order_sources_timestamp ON order_sources;
+CREATE TRIGGER trg_order_sources_timestamp
+  BEFORE UPDATE ON order_sources
+  FOR EACH ROW EXECUTE FUNCTION app.update_timestamp();
+
+-- A shop can feed only one store at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_sources_active_shop
+  ON order_sources(platform, lower(shop_domain)) WHERE status = 'active' AND shop_domain IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_sources_store ON order_sources(store_id, platform);
+
+ALTER TABLE order_sources ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS order_sources_policy ON order_sources;
+CREATE POLICY order_sources_policy ON order_sources
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON order_sources TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
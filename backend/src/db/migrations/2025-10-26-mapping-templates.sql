@@ -0,0 +1,46 @@
+-- 2025-10-26 Reviewed column mappings and reusable mapping templates (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- { entity, fields: { <canonical field>: <sheet header> }, uniqueKey, locked, template_id, updated_at }
+-- Only a locked mapping is used by ingest; '{}' keeps the per-run suggestion.
+ALTER TABLE store_sheets ADD COLUMN IF NOT EXISTS column_mapping JSONB DEFAULT '{}'::jsonb;
+
+-- Seller-owned templates ("YouCan export", "Lightfunnels export", ...), reusable across stores
+CREATE TABLE IF NOT EXISTS mapping_templates (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id   UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  name        TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  entity      TEXT NOT NULL DEFAULT 'orders' CHECK (entity IN ('orders','products')),
+  fields      JSONB NOT NULL CHECK (jsonb_typeof(fields) = 'object'),
+  unique_key  TEXT,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mapping_templates_name
+  ON mapping_templates(seller_id, entity, lower(name));
+
+DROP TRIGGER IF EXISTS trg_mapping_templates_timestamp ON mapping_templates;
+CREATE TRIGGER trg_mapping_templates_timestamp
+  BEFORE UPDATE ON mapping_templates
+  FOR EACH ROW EXECUTE FUNCTION app.update_timestamp();
+
+ALTER TABLE mapping_templates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS mapping_templates_policy ON mapping_templates;
+CREATE POLICY mapping_templates_policy ON mapping_templates
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON mapping_templates TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- 2025-10-27 Ingest run history: one row per ingest job, plus the rows it could not apply (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- id doubles as the run_id written to ingestion_audit / store_sheet_row_changes
+CREATE TABLE IF NOT EXISTS ingest_runs (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id        UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  seller_id       UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  store_sheet_id  UUID REFERENCES store_sheets(id) ON DELETE SET NULL,
+  job_id          TEXT,
+  trigger         TEXT NOT NULL CHECK (trigger IN ('scan','manual','upload','url','retry')),
+  entity          TEXT NOT NULL DEFAULT 'orders' CHECK (entity IN ('orders','products')),
+  -- { type: 'sheet'|'upload'|'url'|'retry', name?, url?, run_id? }
+  source          JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- { fields, uniqueKey, locked } as applied
+  mapping         JSONB,
+  status          TEXT NOT NULL DEFAULT 'queued'
+                    CHECK (status IN ('queued','running','succeeded','partial','failed','cancelled','skipped')),
+  rows_read       INTEGER NOT NULL DEFAULT 0,
+  rows_written    INTEGER NOT NULL DEFAULT 0,
+  rows_failed     INTEGER NOT NULL DEFAULT 0,
+  rows_warned     INTEGER NOT NULL DEFAULT 0,
+  error           TEXT,
+  retry_of        UUID REFERENCES ingest_runs(id) ON DELETE SET NULL,
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  started_at      TIMESTAMPTZ,
+  finished_at     TIMESTAMPTZ,
+  duration_ms     INTEGER,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_runs_store ON ingest_runs(store_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingest_runs_open ON ingest_runs(status) WHERE status IN ('queued','running');
+
+CREATE OR REPLACE FUNCTION app._enforce_ingest_run_seller_match()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE v_store_seller UUID;
+BEGIN
+  SELECT seller_id INTO v_store_seller FROM stores WHERE id = NEW.store_id;
+  IF v_store_seller IS NULL THEN
+    RAISE EXCEPTION 'ingest_runs.store_id % missing parent store', NEW.store_id;
+  END IF;
+  NEW.seller_id := v_store_seller;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_ingest_run_seller_match ON ingest_runs;
+CREATE TRIGGER trg_ingest_run_seller_match
+  BEFORE INSERT OR UPDATE OF store_id, seller_id ON ingest_runs
+  FOR EACH ROW EXECUTE FUNCTION app._enforce_ingest_run_seller_match();
+
+DROP TRIGGER IF EXISTS trg_ingest_runs_timestamp ON ingest_runs;
+CREATE TRIGGER trg_ingest_runs_timestamp
+  BEFORE UPDATE ON ingest_runs
+  FOR EACH ROW EXECUTE FUNCTION app.update_timestamp();
+
+-- Rows a run rejected (validation) or could not write (transaction failed / store busy),
+-- kept with their raw cells so "retry failed rows" can replay them. Capped per run by the worker.
+CREATE TABLE IF NOT EXISTS ingest_run_rows (
+  id            BIGSERIAL PRIMARY KEY,
+  run_id        UUID NOT NULL REFERENCES ingest_runs(id) ON DELETE CASCADE,
+  row_number    INTEGER NOT NULL,
+  external_key  TEXT,
+  reason        TEXT NOT NULL CHECK (reason IN ('rejected','failed')),
+  errors        TEXT,
+  raw           JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingest_run_rows_row ON ingest_run_rows(run_id, row_number);
+
+ALTER TABLE ingest_runs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ingest_runs_policy ON ingest_runs;
+CREATE POLICY ingest_runs_policy ON ingest_runs
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+ALTER TABLE ingest_run_rows ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ingest_run_rows_policy ON ingest_run_rows;
+CREATE POLICY ingest_run_rows_policy ON ingest_run_rows
+  FOR ALL TO app_user
+  USING (EXISTS (SELECT 1 FROM ingest_runs r WHERE r.id = run_id AND r.seller_id = app.current_seller_id()))
+  WITH CHECK (EXISTS (SELECT 1 FROM ingest_runs r WHERE r.id = run_id AND r.seller_id = app.current_seller_id()));
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON ingest_runs, ingest_run_rows TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+  BEGIN GRANT USAGE, SELECT ON SEQUENCE ingest_run_rows_id_seq TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
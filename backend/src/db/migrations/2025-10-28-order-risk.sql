@@ -0,0 +1,39 @@
+-- 2025-10-28 Duplicate / fake order scoring: seller phone block list (idempotent, standalone)
+-- Scores live in orders.decision_result->'risk'; the per-store policy in stores.metadata->'risk'.
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Phones (E.164) whose orders are always scored high, across all of the seller's stores
+CREATE TABLE IF NOT EXISTS blocked_phones (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id   UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  phone       TEXT NOT NULL CHECK (phone ~ '^\+[1-9][0-9]{7,14}$'),
+  reason      TEXT,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blocked_phones_seller_phone ON blocked_phones(seller_id, phone);
+
+-- Flagged orders are listed per store
+CREATE INDEX IF NOT EXISTS idx_orders_risk_level
+  ON orders(store_id, (decision_result->'risk'->>'level'))
+  WHERE decision_result ? 'risk';
+
+ALTER TABLE blocked_phones ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS blocked_phones_policy ON blocked_phones;
+CREATE POLICY blocked_phones_policy ON blocked_phones
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON blocked_phones TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
@@ -0,0 +1,71 @@
+-- 2025-10-29 Hosted landing pages: a published editor_files version served at /p/<slug> with a COD order form (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS landing_pages (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id      UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  seller_id     UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  product_id    UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  file_id       UUID NOT NULL REFERENCES editor_files(id) ON DELETE CASCADE,
+  version_id    UUID NOT NULL REFERENCES editor_file_versions(id) ON DELETE CASCADE,
+  -- public URL segment; global because pages are served without a tenant in the path
+  slug          TEXT NOT NULL CHECK (slug ~ '^[a-z0-9][a-z0-9-]{1,62}[a-z0-9]$'),
+  title         TEXT,
+  status        TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published','unpublished')),
+  -- page as served: the version's HTML with the order form injected
+  html          TEXT NOT NULL,
+  -- { button_label?, success_message?, ask_city?, ask_notes?, max_quantity? }
+  form          JSONB NOT NULL DEFAULT '{}'::jsonb,
+  orders_count  INTEGER NOT NULL DEFAULT 0,
+  published_at  TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_pages_slug ON landing_pages(slug);
+CREATE INDEX IF NOT EXISTS idx_landing_pages_store ON landing_pages(store_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_landing_pages_file ON landing_pages(file_id);
+
+-- Keep landing_pages.seller_id in sync with the parent store (same as order_sources)
+CREATE OR REPLACE FUNCTION app._enforce_landing_page_seller_match()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE v_store_seller UUID;
+BEGIN
+  SELECT seller_id INTO v_store_seller FROM stores WHERE id = NEW.store_id;
+  IF v_store_seller IS NULL THEN
+    RAISE EXCEPTION 'landing_pages.store_id % missing parent store', NEW.store_id;
+  END IF;
+  NEW.seller_id := v_store_seller;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_landing_page_seller_match ON landing_pages;
+CREATE TRIGGER trg_landing_page_seller_match
+  BEFORE INSERT OR UPDATE OF store_id, seller_id ON landing_pages
+  FOR EACH ROW EXECUTE FUNCTION app._enforce_landing_page_seller_match();
+
+DROP TRIGGER IF EXISTS trg_landing_pages_timestamp ON landing_pages;
+CREATE TRIGGER trg_landing_pages_timestamp
+  BEFORE UPDATE ON landing_pages
+  FOR EACH ROW EXECUTE FUNCTION app.update_timestamp();
+
+ALTER TABLE landing_pages ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS landing_pages_policy ON landing_pages;
+CREATE POLICY landing_pages_policy ON landing_pages
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON landing_pages TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
@@ -0,0 +1,40 @@
+-- 2025-10-30 Landing page funnel: beacon counters in metrics_daily (per store/product) + orders linked to their page (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+-- Landing counters live on the product rows (product_id set); store rows (product_id NULL)
+-- are rebuilt from orders/conversations and never carry them.
+ALTER TABLE metrics_daily ADD COLUMN IF NOT EXISTS visitors     INTEGER NOT NULL DEFAULT 0 CHECK (visitors >= 0);
+ALTER TABLE metrics_daily ADD COLUMN IF NOT EXISTS form_starts  INTEGER NOT NULL DEFAULT 0 CHECK (form_starts >= 0);
+ALTER TABLE metrics_daily ADD COLUMN IF NOT EXISTS form_submits INTEGER NOT NULL DEFAULT 0 CHECK (form_submits >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_metrics_product ON metrics_daily(store_id, product_id, metric_date DESC)
+  WHERE product_id IS NOT NULL;
+
+-- One row per visitor (hashed cookie id) per page per day: unique visitors and form starts
+CREATE TABLE IF NOT EXISTS landing_page_visitors (
+  landing_page_id UUID NOT NULL REFERENCES landing_pages(id) ON DELETE CASCADE,
+  metric_date     DATE NOT NULL,
+  visitor         TEXT NOT NULL,
+  form_started    BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (landing_page_id, metric_date, visitor)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landing_visitors_date ON landing_page_visitors(metric_date);
+
+-- Orders placed through a hosted page's form
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS landing_page_id UUID REFERENCES landing_pages(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_landing_page ON orders(landing_page_id, created_at DESC)
+  WHERE landing_page_id IS NOT NULL;
+
+-- Written by the public beacon only (no seller context); sellers read counters via metrics_daily
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON landing_page_visitors TO app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
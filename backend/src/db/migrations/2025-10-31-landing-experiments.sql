@@ -0,0 +1,123 @@
+-- 2025-10-31 Landing page A/B tests: versions of the page's file served side by side with a traffic split (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS landing_experiments (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  landing_page_id   UUID NOT NULL REFERENCES landing_pages(id) ON DELETE CASCADE,
+  seller_id         UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  name              TEXT,
+  status            TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running','stopped','promoted')),
+  winner_variant_id UUID,
+  started_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at          TIMESTAMPTZ,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one running test per page
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landing_experiments_running
+  ON landing_experiments(landing_page_id) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_landing_experiments_page ON landing_experiments(landing_page_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS landing_experiment_variants (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id  UUID NOT NULL REFERENCES landing_experiments(id) ON DELETE CASCADE,
+  seller_id      UUID NOT NULL REFERENCES sellers(id) ON DELETE CASCADE,
+  version_id     UUID NOT NULL REFERENCES editor_file_versions(id) ON DELETE CASCADE,
+  label          TEXT NOT NULL,                     -- 'A', 'B', … (A is the control)
+  weight         INTEGER NOT NULL CHECK (weight BETWEEN 1 AND 100), -- % of traffic
+  -- the version rendered like the page (order form injected), served to assigned visitors
+  html           TEXT NOT NULL,
+  views          INTEGER NOT NULL DEFAULT 0 CHECK (views >= 0),
+  visitors       INTEGER NOT NULL DEFAULT 0 CHECK (visitors >= 0),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (experiment_id, label)
+);
+
+CREATE INDEX IF NOT EXISTS idx_landing_variants_experiment ON landing_experiment_variants(experiment_id);
+
+DO $$
+BEGIN
+  BEGIN
+    ALTER TABLE landing_experiments
+      ADD CONSTRAINT landing_experiments_winner_fk
+      FOREIGN KEY (winner_variant_id) REFERENCES landing_experiment_variants(id) ON DELETE SET NULL;
+  EXCEPTION WHEN duplicate_object THEN NULL;
+  END;
+END;
+$$;
+
+-- Orders placed through a variant (orders.landing_page_id still points at the page)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS landing_variant_id UUID REFERENCES landing_experiment_variants(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_landing_variant ON orders(landing_variant_id)
+  WHERE landing_variant_id IS NOT NULL;
+
+-- seller_id follows the page / the experiment
+CREATE OR REPLACE FUNCTION app._enforce_landing_experiment_seller_match()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE v_page_seller UUID;
+BEGIN
+  SELECT seller_id INTO v_page_seller FROM landing_pages WHERE id = NEW.landing_page_id;
+  IF v_page_seller IS NULL THEN
+    RAISE EXCEPTION 'landing_experiments.landing_page_id % missing parent page', NEW.landing_page_id;
+  END IF;
+  NEW.seller_id := v_page_seller;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_landing_experiment_seller_match ON landing_experiments;
+CREATE TRIGGER trg_landing_experiment_seller_match
+  BEFORE INSERT OR UPDATE OF landing_page_id, seller_id ON landing_experiments
+  FOR EACH ROW EXECUTE FUNCTION app._enforce_landing_experiment_seller_match();
+
+CREATE OR REPLACE FUNCTION app._enforce_landing_variant_seller_match()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE v_exp_seller UUID;
+BEGIN
+  SELECT seller_id INTO v_exp_seller FROM landing_experiments WHERE id = NEW.experiment_id;
+  IF v_exp_seller IS NULL THEN
+    RAISE EXCEPTION 'landing_experiment_variants.experiment_id % missing parent experiment', NEW.experiment_id;
+  END IF;
+  NEW.seller_id := v_exp_seller;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_landing_variant_seller_match ON landing_experiment_variants;
+CREATE TRIGGER trg_landing_variant_seller_match
+  BEFORE INSERT OR UPDATE OF experiment_id, seller_id ON landing_experiment_variants
+  FOR EACH ROW EXECUTE FUNCTION app._enforce_landing_variant_seller_match();
+
+DROP TRIGGER IF EXISTS trg_landing_experiments_timestamp ON landing_experiments;
+CREATE TRIGGER trg_landing_experiments_timestamp
+  BEFORE UPDATE ON landing_experiments
+  FOR EACH ROW EXECUTE FUNCTION app.update_timestamp();
+
+ALTER TABLE landing_experiments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS landing_experiments_policy ON landing_experiments;
+CREATE POLICY landing_experiments_policy ON landing_experiments
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+ALTER TABLE landing_experiment_variants ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS landing_experiment_variants_policy ON landing_experiment_variants;
+CREATE POLICY landing_experiment_variants_policy ON landing_experiment_variants
+  FOR ALL TO app_user
+  USING (seller_id = app.current_seller_id())
+  WITH CHECK (seller_id = app.current_seller_id());
+
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON landing_experiments TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON landing_experiment_variants TO app_user, app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- 2025-11-01 A/B test visitors: one row per hashed visitor per experiment, so a returning visitor is counted once (idempotent, standalone)
+SET lock_timeout = '10s';
+SET statement_timeout = '120s';
+SET client_min_messages = WARNING;
+
+CREATE SCHEMA IF NOT EXISTS app;
+SET search_path = app, public;
+
+-- landing_page_visitors is per day; variant samples must not grow with repeat visits
+CREATE TABLE IF NOT EXISTS landing_experiment_visitors (
+  experiment_id UUID NOT NULL REFERENCES landing_experiments(id) ON DELETE CASCADE,
+  visitor       TEXT NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (experiment_id, visitor)
+);
+
+-- Written by the public beacon only (no seller context); sellers read counts on the variants
+DO $$
+BEGIN
+  BEGIN GRANT SELECT,INSERT,UPDATE,DELETE ON landing_experiment_visitors TO app_admin; EXCEPTION WHEN OTHERS THEN NULL; END;
+END;
+$$;
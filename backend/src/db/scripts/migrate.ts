@@ -6,18 +6,35 @@ import * as cfg from "../config.js";
 
 function here(...p: string[]) { return path.resolve(process.cwd(), ...p); }
 
-function resolveSchemaPath(): string {
+/** Dated, idempotent migrations — applied in this order on every boot. */
+const MIGRATIONS = [
+  "2025-10-16-editor-files.sql",
+  "2025-10-20-whatsapp-channels.sql",
+  "2025-10-21-message-delivery-status.sql",
+  "2025-10-22-ingest-customers.sql",
+  "2025-10-23-sheet-row-sync.sql",
+  "2025-10-24-sheet-writeback.sql",
+  "2025-10-25-order-sources.sql",
+  "2025-10-26-mapping-templates.sql",
+  "2025-10-27-ingest-runs.sql",
+  "2025-10-28-order-risk.sql",
+  "2025-10-29-landing-pages.sql",
+  "2025-10-30-landing-metrics.sql",
+  "2025-10-31-landing-experiments.sql",
+  "2025-11-01-landing-experiment-visitors.sql",
+];
+
+function resolveSchemaPaths(): string[] {
   const explicit = process.env.SCHEMA_FILE?.trim();
   if (explicit) {
     const p = path.isAbsolute(explicit) ? explicit : here(explicit);
     if (!existsSync(p)) throw new Error(`Schema file not found: ${p}`);
-    return p;
+    return [p];
   }
   const base = process.env.SCHEMA_DIR?.trim() || "src/db/migrations";
-  const candidates = [ "2025-10-16-editor-files.sql" ]
-    .map(f => here(base, f));
-  const found = candidates.find(existsSync);
-  if (!found) throw new Error(`Schema file not found. Looked for:\n- ${candidates.join("\n- ")}`);
+  const candidates = MIGRATIONS.map(f => here(base, f));
+  const found = candidates.filter(existsSync);
+  if (!found.length) throw new Error(`Schema file not found. Looked for:\n- ${candidates.join("\n- ")}`);
   return found;
 }
 
@@ -34,8 +51,7 @@ export async function applyAutoSchema(): Promise<void> {
   const dbConfig = pickDbConfig();
   const client = new Client({ connectionString: dbConfig.url, ssl: dbConfig.ssl });
 
-  const schemaPath = resolveSchemaPath();
-  const sql = readFileSync(schemaPath, "utf8");
+  const schemaPaths = resolveSchemaPaths();
 
   try {
     await client.connect();
@@ -51,7 +67,7 @@ export async function applyAutoSchema(): Promise<void> {
       "SELECT current_user, session_user, current_database() AS db"
     );
     console.log("Connected to database ✅", JSON.stringify(who.rows?.[0] ?? {}));
-    console.log(`Using schema file: ${schemaPath}`);
+    console.log(`Using schema files: ${schemaPaths.join(", ")}`);
 
     // Probe privileges against app schema
     const priv = await client.query(
@@ -84,8 +100,10 @@ export async function applyAutoSchema(): Promise<void> {
       );
     }
 
-    console.log("Applying schema (single batch)...");
-    await client.query(sql);
+    for (const schemaPath of schemaPaths) {
+      console.log(`Applying ${path.basename(schemaPath)} (single batch)...`);
+      await client.query(readFileSync(schemaPath, "utf8"));
+    }
     console.log("\n✅ Schema migration completed successfully!");
   } catch (err: any) {
     console.error("❌ Migration failed:", err?.message || err);
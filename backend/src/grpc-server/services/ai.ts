@@ -1,9 +1,10 @@
 // AI service implementation for gRPC
-import type { Metadata } from "@grpc/grpc-js";
+import type { Metadata, ServerWritableStream } from "@grpc/grpc-js";
 import { logger } from "../util/logging.js";
 import { requireBearer } from "../util/auth.js";
 import { ERR } from "../util/errors.js";
 import { getClient } from "../../ai/llm.js";
+import { codegenSystemPrompt } from "../../ai/codegen-prompt.js";
 
 // Helper to enhance short prompts using OpenAI
 async function enhancePrompt(prompt: string): Promise<string> {
@@ -88,44 +89,13 @@ export const AIServiceImpl = {
         logger.warn({ err: e }, "Prompt enhancement failed, using original");
       }
 
-      // Build system prompt similar to codegen route
-      const brandInfo = brand?.name
-        ? `Brand: ${brand.name}${brand.primaryColor ? `, Primary Color: ${brand.primaryColor}` : ''}${brand.font ? `, Font: ${brand.font}` : ''}${brand.logoUrl ? `, Logo: ${brand.logoUrl}` : ''}`
-        : '';
-
-      const sys = [
-        `You are an expert landing page generator. Generate a modern, professional ${format.toUpperCase()} landing page.`,
-        `Required sections: ${sections.join(', ')}.`,
-        brandInfo ? `Brand requirements: ${brandInfo}` : '',
-        '',
-        'Design System (ITTRI Aesthetic):',
-        '- Background: Use cosmic gradient (bg-gradient-to-b from-sky-50 via-purple-50 to-indigo-50 dark:from-neutral-900 dark:via-neutral-900 dark:to-neutral-900)',
-        '- Glass morphism: Use class "glass" or bg-white/10 dark:bg-neutral-800/30 with backdrop-blur-md for cards/sections',
-        '- Buttons: Use class "btn-futuristic" for primary CTAs, or style with rounded-lg, gradient backgrounds, hover effects',
-        '- Typography: Use semantic HTML, proper heading hierarchy (h1-h6), responsive text sizing',
-        '- Spacing: Use Tailwind padding/margin utilities (p-4, p-6, p-8, mx-auto, max-w-7xl, etc.)',
-        '- Colors: Use CSS variables (var(--foreground), var(--background), var(--primary)) instead of hard-coded colors',
-        '- Responsive: Mobile-first design with sm:, md:, lg: breakpoints',
-        '- Accessibility: Include proper ARIA labels, alt text for images, semantic HTML',
-        '',
-        format === 'html' 
-          ? 'HTML Requirements: Include <!DOCTYPE html>, <html>, <head> with meta tags, <title>, link to Tailwind CSS CDN, and <body> with complete landing page structure.'
-          : 'React Requirements: Export default function component named App. Use React hooks if needed. Include proper imports.',
-        '',
-        'Content Guidelines:',
-        '- Write compelling, clear copy that explains the product/service value proposition',
-        '- Use power words and action-oriented language',
-        '- Include social proof elements (testimonials, stats, logos) when appropriate',
-        '- Ensure CTAs are clear and prominent',
-        '',
-        `Output only the ${format === 'html' ? 'complete, valid HTML document' : 'complete React component'} without any explanation, commentary, or markdown code blocks.`,
-      ].filter(Boolean).join('\n');
+      const sys = codegenSystemPrompt(format, sections, brand);
 
       // Call LLM client
       const client = await getClient();
       const modelResp = await client.generate({
         prompt: [sys, prompt].join('\n'),
-        stream: false, // gRPC doesn't support streaming in this simple implementation
+        stream: false, // see GenerateCodeStream
         options: { 
           temperature: options?.temperature ?? 0.2, 
           max_tokens: options?.max_tokens ?? 4000 
@@ -157,6 +127,69 @@ export const AIServiceImpl = {
     }
   },
 
+  /**
+   * GenerateCodeStream - GenerateCode as a server stream
+   *
+   * Writes { body: { type: "delta", delta } } per token, then
+   * { body: { type: "final", ok, sessionId, code, format } }. A cancelled call
+   * aborts the provider request.
+   */
+  async GenerateCodeStream(call: ServerWritableStream<any, any>) {
+    const controller = new AbortController();
+    call.on("cancelled", () => controller.abort());
+    try {
+      const subject = requireBearer(call.metadata as Metadata);
+      const params = call.request?.body || {};
+
+      if (!params.prompt) {
+        return call.destroy(ERR.invalidArgument("prompt is required"));
+      }
+
+      let prompt = String(params.prompt);
+      const format = params.format || 'html';
+      const sections = params.sections || ['hero', 'features', 'pricing', 'cta'];
+      const options = params.options || {};
+      const sessionId = params.sessionId || `grpc-${Date.now()}`;
+
+      logger.info({ sellerId: subject, format, sections }, "AIService.GenerateCodeStream");
+
+      // enhancePrompt falls back to the original prompt on failure
+      prompt = await enhancePrompt(prompt);
+
+      const client = await getClient();
+      const modelResp: any = await client.generate({
+        prompt: [codegenSystemPrompt(format, sections, params.brand || {}), prompt].join('\n'),
+        stream: true,
+        options: {
+          temperature: options?.temperature ?? 0.2,
+          max_tokens: options?.max_tokens ?? 4000
+        },
+        signal: controller.signal,
+      });
+
+      let code = '';
+      if (modelResp && typeof modelResp[Symbol.asyncIterator] === 'function') {
+        for await (const chunk of modelResp) {
+          const delta = chunk?.response ?? chunk?.message?.content ?? chunk?.content ?? '';
+          if (!delta) continue;
+          code += delta;
+          call.write({ body: { type: 'delta', delta } });
+        }
+      } else {
+        code = String(modelResp?.response ?? modelResp?.message?.content ?? modelResp?.content ?? '');
+      }
+      if (call.cancelled) return;
+
+      call.write({ body: { type: 'final', ok: true, sessionId, code, format } });
+      logger.info({ sellerId: subject, codeLength: code.length, format }, "AIService.GenerateCodeStream completed");
+      call.end();
+    } catch (e: any) {
+      if (call.cancelled) return;
+      logger.error({ error: e, method: "AIService.GenerateCodeStream" });
+      call.destroy(e?.code ? e : ERR.internal(e?.message || "Code generation failed"));
+    }
+  },
+
   /**
    * CreateBrief - Create content briefs
    */
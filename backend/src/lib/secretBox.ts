@@ -0,0 +1,43 @@
+import crypto from 'node:crypto';
+
+/**
+ * Symmetric encryption for secrets stored in the DB (AES-256-GCM).
+ * Key material comes from ENCRYPTION_KEY (any string; hashed to 32 bytes).
+ * Sealed format: "v1:<iv b64>:<tag b64>:<ciphertext b64>"
+ */
+
+const VERSION = 'v1';
+
+function key(): Buffer {
+  const raw = (process.env.ENCRYPTION_KEY || '').trim();
+  if (!raw) throw new Error('encryption_key_missing');
+  return crypto.createHash('sha256').update(raw).digest();
+}
+
+export function isEncryptionConfigured(): boolean {
+  return !!(process.env.ENCRYPTION_KEY || '').trim();
+}
+
+export function seal(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key(), iv);
+  const ct = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ct.toString('base64')].join(':');
+}
+
+export function open(sealed: string): string {
+  const [v, iv, tag, ct] = String(sealed || '').split(':');
+  if (v !== VERSION || !iv || !tag || !ct) throw new Error('sealed_value_malformed');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ct, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export function sealJson(value: unknown): string {
+  return seal(JSON.stringify(value ?? null));
+}
+
+export function openJson<T = any>(sealed: string): T {
+  return JSON.parse(open(sealed)) as T;
+}
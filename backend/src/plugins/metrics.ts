@@ -1,15 +1,33 @@
 import fp from 'fastify-plugin';
+import crypto from 'node:crypto';
+import type { FastifyRequest } from 'fastify';
 import client from 'prom-client';
+import { METRICS_ALLOW_IPS, METRICS_TOKEN } from '../utils/flags';
 
 declare module 'fastify' {
   interface FastifyInstance {
     metrics: {
       registry: client.Registry;
       aiRequestTotal: client.Counter<'provider' | 'model'>;
+      whatsappWebhookRejectedTotal: client.Counter<'reason'>;
+      whatsappWebhookDuplicateTotal: client.Counter<string>;
     };
   }
 }
 
+const LOOPBACK = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+/** METRICS_TOKEN as a bearer token, or a METRICS_ALLOW_IPS address; loopback only when neither is set. */
+function canScrape(req: FastifyRequest): boolean {
+  if (METRICS_TOKEN) {
+    const got = Buffer.from(String(req.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(METRICS_TOKEN);
+    if (got.length === expected.length && crypto.timingSafeEqual(got, expected)) return true;
+  }
+  const allowed = METRICS_ALLOW_IPS.length ? METRICS_ALLOW_IPS : METRICS_TOKEN ? [] : LOOPBACK;
+  return allowed.includes(req.ip);
+}
+
 const metricsPlugin = fp(async (fastify) => {
   const registry = new client.Registry();
   client.collectDefaultMetrics({ register: registry });
@@ -21,9 +39,28 @@ const metricsPlugin = fp(async (fastify) => {
     registers: [registry],
   });
 
-  fastify.decorate('metrics', { registry, aiRequestTotal });
+  const whatsappWebhookRejectedTotal = new client.Counter({
+    name: 'whatsapp_webhook_rejected_total',
+    help: 'WhatsApp webhook deliveries rejected, by reason',
+    labelNames: ['reason'] as const,
+    registers: [registry],
+  });
+
+  const whatsappWebhookDuplicateTotal = new client.Counter({
+    name: 'whatsapp_webhook_duplicate_total',
+    help: 'WhatsApp webhook events dropped as duplicates (same message id)',
+    registers: [registry],
+  });
+
+  fastify.decorate('metrics', {
+    registry,
+    aiRequestTotal,
+    whatsappWebhookRejectedTotal,
+    whatsappWebhookDuplicateTotal,
+  });
 
-  fastify.get('/metrics', async (_req, reply) => {
+  fastify.get('/metrics', async (req, reply) => {
+    if (!canScrape(req)) return reply.code(403).send({ ok: false, error: 'forbidden' });
     reply.header('Content-Type', registry.contentType);
     return registry.metrics();
   });
@@ -8,18 +8,37 @@ type ConversationRow = {
   customer_id: string | null;
   origin: string | null;
   status: string | null;
-  meta_json: any | null;
+  meta_json?: any | null;
+  metadata?: any | null;
   created_at: Date | string;
   updated_at: Date | string;
   order_id?: string | null; // may exist (new schema)
 };
 
+/**
+ * Who answers the customer. 'agent' = a seller took over from the dashboard and the
+ * LLM stays silent until handback. Stored in conversations.metadata.control.
+ */
+export type ConversationControl = {
+  mode: 'ai' | 'agent';
+  agent_id?: string | null;
+  since?: string | null;
+};
+
+export function conversationControl(metadata: any): ConversationControl {
+  const c = metadata?.control;
+  if (c?.mode === 'agent') return { mode: 'agent', agent_id: c.agent_id ?? null, since: c.since ?? null };
+  return { mode: 'ai', agent_id: null, since: c?.since ?? null };
+}
+
 type MessageRow = {
   id: string;
   conversation_id: string;
-  role: 'user' | 'assistant' | string;
+  role: 'user' | 'assistant' | 'agent' | string;
   content: string | null; // enforce null (never undefined)
-  meta_json: any | null;
+  metadata: any | null;
+  delivery_status?: 'sent' | 'delivered' | 'read' | 'failed' | null;
+  delivery_error?: any | null;
   created_at: Date | string;
 };
 
@@ -45,7 +64,7 @@ export async function conversationsForOrder(
       .where({ store_id: storeId, order_id: orderId })
       .orderBy('created_at', 'desc');
   } catch {
-    // Fallback schema: order_id inside meta_json
+    // Fallback schema: order_id inside metadata
     conversations = await db<ConversationRow>('conversations')
       .select(
         'id',
@@ -53,12 +72,12 @@ export async function conversationsForOrder(
         'customer_id',
         'origin',
         'status',
-        'meta_json',
+        'metadata',
         'created_at',
         'updated_at'
       )
       .where({ store_id: storeId })
-      .whereRaw(`(meta_json->>'order_id') = ?`, [orderId])
+      .whereRaw(`(metadata->>'order_id') = ?`, [orderId])
       .orderBy('created_at', 'desc');
   }
 
@@ -93,7 +112,7 @@ export async function listRecentStoreConversationsLinkedToOrders(
 
     return attachMessages(db, rows);
   } catch {
-    // Fallback schema: order_id inside meta_json
+    // Fallback schema: order_id inside metadata
     const rows = await db<ConversationRow>('conversations as c')
       .select(
         'c.id',
@@ -101,13 +120,13 @@ export async function listRecentStoreConversationsLinkedToOrders(
         'c.customer_id',
         'c.origin',
         'c.status',
-        'c.meta_json',
+        'c.metadata',
         'c.created_at',
         'c.updated_at',
-        db.raw<string>("(c.meta_json->>'order_id') as order_id")
+        db.raw<string>("(c.metadata->>'order_id') as order_id")
       )
       .where('c.store_id', storeId)
-      .whereRaw("(c.meta_json->>'order_id') IS NOT NULL")
+      .whereRaw("(c.metadata->>'order_id') IS NOT NULL")
       .orderBy('c.created_at', 'desc')
       .limit(limit)
       .offset(offset);
@@ -126,7 +145,7 @@ async function attachMessages(
   const msgs: Array<Omit<MessageRow, 'content'> & { content?: string | null }> =
     ids.length
       ? await db<MessageRow>('messages')
-          .select('id', 'conversation_id', 'role', 'content', 'meta_json', 'created_at')
+          .select('id', 'conversation_id', 'role', 'content', 'metadata', 'delivery_status', 'delivery_error', 'created_at')
           .whereIn('conversation_id', ids)
           .orderBy('created_at', 'asc')
       : [];
@@ -29,6 +29,23 @@ export const SCAN_INTERVAL_MS: number = intFromEnv('SCAN_INTERVAL_MS', 60000);
 export const INGEST_ACCEPT_UPLOAD: boolean = boolFromEnv('INGEST_ACCEPT_UPLOAD', true);
 export const INGEST_ACCEPT_URL: boolean = boolFromEnv('INGEST_ACCEPT_URL', true);
 export const INGEST_SELF_KICK: boolean = boolFromEnv('INGEST_SELF_KICK', false);
+/** Calling code for local phone numbers in sheets (per-store override: stores.metadata.phone_country_code). */
+export const INGEST_DEFAULT_COUNTRY_CODE: string = (process.env.INGEST_DEFAULT_COUNTRY_CODE || '212').replace(/\D/g, '');
+/** Uploads / URL imports are read row by row instead of loaded whole (off = old buffered path). */
+export const INGEST_STREAMING: boolean = boolFromEnv('INGEST_STREAMING', true);
+/** Duplicate / fake order scoring of new orders (per-store policy: stores.metadata.risk). */
+export const ORDER_RISK_ENABLED: boolean = boolFromEnv('ORDER_RISK_ENABLED', true);
+export const ORDER_RISK_DUPLICATE_WINDOW_H: number = intFromEnv('ORDER_RISK_DUPLICATE_WINDOW_H', 48);
+/** Hosted landing pages (/p/<slug>); the public order form is limited per IP. */
+export const LANDING_ENABLED: boolean = boolFromEnv('LANDING_ENABLED', true);
+export const LANDING_ORDER_RATE_MAX: number = intFromEnv('LANDING_ORDER_RATE_MAX', 5);
+export const LANDING_ORDER_RATE_WINDOW_MS: number = intFromEnv('LANDING_ORDER_RATE_WINDOW_MS', 10 * 60_000);
+export const LANDING_EVENT_RATE_MAX: number = intFromEnv('LANDING_EVENT_RATE_MAX', 120); // beacon events per IP per minute
+/** Script hosts a published page may load from; everything else is stripped on publish. */
+export const LANDING_SCRIPT_ALLOWLIST: string[] = (process.env.LANDING_SCRIPT_ALLOWLIST || 'cdn.tailwindcss.com')
+  .split(',')
+  .map((s) => s.trim().toLowerCase())
+  .filter(Boolean);
 
 export const FLAGS = {
   RUN_WORKERS,
@@ -38,6 +55,9 @@ export const FLAGS = {
   INGEST_ACCEPT_UPLOAD,
   INGEST_ACCEPT_URL,
   INGEST_SELF_KICK,
+  INGEST_STREAMING,
+  ORDER_RISK_ENABLED,
+  LANDING_ENABLED,
 };
 
 /* ---------------- Conversation worker flags ---------------- */
@@ -46,6 +66,33 @@ export const CONVO_ENABLED: boolean = boolFromEnv('CONVO_ENABLED', true);
 export const CONVO_SCAN_ON_BOOT: boolean = boolFromEnv('CONVO_SCAN_ON_BOOT', true);
 export const CONVO_SCAN_INTERVAL_MS: number = intFromEnv('CONVO_SCAN_INTERVAL_MS', 60_000);
 
+/** No-reply follow-ups (per-store overrides live in stores.metadata.followups). */
+export const CONVO_FOLLOWUPS_ENABLED: boolean = boolFromEnv('CONVO_FOLLOWUPS_ENABLED', true);
+export const CONVO_FOLLOWUP_STEPS_MIN: number[] = (process.env.CONVO_FOLLOWUP_STEPS_MIN || '120,720,1440')
+  .split(',')
+  .map((s) => Number(s.trim()))
+  .filter((n) => Number.isFinite(n) && n > 0);
+/** Conversation simulator route (stubbed WhatsApp + scripted LLM); off in production unless forced. */
+export const CONVO_SIMULATOR_ENABLED: boolean = boolFromEnv('CONVO_SIMULATOR_ENABLED', process.env.NODE_ENV !== 'production');
+
+/** Rough token budget for order/product facts injected into the assistant prompt. */
+export const CONVO_CONTEXT_TOKEN_BUDGET: number = intFromEnv('CONVO_CONTEXT_TOKEN_BUDGET', 600);
+export const CONVO_DEFAULT_TIMEZONE: string = (process.env.CONVO_DEFAULT_TIMEZONE || 'Africa/Casablanca').trim();
+
+/** Write confirm/cancel outcomes back to the seller's sheet (per sheet: store_sheets.writeback). */
+export const SHEETS_WRITEBACK_ENABLED: boolean = boolFromEnv('SHEETS_WRITEBACK_ENABLED', true);
+export const SHEETS_WRITEBACK_INTERVAL_MS: number = intFromEnv('SHEETS_WRITEBACK_INTERVAL_MS', 30_000);
+export const SHEETS_WRITEBACK_MAX_ATTEMPTS: number = intFromEnv('SHEETS_WRITEBACK_MAX_ATTEMPTS', 6);
+
+/* ---------------- Prometheus /metrics ---------------- */
+
+/** Bearer token scrapers must send; with neither this nor an allowlist, only loopback may scrape. */
+export const METRICS_TOKEN: string = (process.env.METRICS_TOKEN || '').trim();
+export const METRICS_ALLOW_IPS: string[] = (process.env.METRICS_ALLOW_IPS || '')
+  .split(',')
+  .map((s) => s.trim())
+  .filter(Boolean);
+
 /* ---------------- WhatsApp (ENV-only, with noop fallback) ---------------- */
 
 /** Master toggle for WhatsApp features (default: true). */
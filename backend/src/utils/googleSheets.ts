@@ -0,0 +1,200 @@
+// src/utils/googleSheets.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { SignJWT, importPKCS8 } from 'jose';
+import { http } from '../http';
+
+/**
+ * Minimal Google Sheets API v4 client (service account) for writing cells back.
+ * Sellers share their sheet with GOOGLE_SERVICE_ACCOUNT_JSON's client_email as editor.
+ */
+
+export type ValueRange = { range: string; values: string[][] };
+
+export type SheetsTransport = {
+  /** Tab title for a gid (first tab when gid is missing). */
+  sheetTitle(spreadsheetId: string, gid?: string): Promise<string>;
+  getValues(spreadsheetId: string, range: string): Promise<string[][]>;
+  batchUpdate(spreadsheetId: string, data: ValueRange[]): Promise<void>;
+};
+
+const SHEETS_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
+const SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+
+export class SheetsApiError extends Error {
+  code: string;
+  retryable: boolean;
+  constructor(code: string, message?: string, retryable = true) {
+    super(message || code);
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+/* ---------------------------------- Stub ----------------------------------- */
+
+// Scoped per async context, like the WhatsApp stub, so tests never swap the transport for real traffic
+const stubContext = new AsyncLocalStorage<SheetsTransport>();
+
+/** Run `fn` with every Sheets API call going to `stub`. */
+export function withSheetsStub<T>(stub: SheetsTransport, fn: () => Promise<T>): Promise<T> {
+  return stubContext.run(stub, fn);
+}
+
+/** In-memory sheets ({ tabTitle: rows }) that record every batch written; for tests and local runs. */
+export function memorySheetsStub(tabs: Record<string, string[][]>) {
+  const writes: ValueRange[][] = [];
+  const stub: SheetsTransport & { tabs: typeof tabs; writes: typeof writes } = {
+    tabs,
+    writes,
+    async sheetTitle() {
+      return Object.keys(tabs)[0] ?? 'Sheet1';
+    },
+    async getValues(_id, range) {
+      return (tabs[tabOf(range)] ?? []).map((r) => [...r]);
+    },
+    async batchUpdate(_id, data) {
+      writes.push(data);
+      for (const d of data) {
+        const m = d.range.match(/!([A-Z]+)(\d+)$/);
+        if (!m) continue;
+        const rows = (tabs[tabOf(d.range)] ??= []);
+        const r = Number(m[2]) - 1;
+        const c = columnIndex(m[1]);
+        while (rows.length <= r) rows.push([]);
+        rows[r][c] = d.values[0]?.[0] ?? '';
+      }
+    },
+  };
+  return stub;
+}
+
+/* ------------------------------ A1 notation -------------------------------- */
+
+/** 0 → A, 25 → Z, 26 → AA */
+export function columnLetter(index: number): string {
+  let n = index + 1;
+  let s = '';
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    s = String.fromCharCode(65 + r) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+}
+
+function columnIndex(letters: string): number {
+  return letters.split('').reduce((n, ch) => n * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+}
+
+/** 'My tab'!B7 (tab titles are always quoted; quotes inside are doubled). */
+export function a1(tab: string, colIndex: number, rowNumber: number): string {
+  return `'${tab.replace(/'/g, "''")}'!${columnLetter(colIndex)}${rowNumber}`;
+}
+
+function tabOf(range: string): string {
+  const raw = range.split('!')[0];
+  return raw.startsWith("'") ? raw.slice(1, -1).replace(/''/g, "'") : raw;
+}
+
+/* ------------------------------ Service account ----------------------------- */
+
+type ServiceAccount = { client_email: string; private_key: string; token_uri?: string };
+
+function readServiceAccount(): ServiceAccount | null {
+  const raw = (process.env.GOOGLE_SERVICE_ACCOUNT_JSON || '').trim();
+  if (!raw) return null;
+  try {
+    // Accept the JSON key file as-is or base64-encoded (easier in .env files)
+    const json = raw.startsWith('{') ? raw : Buffer.from(raw, 'base64').toString('utf8');
+    const sa = JSON.parse(json);
+    return sa?.client_email && sa?.private_key ? sa : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The address sellers share their sheet with (null when no service account is set). */
+export function serviceAccountEmail(): string | null {
+  return readServiceAccount()?.client_email ?? null;
+}
+
+export function isSheetsWritebackConfigured(): boolean {
+  return !!stubContext.getStore() || !!readServiceAccount();
+}
+
+let cachedToken: { token: string; exp: number } | null = null;
+
+async function accessToken(): Promise<string> {
+  if (cachedToken && cachedToken.exp - 60_000 > Date.now()) return cachedToken.token;
+  const sa = readServiceAccount();
+  if (!sa) throw new SheetsApiError('service_account_missing', 'GOOGLE_SERVICE_ACCOUNT_JSON is not set', false);
+
+  const tokenUri = sa.token_uri || 'https://oauth2.googleapis.com/token';
+  const key = await importPKCS8(sa.private_key, 'RS256');
+  const assertion = await new SignJWT({ scope: SCOPE })
+    .setProtectedHeader({ alg: 'RS256', typ: 'JWT' })
+    .setIssuer(sa.client_email)
+    .setAudience(tokenUri)
+    .setIssuedAt()
+    .setExpirationTime('1h')
+    .sign(key);
+
+  const res: any = await http(tokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }).toString(),
+    timeoutMs: 10_000,
+  });
+  const token = String(res?.access_token || '');
+  if (!token) throw new SheetsApiError('token_exchange_failed');
+  cachedToken = { token, exp: Date.now() + Number(res?.expires_in || 3600) * 1000 };
+  return token;
+}
+
+/** 403/404 mean the sheet isn't shared with the service account (or is gone): retrying won't help. */
+function wrapHttpError(e: any): SheetsApiError {
+  const msg = String(e?.message || e);
+  const status = Number(msg.match(/^(\d{3}) /)?.[1]);
+  if (status === 403 || status === 404) return new SheetsApiError('sheet_not_accessible', msg, false);
+  if (status === 400) return new SheetsApiError('bad_request', msg, false);
+  return new SheetsApiError('http_error', msg, true);
+}
+
+async function api<T = any>(path: string, opts: { method?: string; body?: any } = {}): Promise<T> {
+  const token = await accessToken();
+  try {
+    return await http<T>(`${SHEETS_BASE}/${path}`, {
+      method: opts.method || 'GET',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: opts.body,
+      timeoutMs: 15_000,
+    });
+  } catch (e) {
+    throw wrapHttpError(e);
+  }
+}
+
+const googleTransport: SheetsTransport = {
+  async sheetTitle(spreadsheetId, gid) {
+    const meta: any = await api(`${encodeURIComponent(spreadsheetId)}?fields=sheets.properties(sheetId,title)`);
+    const tabs: any[] = (meta?.sheets || []).map((s: any) => s.properties);
+    const tab = (gid ? tabs.find((t) => String(t.sheetId) === String(gid)) : null) ?? tabs[0];
+    if (!tab?.title) throw new SheetsApiError('tab_not_found', `no tab for gid ${gid ?? '(first)'}`, false);
+    return tab.title;
+  },
+  async getValues(spreadsheetId, range) {
+    const res: any = await api(`${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}?majorDimension=ROWS`);
+    return (res?.values || []) as string[][];
+  },
+  async batchUpdate(spreadsheetId, data) {
+    await api(`${encodeURIComponent(spreadsheetId)}/values:batchUpdate`, {
+      method: 'POST',
+      body: { valueInputOption: 'RAW', data }, // RAW: customer text must never become a formula
+    });
+  },
+};
+
+/** The stub when one is active in this async context, else the real API. */
+export function sheetsTransport(): SheetsTransport {
+  return stubContext.getStore() ?? googleTransport;
+}
@@ -18,45 +18,54 @@ function buildHeaderIndex(headers: string[]) {
   return { byNorm, listNorm };
 }
 
-const pick = (headers: string[], candidates: string[]) => {
+/** Header-name confidence recorded by `pick` (exact synonym vs. "contains"). */
+export const NAME_SCORE = { exact: 0.9, partial: 0.6 } as const;
+
+const pick = (headers: string[], candidates: string[], hits?: Map<string, number>) => {
   const { byNorm, listNorm } = buildHeaderIndex(headers);
   // exact match on normalized token
   for (const c of candidates) {
     const hit = byNorm.get(norm(c));
-    if (hit) return hit;
+    if (hit) {
+      hits?.set(hit, NAME_SCORE.exact);
+      return hit;
+    }
   }
   // partial/contains
   for (const c of candidates) {
     const nc = norm(c);
     const idx = listNorm.findIndex((h) => h.includes(nc));
-    if (idx >= 0) return headers[idx];
+    if (idx >= 0) {
+      hits?.set(headers[idx], NAME_SCORE.partial);
+      return headers[idx];
+    }
   }
   return undefined;
 };
 
 // ------------------------------ Heuristic mapper ------------------------------
-function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
+function heuristicSuggest(headers: string[], entity: 'orders' | 'products', hits?: Map<string, number>) {
   const H = (headers || []).filter((h) => String(h).trim() !== '');
 
   if (entity === 'products') {
     const sku = pick(H, [
       'sku', 'product sku', 'id', 'product id', 'code', 'item code', 'ref', 'reference', 'article', 'référence'
-    ]);
+    ], hits);
     const title = pick(H, [
       'title', 'name', 'product name', 'libelle', 'libellé', 'designation', 'désignation'
-    ]);
+    ], hits);
     const price = pick(H, [
       'price', 'unit price', 'amount', 'prix', 'montant', 'total'
-    ]);
+    ], hits);
     const qty = pick(H, [
       'qty', 'quantity', 'qte', 'quantite', 'quantité', 'stock', 'inventory', 'inv', 'qtd', 'qté'
-    ]);
+    ], hits);
     const description = pick(H, [
       'description', 'desc', 'details', 'detail', 'déscription'
-    ]);
+    ], hits);
     const currency = pick(H, [
       'currency', 'devise', 'monnaie', 'curr', 'curreny', 'currencie'
-    ]);
+    ], hits);
 
     return {
       uniqueKey: sku || 'sku',
@@ -79,7 +88,7 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'commande', 'n° commande', 'num commande', 'numero commande', 'numéro commande', 'ref commande', 'facture', 'bon de commande',
     // Common abbreviations
     'num', 'numero', 'numéro', 'n°', 'no', '#', 'cmd', 'ord', 'ref', 'réf'
-  ]);
+  ], hits);
   const status = pick(H, [
     // English
     'status', 'order status', 'state', 'order state', 'confirmation', 'confirmation status', 'delivery status', 'shipment status',
@@ -87,7 +96,7 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'statut', 'état', 'etat', 'statut commande', 'statut confirmation', 'statut livraison', 'statut paiement', 'état commande',
     // Arabic transliterations
     'halat', 'hala', 'wad3iya', 'wadi3a'
-  ]);
+  ], hits);
   const total = pick(H, [
     // English
     'total', 'amount', 'total amount', 'sum', 'price', 'total price', 'order total', 'grand total', 'subtotal', 'cost',
@@ -95,7 +104,7 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'prix', 'montant', 'montant total', 'total ttc', 'prix total', 'somme', 'coût', 'cout',
     // Currency symbols
     'dh', 'mad', 'eur', 'usd', '$', '€'
-  ]);
+  ], hits);
   const created = pick(H, [
     // English
     'created at', 'created', 'date', 'ordered at', 'order date', 'purchase date', 'ship date', 'date ordered', 'timestamp', 'time',
@@ -104,7 +113,7 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'commande le', 'créé le', 'cree le', 'commandé le', 'commande le',
     // Common formats
     'datetime', 'date time', 'date heure'
-  ]);
+  ], hits);
   const email = pick(H, [
     // English
     'email', 'e-mail', 'mail', 'customer email', 'buyer email', 'user email', 'contact email', 'email address',
@@ -112,7 +121,7 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'courriel', 'adresse email', 'adresse mail', 'email client', 'e mail',
     // Arabic transliterations
     'email', 'imail', 'baryd', 'bareed'
-  ]);
+  ], hits);
   const phone = pick(H, [
     // English
     'phone', 'phone number', 'mobile', 'mobile number', 'contact', 'contact number', 'cell', 'tel',
@@ -121,7 +130,7 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'numero', 'numéro', 'tel client', 'telephone client',
     // Arabic transliterations
     'tilifoun', 'hatif', 'raqm'
-  ]);
+  ], hits);
   const name = pick(H, [
     // English
     'name', 'customer', 'buyer', 'full name', 'customer name', 'buyer name', 'first name', 'last name', 'firstname', 'lastname',
@@ -129,7 +138,7 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'nom', 'client', 'nom client', 'nom complet', 'prenom', 'prénom', 'nom et prénom', 'nom prenom', 'nom prénom', 'acheteur',
     // Arabic transliterations
     'ism', 'esm', 'isem', '3amil', 'zaboun'
-  ]);
+  ], hits);
   const city = pick(H, [
     // English
     'city', 'town', 'location', 'address', 'delivery city', 'shipping city',
@@ -137,7 +146,15 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
     'ville', 'commune', 'localite', 'localité', 'adresse', 'lieu', 'ville livraison', 'ville de livraison',
     // Arabic transliterations
     'madina', 'mdina', 'balad'
-  ]);
+  ], hits);
+  const product = pick(H, [
+    // English
+    'product', 'products', 'product name', 'item', 'items', 'article', 'articles',
+    // French
+    'produit', 'produits', 'nom produit', 'nom du produit', 'désignation', 'designation',
+  ], hits);
+  const sku = pick(H, ['sku', 'product sku', 'code produit', 'ref produit', 'référence produit', 'reference produit'], hits);
+  const quantity = pick(H, ['qty', 'quantity', 'qte', 'qté', 'quantite', 'quantité'], hits);
 
   return {
     uniqueKey: orderId || 'order_id',
@@ -150,6 +167,9 @@ function heuristicSuggest(headers: string[], entity: 'orders' | 'products') {
       customer_phone: phone,
       customer_name: name,
       city,
+      product,
+      sku,
+      quantity,
     } as Record<string, string | undefined>,
   };
 }
@@ -241,7 +261,7 @@ Never invent headers that don't exist. If you cannot map a field, set it to null
       }
     : {
         uniqueKey_hint: ['order_id'],
-        fields: ['order_id','status','total_amount','created_at','customer_email','customer_phone','customer_name','city'],
+        fields: ['order_id','status','total_amount','created_at','customer_email','customer_phone','customer_name','city','product','sku','quantity'],
       };
 
   const user = JSON.stringify({
@@ -330,3 +350,217 @@ export function applyMapping(row: Record<string, any>, map: { fields: Record<str
   }
   return out;
 }
+
+// ------------------------------ Mapping review ------------------------------
+// What the seller sees before locking a mapping: every canonical field with the header
+// we'd use, where that choice came from, a confidence score and a few sample values.
+
+export type MappingEntity = 'orders' | 'products';
+
+export const CANONICAL_FIELDS: Record<MappingEntity, string[]> = {
+  orders: [
+    'order_id', 'status', 'total_amount', 'created_at', 'customer_name', 'customer_phone',
+    'customer_email', 'address', 'city', 'product', 'sku', 'quantity', 'notes',
+  ],
+  products: ['sku', 'title', 'price', 'quantity', 'description', 'currency'],
+};
+
+/** store_sheets.column_mapping once the seller has reviewed it. Values are sheet headers. */
+export type SavedMapping = {
+  entity?: MappingEntity;
+  fields: Record<string, string>;
+  uniqueKey?: string;
+  locked?: boolean;
+  template_id?: string | null;
+  updated_at?: string;
+};
+
+/** Header lists are alternatives (first present wins), so one template fits export variants. */
+export type MappingTemplate = {
+  id: string;
+  name: string;
+  entity: MappingEntity;
+  fields: Record<string, string | string[]>;
+  uniqueKey?: string;
+  builtin?: boolean;
+};
+
+export const MAPPING_PRESETS: MappingTemplate[] = [
+  {
+    id: 'preset:youcan',
+    name: 'YouCan export',
+    entity: 'orders',
+    builtin: true,
+    uniqueKey: 'order_id',
+    fields: {
+      order_id: ['Ref', 'Reference', 'Order ref', 'Order ID'],
+      status: ['Status', 'Order status'],
+      total_amount: ['Total', 'Total price'],
+      created_at: ['Created at', 'Date'],
+      customer_name: ['Full name', 'Customer name', 'Customer'],
+      customer_phone: ['Phone', 'Phone number'],
+      customer_email: ['Email'],
+      address: ['Address', 'Shipping address'],
+      city: ['City', 'Region'],
+      product: ['Products', 'Product name', 'Product'],
+      sku: ['SKU', 'Variant SKU'],
+      quantity: ['Quantity', 'Qty'],
+      notes: ['Notes', 'Note'],
+    },
+  },
+  {
+    id: 'preset:lightfunnels',
+    name: 'Lightfunnels export',
+    entity: 'orders',
+    builtin: true,
+    uniqueKey: 'order_id',
+    fields: {
+      order_id: ['Order name', 'Name', 'Order ID', 'Order number'],
+      status: ['Fulfillment status', 'Financial status', 'Status'],
+      total_amount: ['Total', 'Total price'],
+      created_at: ['Created at', 'Date'],
+      customer_name: ['Customer name', 'Shipping name', 'Customer full name'],
+      customer_phone: ['Phone', 'Shipping phone', 'Customer phone'],
+      customer_email: ['Email', 'Customer email'],
+      address: ['Shipping address', 'Shipping address line 1', 'Address'],
+      city: ['Shipping city', 'City'],
+      product: ['Product', 'Lineitem name', 'Product title'],
+      sku: ['SKU', 'Lineitem sku'],
+      quantity: ['Quantity', 'Lineitem quantity'],
+      notes: ['Notes', 'Note'],
+    },
+  },
+];
+
+/**
+ * Resolve a template against actual headers: exact header first, then accent/case-insensitive.
+ * No "contains" matching here; a template is meant to be precise.
+ */
+export function resolveTemplate(fields: Record<string, string | string[]>, headers: string[]) {
+  const { byNorm } = buildHeaderIndex(headers);
+  const resolved: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const [field, src] of Object.entries(fields || {})) {
+    const options = (Array.isArray(src) ? src : [src]).filter((s) => typeof s === 'string' && s.trim());
+    const hit = options.find((o) => headers.includes(o)) ?? options.map((o) => byNorm.get(norm(o))).find(Boolean);
+    if (hit) resolved[field] = hit;
+    else if (options.length) missing.push(field);
+  }
+  return { fields: resolved, missing };
+}
+
+/** Share of the template's fields present in these headers (0..1). */
+export function templateCoverage(t: Pick<MappingTemplate, 'fields'>, headers: string[]) {
+  const total = Object.keys(t.fields || {}).length;
+  return total ? Object.keys(resolveTemplate(t.fields, headers).fields).length / total : 0;
+}
+
+/** column_mapping counts only once the seller locked it (older rows hold `{}`). */
+export function lockedMapping(sheet: any, entity?: MappingEntity): SavedMapping | null {
+  const m = sheet?.column_mapping;
+  if (!m || m.locked !== true || !m.fields || !Object.keys(m.fields).length) return null;
+  if (entity && m.entity && m.entity !== entity) return null;
+  return m as SavedMapping;
+}
+
+const looksNumeric = (v: string) => /\d/.test(v) && Number.isFinite(Number(v.replace(/[^\d.,-]/g, '').replace(',', '.')));
+
+// Does a value look like what the field should hold? Fields without a check are scored on the name only.
+const VALUE_CHECKS: Record<string, (v: string) => boolean> = {
+  customer_phone: (v) => {
+    const d = v.replace(/\D/g, '').length;
+    return d >= 8 && d <= 15;
+  },
+  customer_email: (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  total_amount: looksNumeric,
+  price: looksNumeric,
+  quantity: (v) => /^\s*\d+([.,]0+)?\s*$/.test(v),
+  created_at: (v) => !Number.isNaN(Date.parse(v)) || /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}/.test(v),
+};
+
+function columnValues(rows: Array<Record<string, any>>, header: string, scan = 50) {
+  const out: string[] = [];
+  for (const r of rows.slice(0, scan)) {
+    const v = String(r?.[header] ?? '').trim();
+    if (v) out.push(v);
+  }
+  return out;
+}
+
+/** Share of sample values that fit the field (ids: share of distinct values); null = no signal. */
+function contentScore(field: string, values: string[], idField: string): number | null {
+  if (!values.length) return null;
+  if (field === idField) return new Set(values).size / values.length;
+  const check = VALUE_CHECKS[field];
+  return check ? values.filter(check).length / values.length : null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export type FieldSource = 'locked' | 'template' | 'ai' | 'heuristic';
+
+export type FieldSuggestion = {
+  field: string;
+  header: string | null;
+  source: FieldSource | null;
+  confidence: number | null;
+  samples: string[];
+};
+
+export type MappingReview = {
+  entity: MappingEntity;
+  uniqueKey: string;
+  fields: FieldSuggestion[];
+  unmapped_headers: string[];
+};
+
+/**
+ * Per-field suggestion with confidence. Precedence matches the worker:
+ * locked > template > AI > heuristic. Confidence blends the header-name match
+ * (60%) with how well sample values fit the field (40%); a locked field is 1.
+ */
+export function reviewMapping(
+  entity: MappingEntity,
+  headers: string[],
+  rows: Array<Record<string, any>>,
+  layers: {
+    locked?: SavedMapping | null;
+    template?: { fields: Record<string, string | string[]>; uniqueKey?: string } | null;
+    ai?: { fields?: Record<string, string | string[]>; uniqueKey?: string | null; confidence?: number } | null;
+  } = {}
+): MappingReview {
+  const H = (headers || []).filter((h) => String(h).trim() !== '');
+  const hits = new Map<string, number>();
+  const heur = heuristicSuggest(H, entity, hits);
+  const template = layers.template ? resolveTemplate(layers.template.fields, H).fields : {};
+  const idField = entity === 'products' ? 'sku' : 'order_id';
+
+  const fields = CANONICAL_FIELDS[entity].map((field): FieldSuggestion => {
+    const lockedHeader = layers.locked?.fields?.[field];
+    const aiHeader = layers.ai?.fields?.[field];
+    const candidates: Array<[FieldSource, string | undefined, number]> = [
+      ['locked', lockedHeader && H.includes(lockedHeader) ? lockedHeader : undefined, 1],
+      ['template', template[field], NAME_SCORE.exact],
+      ['ai', typeof aiHeader === 'string' && H.includes(aiHeader) ? aiHeader : undefined, layers.ai?.confidence ?? 0.7],
+      ['heuristic', heur.fields[field], hits.get(heur.fields[field] ?? '') ?? NAME_SCORE.partial],
+    ];
+    const [source, header, nameScore] = candidates.find(([, h]) => !!h) ?? [null, undefined, 0];
+    if (!header) return { field, header: null, source: null, confidence: null, samples: [] };
+
+    const values = columnValues(rows, header);
+    const content = source === 'locked' ? null : contentScore(field, values, idField);
+    return {
+      field,
+      header,
+      source,
+      confidence: round2(content == null ? nameScore : 0.6 * nameScore + 0.4 * content),
+      samples: [...new Set(values)].slice(0, 3),
+    };
+  });
+
+  const used = new Set(fields.map((f) => f.header).filter(Boolean));
+  const keyOptions = [layers.locked?.uniqueKey, layers.template?.uniqueKey, layers.ai?.uniqueKey];
+  const uniqueKey = keyOptions.find((k): k is string => !!k && fields.some((f) => f.field === k && f.header)) ?? idField;
+
+  return { entity, uniqueKey, fields, unmapped_headers: H.filter((h) => !used.has(h)) };
+}
@@ -0,0 +1,256 @@
+// src/utils/ingest-normalize.ts
+
+/**
+ * Normalization of ingested order rows into relational data:
+ * customers (one per store + E.164 phone) and order_items (matched against products).
+ */
+
+import { formatPhoneInternational } from './ingest-transforms';
+import { isValidEmail } from './ingest-validation';
+import { INGEST_DEFAULT_COUNTRY_CODE } from './flags';
+
+const NORM = (s: any) =>
+  String(s ?? '')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Digits after the calling code, for the codes our stores see most (mobile and landline).
+ * Other codes only need MIN_NATIONAL_DIGITS.
+ */
+const NATIONAL_DIGITS: Record<string, [min: number, max: number]> = {
+  '1': [10, 10], // US, Canada
+  '20': [8, 10], // Egypt
+  '32': [8, 9], // Belgium
+  '33': [9, 9], // France
+  '34': [9, 9], // Spain
+  '44': [9, 10], // UK
+  '212': [9, 9], // Morocco
+  '213': [8, 9], // Algeria
+  '216': [8, 8], // Tunisia
+  '966': [8, 9], // Saudi Arabia
+  '971': [8, 9], // UAE
+  '974': [8, 8], // Qatar
+};
+const MIN_NATIONAL_DIGITS = 6;
+
+/**
+ * E.164 phone ("+212612345678") or null when the value can't be a phone number.
+ * Local numbers get the store's calling code (stores.metadata.phone_country_code); the national
+ * part must have a plausible length for its calling code ("12345" is not a Moroccan number).
+ */
+export function toE164(phone: any, countryCode = INGEST_DEFAULT_COUNTRY_CODE): string | null {
+  const formatted = formatPhoneInternational(phone, countryCode);
+  if (!formatted) return null;
+  let digits = formatted.replace(/\D/g, '');
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith('0')) return null;
+
+  const code = [3, 2, 1].map((n) => digits.slice(0, n)).find((c) => NATIONAL_DIGITS[c]);
+  if (code) {
+    const [min, max] = NATIONAL_DIGITS[code];
+    let national = digits.slice(code.length);
+    // "+212 0612…": the trunk 0 kept after the calling code
+    if (national.startsWith('0') && national.length === max + 1) national = national.slice(1);
+    if (national.length < min || national.length > max) return null;
+    digits = code + national;
+  } else if (countryCode && digits.startsWith(countryCode) && digits.length - countryCode.length < MIN_NATIONAL_DIGITS) {
+    return null;
+  }
+  return `+${digits}`;
+}
+
+export function storeCountryCode(store: any): string {
+  const cc = String(store?.metadata?.phone_country_code ?? '').replace(/\D/g, '');
+  return cc || INGEST_DEFAULT_COUNTRY_CODE;
+}
+
+/**
+ * A field of the order's source row (orders.raw_payload_json, as upsertIngestedOrder writes it):
+ * the first of `keys` with a value. Names are compared normalized, so a sheet header
+ * ("Customer Name") and a connector or landing record key (customer_name) both match.
+ */
+export function orderPayloadField(order: any, ...keys: string[]): string {
+  const p = order?.raw_payload_json;
+  if (!p || typeof p !== 'object') return '';
+  const byName = new Map(Object.entries(p).map(([k, v]) => [NORM(k), v]));
+  for (const key of keys) {
+    const v = byName.get(NORM(key));
+    if (v != null && typeof v !== 'object' && String(v).trim()) return String(v).trim();
+  }
+  return '';
+}
+
+/* ------------------------------- Line items -------------------------------- */
+
+export type LineItem = { name: string; quantity: number };
+
+/**
+ * Split a product cell into line items:
+ *   "2x Red shirt + 1x Cap"  → [{Red shirt, 2}, {Cap, 1}]
+ *   "Red shirt x2, Cap"      → [{Red shirt, 2}, {Cap, 1}]
+ *   "Red shirt (3)"          → [{Red shirt, 3}]
+ * `defaultQty` (the row's quantity column) applies only to a single-item cell.
+ */
+export function parseLineItems(text: any, defaultQty?: any): LineItem[] {
+  const parts = String(text ?? '')
+    .split(/\s*(?:\+|;|\n|,(?!\d)|\s&\s)\s*/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const items = parts.map((part): LineItem => {
+    // "x" must stand alone ("2x Cap", "Cap x2") so sizes like "2XL" or "Max 2" stay in the name
+    let m = part.match(/^(\d{1,4})\s*[x×*](?=\s)\s*(.+)$/i) || part.match(/^(\d{1,4})\s+(\D.*)$/);
+    if (m) return { name: m[2].trim(), quantity: Number(m[1]) };
+    m = part.match(/^(.+?)\s+[x×*]\s*(\d{1,4})$/i) || part.match(/^(.+?)\s*\((\d{1,4})\)$/);
+    if (m) return { name: m[1].trim(), quantity: Number(m[2]) };
+    return { name: part, quantity: 0 };
+  });
+
+  const fallback = Math.floor(Number(defaultQty));
+  return items
+    .filter((i) => i.name)
+    .map((i) => ({
+      name: i.name,
+      quantity: i.quantity > 0 ? i.quantity : items.length === 1 && fallback > 0 ? fallback : 1,
+    }));
+}
+
+/* ------------------------------- Product index ----------------------------- */
+
+type ProductRow = { id: string; sku: string | null; title: string | null; price: any };
+
+export type ProductIndex = {
+  bySku: Map<string, ProductRow>;
+  byTitle: Map<string, ProductRow>;
+  titles: Array<[string, ProductRow]>;
+};
+
+export async function loadProductIndex(trx: any, store_id: string): Promise<ProductIndex> {
+  const rows: ProductRow[] = await trx('public.products')
+    .select('id', 'sku', 'title', 'price')
+    .where({ store_id });
+  const bySku = new Map<string, ProductRow>();
+  const byTitle = new Map<string, ProductRow>();
+  for (const p of rows) {
+    if (p.sku) bySku.set(NORM(p.sku), p);
+    if (p.title && !byTitle.has(NORM(p.title))) byTitle.set(NORM(p.title), p);
+  }
+  // Longest titles first so "Red shirt XL" wins over "Red shirt"
+  const titles = [...byTitle.entries()].sort((a, b) => b[0].length - a[0].length);
+  return { bySku, byTitle, titles };
+}
+
+function matchProduct(index: ProductIndex, name: string, sku?: string) {
+  if (sku) {
+    const p = index.bySku.get(NORM(sku));
+    if (p) return { product: p, matched: 'sku' as const };
+  }
+  const n = NORM(name);
+  if (!n) return { product: null, matched: null };
+  const bySku = index.bySku.get(n);
+  if (bySku) return { product: bySku, matched: 'sku' as const };
+  const exact = index.byTitle.get(n);
+  if (exact) return { product: exact, matched: 'title' as const };
+  const partial = index.titles.find(([t]) => t.length >= 3 && (n.includes(t) || t.includes(n)));
+  if (partial) return { product: partial[1], matched: 'title' as const };
+  return { product: null, matched: null };
+}
+
+/* --------------------------------- Writers --------------------------------- */
+
+/**
+ * Upsert the store's customer for this phone (idx_customers_store_phone).
+ * Returns null when the row has no usable phone.
+ */
+export async function upsertCustomer(
+  trx: any,
+  store_id: string,
+  input: { phone: string | null; name?: any; email?: any }
+): Promise<string | null> {
+  if (!input.phone) return null;
+  const name = String(input.name ?? '').trim() || null;
+  const emailRaw = String(input.email ?? '').trim();
+  const email = emailRaw && isValidEmail(emailRaw) ? emailRaw.toLowerCase() : null;
+
+  const res = await trx.raw(
+    `INSERT INTO public.customers AS customers (store_id, phone, name, email)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT (store_id, phone) WHERE phone IS NOT NULL
+     DO UPDATE SET name = COALESCE(EXCLUDED.name, customers.name),
+                   email = COALESCE(EXCLUDED.email, customers.email),
+                   updated_at = now()
+     RETURNING id`,
+    [store_id, input.phone, name, email]
+  );
+  return res?.rows?.[0]?.id ?? null;
+}
+
+/** A line item from a structured source (store platforms); `price` is the unit price. */
+export type LineItemInput = { name: string; quantity: number; sku?: string | null; price?: number | null };
+
+/**
+ * Replace the order's ingested line items (metadata.source = 'ingest'); items added by
+ * other means are left alone. Returns how many items were written.
+ */
+export async function writeOrderItems(
+  trx: any,
+  order_id: string,
+  items: LineItemInput[],
+  index: ProductIndex
+): Promise<number> {
+  await trx('public.order_items')
+    .where({ order_id })
+    .andWhereRaw(`metadata->>'source' = 'ingest'`)
+    .delete();
+  if (!items.length) return 0;
+
+  const rows = items.map((it) => {
+    const { product, matched } = matchProduct(index, it.name, it.sku || undefined);
+    const unit = product?.price != null && product.price !== '' ? Number(product.price) : null;
+    return {
+      order_id,
+      product_id: product?.id ?? null,
+      sku: product?.sku ?? it.sku ?? null,
+      quantity: it.quantity,
+      price: it.price ?? unit,
+      metadata: trx.raw('?::jsonb', [JSON.stringify({ source: 'ingest', title: it.name, matched })]),
+      created_at: trx.raw('clock_timestamp()'),
+    };
+  });
+  await trx('public.order_items').insert(rows);
+  return rows.length;
+}
+
+/** The line items a mapped sheet record describes: its product cell, else its SKU. */
+export function sheetLineItems(rec: Record<string, any>): { items: LineItem[]; sku?: string } {
+  const cell = rec.product ?? rec.products ?? rec.product_name ?? rec.items ?? '';
+  const sku = String(rec.sku ?? '').trim() || undefined;
+  return { items: parseLineItems(cell || sku || '', rec.quantity), sku };
+}
+
+/** Line items parsed from a sheet's product cell (see parseLineItems), then written as above. */
+export async function replaceOrderItems(
+  trx: any,
+  order_id: string,
+  rec: Record<string, any>,
+  index: ProductIndex,
+  orderTotal?: number | null
+): Promise<number> {
+  const { items: parsed, sku } = sheetLineItems(rec);
+
+  const items = parsed.map((it): LineItemInput => {
+    const single = parsed.length === 1;
+    const { product } = matchProduct(index, it.name, single ? sku : undefined);
+    const known = product?.price != null && product.price !== '';
+    // A lone unmatched item can still carry a price: the order total spread over the quantity
+    const price =
+      !known && single && Number.isFinite(orderTotal as number) && (orderTotal as number) > 0
+        ? Math.round(((orderTotal as number) / it.quantity) * 100) / 100
+        : null;
+    return { name: it.name, quantity: it.quantity, sku: single ? sku ?? null : null, price };
+  });
+  return writeOrderItems(trx, order_id, items, index);
+}
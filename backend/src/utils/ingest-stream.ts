@@ -0,0 +1,400 @@
+// src/utils/ingest-stream.ts
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open, stat, unlink, mkdir } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { pipeline } from 'node:stream/promises';
+import { StringDecoder } from 'node:string_decoder';
+import { createInflateRaw } from 'node:zlib';
+import { Readable, Transform } from 'node:stream';
+import { toCsvExportUrl } from './sheetsCsv';
+
+/**
+ * Row-by-row readers for large uploads. Rows are pulled, so a slow consumer (the chunked
+ * upsert) pauses the file read instead of letting rows pile up in memory. CSV and XLSX are
+ * read with node built-ins only: a quote-aware CSV state machine and a zip + XML scanner
+ * for the first worksheet.
+ */
+
+export type StreamSource =
+  | { type: 'upload'; path: string; originalName?: string; contentType?: string }
+  | { type: 'url'; url: string; filenameHint?: string; contentType?: string };
+
+export type TableStream = {
+  headers: string[];
+  rows: AsyncGenerator<Record<string, string>>;
+  /** Bytes of the underlying file consumed so far / in total (compressed sheet part for XLSX). */
+  bytes: () => { read: number; total: number | null };
+  close: () => Promise<void>;
+};
+
+/* ---------------------------------- CSV ------------------------------------ */
+
+function detectDelimiter(firstLine: string) {
+  const counts = [',', ';', '\t'].map((d) => [d, firstLine.split(d).length - 1] as const);
+  const [best, n] = counts.reduce((a, b) => (b[1] > a[1] ? b : a));
+  return n > 0 ? best : ',';
+}
+
+/** RFC 4180 records (quoted fields, "" escapes, CRLF/LF, newlines inside quotes). */
+export async function* csvRecords(chunks: AsyncIterable<Buffer | string>): AsyncGenerator<string[]> {
+  const decoder = new StringDecoder('utf8');
+  let delimiter: string | null = null;
+  let pending = ''; // text seen before the delimiter is known
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // saw a quote inside a quoted field; next char decides
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+
+  function* feed(text: string): Generator<string[]> {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (quotePending) {
+        quotePending = false;
+        if (ch === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false; // closing quote; fall through to handle ch normally
+      }
+      if (inQuotes) {
+        if (ch === '"') quotePending = true;
+        else field += ch;
+        continue;
+      }
+      if (ch === '"' && field === '') inQuotes = true;
+      else if (ch === delimiter) endField();
+      else if (ch === '\n') {
+        endField();
+        yield record;
+        record = [];
+      } else if (ch !== '\r') field += ch;
+    }
+  }
+
+  for await (const chunk of chunks) {
+    let text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    if (delimiter === null) {
+      pending += text;
+      const nl = pending.indexOf('\n');
+      if (nl < 0) continue;
+      delimiter = detectDelimiter(pending.slice(0, nl));
+      text = pending;
+      pending = '';
+    }
+    yield* feed(text);
+  }
+
+  if (delimiter === null) delimiter = detectDelimiter(pending);
+  yield* feed(pending + decoder.end());
+  if (field !== '' || record.length || quotePending) {
+    quotePending = false;
+    endField();
+    yield record;
+  }
+}
+
+/* ---------------------------------- XLSX ----------------------------------- */
+
+type ZipEntry = { method: number; compressedSize: number; localOffset: number };
+
+async function readZipDirectory(path: string): Promise<Map<string, ZipEntry>> {
+  const fh = await open(path, 'r');
+  try {
+    const { size } = await fh.stat();
+    const tailLen = Math.min(size, 65_557);
+    const tail = Buffer.alloc(tailLen);
+    await fh.read(tail, 0, tailLen, size - tailLen);
+
+    let eocd = -1;
+    for (let i = tailLen - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) throw new Error('xlsx_not_a_zip');
+    const cdSize = tail.readUInt32LE(eocd + 12);
+    const cdOffset = tail.readUInt32LE(eocd + 16);
+    if (cdOffset === 0xffffffff || cdSize === 0xffffffff) throw new Error('xlsx_zip64_unsupported');
+
+    const cd = Buffer.alloc(cdSize);
+    await fh.read(cd, 0, cdSize, cdOffset);
+
+    const entries = new Map<string, ZipEntry>();
+    let p = 0;
+    while (p + 46 <= cd.length && cd.readUInt32LE(p) === 0x02014b50) {
+      const nameLen = cd.readUInt16LE(p + 28);
+      const extraLen = cd.readUInt16LE(p + 30);
+      const commentLen = cd.readUInt16LE(p + 32);
+      entries.set(cd.toString('utf8', p + 46, p + 46 + nameLen), {
+        method: cd.readUInt16LE(p + 10),
+        compressedSize: cd.readUInt32LE(p + 20),
+        localOffset: cd.readUInt32LE(p + 42),
+      });
+      p += 46 + nameLen + extraLen + commentLen;
+    }
+    return entries;
+  } finally {
+    await fh.close();
+  }
+}
+
+async function openZipEntry(path: string, entry: ZipEntry, onRawBytes?: (n: number) => void): Promise<Readable> {
+  if (!entry.compressedSize) return Readable.from([]);
+  const fh = await open(path, 'r');
+  const local = Buffer.alloc(30);
+  try {
+    await fh.read(local, 0, 30, entry.localOffset);
+  } finally {
+    await fh.close();
+  }
+  if (local.readUInt32LE(0) !== 0x04034b50) throw new Error('xlsx_bad_local_header');
+  const start = entry.localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+  if (entry.method !== 0 && entry.method !== 8) throw new Error(`xlsx_unsupported_compression_${entry.method}`);
+  let raw: Readable = createReadStream(path, { start, end: start + entry.compressedSize - 1 });
+  if (onRawBytes) {
+    let n = 0;
+    raw = raw.pipe(
+      new Transform({
+        transform(c, _enc, done) {
+          onRawBytes((n += c.length));
+          done(null, c);
+        },
+      })
+    );
+  }
+  return entry.method === 0 ? raw : raw.pipe(createInflateRaw());
+}
+
+async function readZipText(path: string, entry?: ZipEntry): Promise<string> {
+  if (!entry) return '';
+  let out = '';
+  const decoder = new StringDecoder('utf8');
+  for await (const c of await openZipEntry(path, entry)) out += decoder.write(c as Buffer);
+  return out + decoder.end();
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const decodeXml = (s: string) =>
+  s.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, e: string) =>
+    e[0] === '#'
+      ? String.fromCodePoint(e[1].toLowerCase() === 'x' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10))
+      : XML_ENTITIES[e.toLowerCase()]
+  );
+
+const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+/** Concatenated <t> runs of a rich/inline string (phonetic hints dropped). */
+const textRuns = (xml: string) =>
+  decodeXml(
+    [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((m) => m[1]).join('')
+  );
+
+/** Yield each complete `<tag …>…</tag>` (or self-closed) element from a streamed XML part. */
+async function* xmlElements(stream: Readable, tag: string): AsyncGenerator<string> {
+  const re = new RegExp(`<${tag}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/${tag}>)`, 'g');
+  const decoder = new StringDecoder('utf8');
+  let buf = '';
+  for await (const c of stream) {
+    buf += decoder.write(c as Buffer);
+    let last = 0;
+    re.lastIndex = 0;
+    for (let m = re.exec(buf); m; m = re.exec(buf)) {
+      yield m[0];
+      last = re.lastIndex;
+    }
+    // keep only from the first unfinished element on
+    const open = buf.indexOf(`<${tag}`, last);
+    buf = open >= 0 ? buf.slice(open) : '';
+  }
+}
+
+// Built-in number formats that are dates/times
+const DATE_FMT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Style indexes (cellXfs order) whose number format is a date. */
+function dateStyles(stylesXml: string): Set<number> {
+  const custom = new Map<number, string>();
+  for (const m of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    custom.set(Number(attr(m[0], 'numFmtId')), decodeXml(attr(m[0], 'formatCode') ?? ''));
+  }
+  const isDate = (id: number) => {
+    if (DATE_FMT_IDS.has(id)) return true;
+    const code = custom.get(id);
+    return !!code && /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+  };
+  const out = new Set<number>();
+  const xfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  [...xfs.matchAll(/<xf\b[^>]*>/g)].forEach((m, i) => {
+    if (isDate(Number(attr(m[0], 'numFmtId')))) out.add(i);
+  });
+  return out;
+}
+
+/** Excel serial (1900 system) → ISO date, or date-time when it has a time part. */
+function excelSerialToIso(serial: number) {
+  const ms = Math.round((serial - 25569) * 86_400_000);
+  const iso = new Date(ms).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.replace('.000Z', 'Z');
+}
+
+const colIndex = (ref: string) => {
+  let n = 0;
+  for (const ch of ref.replace(/\d+$/, '')) n = n * 26 + (ch.toUpperCase().charCodeAt(0) - 64);
+  return n - 1;
+};
+
+/** First worksheet's rows as string arrays. Shared strings are kept in memory; rows are not. */
+export async function* xlsxRecords(path: string, onEntryBytes?: (n: number, total: number) => void): AsyncGenerator<string[]> {
+  const entries = await readZipDirectory(path);
+
+  // First sheet in workbook order → its part via the workbook rels
+  const workbook = await readZipText(path, entries.get('xl/workbook.xml'));
+  const rels = await readZipText(path, entries.get('xl/_rels/workbook.xml.rels'));
+  const rid = attr(workbook.match(/<sheet\b[^>]*>/)?.[0] ?? '', 'r:id');
+  const rel = [...rels.matchAll(/<Relationship\b[^>]*>/g)].find((m) => attr(m[0], 'Id') === rid)?.[0];
+  const target = rel ? attr(rel, 'Target') ?? '' : '';
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = entries.get(sheetPath);
+  if (!sheet) throw new Error('xlsx_sheet_missing');
+
+  const shared: string[] = [];
+  const sst = entries.get('xl/sharedStrings.xml');
+  if (sst) {
+    for await (const si of xmlElements(await openZipEntry(path, sst), 'si')) shared.push(textRuns(si));
+  }
+  const dates = dateStyles(await readZipText(path, entries.get('xl/styles.xml')));
+
+  const stream = await openZipEntry(path, sheet, onEntryBytes && ((n) => onEntryBytes(n, sheet.compressedSize)));
+
+  for await (const row of xmlElements(stream, 'row')) {
+    const out: string[] = [];
+    let next = 0;
+    for (const m of row.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const a = m[1];
+      const inner = m[2] ?? '';
+      const ref = attr(a, 'r');
+      const col = ref ? colIndex(ref) : next;
+      next = col + 1;
+
+      const t = attr(a, 't');
+      const v = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+      if (t === 's') value = v != null ? shared[Number(v)] ?? '' : '';
+      else if (t === 'inlineStr') value = textRuns(inner);
+      else if (t === 'b') value = v === '1' ? 'TRUE' : v === '0' ? 'FALSE' : '';
+      else if (t === 'e') value = '';
+      else if (v != null) {
+        value = decodeXml(v);
+        const s = Number(attr(a, 's'));
+        if (t !== 'str' && dates.has(s) && Number.isFinite(Number(value))) value = excelSerialToIso(Number(value));
+      }
+      while (out.length < col) out.push('');
+      out[col] = value;
+    }
+    yield out;
+  }
+}
+
+/* -------------------------------- Sources ---------------------------------- */
+
+const isGoogleSheet = (url: string) => /^https:\/\/docs\.google\.com\/spreadsheets\//i.test(url);
+
+const isXlsx = (name?: string | null, contentType?: string | null) =>
+  extname(name || '').toLowerCase() === '.xlsx' || !!contentType?.includes('spreadsheetml');
+
+/** URL sources are spooled to a temp file first (streamed, never buffered) so XLSX can seek. */
+async function localFile(source: StreamSource): Promise<{ path: string; temp: boolean }> {
+  if (source.type === 'upload') return { path: source.path, temp: false };
+
+  const { default: fetch } = await import('node-fetch');
+  // Google Sheets links go through the CSV export, as in the buffered preflight
+  const res = await fetch(isGoogleSheet(source.url) ? toCsvExportUrl(source.url) : source.url);
+  if (!res.ok || !res.body) throw new Error(`fetch_failed:${res.status}`);
+  const dir = join(process.cwd(), 'tmp', 'ingest');
+  await mkdir(dir, { recursive: true });
+  const path = join(dir, `${randomUUID()}${extname(source.filenameHint || '') || ''}`);
+  await pipeline(res.body as unknown as Readable, createWriteStream(path));
+  return { path, temp: true };
+}
+
+/**
+ * Open an upload/URL as a row stream. Headers are the first non-empty record (BOM and
+ * blank header names dropped, as in the buffered parser); rows come back keyed by header.
+ */
+export async function openTableStream(source: StreamSource): Promise<TableStream> {
+  const file = await localFile(source);
+  const name = source.type === 'upload' ? source.originalName ?? source.path : source.filenameHint ?? source.url;
+  const total = (await stat(file.path)).size;
+  let read = 0;
+  let xlsxTotal: number | null = null;
+
+  let records: AsyncGenerator<string[]>;
+  let fileStream: Readable | null = null;
+  if (!(source.type === 'url' && isGoogleSheet(source.url)) && isXlsx(name, source.contentType)) {
+    records = xlsxRecords(file.path, (n, t) => {
+      read = n;
+      xlsxTotal = t;
+    });
+  } else {
+    const fs = createReadStream(file.path, { highWaterMark: 64 * 1024 });
+    fileStream = fs;
+    records = csvRecords(
+      (async function* counted() {
+        for await (const c of fs) {
+          read += (c as Buffer).length;
+          yield c as Buffer;
+        }
+      })()
+    );
+  }
+
+  const close = async () => {
+    await records.return(undefined).catch(() => undefined);
+    fileStream?.destroy();
+    if (file.temp) await unlink(file.path).catch(() => undefined);
+  };
+
+  let headerCells: string[] = [];
+  try {
+    for (let r = await records.next(); !r.done; r = await records.next()) {
+      if (r.value.some((c) => String(c ?? '').trim() !== '')) {
+        headerCells = r.value.map((h, i) => (i === 0 ? h.replace(/^\uFEFF/, '') : h).trim());
+        break;
+      }
+    }
+  } catch (e) {
+    await close();
+    throw e;
+  }
+
+  const cols = headerCells.map((h, i) => [h, i] as const).filter(([h]) => h !== '');
+  const headers = cols.map(([h]) => h);
+
+  async function* rows(): AsyncGenerator<Record<string, string>> {
+    try {
+      for await (const rec of records) {
+        if (!rec.some((c) => String(c ?? '').trim() !== '')) continue;
+        const o: Record<string, string> = {};
+        for (const [h, i] of cols) o[h] = rec[i] ?? '';
+        yield o;
+      }
+    } finally {
+      await close();
+    }
+  }
+
+  return {
+    headers,
+    rows: rows(),
+    bytes: () => ({ read, total: xlsxTotal ?? total }),
+    close,
+  };
+}
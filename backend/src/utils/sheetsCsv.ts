@@ -12,7 +12,7 @@ class SheetCsvError extends Error {
 }
 
 /** Extract <id> and optional <gid> from any Google Sheets URL. */
-function extractSheetIdAndGid(input: string): { id?: string; gid?: string; raw: string } {
+export function extractSheetIdAndGid(input: string): { id?: string; gid?: string; raw: string } {
   try {
     const u = new URL(input);
     const m = u.pathname.match(/\/spreadsheets\/(?:u\/\d+\/)?d\/([a-zA-Z0-9-_]+)/);
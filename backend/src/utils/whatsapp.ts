@@ -29,3 +29,116 @@ export async function pickWhatsAppForStore(knex: Knex, store_id: string) {
   }
   return null;
 }
+
+/* ------------------------------ inbound routing ------------------------------ */
+
+/** National significant part of a phone (last 9 digits) — tolerant to +212 / 0 / 00 prefixes. */
+export function phoneMatchKey(phone: string): string {
+  return String(phone || '').replace(/\D/g, '').slice(-9);
+}
+
+const CONVO_PHONE_KEY_SQL =
+  "right(regexp_replace(COALESCE(metadata->>'to',''), '\\D', '', 'g'), 9)";
+
+/**
+ * Resolve the store that owns a WhatsApp Cloud API phone_number_id.
+ * Returns null when the number is not registered (callers may fall back to env mode).
+ */
+export async function resolveStoreByPhoneNumberId(
+  knex: Knex,
+  phone_number_id: string
+): Promise<{ store_id: string; channel_id: string } | null> {
+  if (!phone_number_id) return null;
+  const ch = await knex('channels')
+    .select('id', 'store_id')
+    .where({ provider: 'whatsapp', phone_number_id, status: 'active' })
+    .orderBy('updated_at', 'desc')
+    .first();
+  return ch ? { store_id: ch.store_id, channel_id: ch.id } : null;
+}
+
+/**
+ * Map an inbound message to the conversation it belongs to.
+ * Order of preference:
+ *  1) the conversation whose last outbound WA message the customer replied to (context.id)
+ *  2) the most recent OPEN conversation for that customer phone
+ *  3) the most recent conversation for that customer phone (closed ones may still get replies)
+ * When store_id is null (env single-tenant mode) the lookup spans all stores.
+ */
+export async function findConversationForInbound(
+  knex: Knex,
+  store_id: string | null,
+  fromPhone: string,
+  contextMessageId?: string | null
+): Promise<{ id: string; store_id: string } | null> {
+  const scoped = () => {
+    const q = knex('conversations').select('id', 'store_id');
+    if (store_id) q.where({ store_id });
+    return q;
+  };
+
+  if (contextMessageId) {
+    const byContext = await scoped()
+      .whereRaw("metadata->>'last_wa_id' = ?", [contextMessageId])
+      .orderBy('updated_at', 'desc')
+      .first();
+    if (byContext) return byContext;
+  }
+
+  const key = phoneMatchKey(fromPhone);
+  if (key.length < 6) return null;
+
+  const open = await scoped()
+    .whereRaw(`${CONVO_PHONE_KEY_SQL} = ?`, [key])
+    .andWhere({ status: 'open' })
+    .orderBy('updated_at', 'desc')
+    .first();
+  if (open) return open;
+
+  const any = await scoped()
+    .whereRaw(`${CONVO_PHONE_KEY_SQL} = ?`, [key])
+    .orderBy('updated_at', 'desc')
+    .first();
+  return any ?? null;
+}
+
+/** True when the phone_number_id is the single-tenant number configured via ENV. */
+export function isEnvPhoneNumberId(phone_number_id: string): boolean {
+  const envId = (process.env.WHATSAPP_PHONE_ID || '').trim();
+  return !!envId && envId === String(phone_number_id || '').trim();
+}
+
+/* ------------------------------ delivery receipts ----------------------------- */
+
+export type WhatsAppDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+const STATUS_RANK: Record<WhatsAppDeliveryStatus, number> = { sent: 1, delivered: 2, read: 3, failed: 4 };
+
+/**
+ * Apply one `value.statuses[]` entry from the webhook to the matching messages row.
+ * Receipts can arrive out of order, so a status only moves forward
+ * (sent → delivered → read); `failed` always wins. Returns true when a row changed.
+ */
+export async function applyWhatsAppStatus(
+  knex: Knex,
+  s: { id?: string; status?: string; timestamp?: string | number; errors?: any[] }
+): Promise<boolean> {
+  const status = String(s?.status || '').toLowerCase() as WhatsAppDeliveryStatus;
+  if (!s?.id || !(status in STATUS_RANK)) return false;
+
+  const err = status === 'failed' && Array.isArray(s.errors) && s.errors.length
+    ? { code: s.errors[0]?.code ?? null, title: s.errors[0]?.title ?? s.errors[0]?.message ?? null, details: s.errors[0]?.error_data?.details ?? null }
+    : null;
+  const at = s.timestamp ? new Date(Number(s.timestamp) * 1000) : new Date();
+
+  const rankSql = `CASE delivery_status WHEN 'sent' THEN 1 WHEN 'delivered' THEN 2 WHEN 'read' THEN 3 WHEN 'failed' THEN 4 ELSE 0 END`;
+  const n = await knex('messages')
+    .where({ wa_message_id: s.id })
+    .andWhereRaw(`(${rankSql} < ? OR ? = 'failed')`, [STATUS_RANK[status], status])
+    .update({
+      delivery_status: status,
+      delivery_error: err ? JSON.stringify(err) : null,
+      delivery_updated_at: at,
+    });
+  return Number(n) > 0;
+}
@@ -1,9 +1,31 @@
 // src/utils/whatsappClient.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { Knex } from 'knex';
 import { http } from '../http';
+import { openJson } from '../lib/secretBox';
 
 type SendResult = { ok: boolean; id?: string; error?: any };
 
+export type WhatsAppSender = {
+  token: string;
+  phoneNumberId: string;
+  source: 'store' | 'env' | 'stub';
+  channel_id?: string;
+};
+
+/** Receives the Graph API message body instead of Meta (conversation simulator). */
+export type WhatsAppStub = (body: any) => Promise<{ id: string }> | { id: string };
+
+const GRAPH_BASE = 'https://graph.facebook.com/v20.0';
+
+// Scoped per async context, so a simulation never swaps the transport for real traffic
+const stubContext = new AsyncLocalStorage<WhatsAppStub>();
+
+/** Run `fn` with every outbound WhatsApp message delivered to `stub`. */
+export function withWhatsAppStub<T>(stub: WhatsAppStub, fn: () => Promise<T>): Promise<T> {
+  return stubContext.run(stub, fn);
+}
+
 /** Read ENV creds once (helpers keep code tidy). */
 function getEnvCreds() {
   const token = (process.env.WHATSAPP_TOKEN || '').trim();
@@ -11,11 +33,87 @@ function getEnvCreds() {
   return { token, phoneNumberId, isConfigured: !!token && !!phoneNumberId };
 }
 
+/**
+ * The store has its own channel but it can't be used: marked in error by a failed test, or
+ * its credentials can't be decrypted (ENCRYPTION_KEY rotated?). Sends for that store stop
+ * instead of going out from the ENV number, and the code is reported to the caller.
+ */
+export class WhatsAppChannelError extends Error {
+  code: 'whatsapp_channel_error' | 'whatsapp_channel_unreadable';
+  channel_id: string;
+  constructor(code: WhatsAppChannelError['code'], channel_id: string) {
+    super(code);
+    this.code = code;
+    this.channel_id = channel_id;
+  }
+}
+
+/**
+ * Pick the sender for a store:
+ *   1) its per-store channel (credentials_json.enc is sealed with ENCRYPTION_KEY)
+ *   2) ENV single-tenant fallback (WHATSAPP_TOKEN / WHATSAPP_PHONE_ID), only for stores
+ *      without a connected channel
+ * Returns null when neither is usable; throws WhatsAppChannelError when the store's channel
+ * is broken. `retest` accepts a channel in error (the connection test re-verifies it).
+ */
+export async function resolveWhatsAppSender(
+  knex: Knex,
+  store_id: string,
+  opts: { retest?: boolean } = {}
+): Promise<WhatsAppSender | null> {
+  if (stubContext.getStore()) return { token: 'stub', phoneNumberId: 'stub', source: 'stub' };
+
+  // disconnected channels are 'inactive' with their credentials wiped
+  const ch: any = store_id
+    ? await knex('channels')
+        .where({ store_id, provider: 'whatsapp' })
+        .whereNot({ status: 'inactive' })
+        .orderBy('updated_at', 'desc')
+        .first()
+    : null;
+
+  if (ch) {
+    if (ch.status !== 'active' && !(opts.retest && ch.status === 'error')) {
+      throw new WhatsAppChannelError('whatsapp_channel_error', ch.id);
+    }
+    let creds: { access_token?: string };
+    try {
+      creds = ch.credentials_json?.enc
+        ? openJson<{ access_token?: string }>(ch.credentials_json.enc)
+        : ch.credentials_json || {};
+    } catch {
+      throw new WhatsAppChannelError('whatsapp_channel_unreadable', ch.id);
+    }
+    const token = String(creds?.access_token || '').trim();
+    const phoneNumberId = String(ch.phone_number_id || '').trim();
+    if (!token || !phoneNumberId) throw new WhatsAppChannelError('whatsapp_channel_unreadable', ch.id);
+    return { token, phoneNumberId, source: 'store', channel_id: ch.id };
+  }
+
+  const { token, phoneNumberId, isConfigured } = getEnvCreds();
+  return isConfigured ? { token, phoneNumberId, source: 'env' } : null;
+}
+
+/** Sender for the send helpers: a broken channel or a failed lookup becomes the send's error. */
+async function senderFor(knex: Knex, store_id: string): Promise<{ sender: WhatsAppSender } | { error: string }> {
+  try {
+    const sender = await resolveWhatsAppSender(knex, store_id);
+    return sender ? { sender } : { error: 'whatsapp_noop_env_missing' };
+  } catch (e: any) {
+    return { error: e instanceof WhatsAppChannelError ? e.code : e?.message || String(e) };
+  }
+}
+
 async function postToWhatsAppAPI(
   url: string,
   token: string,
   body: any
 ): Promise<any> {
+  const stub = stubContext.getStore();
+  if (stub) {
+    const { id } = await stub(body);
+    return { messages: [{ id }] };
+  }
   return http(url, {
     method: 'POST',
     headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
@@ -24,26 +122,44 @@ async function postToWhatsAppAPI(
   });
 }
 
+/**
+ * Check a token/phone_number_id pair against the Graph API.
+ * Used by the connect/test routes before (and after) storing credentials.
+ */
+export async function verifyWhatsAppCredentials(
+  token: string,
+  phoneNumberId: string
+): Promise<{ ok: boolean; display_phone?: string; verified_name?: string; error?: any }> {
+  try {
+    const res: any = await http(
+      `${GRAPH_BASE}/${encodeURIComponent(phoneNumberId)}?fields=display_phone_number,verified_name`,
+      { method: 'GET', headers: { Authorization: `Bearer ${token}` }, timeoutMs: 10_000 }
+    );
+    return { ok: true, display_phone: res?.display_phone_number, verified_name: res?.verified_name };
+  } catch (e: any) {
+    return { ok: false, error: e?.message || String(e) };
+  }
+}
+
 /**
  * Send a plain text message via WhatsApp Cloud API.
- * ENV-only:
- *   - WHATSAPP_TOKEN
- *   - WHATSAPP_PHONE_ID
- * If either is missing, we noop and return a descriptive error.
+ * Uses the store's own number when connected, else the ENV number.
+ * If neither is available, we noop and return a descriptive error.
  */
 export async function sendWhatsAppText(
-  _knex: Knex,
-  _store_id: string,
+  knex: Knex,
+  store_id: string,
   toPhoneE164: string,
   body: string
 ): Promise<SendResult> {
-  const { token, phoneNumberId, isConfigured } = getEnvCreds();
-  if (!isConfigured) return { ok: false, error: 'whatsapp_noop_env_missing' };
+  const resolved = await senderFor(knex, store_id);
+  if ('error' in resolved) return { ok: false, error: resolved.error };
+  const { sender } = resolved;
 
   try {
     const res: any = await postToWhatsAppAPI(
-      `https://graph.facebook.com/v20.0/${encodeURIComponent(phoneNumberId)}/messages`,
-      token,
+      `${GRAPH_BASE}/${encodeURIComponent(sender.phoneNumberId)}/messages`,
+      sender.token,
       {
         messaging_product: 'whatsapp',
         to: toPhoneE164,
@@ -58,22 +174,23 @@ export async function sendWhatsAppText(
 }
 
 /**
- * Send interactive buttons via WhatsApp Cloud API (ENV-only).
+ * Send interactive buttons via WhatsApp Cloud API (per-store sender, ENV fallback).
  */
 export async function sendWhatsAppChoices(
-  _knex: Knex,
-  _store_id: string,
+  knex: Knex,
+  store_id: string,
   toPhoneE164: string,
   title: string,
   buttons: { id: string; title: string }[]
 ): Promise<SendResult> {
-  const { token, phoneNumberId, isConfigured } = getEnvCreds();
-  if (!isConfigured) return { ok: false, error: 'whatsapp_noop_env_missing' };
+  const resolved = await senderFor(knex, store_id);
+  if ('error' in resolved) return { ok: false, error: resolved.error };
+  const { sender } = resolved;
 
   try {
     const res: any = await postToWhatsAppAPI(
-      `https://graph.facebook.com/v20.0/${encodeURIComponent(phoneNumberId)}/messages`,
-      token,
+      `${GRAPH_BASE}/${encodeURIComponent(sender.phoneNumberId)}/messages`,
+      sender.token,
       {
         messaging_product: 'whatsapp',
         to: toPhoneE164,
@@ -95,3 +212,38 @@ export async function sendWhatsAppChoices(
     return { ok: false, error: e?.message || String(e) };
   }
 }
+
+/**
+ * Send an approved template (required outside the 24h customer-service window).
+ * `components` carries body parameters / button payloads as the Graph API expects them.
+ */
+export async function sendWhatsAppTemplate(
+  knex: Knex,
+  store_id: string,
+  toPhoneE164: string,
+  template: { name: string; language: string; components?: any[] }
+): Promise<SendResult> {
+  const resolved = await senderFor(knex, store_id);
+  if ('error' in resolved) return { ok: false, error: resolved.error };
+  const { sender } = resolved;
+
+  try {
+    const res: any = await postToWhatsAppAPI(
+      `${GRAPH_BASE}/${encodeURIComponent(sender.phoneNumberId)}/messages`,
+      sender.token,
+      {
+        messaging_product: 'whatsapp',
+        to: toPhoneE164,
+        type: 'template',
+        template: {
+          name: template.name,
+          language: { code: template.language },
+          ...(template.components?.length ? { components: template.components } : {}),
+        },
+      }
+    );
+    return { ok: true, id: res?.messages?.[0]?.id };
+  } catch (e: any) {
+    return { ok: false, error: e?.message || String(e) };
+  }
+}
@@ -0,0 +1,199 @@
+// src/utils/whatsappTemplates.ts
+import type { Knex } from 'knex';
+import { orderPayloadField } from './ingest-normalize';
+
+/**
+ * WhatsApp only accepts free-form (session) messages within 24h of the customer's
+ * last inbound message. Anything else — first contact, follow-ups — must be an
+ * approved template. Templates are configured per store in stores.metadata.whatsapp_templates:
+ *
+ *   {
+ *     first_contact: { name: 'order_confirmation', languages: { fr: 'fr', ar: 'ar', ary: 'ar', en: 'en' },
+ *                      variables: ['customer_name', 'product', 'total', 'address'],
+ *                      buttons: ['confirm', 'cancel', 'more'] },
+ *     followup:      { ... },
+ *     final_notice:  { ... }   // optional, falls back to followup
+ *   }
+ *
+ * `variables` are the body placeholders {{1}}, {{2}}, … in order; `buttons` are the
+ * quick-reply payloads in the order the template declares its buttons.
+ */
+
+export type TemplateLocale = 'fr' | 'en' | 'ar' | 'ary';
+export type TemplateKind = 'first_contact' | 'followup' | 'final_notice';
+
+export const TEMPLATE_KINDS: TemplateKind[] = ['first_contact', 'followup', 'final_notice'];
+export const TEMPLATE_LOCALES: TemplateLocale[] = ['fr', 'ar', 'ary', 'en'];
+export const TEMPLATE_VARIABLES = [
+  'customer_name',
+  'product',
+  'total',
+  'address',
+  'city',
+  'order_ref',
+  'store_name',
+] as const;
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateConfig = {
+  name: string;
+  languages: Partial<Record<TemplateLocale, string>>;
+  variables: TemplateVariable[];
+  buttons: string[];
+};
+
+export type StoreTemplates = Partial<Record<TemplateKind, TemplateConfig>>;
+
+export type ResolvedTemplate = {
+  kind: TemplateKind;
+  name: string;
+  language: string;
+  variables: TemplateVariable[];
+  buttons: string[];
+};
+
+export const SESSION_WINDOW_MS = 24 * 3600 * 1000;
+
+/* -------------------------------- validation ------------------------------- */
+
+function normalizeOne(raw: any): { ok: true; value: TemplateConfig } | { ok: false; error: string } {
+  const name = String(raw?.name ?? '').trim();
+  if (!/^[a-z0-9_]{1,512}$/.test(name)) return { ok: false, error: 'invalid_template_name' };
+
+  const languages: Partial<Record<TemplateLocale, string>> = {};
+  for (const loc of TEMPLATE_LOCALES) {
+    const code = raw?.languages?.[loc];
+    if (code == null || code === '') continue;
+    if (!/^[a-z]{2,3}(_[A-Z]{2})?$/.test(String(code))) return { ok: false, error: `invalid_language_${loc}` };
+    languages[loc] = String(code);
+  }
+  if (!Object.keys(languages).length) return { ok: false, error: 'template_languages_required' };
+
+  const variables = Array.isArray(raw?.variables) ? raw.variables.map(String) : [];
+  const unknown = variables.find((v: string) => !(TEMPLATE_VARIABLES as readonly string[]).includes(v));
+  if (unknown) return { ok: false, error: `unknown_template_variable:${unknown}` };
+
+  const buttons = Array.isArray(raw?.buttons) ? raw.buttons.map((b: any) => String(b).trim()).filter(Boolean) : [];
+  if (buttons.length > 3) return { ok: false, error: 'too_many_template_buttons' };
+
+  return { ok: true, value: { name, languages, variables: variables as TemplateVariable[], buttons } };
+}
+
+/** Validate a seller-supplied template map; unknown kinds are rejected, null entries remove a kind. */
+export function normalizeStoreTemplates(
+  body: any
+): { ok: true; templates: StoreTemplates } | { ok: false; error: string } {
+  if (!body || typeof body !== 'object') return { ok: false, error: 'invalid_body' };
+  const templates: StoreTemplates = {};
+  for (const [kind, raw] of Object.entries(body)) {
+    if (!TEMPLATE_KINDS.includes(kind as TemplateKind)) return { ok: false, error: `unknown_template_kind:${kind}` };
+    if (raw == null) continue;
+    const r = normalizeOne(raw);
+    if (!r.ok) return { ok: false, error: `${kind}:${r.error}` };
+    templates[kind as TemplateKind] = r.value;
+  }
+  return { ok: true, templates };
+}
+
+/* -------------------------------- resolution ------------------------------- */
+
+/**
+ * Template to use for `kind` in `locale`, or null if the store has none configured.
+ * Darija falls back to Arabic, then any configured language (fr → en → …).
+ */
+export function templateForStore(store: any, kind: TemplateKind, locale: TemplateLocale): ResolvedTemplate | null {
+  const all: StoreTemplates = store?.metadata?.whatsapp_templates || {};
+  const cfg = all[kind] || (kind === 'final_notice' ? all.followup : undefined);
+  if (!cfg?.name) return null;
+
+  const langs = cfg.languages || {};
+  const order: TemplateLocale[] = locale === 'ary' ? ['ary', 'ar', 'fr', 'en'] : [locale, 'fr', 'en', 'ar', 'ary'];
+  const language = order.map((l) => langs[l]).find(Boolean);
+  if (!language) return null;
+
+  return {
+    kind,
+    name: cfg.name,
+    language,
+    variables: (cfg.variables || []) as TemplateVariable[],
+    buttons: cfg.buttons || [],
+  };
+}
+
+/** True while the customer's last inbound message is less than 24h old. */
+export async function isWithinSessionWindow(knex: Knex, conversation_id: string, now = Date.now()): Promise<boolean> {
+  const last = await knex('messages')
+    .where({ conversation_id, role: 'user' })
+    .max<{ at: Date | string | null }>('created_at as at')
+    .first();
+  if (!last?.at) return false;
+  return now - new Date(last.at).getTime() < SESSION_WINDOW_MS;
+}
+
+/* --------------------------------- rendering ------------------------------- */
+
+function money(amount: unknown, currency: unknown): string {
+  const n = Number(amount);
+  if (amount == null || amount === '' || !Number.isFinite(n)) return '';
+  return `${n.toFixed(2)} ${String(currency || '').trim()}`.trim();
+}
+
+/**
+ * Order fields available to templates. `items` are order_items rows (optional);
+ * otherwise we fall back to the source row the order was ingested from.
+ * The name comes from the order's `customer` row when there is one.
+ */
+export function orderTemplateFields(
+  order: any,
+  store: any,
+  items: Array<{ sku?: string | null; quantity?: number | null; metadata?: any }> = [],
+  customer?: { name?: string | null } | null
+): Record<TemplateVariable, string> {
+  const field = (...keys: string[]) => orderPayloadField(order, ...keys);
+  const product = items.length
+    ? items
+        .map((it) => {
+          const title = it.metadata?.title || it.metadata?.name || it.sku || '';
+          return it.quantity && it.quantity > 1 ? `${it.quantity}x ${title}` : title;
+        })
+        .filter(Boolean)
+        .join(', ')
+    : field('product', 'product_name', 'products', 'item');
+
+  return {
+    customer_name: String(customer?.name || '').trim() || field('customer_name', 'name'),
+    product: product.trim(),
+    total: money(order?.total_amount ?? field('total_amount', 'total', 'price'), order?.currency ?? field('currency')),
+    address: field('address', 'customer_address'),
+    city: field('city'),
+    order_ref: String(order?.external_id || '').trim(),
+    store_name: String(store?.name || '').trim(),
+  };
+}
+
+/** Graph API `components` for a template send (body params + quick-reply payloads). */
+export function templateComponents(tpl: ResolvedTemplate, fields: Record<TemplateVariable, string>): any[] {
+  const components: any[] = [];
+  if (tpl.variables.length) {
+    components.push({
+      type: 'body',
+      // Meta rejects empty parameters
+      parameters: tpl.variables.map((v) => ({ type: 'text', text: (fields[v] || '-').slice(0, 1024) })),
+    });
+  }
+  tpl.buttons.forEach((payload, index) => {
+    components.push({
+      type: 'button',
+      sub_type: 'quick_reply',
+      index: String(index),
+      parameters: [{ type: 'payload', payload }],
+    });
+  });
+  return components;
+}
+
+/** Human-readable line stored in `messages` for a template send (the real text lives at Meta). */
+export function templatePreview(tpl: ResolvedTemplate, fields: Record<TemplateVariable, string>): string {
+  const vars = tpl.variables.map((v) => fields[v] || '-').join(' | ');
+  return `[template ${tpl.name}/${tpl.language}]${vars ? ` ${vars}` : ''}`;
+}
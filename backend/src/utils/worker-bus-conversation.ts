@@ -5,7 +5,7 @@ export type ConvoJob =
   | { kind: 'scan'; label?: string }
   | { kind: 'init'; order_id: string; store_id: string }
   | { kind: 'incoming'; conversation_id: string; store_id: string; from: string; text?: string; payload?: any }
-  | { kind: 'followup'; conversation_id: string };
+  | { kind: 'followup'; conversation_id: string; store_id: string; attempt: number };
 
 type AnyJob = ConvoJob;
 
@@ -63,9 +63,10 @@ export async function addIncomingJob(job: Extract<AnyJob, { kind: 'incoming' }>,
   });
 }
 
+// Follow-ups are delayed jobs (opts.delay); the id is kept on the conversation so a reply can cancel it.
 export async function addFollowupJob(job: Extract<AnyJob, { kind: 'followup' }>, opts: JobsOptions = {}) {
   const q = _getQueue();
-  const id = safeId(`followup_${job.store_id}_${job.conversation_id}_${Date.now()}`);
+  const id = safeId(`followup_${job.store_id}_${job.conversation_id}_${job.attempt}_${Date.now()}`);
   return q.add('conversation.followup', job, {
     jobId: id,
     attempts: 2,
@@ -76,6 +77,17 @@ export async function addFollowupJob(job: Extract<AnyJob, { kind: 'followup' }>,
   });
 }
 
+/** Drop a pending (delayed/waiting) follow-up; no-op if it already ran or never existed. */
+export async function cancelFollowupJob(jobId: string): Promise<boolean> {
+  const q = _getQueue();
+  const job = await q.getJob(jobId);
+  if (!job) return false;
+  const state = await job.getState();
+  if (state !== 'delayed' && state !== 'waiting') return false;
+  await job.remove();
+  return true;
+}
+
 // SCAN jobs: dedupe boot; repeat is idempotent and starts after the first interval
 export async function addScanJob(label = 'scan') {
   const q = _getQueue();
@@ -208,6 +220,7 @@ export default {
   addConvoJob,
   addIncomingJob,
   addFollowupJob,
+  cancelFollowupJob,
   addScanJob,
   scheduleRecurringScan,
   ensureSingleRepeatScan,
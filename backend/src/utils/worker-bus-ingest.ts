@@ -1,6 +1,6 @@
 // src/utils/worker-bus-ingest.ts
-import { Queue, Worker, QueueEvents, JobsOptions, WorkerOptions } from 'bullmq';
-import { bullConnection, isRedisEnabled } from './redis';
+import { Queue, Worker, QueueEvents, JobsOptions, WorkerOptions, UnrecoverableError } from 'bullmq';
+import { bullConnection, isRedisEnabled, redis } from './redis';
 
 /* ----------------------------- Job type shapes ----------------------------- */
 
@@ -17,6 +17,9 @@ export type IngestMapping = {
   validateOnly?: boolean;
 };
 
+/** What started a run; stored on its ingest_runs row. */
+export type IngestTrigger = 'scan' | 'manual' | 'upload' | 'url' | 'retry';
+
 export type IngestJob = {
   kind: 'ingest';
   store_id: string;
@@ -24,6 +27,9 @@ export type IngestJob = {
   source?: IngestSource;
   mapping?: IngestMapping;
   start_at?: number;
+  trigger?: IngestTrigger;
+  run_id?: string;   // ingest_runs row created when the job was queued
+  retry_of?: string; // replay the failed rows of this run instead of reading a source
 };
 
 export type ScanJob = {
@@ -33,6 +39,31 @@ export type ScanJob = {
 
 export type AnyJob = IngestJob | ScanJob;
 
+/** Reported as the BullMQ job progress while an ingest run is going. */
+export type IngestProgress = {
+  phase: 'reading' | 'writing' | 'done' | 'cancelled';
+  rows_read: number;
+  rows_written: number;
+  rows_failed: number;
+  bytes_read?: number;
+  bytes_total?: number | null;
+  updated_at: string;
+};
+
+/** Hooks a queued run gets from the worker; inline runs have none. */
+export type IngestJobControl = {
+  jobId?: string;
+  progress: (p: IngestProgress) => Promise<void> | void;
+  cancelled: () => Promise<boolean>;
+};
+
+/** Thrown by the runner when a cancel was requested; the job fails without retries. */
+export class IngestCancelledError extends Error {
+  constructor() {
+    super('ingest_cancelled');
+  }
+}
+
 /* --------------------------------- Queue ---------------------------------- */
 
 let _queue: Queue<AnyJob> | null = null;
@@ -104,6 +135,24 @@ export async function waitIngestReady(ms = 500): Promise<void> {
   }
 }
 
+/* ------------------------------ Cancellation ------------------------------- */
+
+const cancelKey = (jobId: string) => `ingest:cancel:${jobId}`;
+
+/** Ask a running job to stop at its next chunk (the flag outlives the job by a day). */
+export async function requestIngestCancel(jobId: string) {
+  await redis!.set(cancelKey(jobId), '1', 'EX', 86_400);
+}
+
+export async function isIngestCancelRequested(jobId?: string): Promise<boolean> {
+  if (!jobId || !isRedisEnabled()) return false;
+  try {
+    return (await redis!.get(cancelKey(jobId))) === '1';
+  } catch {
+    return false;
+  }
+}
+
 /* -------------------------------- Worker ---------------------------------- */
 
 let _worker: Worker<AnyJob> | null = null;
@@ -113,7 +162,7 @@ let _worker: Worker<AnyJob> | null = null;
  * Safe when RUN_WORKERS/Redis disabled — it will no-op.
  */
 export function ensureInProcessIngestWorker(
-  ingestProcessor: (job: IngestJob) => Promise<void>,
+  ingestProcessor: (job: IngestJob, ctl?: IngestJobControl) => Promise<unknown>,
   scanProcessor?: (name: string, data: ScanJob) => Promise<void>,
 ) {
   const run = (process.env.RUN_WORKERS ?? '1') !== '0' && (process.env.RUN_WORKERS ?? '1') !== 'false';
@@ -135,8 +184,17 @@ export function ensureInProcessIngestWorker(
     'ingest',
     async (job) => {
       if (job.name === 'ingest.run') {
-        await ingestProcessor(job.data as IngestJob);
-        return;
+        // dryRun/validateOnly jobs resolve to a preview → kept as the job's returnvalue
+        try {
+          return await ingestProcessor(job.data as IngestJob, {
+            jobId: job.id,
+            progress: (p) => job.updateProgress(p),
+            cancelled: () => isIngestCancelRequested(job.id),
+          });
+        } catch (e) {
+          if (e instanceof IngestCancelledError) throw new UnrecoverableError(e.message);
+          throw e;
+        }
       }
       if (job.name.startsWith('scan') && scanProcessor) {
         await scanProcessor(job.name, job.data as ScanJob);
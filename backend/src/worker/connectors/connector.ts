@@ -0,0 +1,90 @@
+// src/worker/connectors/connector.ts
+import crypto from 'node:crypto';
+import type { LineItemInput } from '../../utils/ingest-normalize';
+
+export const PLATFORMS = ['shopify', 'woocommerce', 'youcan'] as const;
+export type Platform = (typeof PLATFORMS)[number];
+
+export class ConnectorError extends Error {
+  code: string;
+  constructor(code: string, message?: string) {
+    super(message || code);
+    this.code = code;
+  }
+}
+
+export type OrderTopic = 'orders/create' | 'orders/updated';
+
+export type Headers = Record<string, string | string[] | undefined>;
+
+/** Platform-neutral order, shaped for upsertIngestedOrder. */
+export type NormalizedOrder = {
+  key: string; // platform order id (orders.external_key)
+  number: string | null; // what the seller sees ("#1001")
+  status: string | null; // null = leave our status alone (pending/processing are ours to decide)
+  total: number | null;
+  currency: string | null;
+  created_at: string | null;
+  customer: { name: string | null; phone: string | null; email: string | null };
+  address: string | null;
+  city: string | null;
+  payment_method: string | null;
+  note: string | null;
+  items: LineItemInput[];
+};
+
+export type Connector = {
+  platform: Platform;
+  /** Signature over the raw body with the source's webhook secret. */
+  verify(rawBody: string, headers: Headers, secret: string): boolean;
+  /** Topic + delivery id; null for pings and topics we don't handle. */
+  event(headers: Headers, body: any): { topic: OrderTopic; event_id: string | null; shop: string | null } | null;
+  normalize(body: any): NormalizedOrder;
+};
+
+export function header(headers: Headers, name: string): string | null {
+  const v = headers[name.toLowerCase()];
+  const s = Array.isArray(v) ? v[0] : v;
+  return s ? String(s) : null;
+}
+
+/** Constant-time compare of HMAC-SHA256(secret, raw) against a base64 or hex signature. */
+export function hmacMatches(rawBody: string, secret: string, signature: string | null, encoding: 'base64' | 'hex') {
+  if (!signature || !secret) return false;
+  const expected = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest();
+  const got = Buffer.from(signature.trim(), encoding);
+  return got.length === expected.length && crypto.timingSafeEqual(got, expected);
+}
+
+export const text = (v: any): string | null => {
+  const s = v == null ? '' : String(v).replace(/\s+/g, ' ').trim();
+  return s || null;
+};
+
+export const num = (v: any): number | null => {
+  const n = typeof v === 'number' ? v : Number(String(v ?? '').replace(/[^\d.-]/g, ''));
+  return v != null && v !== '' && Number.isFinite(n) ? n : null;
+};
+
+export const joinParts = (...parts: any[]) => text(parts.map(text).filter(Boolean).join(', '));
+
+/** Flat record stored as orders.raw_payload_json (what conversations and sheets read). */
+export function orderRecord(platform: Platform, o: NormalizedOrder) {
+  return {
+    source: platform,
+    order_id: o.key,
+    order_number: o.number,
+    status: o.status,
+    total_amount: o.total,
+    currency: o.currency,
+    created_at: o.created_at,
+    customer_name: o.customer.name,
+    customer_phone: o.customer.phone,
+    customer_email: o.customer.email,
+    address: o.address,
+    city: o.city,
+    payment_method: o.payment_method,
+    note: o.note,
+    product: o.items.map((i) => `${i.quantity}x ${i.name}`).join(' + ') || null,
+  };
+}
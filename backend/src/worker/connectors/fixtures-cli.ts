@@ -0,0 +1,107 @@
+// src/worker/connectors/fixtures-cli.ts
+/**
+ * Replays recorded platform webhooks (./fixtures/*.json) through each connector:
+ * signature check (and rejection of a tampered body), topic, normalized order, E.164 phone.
+ * No DB or network.
+ *
+ *   npm run connectors:fixtures -- [fixture.json | dir ...] [--json]
+ *
+ * Exit code 1 when any fixture's expectations fail.
+ */
+import crypto from 'node:crypto';
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { CONNECTORS, isPlatform, type Platform } from './index';
+import { toE164 } from '../../utils/ingest-normalize';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const SECRET = 'fixture-secret';
+
+type Fixture = {
+  name?: string;
+  platform: string;
+  headers: Record<string, string>;
+  payload: any;
+  expect: { event?: Record<string, any> | null; order?: Record<string, any>; phone_e164?: string | null };
+};
+
+/** The header each platform signs with. */
+function signedHeaders(platform: Platform, raw: string): Record<string, string> {
+  const mac = crypto.createHmac('sha256', SECRET).update(raw, 'utf8').digest();
+  if (platform === 'shopify') return { 'x-shopify-hmac-sha256': mac.toString('base64') };
+  if (platform === 'woocommerce') return { 'x-wc-webhook-signature': mac.toString('base64') };
+  return { 'x-youcan-signature': mac.toString('hex') };
+}
+
+/** Every key in `expected` must deep-equal the actual value (extra actual keys are fine). */
+function mismatches(expected: any, actual: any, at = ''): string[] {
+  if (expected === null || typeof expected !== 'object') {
+    return expected === actual ? [] : [`${at || '.'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return [`${at}: expected ${expected.length} entries, got ${Array.isArray(actual) ? actual.length : typeof actual}`];
+    }
+    return expected.flatMap((e, i) => mismatches(e, actual[i], `${at}[${i}]`));
+  }
+  return Object.keys(expected).flatMap((k) => mismatches(expected[k], actual?.[k], at ? `${at}.${k}` : k));
+}
+
+function fixtureFiles(paths: string[]): string[] {
+  const roots = paths.length ? paths : [FIXTURES_DIR];
+  return roots.flatMap((p) =>
+    statSync(p).isDirectory()
+      ? readdirSync(p)
+          .filter((f) => f.endsWith('.json'))
+          .sort()
+          .map((f) => path.join(p, f))
+      : [p]
+  );
+}
+
+function check(file: string) {
+  const fx = JSON.parse(readFileSync(file, 'utf8')) as Fixture;
+  const name = fx.name || path.basename(file);
+  if (!isPlatform(fx.platform)) return { name, pass: false, mismatches: [`unknown platform ${fx.platform}`] };
+
+  const connector = CONNECTORS[fx.platform];
+  const raw = JSON.stringify(fx.payload);
+  const headers = { ...fx.headers, ...signedHeaders(fx.platform, raw) };
+  const out: string[] = [];
+
+  if (!connector.verify(raw, headers, SECRET)) out.push('signature: valid signature rejected');
+  if (connector.verify(raw.replace(/\d/, (d) => String((Number(d) + 1) % 10)), headers, SECRET)) {
+    out.push('signature: tampered body accepted');
+  }
+
+  const event = connector.event(headers, fx.payload);
+  if (fx.expect.event === null) {
+    if (event) out.push(`event: expected to be ignored, got ${event.topic}`);
+  } else if (fx.expect.event) {
+    out.push(...mismatches(fx.expect.event, event, 'event'));
+  }
+
+  const order = connector.normalize(fx.payload);
+  if (fx.expect.order) out.push(...mismatches(fx.expect.order, order, 'order'));
+  if (fx.expect.phone_e164 !== undefined) {
+    out.push(...mismatches(fx.expect.phone_e164, toE164(order.customer.phone), 'phone_e164'));
+  }
+  return { name, platform: fx.platform, pass: out.length === 0, mismatches: out, order };
+}
+
+const args = process.argv.slice(2);
+const json = args.includes('--json');
+const results = fixtureFiles(args.filter((a) => a !== '--json')).map(check);
+
+if (json) {
+  process.stdout.write(JSON.stringify(results, null, 2) + '\n');
+} else {
+  for (const r of results) {
+    console.log(`${r.pass ? 'PASS' : 'FAIL'}  ${r.name}`);
+    for (const m of r.mismatches) console.log(`  ✗ ${m}`);
+  }
+  console.log(`\n${results.filter((r) => r.pass).length}/${results.length} fixtures passed`);
+}
+process.exit(results.every((r) => r.pass) ? 0 : 1);
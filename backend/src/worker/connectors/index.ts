@@ -0,0 +1,91 @@
+// src/worker/connectors/index.ts
+import type { FastifyBaseLogger } from 'fastify';
+import type { Knex } from 'knex';
+
+import { openJson } from '../../lib/secretBox';
+import { addConvoJob } from '../../utils/worker-bus-conversation';
+import { orderWriteContext, upsertIngestedOrder } from '../ingest';
+import { ConnectorError, PLATFORMS, orderRecord, type Connector, type NormalizedOrder, type OrderTopic, type Platform } from './connector';
+import { shopify } from './shopify';
+import { woocommerce } from './woocommerce';
+import { youcan } from './youcan';
+
+/**
+ * Order connectors: store platforms push orders through signed webhooks
+ * (/webhooks/orders/<platform>/<order_source_id>). Orders go through the same upsert as
+ * sheet ingest (customers, line items), and new ones get a conversation right away.
+ */
+
+export { ConnectorError, PLATFORMS, type Platform, type NormalizedOrder } from './connector';
+
+export const CONNECTORS: Record<Platform, Connector> = { shopify, woocommerce, youcan };
+
+export function isPlatform(p: any): p is Platform {
+  return (PLATFORMS as readonly string[]).includes(p);
+}
+
+/** Webhook secret sealed in credentials_json.enc; null when unreadable (key rotated?). */
+export function webhookSecret(source: any): string | null {
+  try {
+    const creds = source?.credentials_json?.enc ? openJson<{ webhook_secret?: string }>(source.credentials_json.enc) : null;
+    return String(creds?.webhook_secret || '').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Upsert one platform order into the store. New orders (that aren't already cancelled)
+ * are handed to the conversation worker; updates only refresh the order.
+ */
+export async function applyPlatformOrder(
+  db: Knex,
+  source: { id: string; store_id: string; platform: Platform },
+  order: NormalizedOrder,
+  topic: OrderTopic,
+  log: FastifyBaseLogger
+): Promise<{ order_id: string | null; created: boolean; conversation_queued: boolean }> {
+  if (!order.key) throw new ConnectorError('order_id_missing');
+
+  const { order_id, created, storeActive } = await db.transaction(async (trx: any) => {
+    await trx.raw('SET LOCAL search_path = public');
+    const store = await trx('public.stores').where({ id: source.store_id }).first();
+    if (!store) throw new ConnectorError('store_not_found');
+
+    const ctx = await orderWriteContext(trx, store, log);
+    if (!ctx) throw new ConnectorError('orders_table_missing_key_column');
+
+    const existing = await trx('public.orders')
+      .select('id')
+      .where({ store_id: store.id, [ctx.keyCol]: order.key })
+      .first();
+
+    const rec = orderRecord(source.platform, order);
+    const id = await upsertIngestedOrder(
+      trx,
+      ctx,
+      { key: order.key, raw: rec, rec, phone: order.customer.phone, items: order.items, preserveStatus: true },
+      log
+    );
+
+    await trx('public.order_sources').where({ id: source.id }).update({ last_event_at: trx.fn.now() });
+    return { order_id: id, created: !existing, storeActive: store.status === 'active' };
+  });
+
+  let conversation_queued = false;
+  if (order_id && created && storeActive && order.status !== 'cancelled') {
+    try {
+      await addConvoJob({ kind: 'init', order_id, store_id: source.store_id });
+      conversation_queued = true;
+    } catch (e: any) {
+      // the conversation scan picks up new orders anyway
+      log.warn({ store_id: source.store_id, order_id, err: e?.message || String(e) }, 'connector_convo_enqueue_failed');
+    }
+  }
+
+  log.info(
+    { store_id: source.store_id, platform: source.platform, topic, order_id, created, conversation_queued },
+    'connector_order_applied'
+  );
+  return { order_id, created, conversation_queued };
+}
@@ -0,0 +1,60 @@
+// src/worker/connectors/shopify.ts
+import { type Connector, header, hmacMatches, text, num, joinParts } from './connector';
+
+/**
+ * Shopify order webhooks (orders/create, orders/updated, orders/cancelled).
+ * X-Shopify-Hmac-Sha256 = base64 HMAC-SHA256 of the raw body with the app's webhook secret.
+ */
+export const shopify: Connector = {
+  platform: 'shopify',
+
+  verify(rawBody, headers, secret) {
+    return hmacMatches(rawBody, secret, header(headers, 'x-shopify-hmac-sha256'), 'base64');
+  },
+
+  event(headers) {
+    const topic = header(headers, 'x-shopify-topic');
+    const mapped = topic === 'orders/create' ? 'orders/create' : /^orders\/(updated|cancelled|edited)$/.test(topic || '') ? 'orders/updated' : null;
+    if (!mapped) return null;
+    return {
+      topic: mapped,
+      event_id: header(headers, 'x-shopify-webhook-id'),
+      shop: header(headers, 'x-shopify-shop-domain'),
+    };
+  },
+
+  normalize(o) {
+    const ship = o.shipping_address || o.billing_address || {};
+    const cust = o.customer || {};
+    const name =
+      text(ship.name) || joinName(cust.first_name, cust.last_name) || joinName(o.billing_address?.first_name, o.billing_address?.last_name);
+    return {
+      key: String(o.id ?? '').trim(),
+      number: text(o.name) || (o.order_number != null ? `#${o.order_number}` : null),
+      status: o.cancelled_at ? 'cancelled' : o.fulfillment_status === 'fulfilled' ? 'shipped' : null,
+      total: num(o.total_price ?? o.current_total_price),
+      currency: text(o.currency),
+      created_at: text(o.created_at),
+      customer: {
+        name,
+        phone: text(ship.phone) || text(o.phone) || text(cust.phone) || text(o.billing_address?.phone),
+        email: text(o.email) || text(cust.email),
+      },
+      address: joinParts(ship.address1, ship.address2, ship.zip),
+      city: text(ship.city),
+      // COD orders come from the "Cash on Delivery (COD)" manual gateway
+      payment_method: text((o.payment_gateway_names || [])[0]) || text(o.gateway),
+      note: text(o.note),
+      items: (o.line_items || []).map((li: any) => ({
+        name: text(li.variant_title) ? `${text(li.title)} ${text(li.variant_title)}` : text(li.title) || text(li.name) || 'item',
+        quantity: Math.max(1, Math.floor(num(li.quantity) ?? 1)),
+        sku: text(li.sku),
+        price: num(li.price),
+      })),
+    };
+  },
+};
+
+function joinName(first: any, last: any) {
+  return text([text(first), text(last)].filter(Boolean).join(' '));
+}
@@ -0,0 +1,72 @@
+// src/worker/connectors/woocommerce.ts
+import { type Connector, header, hmacMatches, text, num, joinParts } from './connector';
+
+/** Woo statuses we take over; pending/processing/on-hold are left to the confirmation flow. */
+const STATUS: Record<string, string> = {
+  cancelled: 'cancelled',
+  refunded: 'cancelled',
+  failed: 'cancelled',
+  completed: 'completed',
+};
+
+/**
+ * WooCommerce webhooks (order.created, order.updated).
+ * X-WC-Webhook-Signature = base64 HMAC-SHA256 of the raw body with the webhook's secret.
+ * Woo sends a form-encoded ping (webhook_id=…) when a webhook is saved; it has no topic.
+ */
+export const woocommerce: Connector = {
+  platform: 'woocommerce',
+
+  verify(rawBody, headers, secret) {
+    return hmacMatches(rawBody, secret, header(headers, 'x-wc-webhook-signature'), 'base64');
+  },
+
+  event(headers) {
+    const topic = header(headers, 'x-wc-webhook-topic');
+    const mapped = topic === 'order.created' ? 'orders/create' : topic === 'order.updated' ? 'orders/updated' : null;
+    if (!mapped) return null;
+    return {
+      topic: mapped,
+      event_id: header(headers, 'x-wc-webhook-delivery-id'),
+      shop: hostOf(header(headers, 'x-wc-webhook-source')),
+    };
+  },
+
+  normalize(o) {
+    const ship = o.shipping || {};
+    const bill = o.billing || {};
+    // Many COD themes only collect billing fields
+    const addr = text(ship.address_1) ? ship : bill;
+    return {
+      key: String(o.id ?? '').trim(),
+      number: o.number != null ? `#${o.number}` : null,
+      status: STATUS[String(o.status || '').toLowerCase()] ?? null,
+      total: num(o.total),
+      currency: text(o.currency),
+      created_at: text(o.date_created_gmt) ? `${text(o.date_created_gmt)}Z` : text(o.date_created),
+      customer: {
+        name: text([text(addr.first_name), text(addr.last_name)].filter(Boolean).join(' ')),
+        phone: text(bill.phone) || text(ship.phone),
+        email: text(bill.email),
+      },
+      address: joinParts(addr.address_1, addr.address_2, addr.postcode),
+      city: text(addr.city),
+      payment_method: text(o.payment_method),
+      note: text(o.customer_note),
+      items: (o.line_items || []).map((li: any) => ({
+        name: text(li.name) || 'item',
+        quantity: Math.max(1, Math.floor(num(li.quantity) ?? 1)),
+        sku: text(li.sku),
+        price: num(li.price),
+      })),
+    };
+  },
+};
+
+function hostOf(url: string | null) {
+  try {
+    return url ? new URL(url).host : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+// src/worker/connectors/youcan.ts
+import { type Connector, header, hmacMatches, text, num, joinParts } from './connector';
+
+/**
+ * YouCan webhooks (order.create, order.update).
+ * x-youcan-signature = hex HMAC-SHA256 of the raw body with the app's client secret.
+ * The order is either the body itself or `data`, depending on the subscription.
+ */
+export const youcan: Connector = {
+  platform: 'youcan',
+
+  verify(rawBody, headers, secret) {
+    return hmacMatches(rawBody, secret, header(headers, 'x-youcan-signature'), 'hex');
+  },
+
+  event(headers, body) {
+    const topic = String(header(headers, 'x-youcan-event') || body?.event || '').toLowerCase();
+    const mapped = /order\.(create|placed)/.test(topic)
+      ? 'orders/create'
+      : /order\.(update|status|cancel)/.test(topic)
+      ? 'orders/updated'
+      : null;
+    if (!mapped) return null;
+    return {
+      topic: mapped,
+      event_id: header(headers, 'x-youcan-delivery-id') || text(body?.id && body?.data ? body.id : null),
+      shop: text(body?.store?.domain ?? body?.data?.store?.domain),
+    };
+  },
+
+  normalize(body) {
+    const o = body?.data ?? body;
+    const cust = o.customer || {};
+    const ship = o.shipping?.address ?? o.shipping_address ?? cust.address ?? {};
+    const cancelled = o.canceled_at || o.cancelled_at || /cancel/i.test(String(o.status_new ?? o.status ?? ''));
+    return {
+      key: String(o.id ?? '').trim(),
+      number: text(o.ref) ? `#${text(o.ref)}` : null,
+      status: cancelled ? 'cancelled' : null,
+      total: num(o.total ?? o.total_price),
+      currency: text(o.currency ?? o.payment?.currency),
+      created_at: text(o.created_at),
+      customer: {
+        name: text(cust.full_name) || text([text(cust.first_name), text(cust.last_name)].filter(Boolean).join(' ')),
+        phone: text(cust.phone) || text(ship.phone),
+        email: text(cust.email),
+      },
+      address: joinParts(ship.first_line ?? ship.address, ship.second_line, ship.zip_code),
+      city: text(ship.city ?? cust.city),
+      payment_method: text(o.payment?.gateway ?? o.payment_method),
+      note: text(o.notes ?? o.note),
+      items: (o.variants || o.items || []).map((v: any) => ({
+        name: text(v.variant?.product?.name ?? v.product?.name ?? v.name) || 'item',
+        quantity: Math.max(1, Math.floor(num(v.quantity) ?? 1)),
+        sku: text(v.variant?.sku ?? v.sku),
+        price: num(v.price),
+      })),
+    };
+  },
+};
@@ -4,17 +4,46 @@ import type { Knex } from 'knex';
 
 import {
   ensureInProcessConversationWorker,
+  addFollowupJob,
+  cancelFollowupJob,
   type ConvoJob,
   type ConvoHandlerResult,
 } from '../utils/worker-bus-conversation';
 
 import { getClient as getLLMClient, getProviderName } from '../ai/llm';
-import type { ChatMessage } from '../ai/types';
+import type { ChatMessage, ChatResponse } from '../ai/types';
 
-import { systemPrompt, type LLMPlan } from './conversation/prompt';
+import { systemPrompt, parsePlan, PLAN_TOOL, type LLMPlan } from './conversation/prompt';
+import { parseChoiceReply, planForChoice } from './conversation/choices';
+import { buildOrderContext } from './conversation/context';
+import {
+  followupPolicyForStore,
+  followupDueAt,
+  outsideQuietHours,
+  isFinalAttempt,
+  followupMessage,
+} from './conversation/followups';
+import { enqueueSheetWriteback, installSheetWritebackFlusher } from './conversation/writeback';
+import { orderRiskLevel, riskPolicyForStore } from './ingest/risk';
 
-import { sendWhatsAppText, sendWhatsAppChoices } from '../utils/whatsappClient';
+import {
+  sendWhatsAppText,
+  sendWhatsAppChoices,
+  sendWhatsAppTemplate,
+  resolveWhatsAppSender,
+  WhatsAppChannelError,
+} from '../utils/whatsappClient';
+import {
+  templateForStore,
+  isWithinSessionWindow,
+  orderTemplateFields,
+  templateComponents,
+  templatePreview,
+  type ResolvedTemplate,
+} from '../utils/whatsappTemplates';
 import { preferDarija } from '../utils/lang';
+import { conversationControl } from '../utils/conversations';
+import { orderPayloadField } from '../utils/ingest-normalize';
 import {
   RUN_WORKERS,
   WHATSAPP_ENABLED,
@@ -41,19 +70,37 @@ async function getStore(trx: DB, id: string) {
   return trx('stores').where({ id }).first();
 }
 
-/** Unprocessed = status is NULL/empty OR 'new'. Always normalize to 'new' before messaging. */
-async function getUnprocessedOrders(trx: DB, store_id: string, limit = 50) {
-  return trx('orders')
+/** Destination phone: the order's customer (E.164, set by ingest) first, then what the sheet row carried. */
+async function orderPhone(trx: DB, order: any): Promise<string> {
+  if (order?.customer_id) {
+    const customer = await trx('customers').select('phone').where({ id: order.customer_id }).first();
+    if (customer?.phone) return String(customer.phone).trim();
+  }
+  return orderPayloadField(order, 'customer_phone', 'phone');
+}
+
+/** Risk level as stored by ingest; a seller-cleared order counts as low. */
+const RISK_LEVEL_SQL =
+  "CASE WHEN (decision_result->'risk'->>'cleared')::boolean IS TRUE THEN 'low' ELSE coalesce(decision_result->'risk'->>'level', 'low') END";
+
+/**
+ * Unprocessed = status is NULL/empty OR 'new'. Always normalize to 'new' before messaging.
+ * Per the store's risk policy, high-risk orders are left out ('skip') or come last ('deprioritize').
+ */
+async function getUnprocessedOrders(trx: DB, store: any, limit = 50) {
+  const policy = riskPolicyForStore(store);
+  const q = trx('orders')
     .select('*')
-    .where({ store_id })
+    .where({ store_id: store.id })
     .andWhere((qb) =>
       qb
         .whereNull('status')
         .orWhere('status', 'new')
         .orWhereRaw("trim(coalesce(status::text,'')) = ''")
-    )
-    .orderBy('created_at', 'asc')
-    .limit(limit);
+    );
+  if (policy.action === 'skip') q.whereRaw(`${RISK_LEVEL_SQL} <> 'high'`);
+  if (policy.action === 'deprioritize') q.orderByRaw(`(${RISK_LEVEL_SQL} = 'high') ASC`);
+  return q.orderBy('created_at', 'asc').limit(limit);
 }
 
 /** conversations.metadata holds { order_id, ... } (no dedicated column in v2.3) */
@@ -96,13 +143,36 @@ async function addMessage(
   metadata: any = {},
   log?: FastifyBaseLogger
 ) {
-  await trx('messages').insert({ conversation_id, role, content, metadata });
+  // WhatsApp message id (when the text went out over WA) gets its own column for receipts;
+  // a text the API never accepted is failed right away (no receipt will ever come for it)
+  const { wa_message_id, send_error, ...meta } = metadata || {};
+  await trx('messages').insert({
+    conversation_id,
+    role,
+    content,
+    metadata: meta,
+    ...(wa_message_id ? { wa_message_id } : {}),
+    ...(send_error
+      ? {
+          delivery_status: 'failed',
+          delivery_error: JSON.stringify({ code: null, title: String(send_error), details: null }),
+          delivery_updated_at: trx.fn.now(),
+        }
+      : {}),
+    // wall clock, not transaction start: keeps ordering right inside long/nested transactions
+    created_at: trx.raw('clock_timestamp()'),
+  });
   log?.debug(
-    { conversation_id, role, len: content?.length ?? 0 },
+    { conversation_id, role, len: content?.length ?? 0, wa_message_id },
     'conversation_message_persisted'
   );
 }
 
+/** addMessage metadata for a send result: its WA id, or the error that kept it from going out. */
+function sentMeta(sent: { ok: boolean; id?: string; error?: any }) {
+  return sent.ok ? { wa_message_id: sent.id } : { send_error: String(sent.error || 'whatsapp_send_failed') };
+}
+
 /* ------------------------------ language/WA ------------------------------- */
 
 function localeFromStore(store: any): 'fr' | 'en' | 'ar' | 'ary' {
@@ -144,9 +214,18 @@ function detectPreferredLocaleFromText(text: string): 'fr' | 'en' | 'ar' | 'ary'
   return null;
 }
 
-/** WhatsApp availability: ENV only fallback allowed (no other channels). */
-async function hasWhatsAppForStore(_trx: DB, _store_id: string): Promise<boolean> {
-  return WHATSAPP_ENABLED && isWhatsAppEnvConfigured();
+/**
+ * WhatsApp availability: the store's own channel, else the ENV number. A broken channel still
+ * counts: the send then fails with its code (whatsapp_channel_*) instead of a silent noop.
+ */
+async function hasWhatsAppForStore(trx: DB, store_id: string): Promise<boolean> {
+  if (!WHATSAPP_ENABLED) return false;
+  try {
+    return !!(await resolveWhatsAppSender(trx, store_id));
+  } catch (e) {
+    if (e instanceof WhatsAppChannelError) return true;
+    throw e;
+  }
 }
 
 async function bumpConversationMetric(trx: DB, seller_id: string, store_id: string, log?: FastifyBaseLogger) {
@@ -183,14 +262,7 @@ async function initialOutboundPing(
   log: FastifyBaseLogger
 ) {
   const t0 = nowMs();
-  const to = (
-    order?.raw_payload?.customer_phone ||
-    order?.raw_payload?.phone ||
-    order?.raw_payload?.customer?.phone ||
-    ''
-  )
-    .toString()
-    .trim();
+  const to = await orderPhone(trx, order);
   if (!to) {
     log?.warn({ store_id: store.id, order_id: order.id }, 'order_missing_phone');
     throw new Error('order_missing_phone');
@@ -237,8 +309,12 @@ async function initialOutboundPing(
   ];
 
   const waOk = await hasWhatsAppForStore(trx, store.id);
+  // First contact is always outside the 24h window → approved template when the store has one
+  const template = templateForStore(store, 'first_contact', locale);
   let delivery_ok = false;
   let last_id: string | undefined;
+  let send_error: string | undefined = 'whatsapp_unavailable';
+  let content = '[system] sent choices';
 
   log?.info(
     {
@@ -248,23 +324,33 @@ async function initialOutboundPing(
       to: maskPhone(to),
       locale,
       wa_ok: waOk,
+      template: template?.name ?? null,
     },
     'conversation_outbound_send_start'
   );
 
   if (waOk) {
-    const sent = await sendWhatsAppChoices(trx, store.id, to, title, choices);
+    let sent: { ok: boolean; id?: string; error?: any };
+    if (template) {
+      const t = await sendOrderTemplate(trx, store, order, to, template);
+      sent = t;
+      content = t.preview;
+    } else {
+      log?.info({ store_id: store.id, order_id: order.id }, 'wa_template_missing_interactive_fallback');
+      sent = await sendWhatsAppChoices(trx, store.id, to, title, choices);
+    }
     delivery_ok = !!sent.ok;
     last_id = sent.id;
+    send_error = sent.ok ? undefined : String(sent.error || 'whatsapp_send_failed');
     if (sent.ok) {
       log?.info(
         { store_id: store.id, order_id: order.id, conversation_id: convo.id, message_id: sent.id, dur_ms: msSince(t0) },
-        'wa_interactive_sent_ok'
+        template ? 'wa_template_sent_ok' : 'wa_interactive_sent_ok'
       );
     } else {
       log?.warn(
         { store_id: store.id, order_id: order.id, conversation_id: convo.id, err: sent.error, dur_ms: msSince(t0) },
-        'wa_interactive_sent_failed'
+        template ? 'wa_template_sent_failed' : 'wa_interactive_sent_failed'
       );
     }
   } else {
@@ -292,7 +378,10 @@ async function initialOutboundPing(
 
   if (delivery_ok) {
     await bumpConversationMetric(trx, store.seller_id, store.id, log);
+    await scheduleFollowup(trx, store, convo.id, 1, new Date(), log);
   }
+
+  return { wa_message_id: delivery_ok ? last_id : undefined, send_error, content };
 }
 
 /* --------------------------------- LLM plan -------------------------------- */
@@ -302,50 +391,63 @@ async function llmPlan(
   store: any,
   convo: any,
   history: { role: 'user' | 'assistant'; content: string }[],
-  log?: FastifyBaseLogger
+  log?: FastifyBaseLogger,
+  orderFacts?: string
 ): Promise<LLMPlan> {
   const t0 = nowMs();
   const llm = await getLLMClient();
 
   // Prefer per-conversation language if set
   const convLocale = (convo?.metadata?.preferred_locale as 'fr' | 'en' | 'ar' | 'ary' | undefined) || localeFromStore(store);
-  const sys = systemPrompt(store.name, convLocale);
+  const sys = systemPrompt(store.name, convLocale, orderFacts);
   const msgs: ChatMessage[] = [...sys, ...history];
 
   log?.debug(
-    { conversation_id: convo.id, history_len: history.length, locale: convLocale },
+    { conversation_id: convo.id, history_len: history.length, locale: convLocale, has_order_facts: !!orderFacts },
     'llm_plan_request'
   );
 
-  const res: any = await (llm as any).chat({
-    messages: msgs,
-    stream: false,
-    options: { temperature: 0.2, max_tokens: 200 },
-  });
+  let res: ChatResponse | null = null;
+  try {
+    const out = await llm.chat({
+      messages: msgs,
+      stream: false,
+      options: { temperature: 0.2, max_tokens: 200 },
+      tools: [PLAN_TOOL],
+      tool_choice: { name: PLAN_TOOL.name },
+    });
+    // stream: false never yields chunks; a provider that does anyway gets the fallback plan
+    if (Symbol.asyncIterator in out) {
+      log?.warn({ conversation_id: convo.id, dur_ms: msSince(t0) }, 'llm_plan_unexpected_stream');
+    } else {
+      res = out;
+    }
+  } catch (e: any) {
+    log?.warn({ conversation_id: convo.id, err: e?.message || String(e), dur_ms: msSince(t0) }, 'llm_plan_request_failed');
+  }
 
-  const raw = typeof res === 'string' ? res : res?.content ?? '';
-  const text = String(raw || '');
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  const payload = jsonMatch ? jsonMatch[0] : text;
+  // Tool call first, then any JSON in the text (models that ignore tools)
+  const call = res?.message?.tool_calls?.find((c) => c.name === PLAN_TOOL.name);
+  const text = String(res?.message?.content ?? '');
+  const plan = (call ? parsePlan(call.arguments) : null) ?? parsePlan(text);
 
-  try {
-    const plan = JSON.parse(payload);
+  if (plan) {
     log?.info(
-      { conversation_id: convo.id, action: plan?.action, dur_ms: msSince(t0) },
+      { conversation_id: convo.id, action: plan.action, via: call ? 'tool' : 'text', dur_ms: msSince(t0) },
       'llm_plan_parsed'
     );
     return plan;
-  } catch (e: any) {
-    log?.warn(
-      { conversation_id: convo.id, parse_error: e?.message, dur_ms: msSince(t0) },
-      'llm_plan_parse_failed_fallback'
-    );
-    return {
-      action: 'ASK_MORE_INFO',
-      message: defaultPromptByLocale(convLocale),
-      need: ['other'],
-    };
   }
+
+  log?.warn(
+    { conversation_id: convo.id, has_tool_call: !!call, text_len: text.length, dur_ms: msSince(t0) },
+    'llm_plan_invalid_fallback'
+  );
+  return {
+    action: 'ASK_MORE_INFO',
+    message: defaultPromptByLocale(convLocale),
+    need: ['other'],
+  };
 }
 
 /** Clear outcome = confirmed AND (no address needed OR address already OK). */
@@ -367,20 +469,50 @@ async function sendTextWhatsAppOrNoop(
   to: string,
   body: string,
   log?: FastifyBaseLogger
-) {
+): Promise<{ ok: boolean; id?: string; error?: any }> {
   const t0 = nowMs();
   const waOk = await hasWhatsAppForStore(trx, store_id);
   if (waOk) {
     const sent = await sendWhatsAppText(trx, store_id, to, body);
     if (sent.ok) {
       log?.info({ store_id, to: maskPhone(to), message_id: sent.id, dur_ms: msSince(t0) }, 'wa_text_sent_ok');
-      return true;
+      return { ok: true, id: sent.id };
     }
     log?.warn({ store_id, to: maskPhone(to), err: sent.error, dur_ms: msSince(t0) }, 'wa_text_sent_failed');
-    return false;
+    return { ok: false, error: sent.error };
   }
   log?.info({ store_id, to: maskPhone(to) }, 'wa_credentials_unavailable_noop');
-  return false;
+  return { ok: false, error: 'whatsapp_unavailable' };
+}
+
+/** Render + send an order template; `preview` is what we persist in `messages`. */
+async function sendOrderTemplate(
+  trx: DB,
+  store: any,
+  order: any,
+  to: string,
+  template: ResolvedTemplate
+): Promise<{ ok: boolean; id?: string; error?: any; preview: string }> {
+  const items = await trx('order_items').select('sku', 'quantity', 'metadata').where({ order_id: order.id });
+  const customer = order.customer_id ? await trx('customers').select('name').where({ id: order.customer_id }).first() : null;
+  const fields = orderTemplateFields(order, store, items, customer);
+  const sent = await sendWhatsAppTemplate(trx, store.id, to, {
+    name: template.name,
+    language: template.language,
+    components: templateComponents(template, fields),
+  });
+  return { ...sent, preview: templatePreview(template, fields) };
+}
+
+/** What the assistant decided, kept on its message (replayable by the simulator). */
+function planMeta(plan: LLMPlan) {
+  return { action: plan.action, ...(plan.status ? { status: plan.status } : {}) };
+}
+
+/** Note cell for the seller's sheet, e.g. "Confirmed on WhatsApp 2025-10-24 14:03 UTC". */
+function writebackNote(outcome: 'confirmed' | 'cancelled') {
+  const at = new Date().toISOString().slice(0, 16).replace('T', ' ');
+  return `${outcome === 'confirmed' ? 'Confirmed' : 'Cancelled'} on WhatsApp ${at} UTC`;
 }
 
 async function handlePlan(
@@ -391,9 +523,7 @@ async function handlePlan(
   plan: LLMPlan,
   log?: FastifyBaseLogger
 ): Promise<'remove' | 'keep'> {
-  const to = ((convo?.metadata?.to ||
-    order?.raw_payload?.customer_phone ||
-    '') as string).trim();
+  const to = String(convo?.metadata?.to || (await orderPhone(trx, order))).trim();
   if (!to) {
     log?.warn({ store_id: store.id, order_id: order.id, conversation_id: convo.id }, 'missing_destination_phone');
     throw new Error('missing_destination_phone');
@@ -412,16 +542,21 @@ async function handlePlan(
       .update({
         status: plan.status || 'processing',
         decision_by: 'ai',
-        decision_result: {
-          source: 'whatsapp',
-          decision: 'confirm',
-          status: 'confirmed',
-        },
+        decision_result: trx.raw("COALESCE(decision_result,'{}'::jsonb) || ?::jsonb", [
+          JSON.stringify({ source: 'whatsapp', decision: 'confirm', status: 'confirmed' }),
+        ]),
         updated_at: trx.fn.now(),
       });
     log?.info({ store_id: store.id, order_id: order.id }, 'order_status_updated_processing');
+    await enqueueSheetWriteback(
+      trx,
+      store.id,
+      order,
+      { outcome: 'confirmed', note: writebackNote('confirmed'), address: plan.address_text },
+      log
+    );
 
-    await sendTextWhatsAppOrNoop(
+    const sent = await sendTextWhatsAppOrNoop(
       trx,
       store.id,
       to,
@@ -440,7 +575,7 @@ async function handlePlan(
         updated_at: trx.fn.now(),
       });
 
-    await addMessage(trx, convo.id, 'assistant', plan.message || 'Order confirmed', {}, log);
+    await addMessage(trx, convo.id, 'assistant', plan.message || 'Order confirmed', { ...sentMeta(sent), plan: planMeta(plan) }, log);
     log?.info({ conversation_id: convo.id }, 'conversation_closed_confirmed');
 
     const freshConvo = await trx('conversations').where({ id: convo.id }).first();
@@ -460,16 +595,15 @@ async function handlePlan(
       .update({
         status: 'cancelled',
         decision_by: 'ai',
-        decision_result: {
-          source: 'whatsapp',
-          decision: 'cancel',
-          status: 'cancelled',
-        },
+        decision_result: trx.raw("COALESCE(decision_result,'{}'::jsonb) || ?::jsonb", [
+          JSON.stringify({ source: 'whatsapp', decision: 'cancel', status: 'cancelled' }),
+        ]),
         updated_at: trx.fn.now(),
       });
     log?.info({ store_id: store.id, order_id: order.id }, 'order_status_updated_cancelled');
+    await enqueueSheetWriteback(trx, store.id, order, { outcome: 'cancelled', note: writebackNote('cancelled') }, log);
 
-    await sendTextWhatsAppOrNoop(
+    const sent = await sendTextWhatsAppOrNoop(
       trx,
       store.id,
       to,
@@ -493,7 +627,7 @@ async function handlePlan(
         updated_at: trx.fn.now(),
       });
 
-    await addMessage(trx, convo.id, 'assistant', plan.message || 'Order cancelled', {}, log);
+    await addMessage(trx, convo.id, 'assistant', plan.message || 'Order cancelled', { ...sentMeta(sent), plan: planMeta(plan) }, log);
     log?.info({ conversation_id: convo.id }, 'conversation_closed_cancelled');
 
     // Keep cancelled jobs (only remove on confirmed + address OK)
@@ -501,7 +635,7 @@ async function handlePlan(
   }
 
   if (plan.action === 'REQUEST_LOCATION') {
-    await sendTextWhatsAppOrNoop(
+    const sent = await sendTextWhatsAppOrNoop(
       trx,
       store.id,
       to,
@@ -525,31 +659,232 @@ async function handlePlan(
         updated_at: trx.fn.now(),
       });
 
-    await addMessage(trx, convo.id, 'assistant', plan.message || 'Requesting location', {}, log);
+    await addMessage(trx, convo.id, 'assistant', plan.message || 'Requesting location', { ...sentMeta(sent), plan: planMeta(plan) }, log);
     log?.info({ conversation_id: convo.id }, 'conversation_request_location');
     return 'keep';
   }
 
   // ASK_CHOICE / ASK_MORE_INFO / aimless chat → keep pushing for a decision
-  await sendTextWhatsAppOrNoop(
+  const sent = await sendTextWhatsAppOrNoop(
     trx,
     store.id,
     to,
     plan.message || defaultPromptByLocale(convLocale),
     log
   );
-  await addMessage(trx, convo.id, 'assistant', plan.message || 'Awaiting choice', {}, log);
+  await addMessage(trx, convo.id, 'assistant', plan.message || 'Awaiting choice', { ...sentMeta(sent), plan: planMeta(plan) }, log);
   log?.info({ conversation_id: convo.id, action: plan.action }, 'conversation_prompt_choice');
   return 'keep';
 }
 
+/* -------------------------------- follow-ups ------------------------------- */
+
+async function patchConversationMeta(trx: DB, conversation_id: string, patch: any) {
+  await trx('conversations')
+    .where({ id: conversation_id })
+    .update({
+      metadata: trx.raw("COALESCE(metadata,'{}'::jsonb) || ?::jsonb", JSON.stringify(patch)),
+      updated_at: trx.fn.now(),
+    });
+}
+
+/**
+ * Queue follow-up `attempt` as a delayed job. The job id lands in
+ * conversations.metadata.followup so an inbound reply can cancel it.
+ */
+async function scheduleFollowup(
+  trx: DB,
+  store: any,
+  conversation_id: string,
+  attempt: number,
+  pingedAt: Date,
+  log?: FastifyBaseLogger
+) {
+  const policy = followupPolicyForStore(store);
+  if (!policy.enabled) return;
+  const due = followupDueAt(policy, attempt, pingedAt);
+  if (!due) return;
+
+  try {
+    const job = await addFollowupJob(
+      { kind: 'followup', conversation_id, store_id: store.id, attempt },
+      { delay: Math.max(0, due.getTime() - Date.now()) }
+    );
+    await patchConversationMeta(trx, conversation_id, {
+      followup: { attempt, job_id: job.id, due_at: due.toISOString(), pinged_at: pingedAt.toISOString() },
+    });
+    log?.info({ conversation_id, attempt, due_at: due.toISOString() }, 'conversation_followup_scheduled');
+  } catch (e: any) {
+    log?.warn({ conversation_id, attempt, err: e?.message || String(e) }, 'conversation_followup_schedule_failed');
+  }
+}
+
+/** Drop the pending follow-up, e.g. the customer replied (the worker also re-checks on fire). */
+async function cancelFollowups(trx: DB, convo: any, reason: string, log?: FastifyBaseLogger) {
+  const f = convo?.metadata?.followup;
+  if (!f || f.cancelled_at) return;
+  let removed = false;
+  if (f.job_id) {
+    removed = await cancelFollowupJob(String(f.job_id)).catch(() => false);
+  }
+  await patchConversationMeta(trx, convo.id, {
+    followup: { ...f, cancelled_at: new Date().toISOString(), cancel_reason: reason },
+  });
+  log?.info({ conversation_id: convo.id, attempt: f.attempt, removed, reason }, 'conversation_followup_cancelled');
+}
+
+async function handleFollowup(
+  db: DB,
+  job: Extract<ConvoJob, { kind: 'followup' }>,
+  log: FastifyBaseLogger
+): Promise<ConvoHandlerResult> {
+  const ctx = { store_id: job.store_id, conversation_id: job.conversation_id, attempt: job.attempt };
+  const store = await getStore(db, job.store_id);
+  const convo = await db('conversations')
+    .where({ id: job.conversation_id, store_id: job.store_id })
+    .first();
+  if (!store || !convo) {
+    log.warn(ctx, 'conversation_followup_target_missing');
+    return 'remove';
+  }
+
+  const meta = (convo as any).metadata || {};
+  const f = meta.followup || {};
+  // Stale job: a newer attempt was scheduled, the chain was cancelled, or the transaction
+  // that scheduled it rolled back (the job is enqueued before it commits)
+  if (f.cancelled_at || f.attempt !== job.attempt) {
+    log.info({ ...ctx, current_attempt: f.attempt, cancelled: !!f.cancelled_at }, 'conversation_followup_stale_skip');
+    return 'remove';
+  }
+  if (convo.status === 'closed') {
+    log.info(ctx, 'conversation_followup_closed_skip');
+    return 'remove';
+  }
+  if (conversationControl(meta).mode === 'agent') {
+    log.info(ctx, 'conversation_followup_agent_control_skip');
+    return 'remove';
+  }
+  const replied = await db('messages').where({ conversation_id: convo.id, role: 'user' }).first();
+  if (replied) {
+    await cancelFollowups(db, convo, 'customer_replied', log);
+    return 'remove';
+  }
+
+  const order = meta.order_id ? await db('orders').where({ id: meta.order_id, store_id: store.id }).first() : null;
+  if (!order || (order.status && order.status !== 'new')) {
+    log.info({ ...ctx, order_status: order?.status ?? null }, 'conversation_followup_order_settled_skip');
+    return 'remove';
+  }
+
+  const policy = followupPolicyForStore(store);
+  if (!policy.enabled) {
+    log.info(ctx, 'conversation_followup_disabled_skip');
+    return 'remove';
+  }
+
+  // Policy may have changed since scheduling: never message inside quiet hours
+  const now = new Date();
+  const allowedAt = outsideQuietHours(policy, now);
+  if (allowedAt.getTime() > now.getTime()) {
+    const next = await addFollowupJob(
+      { kind: 'followup', conversation_id: convo.id, store_id: store.id, attempt: job.attempt },
+      { delay: allowedAt.getTime() - now.getTime() }
+    );
+    await patchConversationMeta(db, convo.id, {
+      followup: { ...f, attempt: job.attempt, job_id: next.id, due_at: allowedAt.toISOString() },
+    });
+    log.info({ ...ctx, due_at: allowedAt.toISOString() }, 'conversation_followup_deferred_quiet_hours');
+    return 'remove';
+  }
+
+  const to = String(meta.to || (await orderPhone(db, order))).trim();
+  if (!to) {
+    log.warn(ctx, 'conversation_followup_missing_phone');
+    return 'remove';
+  }
+
+  const final = isFinalAttempt(policy, job.attempt);
+  const locale = (meta.preferred_locale as 'fr' | 'en' | 'ar' | 'ary' | undefined) || localeFromStore(store);
+  const body = followupMessage(locale, store.name, order.external_id, final);
+
+  // Follow-ups only go to silent customers, so normally outside the session window
+  const inWindow = await isWithinSessionWindow(db, convo.id);
+  const template = inWindow ? null : templateForStore(store, final ? 'final_notice' : 'followup', locale);
+  if (!inWindow && !template) {
+    // WhatsApp rejects free-form text here: stop rather than count an attempt nobody received
+    log.warn(ctx, 'wa_template_missing_followup_stopped');
+    await cancelFollowups(db, convo, 'template_missing', log);
+    return 'remove';
+  }
+
+  await db.transaction(async (trx) => {
+    let sent: { ok: boolean; id?: string; error?: any };
+    let content = body;
+    if (template && (await hasWhatsAppForStore(trx, store.id))) {
+      const t = await sendOrderTemplate(trx, store, order, to, template);
+      if (t.ok) log.info({ ...ctx, message_id: t.id, template: template.name }, 'wa_template_sent_ok');
+      else log.warn({ ...ctx, err: t.error, template: template.name }, 'wa_template_sent_failed');
+      sent = t;
+      content = t.preview;
+    } else {
+      sent = await sendTextWhatsAppOrNoop(trx, store.id, to, body, log);
+    }
+    await addMessage(
+      trx,
+      convo.id,
+      'assistant',
+      content,
+      { origin: 'followup', attempt: job.attempt, final, template: template?.name, ...sentMeta(sent) },
+      log
+    );
+
+    if (final && !sent.ok) {
+      // The final notice never left: end the chain without calling the customer unreachable
+      await patchConversationMeta(trx, convo.id, {
+        followup: { ...f, attempt: job.attempt, job_id: null, done_at: new Date().toISOString() },
+      });
+      log.warn({ ...ctx, order_id: order.id }, 'conversation_followup_final_not_sent');
+      return;
+    }
+    if (final) {
+      // Cadence exhausted: keep the order 'new' but record the outcome for the seller
+      await trx('orders')
+        .where({ id: order.id })
+        .update({
+          decision_by: 'ai',
+          decision_reason: 'no_reply_after_followups',
+          decision_result: trx.raw("COALESCE(decision_result,'{}'::jsonb) || ?::jsonb", [
+            JSON.stringify({ source: 'whatsapp', decision: 'unreachable', status: 'unreachable', attempts: job.attempt }),
+          ]),
+          updated_at: trx.fn.now(),
+        });
+      await patchConversationMeta(trx, convo.id, {
+        state: 'unreachable',
+        followup: { ...f, attempt: job.attempt, job_id: null, done_at: new Date().toISOString() },
+      });
+      log.info({ ...ctx, order_id: order.id }, 'conversation_followup_order_unreachable');
+      return;
+    }
+
+    const pingedAt = f.pinged_at ? new Date(f.pinged_at) : new Date(convo.created_at);
+    await scheduleFollowup(trx, store, convo.id, job.attempt + 1, pingedAt, log);
+  });
+
+  log.info({ ...ctx, final }, 'conversation_followup_sent');
+  return 'remove';
+}
+
 /* ------------------------------- installation ------------------------------ */
 
-export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
+/**
+ * The job handler on its own: the BullMQ worker uses it, and so does the simulator
+ * (which passes a transaction as `db` and calls it directly).
+ */
+export function createConversationJobHandler(db: DB, log?: FastifyBaseLogger) {
   const logger: FastifyBaseLogger =
     (log as any) || (console as unknown as FastifyBaseLogger);
 
-  const handleJob = async (job: ConvoJob): Promise<ConvoHandlerResult> => {
+  return async (job: ConvoJob): Promise<ConvoHandlerResult> => {
     const t0 = nowMs();
     try {
       if (job.kind === 'scan') {
@@ -558,7 +893,7 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
         logger.info({ stores: stores.length }, 'conversation_scan_active_stores');
 
         for (const store of stores) {
-          const orders = await getUnprocessedOrders(db, store.id, 100);
+          const orders = await getUnprocessedOrders(db, store, 100);
           logger.info(
             { store_id: store.id, new_orders: orders.length },
             'conversation_scan_store'
@@ -588,13 +923,13 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
                 .first();
               if (!hasAnyMsg) {
                 try {
-                  await initialOutboundPing(trx, store, ord, convo, logger);
+                  const ping = await initialOutboundPing(trx, store, ord, convo, logger);
                   await addMessage(
                     trx,
                     convo.id,
                     'assistant',
-                    '[system] sent choices',
-                    {},
+                    ping.content,
+                    { wa_message_id: ping.wa_message_id, send_error: ping.send_error },
                     logger
                   );
                 } catch (e: any) {
@@ -635,6 +970,17 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
           return 'keep';
         }
 
+        // High-risk orders: never messaged ('skip', left for the seller) or left to the scan,
+        // which reaches them after the clean ones ('deprioritize')
+        const risk = riskPolicyForStore(store);
+        if (orderRiskLevel(order) === 'high' && risk.action !== 'none') {
+          logger.info(
+            { store_id: store.id, order_id: order.id, action: risk.action, score: order.decision_result?.risk?.score },
+            risk.action === 'skip' ? 'conversation_init_skipped_risk' : 'conversation_init_deferred_risk'
+          );
+          return 'keep';
+        }
+
         await db.transaction(async (trx) => {
           if (!order.status || String(order.status).trim() === '') {
             await trx('orders')
@@ -651,8 +997,15 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
           logger.debug({ conversation_id: convo.id }, 'conversation_found_or_created');
 
           try {
-            await initialOutboundPing(trx, store, order, convo, logger);
-            await addMessage(trx, convo.id, 'assistant', '[system] sent choices', {}, logger);
+            const ping = await initialOutboundPing(trx, store, order, convo, logger);
+            await addMessage(
+              trx,
+              convo.id,
+              'assistant',
+              ping.content,
+              { wa_message_id: ping.wa_message_id, send_error: ping.send_error },
+              logger
+            );
           } catch (e: any) {
             logger.warn(
               {
@@ -726,6 +1079,13 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
           }
 
           await addMessage(db, convo.id, 'user', text, { origin: 'whatsapp', from: job.from }, logger);
+          await cancelFollowups(db, convo, 'customer_replied', logger);
+        }
+
+        // A seller took over from the dashboard: record the message, let the human answer
+        if (conversationControl((convo as any).metadata).mode === 'agent') {
+          logger.info({ conversation_id: convo.id }, 'conversation_agent_control_skip_llm');
+          return 'keep';
         }
 
         // Clear-outcome fast path
@@ -757,12 +1117,39 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
         const history = rows.map(
           (r: any) =>
             ({
-              role: r.role,
+              // the LLM sees a human agent's replies as the shop's own turns
+              role: r.role === 'agent' ? 'assistant' : r.role,
               content: r.content,
             } as { role: 'user' | 'assistant'; content: string })
         );
 
-        const plan = await llmPlan(db, store, convo, history, logger);
+        // Clear button taps are decided here; only free text goes to the model
+        const convLocale =
+          ((convo as any)?.metadata?.preferred_locale as 'fr' | 'en' | 'ar' | 'ary' | undefined) || localeFromStore(store);
+        const choice = parseChoiceReply(
+          text,
+          (job as any)?.payload,
+          (convo as any)?.metadata?.state === 'await_choice'
+        );
+        // Ground answers in what was actually ordered (items, catalog, delivery/returns)
+        const orderCtx = await buildOrderContext(db, store, order).catch((e: any) => {
+          logger.warn({ conversation_id: convo.id, err: e?.message || String(e) }, 'conversation_order_context_failed');
+          return null;
+        });
+        if (orderCtx) {
+          logger.debug(
+            { conversation_id: convo.id, tokens: orderCtx.tokens, truncated: orderCtx.truncated },
+            'conversation_order_context_built'
+          );
+        }
+
+        let plan: LLMPlan;
+        if (choice) {
+          plan = planForChoice(choice, convLocale, orderCtx?.summary);
+          logger.info({ conversation_id: convo.id, choice }, 'conversation_choice_deterministic');
+        } else {
+          plan = await llmPlan(db, store, convo, history, logger, orderCtx?.text || undefined);
+        }
         const decision = await handlePlan(db, store, order, convo, plan, logger);
         logger.info(
           { conversation_id: convo.id, order_id: order.id, decision },
@@ -772,8 +1159,11 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
       }
 
       if (job.kind === 'followup') {
-        logger.info({ conversation_id: job.conversation_id }, 'conversation_followup_noop');
-        return 'keep';
+        logger.info(
+          { store_id: job.store_id, conversation_id: job.conversation_id, attempt: job.attempt },
+          'conversation_followup_start'
+        );
+        return await handleFollowup(db, job, logger);
       }
 
       logger.warn({ job_kind: (job as any)?.kind }, 'conversation_unknown_job_kind');
@@ -785,9 +1175,16 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
       logger.debug({ job_kind: (job as any)?.kind, dur_ms: msSince(t0) }, 'conversation_job_finished');
     }
   };
+}
+
+export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
+  const logger: FastifyBaseLogger =
+    (log as any) || (console as unknown as FastifyBaseLogger);
+  const handleJob = createConversationJobHandler(db, logger);
 
   if (RUN_WORKERS) {
     ensureInProcessConversationWorker(handleJob);
+    installSheetWritebackFlusher(db, logger);
     const provider = getProviderName();
     const concurrency = Number(process.env.CONVO_CONCURRENCY || '6');
     logger.info(
@@ -799,4 +1196,4 @@ export function installConversationWorker(db: DB, log?: FastifyBaseLogger) {
   return { warm: () => void 0 };
 }
 
-export default { installConversationWorker };
+export default { installConversationWorker, createConversationJobHandler };
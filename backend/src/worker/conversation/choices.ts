@@ -0,0 +1,126 @@
+// src/worker/conversation/choices.ts
+import type { LLMPlan } from './prompt';
+
+type Locale = 'fr' | 'en' | 'ar' | 'ary';
+
+export type Choice = 'confirm' | 'cancel' | 'more';
+
+/** Button ids / template payloads we send (initialOutboundPing, whatsapp_templates.*.buttons). */
+const PAYLOADS: Record<string, Choice> = {
+  confirm: 'confirm',
+  cancel: 'cancel',
+  more: 'more',
+  more_info: 'more',
+};
+
+/** Exact button titles in all four locales — a tap on one of these is unambiguous. */
+const TITLES: Record<string, Choice> = {
+  'confirm': 'confirm',
+  'confirmer': 'confirm',
+  'نأكد': 'confirm',
+  'cancel': 'cancel',
+  'annuler': 'cancel',
+  'نلغي': 'cancel',
+  'more info': 'more',
+  "plus d'info": 'more',
+  'مزيد المعلومات': 'more',
+};
+
+/** Short typed answers, only trusted while we are waiting for the initial choice. */
+const WORDS: Record<string, Choice> = {
+  'yes': 'confirm',
+  'ok': 'confirm',
+  'oui': 'confirm',
+  'je confirme': 'confirm',
+  'نعم': 'confirm',
+  'أكد': 'confirm',
+  'تأكيد': 'confirm',
+  'واخا': 'confirm',
+  'wakha': 'confirm',
+  'no': 'cancel',
+  'non': 'cancel',
+  'لا': 'cancel',
+  'إلغاء': 'cancel',
+  'الغاء': 'cancel',
+  'info': 'more',
+  'infos': 'more',
+  "plus d'infos": 'more',
+  'معلومات': 'more',
+};
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[\p{Extended_Pictographic}️‍]/gu, '')
+    .replace(/[.!?؟،,]+$/u, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Deterministic reading of a customer reply. Button payloads (interactive reply id,
+ * template quick-reply payload) and exact button titles always count; short typed
+ * answers only when `awaitingChoice`. Anything else → null (let the LLM decide).
+ */
+export function parseChoiceReply(text: string, payload?: any, awaitingChoice = false): Choice | null {
+  const id =
+    payload?.interactive?.button_reply?.id ??
+    payload?.interactive?.list_reply?.id ??
+    payload?.button?.payload;
+  if (typeof id === 'string' && PAYLOADS[id.trim().toLowerCase()]) return PAYLOADS[id.trim().toLowerCase()];
+
+  const t = normalize(text || '');
+  if (!t) return null;
+  if (TITLES[t]) return TITLES[t];
+  if (awaitingChoice && WORDS[t]) return WORDS[t];
+  return null;
+}
+
+/** Fixed plan for a clear choice, so it never needs a model round-trip. `orderSummary` recaps the order on "more info". */
+export function planForChoice(choice: Choice, locale: Locale, orderSummary = ''): LLMPlan {
+  const ar = locale === 'ar' || locale === 'ary';
+  if (choice === 'confirm') {
+    return {
+      action: 'CONFIRM',
+      status: 'processing',
+      message:
+        locale === 'fr'
+          ? 'Merci ! Votre commande est confirmée ✅'
+          : ar
+          ? 'شكراً! تأكد الطلب ديالك ✅'
+          : 'Thanks! Your order is confirmed ✅',
+    };
+  }
+  if (choice === 'cancel') {
+    return {
+      action: 'CANCEL',
+      status: 'cancelled',
+      message:
+        locale === 'fr'
+          ? 'Compris. Votre commande a été annulée.'
+          : ar
+          ? 'مفهوم. تم إلغاء طلبك.'
+          : 'Understood. Your order has been cancelled.',
+    };
+  }
+  const recap = orderSummary
+    ? locale === 'fr'
+      ? `Votre commande : ${orderSummary}. `
+      : ar
+      ? `الطلب ديالك: ${orderSummary}. `
+      : `Your order: ${orderSummary}. `
+    : '';
+  return {
+    action: 'ASK_MORE_INFO',
+    need: ['other'],
+    message:
+      recap +
+      (locale === 'fr'
+        ? 'Que souhaitez-vous savoir ?'
+        : ar
+        ? 'شنو بغيتي تعرف؟'
+        : 'What would you like to know?'),
+  };
+}
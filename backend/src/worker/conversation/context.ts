@@ -0,0 +1,156 @@
+// src/worker/conversation/context.ts
+import type { Knex } from 'knex';
+import { CONVO_CONTEXT_TOKEN_BUDGET } from '../../utils/flags';
+import { orderPayloadField } from '../../utils/ingest-normalize';
+
+/**
+ * Facts about the order the assistant may rely on when the customer asks questions:
+ * order_items + matching products, and delivery/returns info from stores.metadata
+ * ({ delivery?: string | { areas?, eta_days?, fee? }, returns?: string, return_policy?: string }).
+ * Sections are added in priority order until the token budget is used up.
+ */
+export type OrderContext = {
+  text: string;     // block for the system prompt ('' when nothing is known)
+  summary: string;  // one line, e.g. "2x Red shirt — 199.00 MAD"
+  tokens: number;   // rough estimate
+  truncated: boolean;
+};
+
+const DESCRIPTION_MAX_CHARS = 400;
+
+/** ~4 characters per token is close enough for budgeting prompts. */
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / 4);
+}
+
+function clip(text: unknown, max: number): string {
+  const s = String(text ?? '').replace(/\s+/g, ' ').trim();
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+function money(amount: unknown, currency: unknown): string {
+  const n = Number(amount);
+  if (amount == null || amount === '' || !Number.isFinite(n)) return '';
+  return `${n.toFixed(2)} ${String(currency || '').trim()}`.trim();
+}
+
+function attributesLine(attrs: any): string {
+  if (!attrs || typeof attrs !== 'object') return '';
+  return Object.entries(attrs)
+    .filter(([, v]) => v != null && v !== '' && typeof v !== 'object')
+    .map(([k, v]) => `${k}: ${v}`)
+    .concat(
+      Object.entries(attrs)
+        .filter(([, v]) => Array.isArray(v) && v.length)
+        .map(([k, v]) => `${k}: ${(v as any[]).join('/')}`)
+    )
+    .join('; ');
+}
+
+function deliveryLine(meta: any): string {
+  const d = meta?.delivery ?? meta?.shipping;
+  if (!d) return '';
+  if (typeof d === 'string') return clip(d, 300);
+  const parts: string[] = [];
+  if (d.eta_days != null) parts.push(`delivery in ${d.eta_days} day(s)`);
+  if (d.areas) parts.push(`areas: ${Array.isArray(d.areas) ? d.areas.join(', ') : d.areas}`);
+  if (d.fee != null) parts.push(`fee: ${d.fee}`);
+  if (d.notes) parts.push(clip(d.notes, 200));
+  return parts.join('; ');
+}
+
+async function loadProducts(db: Knex, store_id: string, order: any) {
+  const items: any[] = await db('order_items')
+    .select('product_id', 'sku', 'quantity', 'price', 'metadata')
+    .where({ order_id: order.id })
+    .orderBy('created_at', 'asc');
+
+  const ids = items.map((i) => i.product_id).filter(Boolean);
+  const skus = items.map((i) => i.sku).filter(Boolean);
+  let products: any[] = [];
+  if (ids.length || skus.length) {
+    products = await db('products')
+      .select('id', 'sku', 'title', 'description', 'price', 'currency', 'attributes')
+      .where({ store_id })
+      .andWhere((qb) => {
+        if (ids.length) qb.orWhereIn('id', ids);
+        if (skus.length) qb.orWhereIn('sku', skus);
+      });
+  } else {
+    // Sheet-only orders: best effort on the product name the row carried
+    const name = orderPayloadField(order, 'product', 'product_name');
+    if (name) {
+      products = await db('products')
+        .select('id', 'sku', 'title', 'description', 'price', 'currency', 'attributes')
+        .where({ store_id })
+        .andWhereRaw('lower(title) = lower(?)', [name])
+        .limit(1);
+    }
+  }
+  return { items, products };
+}
+
+export async function buildOrderContext(
+  db: Knex,
+  store: any,
+  order: any,
+  budgetTokens = CONVO_CONTEXT_TOKEN_BUDGET
+): Promise<OrderContext> {
+  const { items, products } = await loadProducts(db, store.id, order);
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const bySku = new Map(products.map((p) => [p.sku, p]));
+
+  const lines = items.length
+    ? items.map((it) => {
+        const p = (it.product_id && byId.get(it.product_id)) || (it.sku && bySku.get(it.sku));
+        const title = p?.title || it.metadata?.title || it.sku || 'item';
+        const price = money(it.price ?? p?.price, p?.currency ?? order.currency);
+        return `${it.quantity || 1}x ${title}${price ? ` @ ${price}` : ''}`;
+      })
+    : [orderPayloadField(order, 'product', 'product_name') || String(products[0]?.title || '').trim()].filter(Boolean);
+
+  const total = money(order.total_amount, order.currency);
+  const summary = [lines.join(', '), total].filter(Boolean).join(' — ');
+
+  // Priority order: what was bought, then product details, then store terms
+  const sections: string[] = [];
+  sections.push(
+    [
+      `Order ${order.external_id}:`,
+      lines.length ? lines.map((l) => `- ${l}`).join('\n') : '- (items unknown)',
+      total ? `Total: ${total} (cash on delivery)` : '',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+  for (const p of products) {
+    sections.push(
+      [
+        `Product ${p.title} (SKU ${p.sku}): ${money(p.price, p.currency)}`,
+        p.description ? `Description: ${clip(p.description, DESCRIPTION_MAX_CHARS)}` : '',
+        attributesLine(p.attributes) ? `Attributes: ${attributesLine(p.attributes)}` : '',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    );
+  }
+  const delivery = deliveryLine(store?.metadata);
+  if (delivery) sections.push(`Delivery: ${delivery}`);
+  const returns = store?.metadata?.returns ?? store?.metadata?.return_policy;
+  if (returns) sections.push(`Returns: ${clip(returns, 300)}`);
+
+  const kept: string[] = [];
+  let tokens = 0;
+  let truncated = false;
+  for (const section of sections) {
+    const t = estimateTokens(section);
+    if (tokens + t > budgetTokens) {
+      truncated = true;
+      continue; // a later, shorter section may still fit
+    }
+    kept.push(section);
+    tokens += t;
+  }
+
+  return { text: kept.join('\n\n'), summary, tokens, truncated };
+}
@@ -0,0 +1,124 @@
+// src/worker/conversation/followups.ts
+import { CONVO_FOLLOWUPS_ENABLED, CONVO_FOLLOWUP_STEPS_MIN, CONVO_DEFAULT_TIMEZONE } from '../../utils/flags';
+
+type Locale = 'fr' | 'en' | 'ar' | 'ary';
+
+/**
+ * Per-store no-reply cadence, read from stores.metadata.followups:
+ *   { enabled?: boolean, steps_min?: number[], quiet_hours?: { start: 'HH:MM', end: 'HH:MM' }, timezone?: string }
+ * steps_min are offsets from the first ping (e.g. [120, 720, 1440] = 2h, 12h, 24h);
+ * the last step is the final notice, after which the order is marked unreachable.
+ */
+export type FollowupPolicy = {
+  enabled: boolean;
+  steps_min: number[];
+  quiet_hours: { start: number; end: number } | null; // minutes of day, local time
+  timezone: string;
+};
+
+function hhmmToMinutes(v: unknown): number | null {
+  const m = String(v ?? '').trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+function validTimezone(tz: unknown): string | null {
+  if (typeof tz !== 'string' || !tz.trim()) return null;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz.trim() });
+    return tz.trim();
+  } catch {
+    return null;
+  }
+}
+
+export function followupPolicyForStore(store: any): FollowupPolicy {
+  const meta = store?.metadata || {};
+  const cfg = meta.followups || {};
+
+  const steps = (Array.isArray(cfg.steps_min) ? cfg.steps_min : CONVO_FOLLOWUP_STEPS_MIN)
+    .map((n: any) => Number(n))
+    .filter((n: number) => Number.isFinite(n) && n > 0)
+    .sort((a: number, b: number) => a - b);
+
+  const start = hhmmToMinutes(cfg.quiet_hours?.start ?? '21:00');
+  const end = hhmmToMinutes(cfg.quiet_hours?.end ?? '09:00');
+
+  return {
+    enabled: CONVO_FOLLOWUPS_ENABLED && cfg.enabled !== false && steps.length > 0,
+    steps_min: steps,
+    quiet_hours: cfg.quiet_hours === null || start === null || end === null || start === end ? null : { start, end },
+    timezone: validTimezone(cfg.timezone) || validTimezone(meta.timezone) || CONVO_DEFAULT_TIMEZONE,
+  };
+}
+
+/** Local minutes-of-day for `at` in the given IANA timezone. */
+function localMinutes(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const h = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+  const m = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+  return h * 60 + m;
+}
+
+/** If `at` falls inside quiet hours, push it to the end of the quiet window; otherwise return it unchanged. */
+export function outsideQuietHours(policy: FollowupPolicy, at: Date): Date {
+  const q = policy.quiet_hours;
+  if (!q) return at;
+  const now = localMinutes(at, policy.timezone);
+  const wraps = q.start > q.end; // e.g. 21:00 → 09:00
+  const inside = wraps ? now >= q.start || now < q.end : now >= q.start && now < q.end;
+  if (!inside) return at;
+  const wait = (q.end - now + 24 * 60) % (24 * 60);
+  return new Date(at.getTime() + wait * 60_000);
+}
+
+/**
+ * When follow-up `attempt` (1-based) should fire, given the first ping time.
+ * Returns null when the cadence is exhausted.
+ */
+export function followupDueAt(policy: FollowupPolicy, attempt: number, pingedAt: Date): Date | null {
+  const offset = policy.steps_min[attempt - 1];
+  if (offset == null) return null;
+  return outsideQuietHours(policy, new Date(pingedAt.getTime() + offset * 60_000));
+}
+
+/**
+ * When a follow-up suspended by an agent takeover should fire once the AI is back: at its
+ * original time if that is still ahead, otherwise after this step's gap counted from `now`
+ * so the customer is not pinged the moment the agent lets go.
+ */
+export function resumedFollowupDueAt(policy: FollowupPolicy, attempt: number, dueAt: Date | null, now: Date): Date | null {
+  const offset = policy.steps_min[attempt - 1];
+  if (offset == null) return null;
+  if (dueAt && dueAt.getTime() > now.getTime()) return outsideQuietHours(policy, dueAt);
+  const gap = offset - (policy.steps_min[attempt - 2] ?? 0);
+  return outsideQuietHours(policy, new Date(now.getTime() + gap * 60_000));
+}
+
+export function isFinalAttempt(policy: FollowupPolicy, attempt: number): boolean {
+  return attempt >= policy.steps_min.length;
+}
+
+export function followupMessage(locale: Locale, storeName: string, orderRef: string, final: boolean): string {
+  if (locale === 'fr') {
+    return final
+      ? `Dernier rappel de ${storeName} : sans réponse de votre part, la commande ${orderRef} ne pourra pas être expédiée. Répondez ✅ Confirmer ou ❌ Annuler.`
+      : `Petit rappel de ${storeName} 👋 Confirmez-vous la commande ${orderRef} ? Répondez ✅ Confirmer, ❌ Annuler ou ❓ Plus d’info.`;
+  }
+  if (locale === 'ar' || locale === 'ary') {
+    return final
+      ? `آخر تذكير من ${storeName}: إلا ما جاوبتيش، الطلب ${orderRef} ما غاديش يتصيفط. جاوب ✅ نأكد ولا ❌ نلغي.`
+      : `تذكير من ${storeName} 👋 واش كتأكد الطلب ${orderRef}؟ جاوب ✅ نأكد، ❌ نلغي ولا ❓ مزيد المعلومات.`;
+  }
+  return final
+    ? `Final reminder from ${storeName}: without a reply, order ${orderRef} can't be shipped. Reply ✅ Confirm or ❌ Cancel.`
+    : `Quick reminder from ${storeName} 👋 Do you confirm order ${orderRef}? Reply ✅ Confirm, ❌ Cancel or ❓ More info.`;
+}
@@ -1,5 +1,6 @@
 // src/worker/conversation/prompt.ts
-import type { ChatMessage } from '../../ai/types';
+import { z } from 'zod';
+import type { ChatMessage, ToolSpec } from '../../ai/types';
 import { preferDarija, localeTag } from '../../utils/lang';
 
 export type ConversationState =
@@ -11,30 +12,76 @@ export type ConversationState =
   | 'cancelled'       // order cancelled
   | 'closed';         // done
 
-export type PlanAction = 'ASK_CHOICE'|'CONFIRM'|'CANCEL'|'ASK_MORE_INFO'|'REQUEST_LOCATION'|'ACK_LOCATION'|'CLOSE';
+export const PLAN_ACTIONS = ['ASK_CHOICE', 'CONFIRM', 'CANCEL', 'ASK_MORE_INFO', 'REQUEST_LOCATION', 'ACK_LOCATION', 'CLOSE'] as const;
 
-export type LLMPlan = {
-  action: PlanAction;
-  message: string;          // short message to send back to the user
-  status?: 'processing'|'completed'|'cancelled'; // map to orders.status if applicable
-  need?: ('address'|'note'|'other')[];
-  address_text?: string | null;
+export const PlanActionSchema = z.enum(PLAN_ACTIONS);
+export type PlanAction = z.infer<typeof PlanActionSchema>;
+
+export const LLMPlanSchema = z.object({
+  action: z.preprocess((v) => (typeof v === 'string' ? v.trim().toUpperCase() : v), PlanActionSchema),
+  message: z.string().max(1000).default(''),   // short message to send back to the user
+  status: z.enum(['processing', 'completed', 'cancelled']).optional(), // map to orders.status if applicable
+  need: z.array(z.enum(['address', 'note', 'other'])).optional(),
+  address_text: z.string().nullable().optional(),
+});
+export type LLMPlan = z.infer<typeof LLMPlanSchema>;
+
+/** Validate whatever the model produced (tool arguments or JSON text); null if unusable. */
+export function parsePlan(raw: unknown): LLMPlan | null {
+  let value = raw;
+  if (typeof value === 'string') {
+    const m = value.match(/\{[\s\S]*\}/);
+    if (!m) return null;
+    try { value = JSON.parse(m[0]); } catch { return null; }
+  }
+  const r = LLMPlanSchema.safeParse(value);
+  return r.success ? r.data : null;
+}
+
+/** Tool the model calls to hand back its decision (JSON Schema mirrors LLMPlanSchema). */
+export const PLAN_TOOL: ToolSpec = {
+  name: 'submit_plan',
+  description: 'Submit the next step for this order conversation and the short message to send to the customer.',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: [...PLAN_ACTIONS] },
+      message: { type: 'string', description: 'Message to send, 1–2 sentences, in the customer language.' },
+      status: { type: 'string', enum: ['processing', 'completed', 'cancelled'] },
+      need: { type: 'array', items: { type: 'string', enum: ['address', 'note', 'other'] } },
+      address_text: { type: ['string', 'null'] },
+    },
+    required: ['action', 'message'],
+    additionalProperties: false,
+  },
 };
 
-export function systemPrompt(storeName: string, locale: string) {
+/** `orderFacts` comes from buildOrderContext(); the model must not go beyond it. */
+export function systemPrompt(storeName: string, locale: string, orderFacts?: string) {
   const tag = localeTag(locale as any);
-  return [
+  const messages = [
     {
       role: 'system',
       content: [
         `You are the order assistant for ${storeName}.`,
         `Keep messages VERY short (1–2 sentences). Use the user's language (${tag}).`,
         `Always drive to a decision: confirm, cancel, or ask for exactly one missing item.`,
-        `Never discuss policies. If address changes are requested, ask for the live location.`,
-        `When you decide, produce a JSON plan with fields: action, message, status?, need?, address_text?`,
+        `Never discuss policies beyond the order facts below. If address changes are requested, ask for the live location.`,
+        `Always answer by calling ${PLAN_TOOL.name}; if you cannot call tools, reply with only a JSON object with fields: action, message, status?, need?, address_text?`,
       ].join(' ')
     }
   ] as ChatMessage[];
+  if (orderFacts) {
+    messages.push({
+      role: 'system',
+      content: [
+        `Order facts (the only source of truth; if something is not listed, say you will check with the team instead of guessing).`,
+        `Answer the customer's question with these facts, then ask them to confirm the order:`,
+        orderFacts,
+      ].join('\n'),
+    });
+  }
+  return messages;
 }
 
 export function buildMessages(history: { role: 'user'|'assistant'; content: string }[]) {
@@ -0,0 +1,112 @@
+// src/worker/conversation/simulate-cli.ts
+/**
+ * Conversation simulator CLI (nothing is persisted; see ./simulator.ts).
+ *
+ *   npm run sim:conversation -- --store <store_id> [fixture.json | dir ...] [--live] [--json]
+ *   npm run sim:conversation -- --record <conversation_id> [--out fixture.json]
+ *
+ * Without fixture paths, every fixture in ./fixtures is replayed. Exit code 1 when
+ * any fixture's expectations fail.
+ */
+import '../../utils/hush-tty';
+import 'dotenv/config';
+import knex from 'knex';
+import pino from 'pino';
+import { readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { runSimulation, fixtureFromConversation, type SimFixture, type SimResult } from './simulator';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+type Args = { store?: string; record?: string; out?: string; live: boolean; json: boolean; paths: string[] };
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { live: false, json: false, paths: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--store') args.store = argv[++i];
+    else if (a === '--record') args.record = argv[++i];
+    else if (a === '--out') args.out = argv[++i];
+    else if (a === '--live') args.live = true;
+    else if (a === '--json') args.json = true;
+    else args.paths.push(a);
+  }
+  return args;
+}
+
+function fixtureFiles(paths: string[]): string[] {
+  const roots = paths.length ? paths : [FIXTURES_DIR];
+  return roots.flatMap((p) =>
+    statSync(p).isDirectory()
+      ? readdirSync(p)
+          .filter((f) => f.endsWith('.json'))
+          .sort()
+          .map((f) => path.join(p, f))
+      : [p]
+  );
+}
+
+function printResult(r: SimResult) {
+  const verdict = r.expect ? (r.expect.pass ? 'PASS' : 'FAIL') : 'RAN';
+  console.log(`\n━━ ${r.fixture} [${r.mode}] ${verdict}`);
+  for (const m of r.transcript) {
+    const who = m.role === 'user' ? 'customer' : m.role;
+    const action = m.metadata?.plan?.action ? ` (${m.metadata.plan.action})` : '';
+    console.log(`  ${who.padEnd(9)}${action} ${m.content}`);
+  }
+  console.log(`  states: ${r.states.join(' → ') || '—'}`);
+  console.log(`  order.status: ${r.final.order_status}  decision: ${r.final.decision_result?.decision ?? '—'}`);
+  for (const s of r.steps) {
+    if (s.outbound.length) console.log(`  wa[${s.step}]: ${s.outbound.map((o) => `${o.type}:${o.id}`).join(', ')}`);
+  }
+  for (const m of r.expect?.mismatches || []) console.log(`  ✗ ${m}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const log = pino({ name: 'conversation-sim', level: process.env.LOG_LEVEL || 'warn' });
+  const db = knex({ client: 'pg', connection: process.env.DATABASE_URL, pool: { min: 0, max: 2 } });
+
+  try {
+    if (args.record) {
+      const fixture = await fixtureFromConversation(db, args.record);
+      const json = JSON.stringify(fixture, null, 2) + '\n';
+      if (args.out) writeFileSync(args.out, json);
+      else process.stdout.write(json);
+      return 0;
+    }
+
+    if (!args.store) {
+      console.error('usage: --store <store_id> [fixture.json|dir ...] [--live] [--json] | --record <conversation_id> [--out file]');
+      return 2;
+    }
+
+    let failed = 0;
+    const results: SimResult[] = [];
+    for (const file of fixtureFiles(args.paths)) {
+      const fixture = JSON.parse(readFileSync(file, 'utf8')) as SimFixture;
+      const result = await runSimulation(db, fixture, {
+        store_id: args.store,
+        mode: args.live ? 'live' : 'scripted',
+        log: log as any,
+      });
+      if (result.expect && !result.expect.pass) failed++;
+      results.push(result);
+      if (!args.json) printResult(result);
+    }
+    if (args.json) process.stdout.write(JSON.stringify(results, null, 2) + '\n');
+    else console.log(`\n${results.length - failed}/${results.length} fixtures passed`);
+    return failed ? 1 : 0;
+  } finally {
+    await db.destroy().catch(() => undefined);
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error('[conversation-sim] fatal:', err?.message || err);
+    process.exit(1);
+  });
@@ -0,0 +1,415 @@
+// src/worker/conversation/simulator.ts
+import type { FastifyBaseLogger } from 'fastify';
+import type { Knex } from 'knex';
+
+import type { LLMClient, ChatResponse } from '../../ai/types';
+import { getClient as getLLMClient, withLLMClient } from '../../ai/llm';
+import { withWhatsAppStub } from '../../utils/whatsappClient';
+import type { ConvoHandlerResult } from '../../utils/worker-bus-conversation';
+import { createConversationJobHandler } from '../conversation';
+import { PLAN_TOOL, type ConversationState, type LLMPlan } from './prompt';
+
+/**
+ * Conversation simulator: runs the real conversation worker against a fake order with
+ * WhatsApp stubbed out and a scripted (or live, recorded) LLM. Everything happens in
+ * one transaction that is always rolled back — no orders, messages or metrics survive.
+ *
+ * Fixtures are JSON (see ./fixtures). Record one from a real conversation with
+ * fixtureFromConversation(), then replay it after prompt changes.
+ */
+
+export type SimTurn = {
+  customer: string;
+  /** Raw WhatsApp message (button/interactive reply) when the turn is a tap. */
+  payload?: any;
+  /** What the LLM answers for this turn in scripted mode (ignored when the reply is a clear button). */
+  llm?: Partial<LLMPlan> | null;
+};
+
+export type SimFixture = {
+  name: string;
+  description?: string;
+  store?: { metadata?: Record<string, any> };
+  products?: Array<{
+    sku: string;
+    title: string;
+    description?: string;
+    price: number;
+    currency?: string;
+    attributes?: Record<string, any>;
+  }>;
+  order: {
+    phone?: string;
+    total_amount?: number;
+    currency?: string;
+    raw_payload?: Record<string, any>;
+    items?: Array<{ sku?: string; title?: string; quantity?: number; price?: number }>;
+  };
+  turns: SimTurn[];
+  expect?: {
+    final_status?: string;
+    final_state?: ConversationState | string;
+    states?: Array<ConversationState | string>;
+    decision?: string;
+  };
+};
+
+export type SimMode = 'scripted' | 'live';
+
+export type SimOutbound = { type: string; to: string; text: string; id: string };
+
+export type SimStep = {
+  step: 'init' | number;
+  customer?: string;
+  llm_called: boolean;
+  llm_plan?: any;
+  result: ConvoHandlerResult;
+  state: string | null;
+  order_status: string | null;
+  outbound: SimOutbound[];
+};
+
+export type SimResult = {
+  fixture: string;
+  mode: SimMode;
+  order_id: string;
+  conversation_id: string | null;
+  steps: SimStep[];
+  transcript: Array<{ role: string; content: string; metadata: any }>;
+  states: string[];
+  final: {
+    order_status: string | null;
+    decision_result: any;
+    conversation_status: string | null;
+    state: string | null;
+  };
+  expect: { pass: boolean; mismatches: string[] } | null;
+  /** The fixture with this run's LLM outputs filled in (record live → replay scripted). */
+  recorded: SimFixture;
+};
+
+export class SimulationError extends Error {
+  constructor(public code: string, message?: string) {
+    super(message || code);
+  }
+}
+
+const DEFAULT_PHONE = '+212600000000';
+
+/* ----------------------------- stubs / providers ---------------------------- */
+
+function outboundText(body: any): { type: string; text: string } {
+  if (body?.type === 'text') return { type: 'text', text: String(body.text?.body ?? '') };
+  if (body?.type === 'interactive') {
+    const buttons = (body.interactive?.action?.buttons || []).map((b: any) => `[${b.reply?.title}]`).join(' ');
+    return { type: 'interactive', text: `${body.interactive?.body?.text ?? ''} ${buttons}`.trim() };
+  }
+  if (body?.type === 'template') {
+    const params = (body.template?.components || [])
+      .filter((c: any) => c.type === 'body')
+      .flatMap((c: any) => (c.parameters || []).map((p: any) => p.text));
+    return { type: 'template', text: `[template ${body.template?.name}] ${params.join(' | ')}`.trim() };
+  }
+  return { type: String(body?.type || 'unknown'), text: JSON.stringify(body) };
+}
+
+/** Scripted provider: answers the current turn's plan as a submit_plan tool call. */
+function scriptedClient(current: () => Partial<LLMPlan> | null | undefined, onCall: (plan: any) => void): LLMClient {
+  return {
+    async chat() {
+      const plan = current();
+      onCall(plan ?? null);
+      const res: ChatResponse = plan
+        ? { message: { role: 'assistant', content: JSON.stringify(plan), tool_calls: [{ name: PLAN_TOOL.name, arguments: plan }] } }
+        : { message: { role: 'assistant', content: '' } }; // script exhausted → worker's fallback plan
+      return res;
+    },
+    async generate() {
+      throw new SimulationError('llm_generate_not_scripted');
+    },
+    async embeddings() {
+      throw new SimulationError('llm_embeddings_not_scripted');
+    },
+  };
+}
+
+/** Live provider wrapper: forwards to the configured model and records the plan it produced. */
+function recordingClient(real: LLMClient, onCall: (plan: any) => void): LLMClient {
+  return {
+    ...real,
+    async chat(args) {
+      const res: any = await real.chat(args);
+      const call = res?.message?.tool_calls?.find((c: any) => c?.name === PLAN_TOOL.name);
+      onCall(call?.arguments ?? res?.message?.content ?? null);
+      return res;
+    },
+  };
+}
+
+/* --------------------------------- helpers --------------------------------- */
+
+async function findConversation(trx: Knex, store_id: string, order_id: string) {
+  return trx('conversations')
+    .where({ store_id })
+    .andWhereRaw("(metadata->>'order_id')::uuid = ?", [order_id])
+    .orderBy('created_at', 'asc')
+    .first();
+}
+
+function checkExpectations(fixture: SimFixture, final: SimResult['final'], states: string[]) {
+  const e = fixture.expect;
+  if (!e) return null;
+  const mismatches: string[] = [];
+  if (e.final_status && e.final_status !== final.order_status) {
+    mismatches.push(`final_status: expected ${e.final_status}, got ${final.order_status}`);
+  }
+  if (e.final_state && e.final_state !== final.state) {
+    mismatches.push(`final_state: expected ${e.final_state}, got ${final.state}`);
+  }
+  if (e.states && JSON.stringify(e.states) !== JSON.stringify(states)) {
+    mismatches.push(`states: expected ${e.states.join(' → ')}, got ${states.join(' → ')}`);
+  }
+  if (e.decision && e.decision !== final.decision_result?.decision) {
+    mismatches.push(`decision: expected ${e.decision}, got ${final.decision_result?.decision ?? null}`);
+  }
+  return { pass: mismatches.length === 0, mismatches };
+}
+
+/* ---------------------------------- runner --------------------------------- */
+
+export async function runSimulation(
+  db: Knex,
+  fixture: SimFixture,
+  opts: {
+    store_id: string;
+    mode?: SimMode;
+    /** Reject stores not owned by this seller (route callers). */
+    seller_id?: string;
+    /** Runs first inside the transaction (e.g. SET LOCAL ROLE). */
+    prepare?: (trx: Knex.Transaction) => Promise<void>;
+    log?: FastifyBaseLogger;
+  }
+): Promise<SimResult> {
+  const mode: SimMode = opts.mode ?? 'scripted';
+  if (!fixture?.order || !Array.isArray(fixture.turns)) throw new SimulationError('invalid_fixture');
+
+  // Resolve the real provider before entering the override scope
+  const live = mode === 'live' ? await getLLMClient() : null;
+
+  const trx = await db.transaction();
+  try {
+    if (opts.prepare) await opts.prepare(trx);
+
+    const store = await trx('stores').where({ id: opts.store_id }).first();
+    if (!store) throw new SimulationError('store_not_found');
+    if (opts.seller_id && store.seller_id !== opts.seller_id) throw new SimulationError('forbidden');
+
+    // Fixture store settings; follow-ups off (they would need the real queue)
+    await trx('stores')
+      .where({ id: store.id })
+      .update({
+        metadata: trx.raw("COALESCE(metadata,'{}'::jsonb) || ?::jsonb", [
+          JSON.stringify({ ...(fixture.store?.metadata || {}), followups: { enabled: false } }),
+        ]),
+      });
+
+    for (const p of fixture.products || []) {
+      await trx('products')
+        .insert({
+          store_id: store.id,
+          seller_id: store.seller_id,
+          sku: p.sku,
+          title: p.title,
+          description: p.description ?? null,
+          price: p.price,
+          currency: p.currency || fixture.order.currency || 'MAD',
+          attributes: p.attributes || {},
+        })
+        .onConflict(['store_id', 'sku'])
+        .ignore();
+    }
+
+    const phone = fixture.order.phone || DEFAULT_PHONE;
+    const [order] = await trx('orders')
+      .insert({
+        store_id: store.id,
+        external_id: `SIM-${Date.now().toString(36)}`,
+        status: 'new',
+        raw_payload_json: { ...(fixture.order.raw_payload || {}), customer_phone: phone, simulated: true },
+        total_amount: fixture.order.total_amount ?? null,
+        currency: fixture.order.currency || 'MAD',
+      })
+      .returning('*');
+
+    for (const it of fixture.order.items || []) {
+      const product = it.sku ? await trx('products').where({ store_id: store.id, sku: it.sku }).first() : null;
+      await trx('order_items').insert({
+        order_id: order.id,
+        product_id: product?.id ?? null,
+        sku: it.sku ?? null,
+        quantity: it.quantity ?? 1,
+        price: it.price ?? product?.price ?? null,
+        metadata: it.title ? { title: it.title } : {},
+      });
+    }
+
+    // Stubs: outbound WA goes to `outbox`, the LLM answers from the script (or live + recorded)
+    let outbox: SimOutbound[] = [];
+    let seq = 0;
+    const stub = (body: any) => {
+      const id = `wamid.SIM.${++seq}`;
+      outbox.push({ ...outboundText(body), to: String(body?.to ?? ''), id });
+      return { id };
+    };
+
+    let currentPlan: Partial<LLMPlan> | null | undefined;
+    let llmCalls: any[] = [];
+    const onCall = (plan: any) => llmCalls.push(plan);
+    const llm = live ? recordingClient(live, onCall) : scriptedClient(() => currentPlan, onCall);
+
+    const handle = createConversationJobHandler(trx as unknown as Knex, opts.log);
+    const steps: SimStep[] = [];
+    const states: string[] = [];
+    const recorded: SimFixture = JSON.parse(JSON.stringify(fixture));
+
+    const snapshot = async (step: SimStep['step'], result: ConvoHandlerResult, customer?: string) => {
+      const convo = await findConversation(trx, store.id, order.id);
+      const fresh = await trx('orders').where({ id: order.id }).first();
+      const state = convo?.metadata?.state ?? null;
+      if (state && states[states.length - 1] !== state) states.push(state);
+      steps.push({
+        step,
+        ...(customer !== undefined ? { customer } : {}),
+        llm_called: llmCalls.length > 0,
+        ...(llmCalls.length ? { llm_plan: llmCalls[llmCalls.length - 1] } : {}),
+        result,
+        state,
+        order_status: fresh?.status ?? null,
+        outbound: outbox,
+      });
+      outbox = [];
+      llmCalls = [];
+      return convo;
+    };
+
+    await withWhatsAppStub(stub, () =>
+      withLLMClient(llm, async () => {
+        const r0 = await handle({ kind: 'init', store_id: store.id, order_id: order.id });
+        let convo = await snapshot('init', r0);
+        if (!convo) throw new SimulationError('conversation_not_created');
+
+        for (let i = 0; i < fixture.turns.length; i++) {
+          const turn = fixture.turns[i];
+          currentPlan = turn.llm;
+          const r = await handle({
+            kind: 'incoming',
+            conversation_id: convo.id,
+            store_id: store.id,
+            from: phone,
+            text: turn.customer,
+            payload: turn.payload ?? { type: 'text', text: { body: turn.customer } },
+          });
+          const llmPlan = llmCalls[llmCalls.length - 1];
+          convo = (await snapshot(i + 1, r, turn.customer)) || convo;
+          if (live && llmPlan && typeof llmPlan === 'object') recorded.turns[i].llm = llmPlan;
+        }
+      })
+    );
+
+    const convo = await findConversation(trx, store.id, order.id);
+    const finalOrder = await trx('orders').where({ id: order.id }).first();
+    const transcript = convo
+      ? (
+          await trx('messages')
+            .select('role', 'content', 'metadata')
+            .where({ conversation_id: convo.id })
+            .orderBy('created_at', 'asc')
+        ).map((m: any) => ({ role: m.role, content: m.content, metadata: m.metadata }))
+      : [];
+
+    const final = {
+      order_status: finalOrder?.status ?? null,
+      decision_result: finalOrder?.decision_result ?? null,
+      conversation_status: convo?.status ?? null,
+      state: convo?.metadata?.state ?? null,
+    };
+
+    return {
+      fixture: fixture.name,
+      mode,
+      order_id: order.id,
+      conversation_id: convo?.id ?? null,
+      steps,
+      transcript,
+      states,
+      final,
+      expect: checkExpectations(fixture, final, states),
+      recorded,
+    };
+  } finally {
+    await trx.rollback().catch(() => undefined);
+  }
+}
+
+/* --------------------------------- recording -------------------------------- */
+
+/**
+ * Turn a real conversation into a fixture: customer messages become turns, the
+ * assistant's recorded plan (messages.metadata.plan) becomes the scripted LLM answer,
+ * and the current outcome becomes the expectation.
+ */
+export async function fixtureFromConversation(db: Knex, conversation_id: string): Promise<SimFixture> {
+  const convo = await db('conversations').where({ id: conversation_id }).first();
+  if (!convo) throw new SimulationError('conversation_not_found');
+  const order = convo.metadata?.order_id ? await db('orders').where({ id: convo.metadata.order_id }).first() : null;
+  if (!order) throw new SimulationError('order_not_found');
+
+  const store = await db('stores').where({ id: convo.store_id }).first();
+  const items = await db('order_items').select('sku', 'quantity', 'price', 'metadata').where({ order_id: order.id });
+  const messages = await db('messages')
+    .select('role', 'content', 'metadata')
+    .where({ conversation_id })
+    .orderBy('created_at', 'asc');
+
+  const turns: SimTurn[] = [];
+  for (const m of messages) {
+    if (m.role === 'user') {
+      turns.push({ customer: m.content });
+    } else if (m.role === 'assistant' && turns.length && m.metadata?.plan?.action) {
+      const last = turns[turns.length - 1];
+      if (!last.llm) last.llm = { ...m.metadata.plan, message: m.content };
+    }
+  }
+
+  // Keep PII out of fixtures: no phone, no customer name/address
+  const { customer_phone, phone, customer_name, name, address, customer_address, ...raw } = order.raw_payload_json || {};
+
+  return {
+    name: `recorded-${order.external_id}`,
+    description: `Recorded from conversation ${conversation_id}`,
+    store: {
+      metadata: Object.fromEntries(
+        Object.entries(store?.metadata || {}).filter(([k]) =>
+          ['lang', 'language', 'locale', 'delivery', 'shipping', 'returns', 'return_policy', 'whatsapp_templates'].includes(k)
+        )
+      ),
+    },
+    order: {
+      total_amount: order.total_amount != null ? Number(order.total_amount) : undefined,
+      currency: order.currency,
+      raw_payload: raw,
+      items: items.map((it: any) => ({
+        sku: it.sku ?? undefined,
+        title: it.metadata?.title,
+        quantity: it.quantity,
+        price: it.price != null ? Number(it.price) : undefined,
+      })),
+    },
+    turns,
+    expect: {
+      final_status: order.status,
+      final_state: convo.metadata?.state,
+      ...(order.decision_result?.decision ? { decision: order.decision_result.decision } : {}),
+    },
+  };
+}
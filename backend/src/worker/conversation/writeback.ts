@@ -0,0 +1,273 @@
+// src/worker/conversation/writeback.ts
+import type { FastifyBaseLogger } from 'fastify';
+import type { Knex } from 'knex';
+
+import { extractSheetIdAndGid } from '../../utils/sheetsCsv';
+import { sheetsTransport, isSheetsWritebackConfigured, a1, SheetsApiError, type ValueRange } from '../../utils/googleSheets';
+import {
+  SHEETS_WRITEBACK_ENABLED,
+  SHEETS_WRITEBACK_INTERVAL_MS,
+  SHEETS_WRITEBACK_MAX_ATTEMPTS,
+} from '../../utils/flags';
+
+/**
+ * Sheet write-back: confirm/cancel outcomes go to an outbox (sheet_writebacks) next to the
+ * order update, and a flusher writes them to the seller's sheet in one batch per sheet,
+ * retrying with backoff. Rows are found by order key at flush time, so sorting or
+ * inserting rows in the sheet in the meantime is harmless.
+ */
+
+type DB = Knex;
+
+export type WritebackOutcome = 'confirmed' | 'cancelled';
+
+/** store_sheets.writeback; column names are header texts as they appear in the sheet. */
+export type WritebackConfig = {
+  enabled?: boolean;
+  status_column: string;
+  note_column?: string | null;
+  address_column?: string | null;
+  key_column?: string | null; // header holding the order id; inferred from the sheet when unset
+  tab?: string | null; // tab title; defaults to the gid in the sheet URL, else the first tab
+  labels?: Partial<Record<WritebackOutcome, string>>;
+};
+
+const DEFAULT_LABELS: Record<WritebackOutcome, string> = { confirmed: 'Confirmed', cancelled: 'Cancelled' };
+const CLAIM_LEASE_SEC = 120;
+const BATCH_LIMIT = 200;
+
+export function writebackConfig(sheet: any): WritebackConfig | null {
+  const cfg = sheet?.writeback;
+  if (!cfg || cfg.enabled === false || !String(cfg.status_column ?? '').trim()) return null;
+  return cfg as WritebackConfig;
+}
+
+/**
+ * Queue a write-back for this order when its store's sheet has one configured.
+ * Best effort: never fails the conversation step.
+ */
+export async function enqueueSheetWriteback(
+  trx: DB,
+  store_id: string,
+  order: any,
+  input: { outcome: WritebackOutcome; note?: string | null; address?: string | null },
+  log?: FastifyBaseLogger
+): Promise<boolean> {
+  if (!SHEETS_WRITEBACK_ENABLED) return false;
+  const external_key = String(order?.external_key ?? order?.external_id ?? '').trim();
+  if (!external_key) return false;
+
+  try {
+    const sheet = await trx('store_sheets')
+      .where({ store_id, enabled: true })
+      .orderBy('updated_at', 'desc')
+      .first();
+    if (!writebackConfig(sheet)) return false;
+
+    await trx('sheet_writebacks').insert({
+      store_sheet_id: sheet.id,
+      order_id: order.id,
+      external_key,
+      outcome: input.outcome,
+      note: input.note?.trim() || null,
+      address: input.address?.trim() || null,
+    });
+    log?.info({ store_id, order_id: order.id, outcome: input.outcome }, 'sheet_writeback_queued');
+    return true;
+  } catch (e: any) {
+    log?.warn({ store_id, order_id: order?.id, err: e?.message || String(e) }, 'sheet_writeback_queue_failed');
+    return false;
+  }
+}
+
+/* --------------------------------- Flush ----------------------------------- */
+
+type PendingWrite = {
+  id: string;
+  store_sheet_id: string;
+  external_key: string;
+  outcome: WritebackOutcome;
+  note: string | null;
+  address: string | null;
+  attempts: number;
+};
+
+const norm = (s: any) => String(s ?? '').trim().toLowerCase();
+
+/** 30s, 1m, 2m, … capped at 1h */
+function backoffSec(attempts: number) {
+  return Math.min(3600, 30 * 2 ** Math.max(0, attempts - 1));
+}
+
+/** Claim due items (lease via next_attempt_at) so concurrent flushers don't double-write. */
+async function claimDue(db: DB, limit: number): Promise<PendingWrite[]> {
+  const res = await db.raw(
+    `UPDATE public.sheet_writebacks
+        SET attempts = attempts + 1,
+            next_attempt_at = now() + make_interval(secs => ?),
+            updated_at = now()
+      WHERE id IN (
+        SELECT id FROM public.sheet_writebacks
+         WHERE status = 'pending' AND next_attempt_at <= now()
+         ORDER BY created_at
+         LIMIT ?
+         FOR UPDATE SKIP LOCKED)
+      RETURNING id, store_sheet_id, external_key, outcome, note, address, attempts, created_at`,
+    [CLAIM_LEASE_SEC, limit]
+  );
+  return (res?.rows || []).sort((a: any, b: any) => +new Date(a.created_at) - +new Date(b.created_at));
+}
+
+/** Header row = first non-empty row, like the CSV import. */
+function locateHeader(values: string[][]) {
+  const idx = values.findIndex((r) => (r || []).some((c) => String(c ?? '').trim() !== ''));
+  const headers = idx >= 0 ? values[idx].map(norm) : [];
+  return { headerRow: idx, col: (name?: string | null) => (name ? headers.indexOf(norm(name)) : -1) };
+}
+
+/** The column holding the most of these keys (orders are found by their sheet id). */
+function inferKeyColumn(values: string[][], headerRow: number, keys: Set<string>): number {
+  const hits = new Map<number, number>();
+  for (const row of values.slice(headerRow + 1)) {
+    (row || []).forEach((cell, c) => {
+      if (keys.has(String(cell ?? '').trim())) hits.set(c, (hits.get(c) || 0) + 1);
+    });
+  }
+  let best = -1;
+  for (const [c, n] of hits) if (best < 0 || n > (hits.get(best) || 0) || (n === hits.get(best) && c < best)) best = c;
+  return best;
+}
+
+/**
+ * Write one sheet's pending items in a single batchUpdate.
+ * Returns the range written per item; items whose row wasn't found are left out.
+ */
+async function flushSheet(sheet: any, cfg: WritebackConfig, items: PendingWrite[]) {
+  const { id: spreadsheetId, gid } = extractSheetIdAndGid(String(sheet.gsheet_url || ''));
+  if (!spreadsheetId) throw new SheetsApiError('not_a_google_sheet', undefined, false);
+
+  const api = sheetsTransport();
+  const tab = cfg.tab?.trim() || (await api.sheetTitle(spreadsheetId, gid));
+  const values = await api.getValues(spreadsheetId, `'${tab.replace(/'/g, "''")}'`);
+
+  const { headerRow, col } = locateHeader(values);
+  const statusCol = col(cfg.status_column);
+  if (statusCol < 0) throw new SheetsApiError('status_column_missing', `no "${cfg.status_column}" header`, false);
+  const keyCol = cfg.key_column ? col(cfg.key_column) : inferKeyColumn(values, headerRow, new Set(items.map((i) => i.external_key)));
+  if (keyCol < 0) throw new SheetsApiError('key_column_missing', undefined, false);
+  const noteCol = col(cfg.note_column);
+  const addressCol = col(cfg.address_column);
+
+  // Last occurrence wins, as in the import
+  const rowByKey = new Map<string, number>();
+  values.forEach((r, i) => {
+    const k = String(r?.[keyCol] ?? '').trim();
+    if (i > headerRow && k) rowByKey.set(k, i + 1);
+  });
+
+  const labels = { ...DEFAULT_LABELS, ...(cfg.labels || {}) };
+  const cells = new Map<string, string>(); // range → value; later items overwrite earlier ones
+  const written = new Map<string, string>();
+  for (const it of items) {
+    const rowNumber = rowByKey.get(it.external_key);
+    if (!rowNumber) continue;
+    const status = a1(tab, statusCol, rowNumber);
+    cells.set(status, labels[it.outcome]);
+    if (noteCol >= 0 && it.note) cells.set(a1(tab, noteCol, rowNumber), it.note);
+    if (addressCol >= 0 && it.address) cells.set(a1(tab, addressCol, rowNumber), it.address);
+    written.set(it.id, status);
+  }
+
+  if (cells.size) {
+    const data: ValueRange[] = [...cells].map(([range, v]) => ({ range, values: [[v]] }));
+    await api.batchUpdate(spreadsheetId, data);
+  }
+  return written;
+}
+
+async function markFailed(db: DB, it: PendingWrite, err: any) {
+  const retryable = err instanceof SheetsApiError ? err.retryable : true;
+  const giveUp = !retryable || it.attempts >= SHEETS_WRITEBACK_MAX_ATTEMPTS;
+  await db('public.sheet_writebacks')
+    .where({ id: it.id })
+    .update({
+      status: giveUp ? 'failed' : 'pending',
+      next_attempt_at: db.raw('now() + make_interval(secs => ?)', [backoffSec(it.attempts)]),
+      last_error: String(err?.code || err?.message || err).slice(0, 500),
+      updated_at: db.fn.now(),
+    });
+  return giveUp;
+}
+
+/** One flush pass over due items, grouped per sheet. */
+export async function flushSheetWritebacks(
+  db: DB,
+  log?: FastifyBaseLogger,
+  opts: { limit?: number } = {}
+): Promise<{ written: number; retrying: number; failed: number }> {
+  const out = { written: 0, retrying: 0, failed: 0 };
+  const due = await claimDue(db, opts.limit ?? BATCH_LIMIT);
+  if (!due.length) return out;
+
+  const bySheet = new Map<string, PendingWrite[]>();
+  for (const it of due) bySheet.set(it.store_sheet_id, [...(bySheet.get(it.store_sheet_id) || []), it]);
+
+  for (const [sheetId, items] of bySheet) {
+    const fail = async (it: PendingWrite, err: any) => {
+      if (await markFailed(db, it, err)) out.failed++;
+      else out.retrying++;
+    };
+
+    const sheet = await db('public.store_sheets').where({ id: sheetId }).first();
+    const cfg = writebackConfig(sheet);
+    if (!cfg) {
+      // turned off (or sheet gone) since queueing
+      for (const it of items) await fail(it, new SheetsApiError('writeback_disabled', undefined, false));
+      continue;
+    }
+
+    try {
+      const written = await flushSheet(sheet, cfg, items);
+      for (const it of items) {
+        const range = written.get(it.id);
+        if (!range) {
+          await fail(it, new SheetsApiError('row_not_found'));
+          continue;
+        }
+        await db('public.sheet_writebacks')
+          .where({ id: it.id })
+          .update({ status: 'done', written_range: range, last_error: null, updated_at: db.fn.now() });
+        out.written++;
+      }
+      log?.info({ store_sheet_id: sheetId, written: written.size, queued: items.length }, 'sheet_writeback_flushed');
+    } catch (e: any) {
+      log?.warn({ store_sheet_id: sheetId, err: e?.message || String(e), code: e?.code }, 'sheet_writeback_flush_failed');
+      for (const it of items) await fail(it, e);
+    }
+  }
+  return out;
+}
+
+/** Periodic flusher; a no-op until a service account (or a test stub) is configured. */
+export function installSheetWritebackFlusher(db: DB, log?: FastifyBaseLogger) {
+  if (!SHEETS_WRITEBACK_ENABLED || !(SHEETS_WRITEBACK_INTERVAL_MS >= 1000)) return;
+  if (!isSheetsWritebackConfigured()) {
+    log?.info({}, 'sheet_writeback_not_configured');
+    return;
+  }
+
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const r = await flushSheetWritebacks(db, log);
+      if (r.written || r.retrying || r.failed) log?.info(r, 'sheet_writeback_tick');
+    } catch (e: any) {
+      log?.warn({ err: e?.message || String(e) }, 'sheet_writeback_tick_failed');
+    } finally {
+      running = false;
+    }
+  }, SHEETS_WRITEBACK_INTERVAL_MS).unref?.();
+  log?.info({ every_ms: SHEETS_WRITEBACK_INTERVAL_MS }, 'sheet_writeback_flusher_installed');
+}
@@ -1,16 +1,52 @@
 // src/worker/ingest.ts
 import type { FastifyBaseLogger } from 'fastify';
-import { ensureInProcessIngestWorker, IngestJob } from '../utils/worker-bus-ingest';
+import {
+  ensureInProcessIngestWorker,
+  IngestCancelledError,
+  type IngestJob,
+  type IngestJobControl,
+  type IngestProgress,
+} from '../utils/worker-bus-ingest';
+import { openTableStream, type TableStream } from '../utils/ingest-stream';
 import { loadBufferFromSource, parseTableAsync as _parseTableAsync } from '../utils/ingest-parse';
-import { suggestMapping, applyMapping } from '../utils/ingest-map';
+import { suggestMapping, applyMapping, lockedMapping, type SavedMapping } from '../utils/ingest-map';
 import { toCsvExportUrl, fetchCsvRows, type CsvRow } from '../utils/sheetsCsv';
 import { normalizeStatusWithAI } from '../utils/ingest-status-ai';
+import {
+  rowHash,
+  planSheetSync,
+  recordSyncedRows,
+  recordRemovedRows,
+  listDueSheetStores,
+  type SheetRow,
+  type SyncPlan,
+} from './ingest/sync';
+import { riskPolicyForStore, saveOrderRisk, scoreOrderRisk, type RiskPolicy } from './ingest/risk';
+import { trackIngestRun, loadRunRows, type IngestRunTracker, type RunRow } from './ingest/runs';
+import { validateOrder, validateProduct, batchValidate } from '../utils/ingest-validation';
+import {
+  toE164,
+  storeCountryCode,
+  upsertCustomer,
+  loadProductIndex,
+  replaceOrderItems,
+  sheetLineItems,
+  writeOrderItems,
+  type ProductIndex,
+  type LineItemInput,
+} from '../utils/ingest-normalize';
+import {
+  applyTransformations,
+  ORDER_TRANSFORM_CONFIG,
+  PRODUCT_TRANSFORM_CONFIG,
+} from '../utils/ingest-transforms';
 import {
   FLAGS,
   INGEST_ENABLED,
   SCAN_ON_BOOT,
   SCAN_INTERVAL_MS,
   INGEST_SELF_KICK,
+  INGEST_STREAMING,
 } from '../utils/flags';
 
 type DB = any;
@@ -129,6 +165,11 @@ export async function preflightFromSource(db: DB, store_id: string, source?: any
     return preflightFromCsvUrl(res.sheet!.gsheet_url);
   }
 
+  // Google Sheets links (e.g. previewing a sheet before switching to it) go through the CSV export
+  if (source.type === 'url' && /^https:\/\/docs\.google\.com\/spreadsheets\//i.test(String(source.url || ''))) {
+    return preflightFromCsvUrl(source.url);
+  }
+
   // Upload/URL path (xlsx/csv/tsv/etc)
   const buf = await loadBufferFromSource(
     source.type === 'upload'
@@ -252,6 +293,9 @@ function ordersFallback(headers: string[]): FieldMap {
     'phone','tel','telephone','téléphone','portable','gsm'
   ]);
   const customer_email = fuzzyPick(headers, ['email','e-mail','courriel']);
+  const product = fuzzyPick(headers, ['product','produit','item','items','article','designation']);
+  const sku = fuzzyPick(headers, ['sku','product sku','code produit']);
+  const quantity = fuzzyPick(headers, ['qty','quantity','qte','quantite','quantité']);
 
   const fields: FieldMap = {};
   if (order_id) fields.order_id = order_id;
@@ -261,6 +305,9 @@ function ordersFallback(headers: string[]): FieldMap {
   if (customer_name) fields.customer_name = customer_name;
   if (customer_phone) fields.customer_phone = customer_phone;
   if (customer_email) fields.customer_email = customer_email;
+  if (product) fields.product = product;
+  if (sku) fields.sku = sku;
+  if (quantity) fields.quantity = quantity;
   return fields;
 }
 
@@ -347,8 +394,20 @@ async function buildMappingAndKey(
   entity: Entity,
   jobMapping?: { fields?: Record<string, string | string[]>; uniqueKey?: string; maxRows?: number },
   log?: FastifyBaseLogger,
+  locked?: SavedMapping | null,
 ) {
-  const heuristic = suggestMapping(headers, entity) || { fields: {} as Record<string, string> };
+  // A mapping the seller reviewed and locked is used as-is (job overrides still win);
+  // no AI call and no fallback guessing for the fields they left out.
+  if (locked) {
+    const stale = Object.entries(locked.fields).filter(([, h]) => !headers.includes(h)).map(([f]) => f);
+    if (stale.length) log?.warn?.({ entity, stale_fields: stale }, 'ingest_locked_mapping_stale');
+    const fields = resolveMappingToStrings(mergeFieldMaps(jobMapping?.fields, locked.fields), headers);
+    for (const f of stale) if (!jobMapping?.fields?.[f]) delete fields[f];
+    const uniqueKey = jobMapping?.uniqueKey || locked.uniqueKey || (entity === 'products' ? 'sku' : 'order_id');
+    return { fields, uniqueKey };
+  }
+
+  const heuristic = (await suggestMapping(headers, entity)) || { fields: {} as Record<string, string> };
 
   await loadAiMappingIfAvailable(log);
   let ai: { fields?: FieldMap; uniqueKey?: string | null; confidence?: number } | null = null;
@@ -507,280 +566,1083 @@ async function advisoryUnlock(trx: any, store_id: string): Promise<void> {
   try { await trx.raw('SELECT pg_advisory_unlock(?, hashtext(?))', [LOCK_NS, store_id]); } catch {}
 }
 
-async function listActiveStoresWithEnabledSheet(db: DB): Promise<string[]> {
-  return db.transaction(async (trx: any) => {
-    await trx.raw('SET LOCAL search_path = public');
-    const rows = await trx('public.stores as s')
-      .select('s.id as store_id')
-      .join('public.store_sheets as ss', 'ss.store_id', 's.id')
-      .where({ 's.status': 'active', 'ss.enabled': true })
-      .groupBy('s.id');
-    return rows.map((r: any) => r.store_id);
-  });
-}
+/* --------------------------- Transform + validate ------------------------- */
 
-/* ------------------------------ Main worker -------------------------------- */
+type IndexedRow = { raw: Record<string, any>; index: number }; // index: 0-based data row
 
-export function installIngestWorker(db: DB, log?: FastifyBaseLogger) {
-  const logger: FastifyBaseLogger = (log as any) || (console as unknown as FastifyBaseLogger);
+type PreparedRow = {
+  raw: Record<string, any>;
+  rowNumber: number;            // 1-based sheet row (header is row 1)
+  key: string;
+  record?: Record<string, any>; // cleaned record; undefined when the row is invalid
+  errors: string[];
+  warnings: string[];
+};
 
-  try {
-    (logger.info || console.log)({ flags: FLAGS, env_INGEST_ENABLED: process.env.INGEST_ENABLED }, 'ingest_boot_flags');
-  } catch {}
+/** Map + transform one row; `key` is the external key the upsert (and sheet sync) uses. */
+function mapRow(raw: Record<string, any>, entity: Entity, fields: Record<string, string>, uniqueKey: string) {
+  const rec = applyMapping(raw, { fields });
+  if (entity === 'products') {
+    const t = applyTransformations(rec, PRODUCT_TRANSFORM_CONFIG);
+    const key = (t?.[uniqueKey] ?? t?.sku ?? '').toString().trim();
+    return { key, record: { ...t, sku: key, title: t?.title || key } };
+  }
+  const t = applyTransformations(rec, ORDER_TRANSFORM_CONFIG);
+  const key = (t?.[uniqueKey] ?? t?.order_id ?? t?.id ?? t?.external_id ?? t?.external_key ?? '')
+    .toString()
+    .trim();
+  return { key, record: { ...t, order_id: key } };
+}
 
-  if (!INGEST_ENABLED) {
-    (logger.info || console.log)({ INGEST_ENABLED }, 'ingest_disabled_via_env');
+/** Map → transform → validate a batch; row numbers are the ones the seller sees in the sheet. */
+function prepareRows(
+  rows: IndexedRow[],
+  entity: Entity,
+  fields: Record<string, string>,
+  uniqueKey: string
+): PreparedRow[] {
+  const mapped = rows.map((r) => mapRow(r.raw, entity, fields, uniqueKey));
+
+  const validator = entity === 'products' ? validateProduct : validateOrder;
+  const { valid, invalid, warnings } = batchValidate(mapped.map((m) => m.record), (r) => validator(r));
+  const errorsAt = new Map(invalid.map((i) => [i.index, i.errors]));
+  const warningsAt = new Map(warnings.map((w) => [w.index, w.warnings]));
+
+  let v = 0;
+  return mapped.map((m, i) => {
+    const errors = errorsAt.get(i);
     return {
-      warm: () => void 0,
-      preflightFromSource: (store_id: string, source?: any) => preflightFromSource(db, store_id, source),
+      raw: rows[i].raw,
+      rowNumber: rows[i].index + 2,
+      key: m.key,
+      record: errors ? undefined : valid[v++],
+      errors: errors ?? [],
+      warnings: warningsAt.get(i) ?? [],
     };
-  }
+  });
+}
 
-  async function handleJob(job: IngestJob) {
-    const { store_id } = job;
-    const entity = (job.mapping?.entity ?? (job as any).entity ?? 'orders') as Entity;
+/** Rows worth reporting back to the seller: rejected ones, and accepted ones with warnings. */
+async function writeIngestionAudit(trx: any, store_sheet_id: string, run_id: string, rows: PreparedRow[]) {
+  const audit = rows
+    .filter((r) => r.errors.length || r.warnings.length)
+    .map((r) => ({
+      store_sheet_id,
+      run_id,
+      row_number: r.rowNumber,
+      external_row_id: r.key || null,
+      status: r.errors.length ? 'error' : 'success',
+      error_message: (r.errors.length ? r.errors : r.warnings).join('\n'),
+      processed_at: trx.fn.now(),
+      idempotency_key: `${run_id}:${r.rowNumber}`,
+    }));
+  if (!audit.length) return 0;
+  await trx('public.ingestion_audit').insert(audit).onConflict('idempotency_key').ignore();
+  return audit.length;
+}
 
-    const prestate = await db.transaction(async (trx: any) => {
-      await trx.raw('SET LOCAL search_path = public');
+/* ------------------------------ Order writes ------------------------------- */
+
+/** Per-transaction facts for order upserts: schema introspection, product index, calling code. */
+export type OrderWriteContext = {
+  store_id: string;
+  seller_id: string;
+  keyCol: string;
+  amountCol: string | null;
+  hasCustomerCol: boolean;
+  allowedStatuses: Set<string>;
+  productIndex: ProductIndex;
+  countryCode: string;
+  riskPolicy: RiskPolicy;
+};
 
-      const store = await getStoreRow(trx, store_id);
-      if (!store) return { ok: false as const, code: 'store_not_found' };
-      if (store.status !== 'active') return { ok: false as const, code: 'store_inactive' };
+/** Null when the orders table has no external key column (nothing can be upserted). */
+export async function orderWriteContext(
+  trx: any,
+  store: any,
+  logger: FastifyBaseLogger
+): Promise<OrderWriteContext | null> {
+  const { keyCol, amountCol, all } = await introspectOrdersColumns(trx);
+  if (!keyCol) {
+    logger.warn({ store_id: store.id, columns: all }, 'orders_table_missing_key_column');
+    return null;
+  }
+  const allowedStatuses = await introspectAllowedOrderStatuses(trx);
+  logger.info({ store_id: store.id, keyCol, amountCol, allowedStatuses: [...allowedStatuses] }, 'orders_introspect');
+  return {
+    store_id: store.id,
+    seller_id: store.seller_id,
+    keyCol,
+    amountCol,
+    hasCustomerCol: all.includes('customer_id'),
+    allowedStatuses,
+    productIndex: await loadProductIndex(trx, store.id),
+    countryCode: storeCountryCode(store),
+    riskPolicy: riskPolicyForStore(store),
+  };
+}
 
-      const sheet = await getEnabledSheetForStore(trx, store_id);
-      if (!job.source && (!sheet || !sheet.gsheet_url)) return { ok: false as const, code: 'sheet_missing' };
+/**
+ * Upsert one order by its external key, with its customer (E.164 phone) and line items.
+ * `items` replaces parsing the product cell when the source already has structured items.
+ * New orders are risk-scored (see ./ingest/risk). Returns the order id.
+ */
+export async function upsertIngestedOrder(
+  trx: any,
+  ctx: OrderWriteContext,
+  input: {
+    key: string;
+    raw: Record<string, any>;
+    rec: Record<string, any>;
+    phone?: any;
+    items?: LineItemInput[];
+    /** Without a status in `rec`, keep the existing order's status (it's ours to decide). */
+    preserveStatus?: boolean;
+    /**
+     * Header of the status cell in `raw` (sheets; null when none is mapped). An existing order then
+     * only takes the cell's status when the cell itself was edited and the order is still new:
+     * re-syncing an edited row (or our own write-back) must not undo the confirmation flow.
+     */
+    statusCell?: string | null;
+    rowNumber?: number;
+  },
+  logger: FastifyBaseLogger
+): Promise<string | null> {
+  const { store_id, keyCol, amountCol, allowedStatuses } = ctx;
+  const { raw, rec, key: extKey } = input;
+
+  // Normalize status to match DB constraint
+  // Try AI-powered normalization first, falls back to manual mapping
+  const statusRaw = (rec?.status ?? 'new').toString();
+  const status = await normalizeStatusWithAI(statusRaw, allowedStatuses);
+
+  // Amount
+  const total = rec?.total_amount ?? rec?.amount ?? rec?.total ?? rec?.price;
+  const totalNum = coerceNumber(total);
+
+  // Date candidates
+  const rawCreated =
+    rec?.created_at ??
+    rec?.date ??
+    rec?.ordered_at ??
+    rec?.order_date ??
+    raw?.['Order date'] ??
+    raw?.['order date'];
+  const createdAt = parseDateLoose(rawCreated);
+
+  const cleanRaw = stripEmptyKeys(raw);
+
+  const insertObj: Record<string, any> = {
+    id: trx.raw('gen_random_uuid()'),
+    store_id,
+    status,
+    created_at: createdAt ? createdAt : trx.fn.now(),
+    updated_at: trx.fn.now(),
+    raw_payload_json: trx.raw('?::jsonb', [safeJson(cleanRaw)]), // keep source row (cleaned)
+  };
+  insertObj[keyCol] = extKey;
+  if (amountCol) insertObj[amountCol] = Number.isFinite(totalNum as number) ? totalNum : null;
 
-      return { ok: true as const, store, sheet };
-    });
+  const mergeObj: Record<string, any> = {
+    updated_at: trx.fn.now(),
+    raw_payload_json: insertObj.raw_payload_json, // edited source rows update the order
+  };
+  if (input.statusCell !== undefined) {
+    if (input.statusCell && rec?.status != null) {
+      mergeObj.status = trx.raw(
+        `CASE WHEN public.orders.status = 'new'
+                AND coalesce(public.orders.decision_result->>'status', '') <> 'confirmed'
+                AND coalesce(public.orders.raw_payload_json->>?, '') <> ?
+              THEN EXCLUDED.status ELSE public.orders.status END`,
+        [input.statusCell, String(cleanRaw[input.statusCell] ?? '')]
+      );
+    }
+  } else if (!input.preserveStatus || rec?.status != null) {
+    mergeObj.status = status;
+  }
+  if (amountCol && Number.isFinite(totalNum as number)) {
+    mergeObj[amountCol] = totalNum;
+  }
 
-    if (!prestate.ok) {
-      logger.warn({ store_id, code: prestate.code }, 'ingest_precondition_failed');
-      return;
+  // Customer keyed by E.164 phone
+  const phone = toE164(input.phone ?? rec?.customer_phone, ctx.countryCode);
+  let customer_id: string | null = null;
+  if (phone) {
+    try {
+      customer_id = await trx.transaction((sp: any) =>
+        upsertCustomer(sp, store_id, { phone, name: rec?.customer_name, email: rec?.customer_email })
+      );
+    } catch (e: any) {
+      logger.warn({ store_id, row: input.rowNumber, key: extKey, err: String(e) }, 'ingest_customer_upsert_failed');
     }
+  }
+  if (customer_id && ctx.hasCustomerCol) {
+    insertObj.customer_id = customer_id;
+    mergeObj.customer_id = customer_id;
+  }
+
+  const [saved] = await trx('public.orders')
+    .insert(insertObj)
+    .onConflict(['store_id', keyCol])
+    .merge(mergeObj)
+    .returning(['id', 'xmax']); // xmax = 0 → the row was inserted
 
-    // ---- Acquire rows
-    let headers: string[] = [];
-    let rows: any[] = [];
-    let firstRow: any = null;
-    let usedUrl: string | undefined;
+  if (saved?.id) {
+    try {
+      await trx.transaction((sp: any) =>
+        input.items
+          ? writeOrderItems(sp, saved.id, input.items, ctx.productIndex)
+          : replaceOrderItems(sp, saved.id, rec, ctx.productIndex, totalNum)
+      );
+    } catch (e: any) {
+      logger.warn({ store_id, row: input.rowNumber, key: extKey, err: String(e) }, 'ingest_order_items_failed');
+    }
+  }
 
+  if (saved?.id && String(saved.xmax) === '0' && ctx.riskPolicy.enabled) {
     try {
-      if (job.source) {
-        const pf = await preflightFromSource(db, store_id, job.source);
-        headers = pf.headers; rows = pf.rows; firstRow = pf.firstRow;
+      await trx.transaction(async (sp: any) => {
+        const risk = await scoreOrderRisk(
+          sp,
+          {
+            order_id: saved.id,
+            store: { id: store_id, seller_id: ctx.seller_id },
+            created_at: createdAt,
+            phone,
+            rawPhone: input.phone ?? rec?.customer_phone,
+            address: rec?.address,
+            city: rec?.city,
+            customer_name: rec?.customer_name,
+          },
+          ctx.riskPolicy
+        );
+        await saveOrderRisk(sp, saved.id, risk);
+        if (risk.level !== 'low') {
+          logger.info(
+            { store_id, order_id: saved.id, key: extKey, score: risk.score, reasons: risk.reasons.map((r) => r.code) },
+            'order_risk_flagged'
+          );
+        }
+      });
+    } catch (e: any) {
+      logger.warn({ store_id, row: input.rowNumber, key: extKey, err: String(e) }, 'order_risk_score_failed');
+    }
+  }
+  return saved?.id ?? null;
+}
+
+/* --------------------------- Dry run / preview ---------------------------- */
+
+const PREVIEW_MAX_ITEMS = Number(process.env.INGEST_PREVIEW_MAX_ITEMS || 200);
+
+type FieldChange = { before: any; after: any };
+
+export type IngestPreview = {
+  ok: boolean;
+  error?: string;
+  mode: 'dryRun' | 'validateOnly';
+  store_id: string;
+  entity: Entity;
+  uniqueKey?: string;
+  mapping?: Record<string, string>;
+  total_rows: number;
+  counts: { insert: number; update: number; unchanged: number; invalid: number; warnings: number };
+  inserts: Array<{ row: number; key: string; fields: Record<string, any> }>;
+  updates: Array<{ row: number; key: string; changes: Record<string, FieldChange> }>;
+  invalid: Array<{ row: number; key: string; errors: string[] }>;
+  warnings: Array<{ row: number; key: string; warnings: string[] }>;
+  truncated: boolean; // lists are capped at PREVIEW_MAX_ITEMS, counts are not
+};
+
+function emptyPreview(store_id: string, entity: Entity, mode: IngestPreview['mode'], error?: string): IngestPreview {
+  return {
+    ok: !error,
+    ...(error ? { error } : {}),
+    mode,
+    store_id,
+    entity,
+    total_rows: 0,
+    counts: { insert: 0, update: 0, unchanged: 0, invalid: 0, warnings: 0 },
+    inserts: [],
+    updates: [],
+    invalid: [],
+    warnings: [],
+    truncated: false,
+  };
+}
+
+const isPlainObject = (v: any) => v != null && typeof v === 'object' && !Array.isArray(v);
+
+function sameValue(a: any, b: any): boolean {
+  if (a == null || a === '') return b == null || b === '';
+  if (isPlainObject(a) || isPlainObject(b)) return Object.keys(changedCells(a, b)).length === 0;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return String(a) === String(b);
+}
+
+/** Cells of a source row (raw_payload_json) that differ, as { header: [before, after] }. */
+function changedCells(a: Record<string, any> | null, b: Record<string, any> | null): Record<string, [any, any]> {
+  const out: Record<string, [any, any]> = {};
+  for (const k of new Set([...Object.keys(a || {}), ...Object.keys(b || {})])) {
+    if (!sameValue(a?.[k], b?.[k])) out[k] = [a?.[k] ?? null, b?.[k] ?? null];
+  }
+  return out;
+}
+
+/** Only the columns the real upsert would write (see the merge() calls in runIngestJob). */
+function diffFields(before: Record<string, any>, after: Record<string, any>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const [k, v] of Object.entries(after)) {
+    if (v === undefined || sameValue(before?.[k], v)) continue;
+    if (isPlainObject(v)) {
+      // source rows: one change per edited cell, e.g. "raw_payload_json.Address"
+      for (const [h, [b, a]] of Object.entries(changedCells(before?.[k], v))) changes[`${k}.${h}`] = { before: b, after: a };
+    } else {
+      changes[k] = { before: before?.[k] ?? null, after: v };
+    }
+  }
+  return changes;
+}
+
+/** How line items are shown (and compared) in a preview: "2× Red shirt, 1× Cap". */
+const itemsLabel = (items: Array<{ name: string; quantity: number }>) =>
+  items.map((i) => `${i.quantity}× ${i.name}`).join(', ');
+
+/**
+ * What an ingest would do, computed read-only: rows are transformed/validated as in a
+ * real run, then (dryRun) compared with the current orders/products. Nothing is written.
+ */
+async function buildIngestPreview(
+  db: DB,
+  args: {
+    store_id: string;
+    entity: Entity;
+    mode: IngestPreview['mode'];
+    rows: IndexedRow[];
+    fields: Record<string, string>;
+    uniqueKey: string;
+  }
+): Promise<IngestPreview> {
+  const { store_id, entity, mode, rows, fields, uniqueKey } = args;
+  const out = emptyPreview(store_id, entity, mode);
+  out.uniqueKey = uniqueKey;
+  out.mapping = fields;
+  out.total_rows = rows.length;
+
+  const push = <T,>(list: T[], item: T) => {
+    if (list.length < PREVIEW_MAX_ITEMS) list.push(item);
+    else out.truncated = true;
+  };
+
+  const prepared = prepareRows(rows, entity, fields, uniqueKey);
+  for (const r of prepared) {
+    if (!r.record) {
+      out.counts.invalid++;
+      push(out.invalid, { row: r.rowNumber, key: r.key, errors: r.errors });
+    } else if (r.warnings.length) {
+      out.counts.warnings++;
+      push(out.warnings, { row: r.rowNumber, key: r.key, warnings: r.warnings });
+    }
+  }
+  if (mode === 'validateOnly') return out;
+
+  const valid = prepared.filter((r) => r.record);
+  await db.transaction(async (trx: any) => {
+    await trx.raw('SET TRANSACTION READ ONLY');
+    await trx.raw('SET LOCAL search_path = public');
+
+    const keys = [...new Set(valid.map((r) => r.key))];
+    const current = new Map<string, Record<string, any>>();
+
+    // Repeated keys in the same sheet behave like the real run: later rows update earlier ones
+    const tally = (r: PreparedRow, after: Record<string, any>) => {
+      const before = current.get(r.key);
+      if (!before) {
+        out.counts.insert++;
+        const fields = Object.fromEntries(Object.entries(after).filter(([, v]) => !isPlainObject(v)));
+        push(out.inserts, { row: r.rowNumber, key: r.key, fields });
       } else {
-        usedUrl = prestate.sheet!.gsheet_url;
-        const pf = await preflightFromCsvUrl(usedUrl);
-        headers = pf.headers; rows = pf.rows; firstRow = pf.firstRow;
+        const changes = diffFields(before, after);
+        if (Object.keys(changes).length) {
+          out.counts.update++;
+          push(out.updates, { row: r.rowNumber, key: r.key, changes });
+        } else {
+          out.counts.unchanged++;
+        }
+      }
+      current.set(r.key, { ...before, ...Object.fromEntries(Object.entries(after).filter(([, v]) => v !== undefined)) });
+    };
+
+    if (entity === 'products') {
+      for (const part of chunk(keys, 1000)) {
+        const found = await trx('public.products')
+          .select('sku', 'title', 'description', 'price', 'inventory')
+          .where({ store_id })
+          .whereIn('sku', part);
+        for (const p of found) current.set(String(p.sku), p);
+      }
+
+      for (const r of valid) {
+        const rec = r.record!;
+        const priceNum = coerceNumber(rec.price);
+        const qtyNum = coerceNumber(rec.quantity);
+        const after = {
+          title: rec.title ?? r.key,
+          description: rec.description ?? undefined,
+          price: Number.isFinite(priceNum as number) ? priceNum : undefined,
+          inventory: Number.isFinite(qtyNum as number) ? qtyNum : undefined,
+        };
+        tally(r, after);
       }
-    } catch (e: any) {
-      logger.warn({ store_id, err: String(e) }, 'ingest_preflight_failed');
       return;
     }
 
-    // Resume only for sheet-based jobs (ignore for uploads/URL one-offs).
-    // If the stored offset is nonsensical for the current sheet (e.g., new/shorter sheet),
-    // reset it to 0 so we re-ingest from the beginning of this sheet.
-    let resumeFrom = 0;
-    if (!job.source) {
-      const stored = Number(prestate.sheet?.last_processed_row || 0);
-      resumeFrom = Number.isFinite(stored) && stored > 0 ? stored : 0;
-      if (resumeFrom >= rows.length || resumeFrom > rows.length * 2) {
-        logger.info({ store_id, resumeFrom, total_rows: rows.length }, 'ingest_resume_exceeds_rows_reset');
+    const { keyCol, amountCol, all } = await introspectOrdersColumns(trx);
+    const hasCustomerCol = all.includes('customer_id');
+    if (!keyCol) {
+      out.ok = false;
+      out.error = 'orders_table_missing_key_column';
+      return;
+    }
+    const allowedStatuses = await introspectAllowedOrderStatuses(trx);
+    const store = await trx('public.stores').where({ id: store_id }).first();
+    const countryCode = storeCountryCode(store);
+    const statusCell = fields.status ?? null;
+    for (const part of chunk(keys, 1000)) {
+      const found = await trx('public.orders as o')
+        .modify((q: any) => {
+          if (hasCustomerCol) q.leftJoin('public.customers as c', 'c.id', 'o.customer_id');
+        })
+        .select([
+          `o.${keyCol} as key`,
+          'o.status',
+          'o.raw_payload_json',
+          trx.raw(`o.decision_result->>'status' as decision_status`),
+          ...(hasCustomerCol ? ['c.phone as customer_phone', 'c.name as customer_name'] : []),
+          ...(amountCol ? [`o.${amountCol} as total_amount`] : []),
+        ])
+        .where('o.store_id', store_id)
+        .whereIn(`o.${keyCol}`, part);
+      for (const o of found) current.set(String(o.key), { ...o, items: '' });
+
+      const items = await trx('public.order_items as i')
+        .join('public.orders as o', 'o.id', 'i.order_id')
+        .select(`o.${keyCol} as key`, 'i.quantity', trx.raw(`i.metadata->>'title' as name`))
+        .where('o.store_id', store_id)
+        .whereIn(`o.${keyCol}`, part)
+        .andWhereRaw(`i.metadata->>'source' = 'ingest'`)
+        .orderBy('i.created_at');
+      const byKey = new Map<string, Array<{ name: string; quantity: number }>>();
+      for (const it of items) byKey.set(String(it.key), [...(byKey.get(String(it.key)) ?? []), it]);
+      for (const [key, list] of byKey) current.get(key)!.items = itemsLabel(list);
+    }
+
+    // Mirrors upsertIngestedOrder: status, amount, customer (by E.164 phone), line items and the source row
+    for (const r of valid) {
+      const rec = r.record!;
+      const raw = stripEmptyKeys(r.raw);
+      const before = current.get(r.key);
+      const status = await normalizeStatusWithAI((rec.status ?? 'new').toString(), allowedStatuses);
+      const statusApplies =
+        !before ||
+        (!!statusCell &&
+          rec.status != null &&
+          before.status === 'new' &&
+          before.decision_status !== 'confirmed' &&
+          !sameValue(before.raw_payload_json?.[statusCell], raw[statusCell]));
+      const totalNum = coerceNumber(rec.total_amount ?? rec.amount ?? rec.total ?? rec.price);
+      const phone = toE164(r.raw?.[fields.customer_phone] ?? rec.customer_phone, countryCode);
+      tally(r, {
+        status: statusApplies ? status : undefined,
+        total_amount: amountCol && Number.isFinite(totalNum as number) ? totalNum : undefined,
+        customer_phone: hasCustomerCol ? phone ?? undefined : undefined,
+        customer_name: hasCustomerCol && phone ? String(rec.customer_name ?? '').trim() || undefined : undefined,
+        items: itemsLabel(sheetLineItems(rec).items),
+        raw_payload_json: raw,
+      });
+    }
+  });
+
+  return out;
+}
+
+/* ------------------------------ Chunk writes -------------------------------- */
+
+type ChunkTarget = {
+  store: any;
+  entity: Entity;
+  fields: Record<string, string>;
+  uniqueKey: string;
+  run_id: string;
+  auditSheetId?: string; // per-row report goes to ingestion_audit (sheet runs only; it is keyed by sheet)
+  sync?: { sheetId: string; changedByIndex: Map<number, SyncPlan['changed'][number]> };
+};
+
+type ChunkResult = {
+  applied: boolean;
+  skipped?: string; // why the chunk was not applied
+  written: number;
+  rejected: number;
+  warned: number;
+  rejectedRows: RunRow[];
+};
+
+/**
+ * Map, validate and upsert one chunk in its own transaction under the store's advisory
+ * lock. `applied: false` when another worker holds the lock (the chunk is skipped).
+ */
+async function writeChunk(
+  db: DB,
+  t: ChunkTarget,
+  c: IndexedRow[],
+  logger: FastifyBaseLogger
+): Promise<ChunkResult> {
+  const store_id = t.store.id;
+  const prepared = prepareRows(c, t.entity, t.fields, t.uniqueKey);
+
+  return db.transaction(async (trx: any) => {
+    await trx.raw('SET LOCAL search_path = public');
+
+    // try advisory lock per store
+    const got = await tryAdvisoryLock(trx, store_id);
+    if (!got) {
+      logger.info({ store_id }, 'ingest_store_busy_skip_chunk');
+      // another worker is active
+      return { applied: false, skipped: 'store_busy', written: 0, rejected: 0, warned: 0, rejectedRows: [] };
+    }
+
+    try {
+      if (t.entity === 'products') {
+        for (const row of prepared) {
+          const rec = row.record;
+          if (!rec) continue;
+          const keyVal = row.key;
+
+          const priceNum = coerceNumber(rec?.price);
+          const qtyNum = coerceNumber(rec?.quantity);
+
+          await trx('public.products')
+            .insert({
+              id: trx.raw('gen_random_uuid()'),
+              store_id,
+              sku: keyVal,
+              title: rec?.title ?? keyVal,
+              description: rec?.description ?? null,
+              price: Number.isFinite(priceNum as number) ? priceNum : null,
+              inventory: Number.isFinite(qtyNum as number) ? qtyNum : null,
+              status: 'active',
+              created_at: trx.fn.now(),
+              updated_at: trx.fn.now(),
+            })
+            .onConflict(['store_id', 'sku'])
+            .merge({
+              title: rec?.title ?? trx.raw('public.products.title'),
+              description: rec?.description ?? trx.raw('public.products.description'),
+              price: Number.isFinite(priceNum as number) ? priceNum : trx.raw('public.products.price'),
+              inventory: Number.isFinite(qtyNum as number) ? qtyNum : trx.raw('public.products.inventory'),
+              updated_at: trx.fn.now(),
+            });
+        }
+      } else {
+        // ---- Orders upsert (key + optional amount) + raw_payload_json + status normalization
+        const ctx = await orderWriteContext(trx, t.store, logger);
+        if (!ctx) {
+          return { applied: false, skipped: 'orders_key_column_missing', written: 0, rejected: 0, warned: 0, rejectedRows: [] };
+        }
+
+        for (const row of prepared) {
+          if (!row.record) continue;
+          await upsertIngestedOrder(
+            trx,
+            ctx,
+            {
+              key: row.key,
+              raw: row.raw,
+              rec: row.record,
+              // the raw cell (not the transformed one) so the store's calling code applies
+              phone: row.raw?.[t.fields.customer_phone] ?? row.record?.customer_phone,
+              statusCell: t.fields.status ?? null,
+              rowNumber: row.rowNumber,
+            },
+            logger
+          );
+        }
+      }
+
+      const invalid = prepared.filter((r) => !r.record).length;
+      if (invalid) {
+        logger.warn(
+          {
+            store_id,
+            run_id: t.run_id,
+            invalid,
+            sample: prepared.filter((r) => !r.record).slice(0, 3).map((r) => ({ row: r.rowNumber, errors: r.errors })),
+          },
+          'ingest_rows_invalid'
+        );
+      }
+      if (t.auditSheetId) {
+        const sheetId = t.auditSheetId;
         try {
-          await db('public.store_sheets')
-            .where({ id: prestate.sheet!.id })
-            .update({ last_processed_row: 0, updated_at: db.fn.now() });
-        } catch {}
-        resumeFrom = 0;
+          // nested trx = savepoint, so a failed audit write can't abort the upserts
+          await trx.transaction((sp: any) => writeIngestionAudit(sp, sheetId, t.run_id, prepared));
+        } catch (e: any) {
+          logger.warn({ store_id, run_id: t.run_id, err: String(e) }, 'ingest_audit_write_failed');
+        }
       }
-    }
-    const baseRows = resumeFrom > 0 ? rows.slice(resumeFrom) : rows;
 
-    logger.info(
-      { store_id, entity, exportUrl: usedUrl, total_rows: rows.length, resume_from_row: resumeFrom, headers, firstRow },
-      'ingest_preflight'
-    );
+      // Remember the applied rows so later syncs skip them until they are edited
+      if (t.sync) {
+        const synced = c.flatMap((r) => t.sync!.changedByIndex.get(r.index) ?? []);
+        await recordSyncedRows(trx, t.sync.sheetId, t.run_id, synced);
+      }
 
-    if (!baseRows.length) {
-      logger.info({ store_id, skipped: resumeFrom }, 'ingest_no_rows');
-      return;
+      return {
+        applied: true,
+        written: prepared.length - invalid,
+        rejected: invalid,
+        warned: prepared.filter((r) => r.record && r.warnings.length).length,
+        rejectedRows: prepared
+          .filter((r) => !r.record)
+          .map((r) => ({ row_number: r.rowNumber, key: r.key, reason: 'rejected' as const, errors: r.errors.join('\n'), raw: r.raw })),
+      };
+    } finally {
+      await advisoryUnlock(trx, store_id);
     }
+  });
+}
 
-    const { fields: finalFields, uniqueKey } = await buildMappingAndKey(
-      headers,
-      rows, // use full rows for mapping heuristics
-      entity,
-      job.mapping,
-      logger
-    );
+/** Rows of a chunk that never got written (transaction failed, store busy), kept for a retry. */
+const unwrittenRows = (c: IndexedRow[], error: string): RunRow[] =>
+  c.map((r) => ({ row_number: r.index + 2, reason: 'failed', errors: error, raw: r.raw }));
 
-    logger.info({
-      store_id,
-      entity,
-      uniqueKey,
-      mappedFields: Object.keys(finalFields || {}).length,
-      sampleMapping: Object.fromEntries(Object.entries(finalFields).slice(0, 6)),
-    }, 'ingest_mapping');
+/** Running totals pushed to the queued job (no-op for inline runs) and to the run's history row. */
+function progressReporter(
+  ctl: IngestJobControl | undefined,
+  run: IngestRunTracker | null,
+  init: Partial<IngestProgress> = {}
+) {
+  const state: IngestProgress = {
+    phase: 'writing',
+    rows_read: 0,
+    rows_written: 0,
+    rows_failed: 0,
+    ...init,
+    updated_at: new Date().toISOString(),
+  };
+  const push = async () => {
+    state.updated_at = new Date().toISOString();
+    await run?.save({ ...state }, state.phase === 'done' || state.phase === 'cancelled');
+    if (!ctl) return;
+    try {
+      await ctl.progress({ ...state });
+    } catch {
+      /* progress is best effort */
+    }
+  };
+  return {
+    state,
+    /** Adds the counters in `delta`; other fields (phase, bytes) are replaced. */
+    async report(delta: Partial<IngestProgress>) {
+      for (const [k, v] of Object.entries(delta)) {
+        if (k === 'rows_read' || k === 'rows_written' || k === 'rows_failed') (state as any)[k] += v as number;
+        else (state as any)[k] = v;
+      }
+      await push();
+    },
+    /** Checked between chunks: rows already written stay, the rest of the file is skipped. */
+    async stopIfCancelled(logger: FastifyBaseLogger, store_id: string) {
+      if (!ctl || !(await ctl.cancelled())) return;
+      state.phase = 'cancelled';
+      await push();
+      logger.info({ store_id, job_id: ctl.jobId, ...state }, 'ingest_cancelled');
+      throw new IngestCancelledError();
+    },
+  };
+}
+
+/**
+ * Uploads / URL imports, read row by row: the next chunk is pulled only once the previous
+ * one is written, so memory holds one chunk whatever the file size. The mapping is built
+ * from the headers and the first chunk.
+ */
+async function runStreamingIngest(
+  db: DB,
+  job: IngestJob,
+  store: any,
+  entity: Entity,
+  logger: FastifyBaseLogger,
+  run: IngestRunTracker,
+  ctl?: IngestJobControl
+): Promise<void> {
+  const store_id = store.id;
+  const progress = progressReporter(ctl, run, { phase: 'reading' });
+
+  let table: TableStream;
+  try {
+    table = await openTableStream(job.source!);
+  } catch (e: any) {
+    logger.warn({ store_id, err: String(e) }, 'ingest_preflight_failed');
+    await run.finish('failed', 'preflight_failed');
+    return;
+  }
 
-    // ---- Respect optional maxRows (applied after resume offset)
+  try {
     const limit = job.mapping?.maxRows && job.mapping.maxRows > 0 ? job.mapping.maxRows : undefined;
-    const useRows = limit ? baseRows.slice(0, limit) : baseRows;
+    let index = 0;
+    const readChunk = async (): Promise<IndexedRow[]> => {
+      const out: IndexedRow[] = [];
+      while (out.length < CHUNK_SIZE && (!limit || index < limit)) {
+        const r = await table.rows.next();
+        if (r.done) break;
+        out.push({ raw: r.value, index: index++ });
+      }
+      return out;
+    };
 
-    // ---- Process in chunks with advisory lock to avoid DB contention
-    const chunks = chunk(useRows, CHUNK_SIZE);
+    let c = await readChunk();
+    logger.info({ store_id, entity, headers: table.headers, firstRow: c[0]?.raw ?? null }, 'ingest_preflight');
+    if (!c.length) {
+      logger.info({ store_id }, 'ingest_no_rows');
+      await run.finish('skipped', 'no_rows');
+      return;
+    }
 
-    for (const c of chunks) {
-      try {
-        await db.transaction(async (trx: any) => {
-          await trx.raw('SET LOCAL search_path = public');
-
-          // try advisory lock per store
-          const got = await tryAdvisoryLock(trx, store_id);
-          if (!got) {
-            logger.info({ store_id }, 'ingest_store_busy_skip_chunk');
-            return; // skip this chunk; another worker is active
-          }
+    const { fields, uniqueKey } = await buildMappingAndKey(table.headers, c.map((r) => r.raw), entity, job.mapping, logger);
+    logger.info(
+      { store_id, entity, uniqueKey, mappedFields: Object.keys(fields).length, streaming: true },
+      'ingest_mapping'
+    );
+    run.set({ mapping: { fields, uniqueKey, locked: false } });
 
-          try {
-            if (entity === 'products') {
-              for (const raw of c) {
-                const rec = applyMapping(raw, { fields: finalFields });
-                const keyVal = (rec?.[uniqueKey] ?? rec?.sku ?? '').toString().trim();
-
-                if (!keyVal) {
-                  logger.warn({ store_id, uniqueKey, rawKeys: Object.keys(rec || {}) }, 'products_missing_unique_key_row_skipped');
-                  continue;
-                }
-
-                const priceNum = coerceNumber(rec?.price);
-                const qtyNum = coerceNumber(rec?.quantity);
-
-                await trx('public.products')
-                  .insert({
-                    id: trx.raw('gen_random_uuid()'),
-                    store_id,
-                    sku: keyVal,
-                    title: rec?.title ?? keyVal,
-                    description: rec?.description ?? null,
-                    price: Number.isFinite(priceNum as number) ? priceNum : null,
-                    inventory: Number.isFinite(qtyNum as number) ? qtyNum : null,
-                    status: 'active',
-                    created_at: trx.fn.now(),
-                    updated_at: trx.fn.now(),
-                  })
-                  .onConflict(['store_id', 'sku'])
-                  .merge({
-                    title: rec?.title ?? trx.raw('public.products.title'),
-                    description: rec?.description ?? trx.raw('public.products.description'),
-                    price: Number.isFinite(priceNum as number) ? priceNum : trx.raw('public.products.price'),
-                    inventory: Number.isFinite(qtyNum as number) ? qtyNum : trx.raw('public.products.inventory'),
-                    updated_at: trx.fn.now(),
-                  });
-              }
-            } else {
-              // ---- Orders upsert (key + optional amount) + raw_payload_json + status normalization
-              const { keyCol, amountCol, all } = await introspectOrdersColumns(trx);
-              if (!keyCol) {
-                logger.warn({ store_id, columns: all }, 'orders_table_missing_key_column');
-                return;
-              }
-              const allowedStatuses = await introspectAllowedOrderStatuses(trx);
-              logger.info({ store_id, keyCol, amountCol, allowedStatuses: [...allowedStatuses] }, 'orders_introspect');
-
-              for (const raw of c) {
-                const rec = applyMapping(raw, { fields: finalFields });
-
-                const extKey = (rec?.[uniqueKey] ?? rec?.order_id ?? rec?.id ?? rec?.external_id ?? rec?.external_key ?? '')
-                  .toString()
-                  .trim();
-                if (!extKey) {
-                  logger.warn({ store_id, uniqueKey, rawKeys: Object.keys(rec || {}) }, 'orders_missing_unique_key_row_skipped');
-                  continue;
-                }
-
-                // Normalize status to match DB constraint
-                // Try AI-powered normalization first, falls back to manual mapping
-                const statusRaw = (rec?.status ?? 'new').toString();
-                const status = await normalizeStatusWithAI(statusRaw, allowedStatuses);
-
-                // Amount
-                const total = rec?.total_amount ?? rec?.amount ?? rec?.total ?? rec?.price;
-                const totalNum = coerceNumber(total);
-
-                // Date candidates
-                const rawCreated =
-                  rec?.created_at ??
-                  rec?.date ??
-                  rec?.ordered_at ??
-                  rec?.order_date ??
-                  raw?.['Order date'] ??
-                  raw?.['order date'];
-                const createdAt = parseDateLoose(rawCreated);
-
-                const cleanRaw = stripEmptyKeys(raw);
-
-                const insertObj: Record<string, any> = {
-                  id: trx.raw('gen_random_uuid()'),
-                  store_id,
-                  status,
-                  created_at: createdAt ? createdAt : trx.fn.now(),
-                  updated_at: trx.fn.now(),
-                  raw_payload_json: trx.raw('?::jsonb', [safeJson(cleanRaw)]), // keep source row (cleaned)
-                };
-                insertObj[keyCol] = extKey;
-                if (amountCol) insertObj[amountCol] = Number.isFinite(totalNum as number) ? totalNum : null;
-
-                const mergeObj: Record<string, any> = {
-                  status,
-                  updated_at: trx.fn.now(),
-                };
-                if (amountCol && Number.isFinite(totalNum as number)) {
-                  mergeObj[amountCol] = totalNum;
-                }
-
-                await trx('public.orders')
-                  .insert(insertObj)
-                  .onConflict(['store_id', keyCol])
-                  .merge(mergeObj);
-              }
-            }
-
-            // Progress marker (best effort) per chunk
-            try {
-              const sheet = await getEnabledSheetForStore(trx, store_id);
-              if (sheet) {
-                await trx('public.store_sheets')
-                  .where({ id: sheet.id })
-                  .update({
-                    last_processed_row: (sheet.last_processed_row || 0) + c.length,
-                    updated_at: trx.fn.now(),
-                  });
-              }
-            } catch { /* non-fatal */ }
-          } finally {
-            await advisoryUnlock(trx, store_id);
-          }
-        });
+    const target: ChunkTarget = { store, entity, fields, uniqueKey, run_id: run.id };
+    let rejected = 0;
+    let warned = 0;
+
+    while (c.length) {
+      await progress.stopIfCancelled(logger, store_id);
+      const bytes = table.bytes();
+      await progress.report({ phase: 'writing', rows_read: c.length, bytes_read: bytes.read, bytes_total: bytes.total });
+      try {
+        const r = await writeChunk(db, target, c, logger);
+        rejected += r.rejected;
+        warned += r.warned;
+        run.set({ rows_warned: warned });
+        await run.recordRows(r.applied ? r.rejectedRows : unwrittenRows(c, r.skipped ?? 'not_applied'));
+        await progress.report({ rows_written: r.written, rows_failed: r.applied ? r.rejected : c.length });
       } catch (e: any) {
         logger.warn({ store_id, err: String(e) }, 'ingest_tx_failed');
-        // keep going with next chunk; another scan tick will catch leftovers
+        await run.recordRows(unwrittenRows(c, String(e?.message || e)));
+        await progress.report({ rows_failed: c.length });
       }
+      c = await readChunk();
     }
 
+    await progress.report({ phase: 'done' });
     logger.info(
       {
         store_id,
         entity,
-        processed: useRows.length,
-        headers_len: headers.length,
-        mappedFields: Object.keys(finalFields || {}).length,
+        run_id: target.run_id,
+        processed: progress.state.rows_read,
+        written: progress.state.rows_written,
+        failed: progress.state.rows_failed,
+        rejected,
+        warned,
         uniqueKey,
+        streaming: true,
       },
       'ingest_complete'
     );
+  } finally {
+    await table.close();
+  }
+}
+
+/* ------------------------------ Run one job -------------------------------- */
+
+// dryRun/validateOnly never write; they resolve to a preview instead
+const previewModeOf = (job: IngestJob): IngestPreview['mode'] | null =>
+  job.mapping?.validateOnly ? 'validateOnly' : job.mapping?.dryRun ? 'dryRun' : null;
+
+/** Runs one job; real runs are recorded in ingest_runs (see ./ingest/runs). */
+export async function runIngestJob(
+  db: DB,
+  job: IngestJob,
+  logger: FastifyBaseLogger,
+  ctl?: IngestJobControl
+): Promise<IngestPreview | void> {
+  if (previewModeOf(job)) return ingestJob(db, job, logger, null, ctl);
+
+  const run = trackIngestRun(db, job, ctl?.jobId, logger);
+  await run.start();
+  try {
+    await ingestJob(db, job, logger, run, ctl);
+    await run.finish();
+  } catch (e: any) {
+    await run.finish(e instanceof IngestCancelledError ? 'cancelled' : 'failed', String(e?.message || e));
+    throw e;
+  }
+}
+
+async function ingestJob(
+  db: DB,
+  job: IngestJob,
+  logger: FastifyBaseLogger,
+  run: IngestRunTracker | null,
+  ctl?: IngestJobControl
+): Promise<IngestPreview | void> {
+  const { store_id } = job;
+  const entity = (job.mapping?.entity ?? (job as any).entity ?? 'orders') as Entity;
+  const previewMode = previewModeOf(job);
+  // Retries replay stored rows; only scans and manual syncs read (and sync) the store's sheet
+  const fromSheet = !job.source && !job.retry_of;
+
+  const stop = async (code?: string) => {
+    await run?.finish(code ? 'failed' : 'skipped', code ?? 'no_rows');
+    return previewMode ? emptyPreview(store_id, entity, previewMode, code) : undefined;
+  };
+
+  const prestate = await db.transaction(async (trx: any) => {
+    await trx.raw('SET LOCAL search_path = public');
+
+    const store = await getStoreRow(trx, store_id);
+    if (!store) return { ok: false as const, code: 'store_not_found' };
+    // A preview is how sellers check a sheet before activating, so it doesn't need an active store
+    if (store.status !== 'active' && !previewMode) return { ok: false as const, code: 'store_inactive' };
+
+    const sheet = await getEnabledSheetForStore(trx, store_id);
+    if (fromSheet && (!sheet || !sheet.gsheet_url)) return { ok: false as const, code: 'sheet_missing' };
+
+    return { ok: true as const, store, sheet };
+  });
+
+  if (!prestate.ok) {
+    logger.warn({ store_id, code: prestate.code }, 'ingest_precondition_failed');
+    return stop(prestate.code);
   }
 
+  // Large uploads: read row by row instead of loading the file (previews still load it)
+  if (job.source && !previewMode && INGEST_STREAMING) {
+    return runStreamingIngest(db, job, prestate.store, entity, logger, run!, ctl);
+  }
+
+  // ---- Acquire rows
+  let headers: string[] = [];
+  let rows: any[] = [];
+  let firstRow: any = null;
+  let usedUrl: string | undefined;
+  let retryRows: IndexedRow[] | null = null;
+
+  try {
+    if (job.retry_of) {
+      const stored = await loadRunRows(db, job.retry_of);
+      headers = stored.headers;
+      retryRows = stored.rows;
+      rows = stored.rows.map((r: IndexedRow) => r.raw);
+      firstRow = rows[0] ?? null;
+    } else if (job.source) {
+      const pf = await preflightFromSource(db, store_id, job.source);
+      headers = pf.headers; rows = pf.rows; firstRow = pf.firstRow;
+    } else {
+      usedUrl = prestate.sheet!.gsheet_url;
+      const pf = await preflightFromCsvUrl(usedUrl);
+      headers = pf.headers; rows = pf.rows; firstRow = pf.firstRow;
+    }
+  } catch (e: any) {
+    logger.warn({ store_id, err: String(e) }, 'ingest_preflight_failed');
+    return stop('preflight_failed');
+  }
+
+  logger.info(
+    { store_id, entity, exportUrl: usedUrl, total_rows: rows.length, headers, firstRow },
+    'ingest_preflight'
+  );
+
+  if (!rows.length) {
+    logger.info({ store_id }, 'ingest_no_rows');
+    return stop();
+  }
+
+  const { fields: finalFields, uniqueKey } = await buildMappingAndKey(
+    headers,
+    rows, // use full rows for mapping heuristics
+    entity,
+    job.mapping,
+    logger,
+    // Locked mappings describe the sheet's columns; uploads bring their own headers
+    // (retries carry the mapping of the run they replay)
+    fromSheet ? lockedMapping(prestate.sheet, entity) : null
+  );
+  const locked = fromSheet && !!lockedMapping(prestate.sheet, entity);
+
+  logger.info({
+    store_id,
+    entity,
+    uniqueKey,
+    locked,
+    mappedFields: Object.keys(finalFields || {}).length,
+    sampleMapping: Object.fromEntries(Object.entries(finalFields).slice(0, 6)),
+  }, 'ingest_mapping');
+
+  const limit = job.mapping?.maxRows && job.mapping.maxRows > 0 ? job.mapping.maxRows : undefined;
+  const indexed: IndexedRow[] = retryRows ?? rows.map((raw, index) => ({ raw, index }));
+
+  if (previewMode) {
+    const preview = await buildIngestPreview(db, {
+      store_id,
+      entity,
+      mode: previewMode,
+      rows: limit ? indexed.slice(0, limit) : indexed,
+      fields: finalFields,
+      uniqueKey,
+    });
+    logger.info({ store_id, entity, mode: previewMode, counts: preview.counts }, 'ingest_preview');
+    return preview;
+  }
+
+  // ---- Sheet sync: only rows that are new or were edited since the last sync.
+  // Uploads / URL one-offs have no sheet to remember rows against, so they process everything.
+  const syncSheet = fromSheet ? prestate.sheet : null;
+  run?.set({ store_sheet_id: syncSheet?.id ?? null, mapping: { fields: finalFields, uniqueKey, locked } });
+  let plan: SyncPlan | null = null;
+  let workRows: IndexedRow[] = indexed;
+  if (syncSheet) {
+    const sheetRows: SheetRow[] = indexed.map((r) => ({
+      ...r,
+      key: mapRow(r.raw, entity, finalFields, uniqueKey).key,
+      hash: rowHash(r.raw),
+    }));
+    plan = await planSheetSync(db, syncSheet.id, sheetRows);
+
+    if (plan.fingerprint === syncSheet.last_row_hash) {
+      await db('public.store_sheets')
+        .where({ id: syncSheet.id })
+        .update({ last_synced_at: db.fn.now() })
+        .catch(() => undefined);
+      logger.info({ store_id, total_rows: rows.length }, 'ingest_sheet_unchanged');
+      await run?.finish('skipped', 'sheet_unchanged');
+      return;
+    }
+
+    workRows = [...plan.changed, ...plan.unkeyed].sort((a, b) => a.index - b.index);
+    logger.info(
+      {
+        store_id,
+        new: plan.changed.filter((r) => r.change === 'new').length,
+        changed: plan.changed.filter((r) => r.change === 'changed').length,
+        removed: plan.removed.length,
+        unchanged: plan.unchanged,
+        unkeyed: plan.unkeyed.length,
+      },
+      'ingest_sheet_sync_plan'
+    );
+  }
+
+  // ---- Respect optional maxRows (applied after the sync filter)
+  const useRows = limit ? workRows.slice(0, limit) : workRows;
+  const changedByIndex = new Map((plan?.changed ?? []).map((r) => [r.index, r]));
+  // Only a run that applied every pending row may advance the sheet fingerprint
+  let allChunksApplied = useRows.length === workRows.length;
+
+  // ---- Per-row report goes to ingestion_audit (sheet runs only; it is keyed by sheet)
+  const run_id = run!.id; // previews returned above
+  const auditSheetId: string | undefined = fromSheet ? prestate.sheet?.id : undefined;
+  let rejected = 0;
+  let warned = 0;
+
+  // ---- Process in chunks with advisory lock to avoid DB contention
+  const target: ChunkTarget = {
+    store: prestate.store,
+    entity,
+    fields: finalFields,
+    uniqueKey,
+    run_id,
+    auditSheetId,
+    sync: syncSheet ? { sheetId: syncSheet.id, changedByIndex } : undefined,
+  };
+  const progress = progressReporter(ctl, run, { rows_read: rows.length });
+
+  for (const c of chunk(useRows, CHUNK_SIZE)) {
+    await progress.stopIfCancelled(logger, store_id);
+    try {
+      const r = await writeChunk(db, target, c, logger);
+      if (!r.applied) allChunksApplied = false;
+      rejected += r.rejected;
+      warned += r.warned;
+      run?.set({ rows_warned: warned });
+      await run?.recordRows(r.applied ? r.rejectedRows : unwrittenRows(c, r.skipped ?? 'not_applied'));
+      await progress.report({ rows_written: r.written, rows_failed: r.applied ? r.rejected : c.length });
+    } catch (e: any) {
+      logger.warn({ store_id, err: String(e) }, 'ingest_tx_failed');
+      allChunksApplied = false;
+      await run?.recordRows(unwrittenRows(c, String(e?.message || e)));
+      await progress.report({ rows_failed: c.length });
+      // keep going with next chunk; its rows weren't recorded, so the next sync retries them
+    }
+  }
+
+  if (syncSheet && plan) {
+    const sheetId = syncSheet.id;
+    const removed = plan.removed;
+    const fingerprint = plan.fingerprint;
+    try {
+      await db.transaction(async (trx: any) => {
+        await trx.raw('SET LOCAL search_path = public');
+        if (allChunksApplied) await recordRemovedRows(trx, sheetId, run_id, removed);
+        await trx('public.store_sheets')
+          .where({ id: sheetId })
+          .update({
+            ...(allChunksApplied ? { last_row_hash: fingerprint } : {}),
+            last_processed_row: rows.length,
+            last_synced_at: trx.fn.now(),
+            updated_at: trx.fn.now(),
+          });
+      });
+    } catch (e: any) {
+      logger.warn({ store_id, err: String(e) }, 'ingest_sheet_sync_state_failed');
+    }
+  }
+
+  await progress.report({ phase: 'done' });
+
+  logger.info(
+    {
+      store_id,
+      entity,
+      run_id,
+      processed: useRows.length,
+      total_rows: rows.length,
+      removed: allChunksApplied ? plan?.removed.length ?? 0 : 0,
+      rejected,
+      warned,
+      headers_len: headers.length,
+      mappedFields: Object.keys(finalFields || {}).length,
+      uniqueKey,
+    },
+    'ingest_complete'
+  );
+}
+
+/* ------------------------------ Main worker -------------------------------- */
+
+export function installIngestWorker(db: DB, log?: FastifyBaseLogger) {
+  const logger: FastifyBaseLogger = (log as any) || (console as unknown as FastifyBaseLogger);
+
+  try {
+    (logger.info || console.log)({ flags: FLAGS, env_INGEST_ENABLED: process.env.INGEST_ENABLED }, 'ingest_boot_flags');
+  } catch {}
+
+  if (!INGEST_ENABLED) {
+    (logger.info || console.log)({ INGEST_ENABLED }, 'ingest_disabled_via_env');
+    return {
+      warm: () => void 0,
+      preflightFromSource: (store_id: string, source?: any) => preflightFromSource(db, store_id, source),
+    };
+  }
+
+  const handleJob = (job: IngestJob, ctl?: IngestJobControl) => runIngestJob(db, job, logger, ctl);
+
   // Register the handler (support multiple util signatures defensively)
   let installed = false;
   try {
@@ -812,10 +1674,10 @@ export function installIngestWorker(db: DB, log?: FastifyBaseLogger) {
 
     if (SCAN_ON_BOOT) {
       try {
-        const storeIds = await listActiveStoresWithEnabledSheet(db);
+        const storeIds = await listDueSheetStores(db);
         logger.info({ count: storeIds.length }, 'scan_on_boot_dispatch');
         for (const store_id of storeIds) {
-          await handleJob({ store_id, mapping: { entity: 'orders' } } as unknown as IngestJob);
+          await handleJob({ store_id, trigger: 'scan', mapping: { entity: 'orders' } } as unknown as IngestJob);
         }
       } catch (e: any) {
         logger.warn({ err: String(e) }, 'scan_on_boot_failed');
@@ -825,10 +1687,11 @@ export function installIngestWorker(db: DB, log?: FastifyBaseLogger) {
     if (Number.isFinite(SCAN_INTERVAL_MS) && SCAN_INTERVAL_MS >= 15000) {
       setInterval(async () => {
         try {
-          const storeIds = await listActiveStoresWithEnabledSheet(db);
+          // SCAN_INTERVAL_MS is only the polling granularity; each sheet syncs every sync_frequency_min
+          const storeIds = await listDueSheetStores(db);
           logger.info({ count: storeIds.length, every_ms: SCAN_INTERVAL_MS }, 'scan_tick_dispatch');
           for (const store_id of storeIds) {
-            await handleJob({ store_id, mapping: { entity: 'orders' } } as unknown as IngestJob);
+            await handleJob({ store_id, trigger: 'scan', mapping: { entity: 'orders' } } as unknown as IngestJob);
           }
         } catch (e: any) {
           logger.warn({ err: String(e) }, 'scan_tick_failed');
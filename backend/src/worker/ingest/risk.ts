@@ -0,0 +1,247 @@
+// src/worker/ingest/risk.ts
+import { ORDER_RISK_ENABLED, ORDER_RISK_DUPLICATE_WINDOW_H } from '../../utils/flags';
+
+/**
+ * Duplicate / fake order scoring. New orders (sheet ingest and platform webhooks) get a
+ * 0–100 score with the reasons behind it, stored under orders.decision_result.risk;
+ * decision_reason carries a readable summary for flagged orders. The conversation worker
+ * reads the level and the store's policy to skip or delay messaging.
+ *
+ * Per-store policy, read from stores.metadata.risk:
+ *   { enabled?: boolean, duplicate_window_hours?: number, review_at?: number, high_at?: number,
+ *     action?: 'skip' | 'deprioritize' | 'none' }
+ */
+
+export type RiskAction = 'skip' | 'deprioritize' | 'none';
+
+export type RiskPolicy = {
+  enabled: boolean;
+  duplicate_window_hours: number;
+  review_at: number; // score from which the order is flagged for a look
+  high_at: number;   // score from which `action` applies
+  action: RiskAction;
+};
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskReasonCode =
+  | 'phone_blocked'
+  | 'phone_missing'
+  | 'phone_invalid'
+  | 'phone_unreachable'
+  | 'duplicate_order'
+  | 'phone_burst'
+  | 'address_suspicious'
+  | 'name_suspicious';
+
+export type OrderRisk = {
+  score: number;
+  level: RiskLevel;
+  reasons: Array<{ code: RiskReasonCode; detail?: string }>;
+  duplicate_of?: string | null;
+  scored_at: string;
+  cleared?: boolean; // seller reviewed it and let it through
+};
+
+const WEIGHTS: Record<RiskReasonCode, number> = {
+  phone_blocked: 100,
+  phone_missing: 40,
+  phone_invalid: 40,
+  phone_unreachable: 35,
+  duplicate_order: 50,
+  phone_burst: 20,
+  address_suspicious: 25,
+  name_suspicious: 10,
+};
+
+const REASON_TEXT: Record<RiskReasonCode, string> = {
+  phone_blocked: 'phone is on the block list',
+  phone_missing: 'no phone number',
+  phone_invalid: 'phone number is not valid',
+  phone_unreachable: 'phone number looks fake',
+  duplicate_order: 'same phone ordered the same product recently',
+  phone_burst: 'several recent orders from this phone',
+  address_suspicious: 'address looks fake or incomplete',
+  name_suspicious: 'customer name looks fake',
+};
+
+const ACTIONS: RiskAction[] = ['skip', 'deprioritize', 'none'];
+
+function clampScore(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 && n <= 100 ? Math.round(n) : fallback;
+}
+
+export function riskPolicyForStore(store: any): RiskPolicy {
+  const cfg = store?.metadata?.risk || {};
+  const hours = Number(cfg.duplicate_window_hours);
+  const review_at = clampScore(cfg.review_at, 30);
+  return {
+    enabled: ORDER_RISK_ENABLED && cfg.enabled !== false,
+    duplicate_window_hours: Number.isFinite(hours) && hours > 0 ? Math.min(hours, 24 * 30) : ORDER_RISK_DUPLICATE_WINDOW_H,
+    review_at,
+    high_at: Math.max(review_at, clampScore(cfg.high_at, 60)),
+    action: ACTIONS.includes(cfg.action) ? cfg.action : 'deprioritize',
+  };
+}
+
+/** Checks a seller-supplied policy before it is stored in stores.metadata.risk. */
+export function normalizeRiskPolicy(
+  input: any
+): { ok: true; policy: Partial<RiskPolicy> } | { ok: false; error: string } {
+  const out: Partial<RiskPolicy> = {};
+  if (input?.enabled !== undefined) {
+    if (typeof input.enabled !== 'boolean') return { ok: false, error: 'enabled must be a boolean' };
+    out.enabled = input.enabled;
+  }
+  if (input?.action !== undefined) {
+    if (!ACTIONS.includes(input.action)) return { ok: false, error: `action must be one of ${ACTIONS.join(', ')}` };
+    out.action = input.action;
+  }
+  if (input?.duplicate_window_hours !== undefined) {
+    const h = Number(input.duplicate_window_hours);
+    if (!Number.isInteger(h) || h < 1 || h > 24 * 30) return { ok: false, error: 'duplicate_window_hours must be 1-720' };
+    out.duplicate_window_hours = h;
+  }
+  for (const k of ['review_at', 'high_at'] as const) {
+    if (input?.[k] === undefined) continue;
+    const n = Number(input[k]);
+    if (!Number.isInteger(n) || n < 0 || n > 100) return { ok: false, error: `${k} must be 0-100` };
+    out[k] = n;
+  }
+  if ((out.review_at ?? 30) > (out.high_at ?? 60)) return { ok: false, error: 'review_at must not exceed high_at' };
+  return { ok: true, policy: out };
+}
+
+/* ------------------------------ Row checks -------------------------------- */
+
+const FAKE_WORDS = /\b(test|testing|asdf|qwerty|azerty|xxx+|fake|none|null|n\/a|nothing)\b/i;
+
+/** All one digit, a run of 6+ identical digits, or a straight 123456… sequence. */
+export function phoneLooksFake(e164: string): boolean {
+  const national = e164.replace(/\D/g, '').slice(-9);
+  if (/^(\d)\1+$/.test(national) || /(\d)\1{5,}/.test(national)) return true;
+  return '01234567890'.includes(national) || '98765432109'.includes(national);
+}
+
+export function addressLooksFake(address: any, city?: any): boolean {
+  const text = [address, city].map((v) => String(v ?? '').trim()).filter(Boolean).join(' ');
+  if (!text) return true;
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  if (letters.length < 4) return true;
+  if (/(.)\1{3,}/u.test(letters)) return true;
+  return FAKE_WORDS.test(text);
+}
+
+export function nameLooksFake(name: any): boolean {
+  const s = String(name ?? '').trim();
+  if (!s) return false; // missing names are common on COD sheets
+  return FAKE_WORDS.test(s) || /^[^\p{L}]+$/u.test(s) || /(.)\1{3,}/u.test(s);
+}
+
+/** Normalized product identity shared across the seller's stores (SKU, else title). */
+export const productKey = (sku: any, title: any) =>
+  (String(sku ?? '').trim() || String(title ?? '').trim()).toLowerCase() || null;
+
+export function composeRisk(
+  policy: RiskPolicy,
+  reasons: OrderRisk['reasons'],
+  duplicate_of: string | null = null
+): OrderRisk {
+  const score = Math.min(100, reasons.reduce((sum, r) => sum + WEIGHTS[r.code], 0));
+  const level: RiskLevel = score >= policy.high_at ? 'high' : score >= policy.review_at ? 'medium' : 'low';
+  return { score, level, reasons, duplicate_of, scored_at: new Date().toISOString() };
+}
+
+export function riskSummary(risk: OrderRisk): string {
+  return `Risk ${risk.score}/100: ${risk.reasons.map((r) => REASON_TEXT[r.code]).join('; ')}`;
+}
+
+/* -------------------------------- Scoring --------------------------------- */
+
+export type RiskInput = {
+  order_id: string;
+  store: { id: string; seller_id: string };
+  created_at: Date | null;
+  phone: string | null;    // E.164, null when the raw value could not be normalized
+  rawPhone: any;
+  address?: any;
+  city?: any;
+  customer_name?: any;
+};
+
+/** Phones the seller blocked (any of their stores). */
+export async function isPhoneBlocked(trx: any, seller_id: string, phone: string): Promise<boolean> {
+  const row = await trx('public.blocked_phones').where({ seller_id, phone }).first('id');
+  return !!row;
+}
+
+/** Other orders from the same phone around this one, across the seller's stores, with their products. */
+async function recentOrdersFromPhone(trx: any, input: RiskInput, hours: number) {
+  const at = input.created_at ?? new Date();
+  const res = await trx.raw(
+    `SELECT o.id, o.created_at,
+            COALESCE(array_agg(lower(COALESCE(NULLIF(trim(oi.sku), ''), trim(oi.metadata->>'title'))))
+                     FILTER (WHERE oi.id IS NOT NULL), '{}') AS products
+       FROM public.orders o
+       JOIN public.customers c ON c.id = o.customer_id
+       JOIN public.stores s ON s.id = o.store_id
+       LEFT JOIN public.order_items oi ON oi.order_id = o.id
+      WHERE c.phone = ? AND s.seller_id = ? AND o.id <> ?
+        AND o.created_at BETWEEN ?::timestamptz - make_interval(hours => ?) AND ?::timestamptz + make_interval(hours => ?)
+      GROUP BY o.id, o.created_at
+      ORDER BY o.created_at ASC
+      LIMIT 20`,
+    [input.phone, input.store.seller_id, input.order_id, at, hours, at, hours]
+  );
+  return (res?.rows ?? []) as Array<{ id: string; created_at: Date; products: string[] }>;
+}
+
+export async function scoreOrderRisk(trx: any, input: RiskInput, policy: RiskPolicy): Promise<OrderRisk> {
+  const reasons: OrderRisk['reasons'] = [];
+  let duplicate_of: string | null = null;
+
+  if (!String(input.rawPhone ?? '').trim()) reasons.push({ code: 'phone_missing' });
+  else if (!input.phone) reasons.push({ code: 'phone_invalid' });
+  else {
+    if (await isPhoneBlocked(trx, input.store.seller_id, input.phone)) reasons.push({ code: 'phone_blocked' });
+    if (phoneLooksFake(input.phone)) reasons.push({ code: 'phone_unreachable' });
+
+    const others = await recentOrdersFromPhone(trx, input, policy.duplicate_window_hours);
+    if (others.length) {
+      const mine = await trx('public.order_items')
+        .select('sku', trx.raw("metadata->>'title' AS title"))
+        .where({ order_id: input.order_id });
+      const products = new Set(mine.map((i: any) => productKey(i.sku, i.title)).filter(Boolean));
+      const dup = others.find((o) => (o.products || []).some((p) => products.has(p)));
+      if (dup) {
+        duplicate_of = dup.id;
+        reasons.push({ code: 'duplicate_order', detail: dup.id });
+      } else if (others.length >= 2) {
+        reasons.push({ code: 'phone_burst', detail: String(others.length) });
+      }
+    }
+  }
+
+  if (addressLooksFake(input.address, input.city)) reasons.push({ code: 'address_suspicious' });
+  if (nameLooksFake(input.customer_name)) reasons.push({ code: 'name_suspicious' });
+
+  return composeRisk(policy, reasons, duplicate_of);
+}
+
+/** Stored next to (not over) a conversation outcome in decision_result. */
+export async function saveOrderRisk(trx: any, order_id: string, risk: OrderRisk): Promise<void> {
+  await trx('public.orders')
+    .where({ id: order_id })
+    .update({
+      decision_result: trx.raw("COALESCE(decision_result,'{}'::jsonb) || ?::jsonb", [JSON.stringify({ risk })]),
+      ...(risk.level !== 'low' ? { decision_reason: trx.raw('COALESCE(decision_reason, ?)', [riskSummary(risk)]) } : {}),
+    });
+}
+
+/** Level the conversation worker acts on (a cleared order is treated as low). */
+export function orderRiskLevel(order: any): RiskLevel {
+  const risk = order?.decision_result?.risk;
+  if (!risk || risk.cleared) return 'low';
+  return risk.level === 'high' || risk.level === 'medium' ? risk.level : 'low';
+}
@@ -0,0 +1,240 @@
+// src/worker/ingest/runs.ts
+import { randomUUID } from 'node:crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import type { IngestJob, IngestProgress, IngestTrigger } from '../../utils/worker-bus-ingest';
+
+/**
+ * Ingest run history. Every real (non-preview) ingest job has an ingest_runs row — created
+ * when it is queued, or when the worker starts it for scans — holding the source, the
+ * mapping applied, counts, duration and outcome. Rows the run could not apply are kept in
+ * ingest_run_rows with their raw cells so they can be retried.
+ *
+ * History is best effort: a failed write is logged and never fails the ingest itself.
+ */
+
+export type IngestRunStatus = 'queued' | 'running' | 'succeeded' | 'partial' | 'failed' | 'cancelled' | 'skipped';
+
+/** One row that didn't make it: rejected by validation, or its chunk failed to write. */
+export type RunRow = {
+  row_number: number;
+  key?: string | null;
+  reason: 'rejected' | 'failed';
+  errors?: string;
+  raw: Record<string, any>;
+};
+
+const MAX_RUN_ROWS = Number(process.env.INGEST_RUN_MAX_FAILED_ROWS || 5000);
+const SAVE_EVERY_MS = 2000;
+
+export function ingestTrigger(job: IngestJob): IngestTrigger {
+  if (job.trigger) return job.trigger;
+  if (job.retry_of) return 'retry';
+  if (job.source) return job.source.type === 'upload' ? 'upload' : 'url';
+  return 'scan';
+}
+
+function runSource(job: IngestJob) {
+  if (job.retry_of) return { type: 'retry', run_id: job.retry_of };
+  if (job.source?.type === 'upload') return { type: 'upload', name: job.source.originalName ?? null };
+  if (job.source?.type === 'url') return { type: 'url', url: job.source.url };
+  return { type: 'sheet' };
+}
+
+/** Row for a job about to be queued, so the caller has a run id to show and poll. */
+async function createIngestRun(db: any, job: IngestJob): Promise<string> {
+  const [row] = await db('public.ingest_runs')
+    .insert({
+      // seller_id is filled from the store by trigger
+      store_id: job.store_id,
+      trigger: ingestTrigger(job),
+      entity: job.mapping?.entity ?? 'orders',
+      source: JSON.stringify(runSource(job)),
+      retry_of: job.retry_of ?? null,
+      status: 'queued',
+    })
+    .returning('id');
+  return typeof row === 'object' ? row.id : row;
+}
+
+/**
+ * `job` with its queued history row attached (`run_id`). Previews are not recorded; if the
+ * insert fails the worker still records the run when it starts.
+ */
+export async function withQueuedRun(db: any, job: IngestJob, logger: FastifyBaseLogger): Promise<IngestJob> {
+  if (job.mapping?.dryRun || job.mapping?.validateOnly) return job;
+  try {
+    return { ...job, trigger: ingestTrigger(job), run_id: await createIngestRun(db, job) };
+  } catch (e: any) {
+    logger.warn({ store_id: job.store_id, err: String(e?.message || e) }, 'ingest_run_create_failed');
+    return { ...job, trigger: ingestTrigger(job) };
+  }
+}
+
+/** A queued job removed before it started: its run never will. */
+export async function cancelQueuedRun(db: any, run_id: string | undefined) {
+  if (!run_id) return;
+  await db('public.ingest_runs')
+    .where({ id: run_id, status: 'queued' })
+    .update({ status: 'cancelled', finished_at: db.fn.now() })
+    .catch(() => undefined);
+}
+
+/** Failed rows of a run, back in sheet order; `index` is the 0-based data row they came from. */
+export async function loadRunRows(db: any, run_id: string) {
+  const stored = await db('public.ingest_run_rows')
+    .select('row_number', 'raw')
+    .where({ run_id })
+    .orderBy('row_number', 'asc');
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const r of stored) {
+    for (const h of Object.keys(r.raw || {})) {
+      if (!seen.has(h)) {
+        seen.add(h);
+        headers.push(h);
+      }
+    }
+  }
+  return {
+    headers,
+    rows: stored.map((r: any) => ({ raw: (r.raw || {}) as Record<string, any>, index: r.row_number - 2 })),
+  };
+}
+
+export type IngestRunTracker = ReturnType<typeof trackIngestRun>;
+
+/**
+ * Keeps a job's ingest_runs row current while the worker runs it. Scan runs are written
+ * lazily, so a sheet that turns out unchanged leaves no row behind.
+ */
+export function trackIngestRun(db: any, job: IngestJob, jobId: string | undefined, logger: FastifyBaseLogger) {
+  const id = job.run_id || randomUUID();
+  const trigger = ingestTrigger(job);
+  const startedAt = new Date();
+  const counts = { rows_read: 0, rows_written: 0, rows_failed: 0, rows_warned: 0 };
+  const details: { store_sheet_id?: string | null; mapping?: string } = {};
+  let persisted = false;
+  let finished = false;
+  let lastSave = 0;
+  let stored = 0;
+
+  const safely = async (what: string, fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+    } catch (e: any) {
+      logger.warn({ store_id: job.store_id, run_id: id, err: String(e?.message || e) }, `ingest_run_${what}_failed`);
+    }
+  };
+
+  const running = () => ({
+    status: 'running',
+    job_id: jobId ?? null,
+    started_at: startedAt,
+    finished_at: null,
+    error: null,
+    ...counts,
+    ...details,
+  });
+
+  const persist = async () => {
+    if (persisted) return;
+    persisted = true;
+    if (job.run_id) {
+      // Queued row exists; a BullMQ retry of the same job starts it over
+      const n = await db('public.ingest_runs')
+        .where({ id })
+        .update({ ...running(), attempts: db.raw('attempts + 1') });
+      if (n) return;
+    }
+    await db('public.ingest_runs')
+      .insert({
+        id,
+        store_id: job.store_id,
+        trigger,
+        entity: job.mapping?.entity ?? 'orders',
+        source: JSON.stringify(runSource(job)),
+        retry_of: job.retry_of ?? null,
+        attempts: 1,
+        ...running(),
+      })
+      .onConflict('id')
+      .ignore();
+  };
+
+  return {
+    id,
+    trigger,
+
+    async start() {
+      if (trigger !== 'scan') await safely('start', persist);
+    },
+
+    /** Facts known once the source is read (sheet, mapping applied). */
+    set(patch: { store_sheet_id?: string | null; mapping?: Record<string, any>; rows_warned?: number }) {
+      if (patch.store_sheet_id !== undefined) details.store_sheet_id = patch.store_sheet_id;
+      if (patch.mapping) details.mapping = JSON.stringify(patch.mapping);
+      if (patch.rows_warned !== undefined) counts.rows_warned = patch.rows_warned;
+    },
+
+    /** Mirrors the job progress onto the row (throttled unless `force`). */
+    async save(p: IngestProgress, force = false) {
+      counts.rows_read = p.rows_read;
+      counts.rows_written = p.rows_written;
+      counts.rows_failed = p.rows_failed;
+      if (finished || (!force && Date.now() - lastSave < SAVE_EVERY_MS)) return;
+      lastSave = Date.now();
+      await safely('save', async () => {
+        await persist();
+        await db('public.ingest_runs').where({ id }).update({ ...counts, ...details });
+      });
+    },
+
+    /** Keep failed rows for a retry; the first MAX_RUN_ROWS per run are stored. */
+    async recordRows(rows: RunRow[]) {
+      const take = rows.slice(0, Math.max(0, MAX_RUN_ROWS - stored));
+      if (!take.length) return;
+      stored += take.length;
+      await safely('rows', async () => {
+        await persist();
+        await db('public.ingest_run_rows')
+          .insert(
+            take.map((r) => ({
+              run_id: id,
+              row_number: r.row_number,
+              external_key: r.key || null,
+              reason: r.reason,
+              errors: r.errors || null,
+              raw: JSON.stringify(r.raw ?? {}),
+            }))
+          )
+          .onConflict(['run_id', 'row_number'])
+          .merge(['external_key', 'reason', 'errors', 'raw']);
+      });
+    },
+
+    /** Idempotent. Without a status the outcome comes from the counts. */
+    async finish(status?: IngestRunStatus, error?: string) {
+      if (finished) return;
+      finished = true;
+      const final: IngestRunStatus =
+        status ?? (!counts.rows_failed ? 'succeeded' : counts.rows_written ? 'partial' : 'failed');
+      if (final === 'skipped' && !persisted && trigger === 'scan') return;
+
+      const finishedAt = new Date();
+      await safely('finish', async () => {
+        await persist();
+        await db('public.ingest_runs')
+          .where({ id })
+          .update({
+            ...counts,
+            ...details,
+            status: final,
+            error: error ?? null,
+            finished_at: finishedAt,
+            duration_ms: finishedAt.getTime() - startedAt.getTime(),
+          });
+      });
+      logger.info({ store_id: job.store_id, run_id: id, trigger, status: final, error, ...counts }, 'ingest_run_finished');
+    },
+  };
+}
@@ -0,0 +1,176 @@
+// src/worker/ingest/sync.ts
+import { createHash } from 'node:crypto';
+
+/**
+ * Change-aware sheet sync. Each row is fingerprinted by content and remembered per
+ * external key (store_sheet_rows), so a sync only processes rows that are new or were
+ * edited — wherever they moved in the sheet — and notices rows that disappeared.
+ * store_sheets.last_row_hash fingerprints the whole sheet to skip no-op syncs cheaply.
+ */
+
+export type RowChange = 'new' | 'changed' | 'removed';
+
+export type SheetRow = {
+  raw: Record<string, any>;
+  index: number; // 0-based data row index (sheet row = index + 2)
+  key: string;
+  hash: string;
+};
+
+type RowState = { row_hash: string; data: Record<string, any>; removed_at: string | null };
+
+export type SyncPlan = {
+  fingerprint: string;
+  changed: Array<SheetRow & { change: Exclude<RowChange, 'removed'>; fields: Record<string, { before: any; after: any }> }>;
+  removed: Array<{ key: string; row_number: number | null; data: Record<string, any> }>;
+  unchanged: number;
+  unkeyed: SheetRow[]; // no external key → can't be tracked, always processed (validation reports them)
+};
+
+const canon = (v: any) => (v == null ? '' : String(v).replace(/\s+/g, ' ').trim());
+
+/** Content hash of a sheet row; whitespace and column order don't count. */
+export function rowHash(raw: Record<string, any>): string {
+  const entries = Object.keys(raw || {})
+    .filter((k) => k.trim() !== '')
+    .sort()
+    .map((k) => [k, canon(raw[k])]);
+  return createHash('sha1').update(JSON.stringify(entries)).digest('hex');
+}
+
+function diffRaw(before: Record<string, any>, after: Record<string, any>) {
+  const fields: Record<string, { before: any; after: any }> = {};
+  for (const k of new Set([...Object.keys(before || {}), ...Object.keys(after || {})])) {
+    if (canon(before?.[k]) !== canon(after?.[k])) fields[k] = { before: before?.[k] ?? null, after: after?.[k] ?? null };
+  }
+  return fields;
+}
+
+/** Fingerprint of the whole sheet: keys + row hashes, order-insensitive. */
+export function sheetFingerprint(rows: SheetRow[]): string {
+  const parts = rows.map((r) => `${r.key}:${r.hash}`).sort();
+  return createHash('sha1').update(parts.join('\n')).digest('hex');
+}
+
+/**
+ * Compare the sheet's current rows with what the last syncs saw. When a key appears
+ * twice the last occurrence wins, like the upsert itself.
+ */
+export async function planSheetSync(trx: any, store_sheet_id: string, rows: SheetRow[]): Promise<SyncPlan> {
+  const byKey = new Map<string, SheetRow>();
+  const unkeyed: SheetRow[] = [];
+  for (const r of rows) {
+    if (r.key) byKey.set(r.key, r);
+    else unkeyed.push(r);
+  }
+
+  const state = new Map<string, RowState & { row_number: number | null }>();
+  const known = await trx('public.store_sheet_rows')
+    .select('external_key', 'row_hash', 'row_number', 'data', 'removed_at')
+    .where({ store_sheet_id });
+  for (const s of known) state.set(String(s.external_key), s);
+
+  const plan: SyncPlan = { fingerprint: sheetFingerprint(rows), changed: [], removed: [], unchanged: 0, unkeyed };
+  for (const r of byKey.values()) {
+    const prev = state.get(r.key);
+    if (!prev || prev.removed_at) {
+      plan.changed.push({ ...r, change: 'new', fields: {} });
+    } else if (prev.row_hash !== r.hash) {
+      plan.changed.push({ ...r, change: 'changed', fields: diffRaw(prev.data, r.raw) });
+    } else {
+      plan.unchanged++;
+    }
+  }
+  for (const [key, s] of state) {
+    if (!s.removed_at && !byKey.has(key)) plan.removed.push({ key, row_number: s.row_number, data: s.data });
+  }
+  plan.changed.sort((a, b) => a.index - b.index);
+  return plan;
+}
+
+/** Remember the processed rows and log what changed (same transaction as the upserts). */
+export async function recordSyncedRows(
+  trx: any,
+  store_sheet_id: string,
+  run_id: string,
+  rows: SyncPlan['changed']
+): Promise<void> {
+  if (!rows.length) return;
+  await trx('public.store_sheet_rows')
+    .insert(
+      rows.map((r) => ({
+        store_sheet_id,
+        external_key: r.key,
+        row_hash: r.hash,
+        row_number: r.index + 2,
+        data: trx.raw('?::jsonb', [JSON.stringify(r.raw)]),
+        updated_at: trx.fn.now(),
+        removed_at: null,
+      }))
+    )
+    .onConflict(['store_sheet_id', 'external_key'])
+    .merge(['row_hash', 'row_number', 'data', 'updated_at', 'removed_at']);
+
+  await trx('public.store_sheet_row_changes').insert(
+    rows.map((r) => ({
+      store_sheet_id,
+      run_id,
+      external_key: r.key,
+      row_number: r.index + 2,
+      change: r.change,
+      fields: trx.raw('?::jsonb', [JSON.stringify(r.fields)]),
+    }))
+  );
+}
+
+/** Rows gone from the sheet are flagged (orders are kept; sellers often delete delivered rows). */
+export async function recordRemovedRows(
+  trx: any,
+  store_sheet_id: string,
+  run_id: string,
+  removed: SyncPlan['removed']
+): Promise<void> {
+  if (!removed.length) return;
+  const keys = removed.map((r) => r.key);
+  await trx('public.store_sheet_rows')
+    .where({ store_sheet_id })
+    .whereIn('external_key', keys)
+    .update({ removed_at: trx.fn.now(), updated_at: trx.fn.now() });
+  await trx('public.store_sheet_row_changes').insert(
+    removed.map((r) => ({
+      store_sheet_id,
+      run_id,
+      external_key: r.key,
+      row_number: r.row_number,
+      change: 'removed',
+      fields: trx.raw('?::jsonb', [JSON.stringify({})]),
+    }))
+  );
+}
+
+/** Sheets whose sync_frequency_min has elapsed since last_synced_at (or never synced). */
+export async function listDueSheetStores(db: any): Promise<string[]> {
+  return db.transaction(async (trx: any) => {
+    await trx.raw('SET LOCAL search_path = public');
+    const rows = await trx('public.stores as s')
+      .select('s.id as store_id')
+      .join('public.store_sheets as ss', 'ss.store_id', 's.id')
+      .where({ 's.status': 'active', 'ss.enabled': true })
+      .andWhere((qb: any) =>
+        qb
+          .whereNull('ss.last_synced_at')
+          .orWhereRaw(`ss.last_synced_at + make_interval(mins => COALESCE(ss.sync_frequency_min, 5)) <= now()`)
+      )
+      .groupBy('s.id');
+    return rows.map((r: any) => r.store_id);
+  });
+}
+
+/**
+ * A new mapping reads the same cells differently: drop the sheet fingerprint and the row
+ * hashes so the next sync re-applies every row (the remembered row data is kept for diffs).
+ */
+export async function resetSheetSync(trx: any, store_sheet_id: string): Promise<void> {
+  await trx('public.store_sheets').where({ id: store_sheet_id }).update({ last_row_hash: null });
+  await trx('public.store_sheet_rows').where({ store_sheet_id }).update({ row_hash: '', updated_at: trx.fn.now() });
+}
@@ -0,0 +1,43 @@
+// src/worker/landing/csp.ts
+import { createHash } from 'node:crypto';
+import { LANDING_SCRIPT_ALLOWLIST } from '../../utils/flags';
+import { beaconScriptBody, orderFormScript } from './render';
+import { tailwindConfigScript } from './validate';
+
+/**
+ * Content-Security-Policy for a page served at /p/<slug>. Seller HTML is served from the API
+ * origin, so the browser must only run what we put there: the Tailwind runtime and other
+ * allowlisted script hosts, the order form and beacon scripts, and a JSON `tailwind.config`
+ * in the canonical form the sanitizer writes. Inline scripts are allowed by hash, never by
+ * 'unsafe-inline'; forms can only post back to us and <base> is off.
+ */
+
+const INLINE_SCRIPT_RE = /<script>([\s\S]*?)<\/script>/gi;
+
+function scriptHash(body: string): string {
+  return `'sha256-${createHash('sha256').update(body, 'utf8').digest('base64')}'`;
+}
+
+export function landingCsp(html: string, slug: string, variant?: string | null): string {
+  const hashes = new Set([scriptHash(orderFormScript(slug)), scriptHash(beaconScriptBody(slug, variant))]);
+  for (const [, body] of html.matchAll(INLINE_SCRIPT_RE)) {
+    if (tailwindConfigScript(body) === body) hashes.add(scriptHash(body));
+  }
+  const scriptHosts = LANDING_SCRIPT_ALLOWLIST.map((h) => `https://${h}`);
+
+  return [
+    "default-src 'none'",
+    `script-src ${[...scriptHosts, ...hashes].join(' ')}`,
+    "style-src 'unsafe-inline' https:",
+    'img-src https: data:',
+    'font-src https: data:',
+    'media-src https:',
+    "connect-src 'self'",
+    "form-action 'self'",
+    "base-uri 'none'",
+    "frame-ancestors 'none'",
+  ].join('; ');
+}
+
+/** For the not-found page: no scripts at all. */
+export const STATIC_PAGE_CSP = "default-src 'none'; style-src 'unsafe-inline'; base-uri 'none'; frame-ancestors 'none'";
@@ -0,0 +1,337 @@
+// src/worker/landing/experiments.ts
+import { createHash } from 'node:crypto';
+import type { Knex } from 'knex';
+
+import { LandingError, landingProduct, ownHosts, publishLandingPage } from './index';
+import { isHtmlContent, landingFormFrom, renderLandingPage } from './render';
+import { sanitizeLandingHtml } from './validate';
+
+/**
+ * A/B tests on a published page: two or more versions of the page's editor file are rendered
+ * like the page and served side by side. A visitor's variant is a hash of their visitor id,
+ * so it sticks across visits without storing assignments. Views/visitors are counted on the
+ * variant by the beacon; orders carry landing_variant_id. Promoting a variant re-publishes
+ * the page with that version.
+ */
+
+export const MAX_VARIANTS = 4;
+
+/** Below this many visitors on a variant the readout says "keep running". */
+export const MIN_VISITORS_PER_VARIANT = 100;
+
+const LABELS = 'ABCD';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type VariantInput = { version_id: string; weight?: number };
+
+export type ExperimentInput = {
+  seller_id: string;
+  landing_page_id: string;
+  name?: string | null;
+  variants: VariantInput[];
+};
+
+/** Checks the variants and fills in an even split when no weights are given. */
+export function normalizeSplit(
+  variants: VariantInput[]
+): { ok: true; variants: Array<{ version_id: string; weight: number }> } | { ok: false; error: string } {
+  if (!Array.isArray(variants) || variants.length < 2 || variants.length > MAX_VARIANTS) {
+    return { ok: false, error: `choose 2 to ${MAX_VARIANTS} versions` };
+  }
+  if (new Set(variants.map((v) => v.version_id)).size !== variants.length) {
+    return { ok: false, error: 'each version can be used once' };
+  }
+
+  const given = variants.filter((v) => v.weight !== undefined);
+  if (!given.length) {
+    const base = Math.floor(100 / variants.length);
+    // the remainder goes to the control (A)
+    return {
+      ok: true,
+      variants: variants.map((v, i) => ({ version_id: v.version_id, weight: base + (i === 0 ? 100 - base * variants.length : 0) })),
+    };
+  }
+  if (given.length !== variants.length) return { ok: false, error: 'give a weight for every version or none' };
+  for (const v of variants) {
+    if (!Number.isInteger(v.weight) || v.weight! < 1 || v.weight! > 99) return { ok: false, error: 'weights must be 1-99' };
+  }
+  const total = variants.reduce((sum, v) => sum + v.weight!, 0);
+  if (total !== 100) return { ok: false, error: `weights must add up to 100 (got ${total})` };
+  return { ok: true, variants: variants.map((v) => ({ version_id: v.version_id, weight: v.weight! })) };
+}
+
+/** Same visitor + experiment → same variant; the weights split the 0–99 buckets. */
+export function assignVariant<T extends { weight: number }>(experiment_id: string, visitor: string, variants: T[]): T {
+  const bucket = parseInt(createHash('sha256').update(`${experiment_id}:${visitor}`).digest('hex').slice(0, 8), 16) % 100;
+  let edge = 0;
+  for (const v of variants) {
+    edge += v.weight;
+    if (bucket < edge) return v;
+  }
+  return variants[variants.length - 1];
+}
+
+/** Variants of the page's running test (with their served html), control first. */
+export async function runningVariants(db: Knex | any, landing_page_id: string) {
+  return db('public.landing_experiment_variants as v')
+    .join('public.landing_experiments as e', 'e.id', 'v.experiment_id')
+    .where({ 'e.landing_page_id': landing_page_id, 'e.status': 'running' })
+    .orderBy('v.label', 'asc')
+    .select('v.id', 'v.experiment_id', 'v.label', 'v.weight', 'v.html') as Promise<
+    Array<{ id: string; experiment_id: string; label: string; weight: number; html: string }>
+  >;
+}
+
+/**
+ * Beacon counters; ignored unless the variant belongs to the page's running test. Visitors
+ * are unique per experiment (landing_experiment_visitors), not per day like the page's.
+ */
+export async function bumpVariant(db: Knex | any, landing_page_id: string, variant_id: any, visitor: string) {
+  if (!UUID_RE.test(String(variant_id ?? ''))) return;
+  await db.raw(
+    `WITH target AS (
+       SELECT v.id, v.experiment_id
+         FROM public.landing_experiment_variants v
+         JOIN public.landing_experiments e ON e.id = v.experiment_id
+        WHERE v.id = ? AND e.landing_page_id = ? AND e.status = 'running'
+     ), seen AS (
+       INSERT INTO public.landing_experiment_visitors (experiment_id, visitor)
+       SELECT experiment_id, ? FROM target
+       ON CONFLICT (experiment_id, visitor) DO NOTHING
+       RETURNING 1
+     )
+     UPDATE public.landing_experiment_variants v
+        SET views = v.views + 1, visitors = v.visitors + (SELECT count(*) FROM seen)
+       FROM target
+      WHERE v.id = target.id`,
+    [variant_id, landing_page_id, visitor]
+  );
+}
+
+/* ------------------------------- Lifecycle -------------------------------- */
+
+/** Variants are sanitized like a publish from the same base URL (own hosts for form actions). */
+export async function createExperiment(db: Knex, input: ExperimentInput, baseUrl: string) {
+  const split = normalizeSplit(input.variants);
+  if (!split.ok) throw new LandingError('invalid_split', split.error);
+
+  return db.transaction(async (trx: any) => {
+    const page = await trx('public.landing_pages').where({ id: input.landing_page_id, seller_id: input.seller_id }).first();
+    if (!page) throw new LandingError('page_not_found');
+    if (page.status !== 'published') throw new LandingError('page_unpublished', 'Publish the page before testing variants');
+
+    const running = await trx('public.landing_experiments').where({ landing_page_id: page.id, status: 'running' }).first('id');
+    if (running) throw new LandingError('experiment_running', 'This page already has a running A/B test');
+
+    const product = await trx('public.products').where({ id: page.product_id }).first();
+    if (!product) throw new LandingError('product_not_found');
+
+    const versions = await trx('public.editor_file_versions')
+      .where({ file_id: page.file_id })
+      .whereIn('id', split.variants.map((v) => v.version_id))
+      .select('id', 'version', 'content');
+    const byId = new Map(versions.map((v: any) => [v.id, v]));
+
+    const form = landingFormFrom(page.form);
+    const rows = split.variants.map((v, i) => {
+      const version: any = byId.get(v.version_id);
+      if (!version) throw new LandingError('version_not_found', 'Variants must be versions of the published file');
+      if (!isHtmlContent(version.content)) throw new LandingError('unsupported_content', 'Only HTML pages can be published');
+      return {
+        version_id: version.id,
+        label: LABELS[i],
+        weight: v.weight,
+        html: renderLandingPage(sanitizeLandingHtml(version.content, { ownHosts: ownHosts(baseUrl) }).html, {
+          slug: page.slug,
+          title: page.title,
+          form,
+          product: landingProduct(product),
+        }),
+      };
+    });
+
+    const [experiment] = await trx('public.landing_experiments')
+      .insert({
+        landing_page_id: page.id,
+        seller_id: input.seller_id, // re-set from the page by trigger
+        name: input.name?.trim() || null,
+      })
+      .returning('*');
+    await trx('public.landing_experiment_variants').insert(
+      rows.map((r) => ({ ...r, experiment_id: experiment.id, seller_id: input.seller_id }))
+    );
+    return experiment;
+  });
+}
+
+export async function stopExperiment(db: Knex, seller_id: string, experiment_id: string) {
+  const [experiment] = await db('public.landing_experiments')
+    .where({ id: experiment_id, seller_id, status: 'running' })
+    .update({ status: 'stopped', ended_at: db.fn.now() })
+    .returning('*');
+  if (!experiment) throw new LandingError('experiment_not_found');
+  return experiment;
+}
+
+/** Ends the test (running or stopped) and makes the variant's version the live page. */
+export async function promoteVariant(
+  db: Knex,
+  seller_id: string,
+  experiment_id: string,
+  variant_id: string,
+  baseUrl: string
+) {
+  return db.transaction(async (trx: any) => {
+    const experiment = await trx('public.landing_experiments').where({ id: experiment_id, seller_id }).forUpdate().first();
+    if (!experiment) throw new LandingError('experiment_not_found');
+    if (experiment.status === 'promoted') throw new LandingError('experiment_ended', 'A winner was already promoted');
+
+    const variant = await trx('public.landing_experiment_variants').where({ id: variant_id, experiment_id }).first();
+    if (!variant) throw new LandingError('variant_not_found');
+    const page = await trx('public.landing_pages').where({ id: experiment.landing_page_id }).first();
+    if (!page) throw new LandingError('page_not_found');
+
+    await trx('public.landing_experiments')
+      .where({ id: experiment.id })
+      .update({ status: 'promoted', winner_variant_id: variant.id, ended_at: experiment.ended_at ?? trx.fn.now() });
+
+    const published = await publishLandingPage(
+      trx,
+      {
+        seller_id,
+        store_id: page.store_id,
+        product_id: page.product_id,
+        file_id: page.file_id,
+        version_id: variant.version_id,
+        slug: page.slug,
+      },
+      baseUrl
+    );
+    return { ...published, variant: { id: variant.id, label: variant.label } };
+  });
+}
+
+/* --------------------------------- Stats ---------------------------------- */
+
+export type VariantStats = {
+  id: string;
+  label: string;
+  version_id: string;
+  version: number | null;
+  weight: number;
+  views: number;
+  visitors: number;
+  orders: number;
+  confirmed: number;
+  conversion_rate: number;     // orders / visitors
+  confirmed_rate: number;      // confirmed / visitors
+  lift: number | null;         // conversion vs the control, relative
+  p_value: number | null;      // two-proportion z-test vs the control
+  significant: boolean;
+};
+
+export type Readout = {
+  leader: string | null;       // label with the best conversion rate
+  significant: boolean;        // leader beats the control at 95%
+  enough_data: boolean;
+  summary: string;
+};
+
+/** Standard normal CDF (Abramowitz–Stegun erf approximation, |error| < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Two-sided p-value for conversions a/n vs b/m; null when either side has no traffic. */
+export function twoProportionPValue(a: number, n: number, b: number, m: number): number | null {
+  if (n <= 0 || m <= 0) return null;
+  const pooled = (a + b) / (n + m);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n + 1 / m));
+  if (!se) return a / n === b / m ? 1 : 0;
+  const z = (a / n - b / m) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+const ratio = (n: number, d: number) => (d > 0 ? Math.round((n / d) * 10000) / 10000 : 0);
+
+export function readoutFor(variants: VariantStats[]): Readout {
+  const control = variants[0];
+  const enough_data = variants.length > 1 && variants.every((v) => v.visitors >= MIN_VISITORS_PER_VARIANT);
+  const leader = variants.reduce<VariantStats | null>(
+    (best, v) => (v.visitors > 0 && (!best || v.conversion_rate > best.conversion_rate) ? v : best),
+    null
+  );
+  if (!control || !leader) {
+    return { leader: null, significant: false, enough_data, summary: 'No traffic yet.' };
+  }
+
+  const significant = enough_data && leader.id !== control.id && leader.significant;
+  let summary: string;
+  if (!enough_data) {
+    summary = `Keep running: every variant needs at least ${MIN_VISITORS_PER_VARIANT} visitors.`;
+  } else if (leader.id === control.id) {
+    summary = `${control.label} (control) converts best so far; no variant beats it.`;
+  } else if (significant) {
+    summary = `${leader.label} converts ${Math.round((leader.lift ?? 0) * 100)}% better than ${control.label} (95% confidence).`;
+  } else {
+    summary = `${leader.label} leads but the difference is not significant yet (p = ${leader.p_value?.toFixed(3)}).`;
+  }
+  return { leader: leader.label, significant, enough_data, summary };
+}
+
+/** Per-variant counters, orders and significance vs the control (A). */
+export async function experimentStats(db: Knex | any, experiment_id: string) {
+  const res = await db.raw(
+    `SELECT v.id, v.label, v.version_id, ev.version, v.weight, v.views, v.visitors,
+            COALESCE(o.orders, 0)    AS orders,
+            COALESCE(o.confirmed, 0) AS confirmed
+       FROM public.landing_experiment_variants v
+       LEFT JOIN public.editor_file_versions ev ON ev.id = v.version_id
+       LEFT JOIN (
+         SELECT landing_variant_id,
+                COUNT(*)::int AS orders,
+                COUNT(*) FILTER (
+                  WHERE decision_result->>'status' = 'confirmed' OR status IN ('processing', 'completed')
+                )::int AS confirmed
+           FROM public.orders
+          WHERE landing_variant_id IS NOT NULL
+          GROUP BY landing_variant_id
+       ) o ON o.landing_variant_id = v.id
+      WHERE v.experiment_id = ?
+      ORDER BY v.label ASC`,
+    [experiment_id]
+  );
+  const rows: any[] = res?.rows ?? [];
+
+  const base = rows.map((r) => {
+    const visitors = Number(r.visitors) || 0;
+    const orders = Number(r.orders) || 0;
+    return {
+      id: r.id,
+      label: r.label,
+      version_id: r.version_id,
+      version: r.version != null ? Number(r.version) : null,
+      weight: Number(r.weight),
+      views: Number(r.views) || 0,
+      visitors,
+      orders,
+      confirmed: Number(r.confirmed) || 0,
+      conversion_rate: ratio(orders, visitors),
+      confirmed_rate: ratio(Number(r.confirmed) || 0, visitors),
+    };
+  });
+
+  const control = base[0];
+  const variants: VariantStats[] = base.map((v, i) => {
+    if (i === 0 || !control) return { ...v, lift: null, p_value: null, significant: false };
+    const p_value = twoProportionPValue(v.orders, v.visitors, control.orders, control.visitors);
+    const lift = control.conversion_rate > 0 ? ratio(v.conversion_rate - control.conversion_rate, control.conversion_rate) : null;
+    return { ...v, lift, p_value: p_value != null ? Math.round(p_value * 10000) / 10000 : null, significant: p_value != null && p_value < 0.05 };
+  });
+
+  return { variants, readout: readoutFor(variants) };
+}
@@ -0,0 +1,277 @@
+// src/worker/landing/index.ts
+import { randomBytes } from 'node:crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import type { Knex } from 'knex';
+
+import { addConvoJob } from '../../utils/worker-bus-conversation';
+import { toE164 } from '../../utils/ingest-normalize';
+import { orderWriteContext, upsertIngestedOrder } from '../ingest';
+import {
+  isHtmlContent,
+  isValidSlug,
+  landingFormFrom,
+  renderLandingPage,
+  slugify,
+  type LandingForm,
+  type LandingProduct,
+} from './render';
+import { sanitizeLandingHtml } from './validate';
+
+/**
+ * Hosted landing pages: a seller publishes one editor_files version of a studio page for a
+ * product; it is rendered once (order form injected) and served at /p/<slug>. Buyers order
+ * through the form; orders go through the same upsert as ingest and connectors (customer,
+ * line item, risk score) and get their WhatsApp confirmation queued right away.
+ */
+
+export { isValidSlug, normalizeLandingForm, withBeacon, type LandingForm } from './render';
+export { sanitizeLandingHtml, type LandingReport } from './validate';
+export { STATIC_PAGE_CSP, landingCsp } from './csp';
+
+export class LandingError extends Error {
+  code: string;
+  constructor(code: string, message?: string) {
+    super(message || code);
+    this.code = code;
+  }
+}
+
+export function landingPageUrl(base: string, slug: string) {
+  return `${base.replace(/\/+$/, '')}/p/${slug}`;
+}
+
+/** Form actions to the host pages are served from are not "foreign". */
+export function ownHosts(baseUrl?: string | null): string[] {
+  try {
+    return baseUrl ? [new URL(baseUrl).hostname.toLowerCase()] : [];
+  } catch {
+    return [];
+  }
+}
+
+/** What the order form shows about the product (products row → render input). */
+export function landingProduct(product: any): LandingProduct {
+  return {
+    title: product.title,
+    price: product.price != null ? Number(product.price) : null,
+    currency: product.currency ?? null,
+  };
+}
+
+/* -------------------------------- Publish --------------------------------- */
+
+export type PublishInput = {
+  seller_id: string;
+  store_id: string;
+  product_id: string;
+  file_id: string;
+  version_id?: string | null; // latest version when omitted
+  slug?: string | null;       // kept from an earlier publish of the file, else from the product title
+  title?: string | null;
+  form?: Partial<LandingForm>;
+};
+
+async function freeSlug(trx: any, wanted: string): Promise<string> {
+  const slugged = slugify(wanted);
+  const base = slugged.length >= 3 ? slugged : 'page';
+  for (let i = 0; i < 5; i++) {
+    const slug = i === 0 ? base : `${base.slice(0, 40).replace(/-+$/, '')}-${randomBytes(3).toString('hex')}`;
+    const taken = await trx('public.landing_pages').where({ slug }).first('id');
+    if (!taken) return slug;
+  }
+  throw new LandingError('slug_taken');
+}
+
+/**
+ * Render the version and make it live. Re-publishing a file updates its page in place (same
+ * slug unless a new one is given); the product's landing_url points at the hosted page.
+ * The version is sanitized first; the report says what was removed or is missing.
+ */
+export async function publishLandingPage(db: Knex, input: PublishInput, baseUrl: string) {
+  return db.transaction(async (trx: any) => {
+    const file = await trx('public.editor_files').where({ id: input.file_id, seller_id: input.seller_id }).first();
+    if (!file) throw new LandingError('file_not_found');
+
+    const version = input.version_id
+      ? await trx('public.editor_file_versions').where({ id: input.version_id, file_id: file.id }).first()
+      : await trx('public.editor_file_versions').where({ file_id: file.id }).orderBy('version', 'desc').first();
+    if (!version) throw new LandingError('version_not_found');
+    if (!isHtmlContent(version.content)) throw new LandingError('unsupported_content', 'Only HTML pages can be published');
+
+    const store = await trx('public.stores').where({ id: input.store_id, seller_id: input.seller_id }).first();
+    if (!store) throw new LandingError('store_not_found');
+    const product = await trx('public.products').where({ id: input.product_id, store_id: store.id }).first();
+    if (!product) throw new LandingError('product_not_found');
+
+    const existing = await trx('public.landing_pages').where({ file_id: file.id, store_id: store.id }).first();
+    if (existing) {
+      // visitors would keep getting the test variants instead of this version
+      const running = await trx('public.landing_experiments')
+        .where({ landing_page_id: existing.id, status: 'running' })
+        .first('id');
+      if (running) throw new LandingError('experiment_running', 'Stop or promote the running A/B test first');
+    }
+
+    let slug: string;
+    if (input.slug) {
+      if (!isValidSlug(input.slug)) throw new LandingError('invalid_slug');
+      const taken = await trx('public.landing_pages').where({ slug: input.slug }).first('id');
+      if (taken && taken.id !== existing?.id) throw new LandingError('slug_taken');
+      slug = input.slug;
+    } else {
+      slug = existing?.slug ?? (await freeSlug(trx, product.title));
+    }
+
+    const form = landingFormFrom({ ...(existing?.form ?? {}), ...(input.form ?? {}) });
+    const title = input.title?.trim() || existing?.title || product.title;
+    const { html: safe, report } = sanitizeLandingHtml(version.content, { ownHosts: ownHosts(baseUrl) });
+    const html = renderLandingPage(safe, {
+      slug,
+      title,
+      form,
+      product: landingProduct(product),
+    });
+
+    const row = {
+      store_id: store.id,
+      seller_id: input.seller_id, // re-set from the store by trigger
+      product_id: product.id,
+      file_id: file.id,
+      version_id: version.id,
+      slug,
+      title,
+      status: 'published',
+      html,
+      form: JSON.stringify(form),
+      published_at: trx.fn.now(),
+    };
+    const [page] = existing
+      ? await trx('public.landing_pages').where({ id: existing.id }).update(row).returning('*')
+      : await trx('public.landing_pages').insert(row).returning('*');
+
+    const landing_url = landingPageUrl(baseUrl, slug);
+    await trx('public.product_pages')
+      .insert({ product_id: product.id, landing_url, html_snapshot: html, fetch_status: 'published', last_fetched_at: trx.fn.now() })
+      .onConflict('product_id')
+      .merge(['landing_url', 'html_snapshot', 'fetch_status', 'last_fetched_at']);
+
+    return { page, url: landing_url, version: version.version as number, report };
+  });
+}
+
+/* ------------------------------ Buyer orders ------------------------------ */
+
+export type LandingOrderInput = {
+  name?: any;
+  phone?: any;
+  city?: any;
+  address?: any;
+  quantity?: any;
+  notes?: any;
+  variant?: any; // A/B variant the buyer was served (hidden field)
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const clean = (v: any, max: number) => String(v ?? '').replace(/\s+/g, ' ').trim().slice(0, max);
+
+/** Buyer-facing checks; messages are shown under the form. */
+function checkOrderInput(input: LandingOrderInput, form: LandingForm, countryCode: string) {
+  const name = clean(input.name, 120);
+  if (name.length < 2) throw new LandingError('invalid_name', 'Please enter your name');
+  const phone = toE164(input.phone, countryCode);
+  if (!phone) throw new LandingError('invalid_phone', 'Please enter a valid phone number');
+  const address = clean(input.address, 300);
+  if (address.length < 4) throw new LandingError('invalid_address', 'Please enter your delivery address');
+  const quantity = Number(input.quantity ?? 1);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > form.max_quantity) {
+    throw new LandingError('invalid_quantity', `Quantity must be between 1 and ${form.max_quantity}`);
+  }
+  return {
+    name,
+    phone,
+    address,
+    quantity,
+    city: form.ask_city ? clean(input.city, 80) || null : null,
+    notes: form.ask_notes ? clean(input.notes, 500) || null : null,
+  };
+}
+
+/** COD order from a published page; the price always comes from the product, never the form. */
+export async function createLandingOrder(
+  db: Knex,
+  slug: string,
+  input: LandingOrderInput,
+  log: FastifyBaseLogger
+): Promise<{ order_id: string; reference: string; conversation_queued: boolean }> {
+  const { order_id, reference, store, page_id } = await db.transaction(async (trx: any) => {
+    await trx.raw('SET LOCAL search_path = public');
+    const page = await trx('public.landing_pages').where({ slug, status: 'published' }).first();
+    if (!page) throw new LandingError('page_not_found');
+
+    const store = await trx('public.stores').where({ id: page.store_id }).first();
+    const product = await trx('public.products').where({ id: page.product_id, store_id: page.store_id }).first();
+    if (!store || !product) throw new LandingError('page_not_found');
+
+    const ctx = await orderWriteContext(trx, store, log);
+    if (!ctx) throw new LandingError('orders_unavailable');
+
+    const o = checkOrderInput(input, landingFormFrom(page.form), ctx.countryCode);
+    const reference = `LP-${randomBytes(5).toString('hex').toUpperCase()}`;
+    const price = product.price != null ? Number(product.price) : null;
+    const rec = {
+      source: 'landing',
+      landing_page: page.slug,
+      order_id: reference,
+      status: 'new',
+      total_amount: price != null ? Math.round(price * o.quantity * 100) / 100 : null,
+      currency: product.currency ?? null,
+      customer_name: o.name,
+      customer_phone: o.phone,
+      address: o.address,
+      city: o.city,
+      payment_method: 'cod',
+      note: o.notes,
+      product: `${o.quantity}x ${product.title}`,
+    };
+
+    const id = await upsertIngestedOrder(
+      trx,
+      ctx,
+      {
+        key: reference,
+        raw: rec,
+        rec,
+        phone: o.phone,
+        items: [{ name: product.title, quantity: o.quantity, sku: product.sku ?? null, price }],
+      },
+      log
+    );
+    if (!id) throw new LandingError('orders_unavailable');
+
+    // attribution for the landing funnel (views → orders → confirmed) and a running A/B test
+    const variant = UUID_RE.test(String(input.variant ?? ''))
+      ? await trx('public.landing_experiment_variants as v')
+          .join('public.landing_experiments as e', 'e.id', 'v.experiment_id')
+          .where({ 'v.id': input.variant, 'e.landing_page_id': page.id, 'e.status': 'running' })
+          .first('v.id')
+      : null;
+    await trx('public.orders').where({ id }).update({ landing_page_id: page.id, landing_variant_id: variant?.id ?? null });
+    await trx('public.landing_pages').where({ id: page.id }).increment('orders_count', 1);
+    return { order_id: id, reference, store, page_id: page.id };
+  });
+
+  let conversation_queued = false;
+  if (store.status === 'active') {
+    try {
+      await addConvoJob({ kind: 'init', order_id, store_id: store.id });
+      conversation_queued = true;
+    } catch (e: any) {
+      // the conversation scan picks up new orders anyway
+      log.warn({ store_id: store.id, order_id, err: e?.message || String(e) }, 'landing_convo_enqueue_failed');
+    }
+  }
+
+  log.info({ store_id: store.id, landing_page_id: page_id, order_id, conversation_queued }, 'landing_order_created');
+  return { order_id, reference, conversation_queued };
+}
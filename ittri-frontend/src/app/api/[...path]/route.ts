@@ -18,6 +18,15 @@ function pickAccessToken(req: NextRequest): string | null {
   return null;
 }
 
+function wantsEventStream(req: NextRequest): boolean {
+  return (req.headers.get("accept") || "").toLowerCase().includes("text/event-stream");
+}
+
+function isEventStream(upstream: Response): boolean {
+  const ct = (upstream.headers.get("content-type") || "").toLowerCase();
+  return ct.includes("text/event-stream") || ct.includes("application/x-ndjson");
+}
+
 function filteredResponseHeaders(upstream: Response): Headers {
   const filtered = new Headers();
   const exclude = new Set([
@@ -51,10 +60,12 @@ async function proxyRequest(
   
   const ctrl = new AbortController();
   const timeout = setTimeout(() => ctrl.abort("upstream_timeout"), PROXY_TIMEOUT_MS);
+  // client went away (e.g. cancelled generation): cancel upstream too
+  req.signal?.addEventListener("abort", () => ctrl.abort("client_abort"), { once: true });
   
   try {
     const headers = new Headers();
-    headers.set("accept", "application/json");
+    headers.set("accept", wantsEventStream(req) ? "text/event-stream" : "application/json");
     headers.set("content-type", "application/json");
     
     if (bearer) {
@@ -77,13 +88,19 @@ async function proxyRequest(
     }
     
     const upstream = await fetch(fullUrl, init);
-    const responseBody = await upstream.arrayBuffer();
     
     const headersOut = filteredResponseHeaders(upstream);
     const setCookie = upstream.headers.get("set-cookie");
     if (setCookie) {
       headersOut.append("set-cookie", setCookie);
     }
+
+    // token streams are passed through as they arrive; the timeout only covers the headers
+    if (upstream.body && isEventStream(upstream)) {
+      return new NextResponse(upstream.body, { status: upstream.status, headers: headersOut });
+    }
+
+    const responseBody = await upstream.arrayBuffer();
     
     return new NextResponse(responseBody, {
       status: upstream.status,
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { makeWriteProxyHandler, OPTIONS, HEAD, BACKEND_BASE } from "@/app/api/_proxy/shared";
+export { OPTIONS, HEAD };
+
+const ACTIONS = new Set(["takeover", "handback", "messages"]);
+
+/** POST /api/dashboard/conversations/:id/(takeover|handback|messages) → backend /api/v1/conversations/:id/... */
+export const POST = async (req: Request, ctx: { params: { id: string; action: string } }) => {
+  if (!ACTIONS.has(ctx.params.action)) {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+  const id = encodeURIComponent(ctx.params.id);
+  const handler = makeWriteProxyHandler({
+    method: "POST",
+    routeName: `dashboard-conversation-${ctx.params.action}`,
+    candidates: [
+      `${BACKEND_BASE}/api/v1/conversations/${id}/${ctx.params.action}`,
+    ],
+  });
+  // @ts-ignore - NextRequest compatible
+  return handler(req as any);
+};
@@ -0,0 +1,13 @@
+import { makeWriteProxyHandler, OPTIONS, HEAD, BACKEND_BASE } from "@/app/api/_proxy/shared";
+export { OPTIONS, HEAD };
+
+/** POST /api/dashboard/ingestion/runs/:runId/retry → replay the run's failed rows */
+export const POST = async (req: Request, ctx: { params: { runId: string } }) => {
+  const handler = makeWriteProxyHandler({
+    method: "POST",
+    routeName: "dashboard-ingestion-run-retry",
+    candidates: [`${BACKEND_BASE}/api/v1/ingestion/runs/${encodeURIComponent(ctx.params.runId)}/retry`],
+  });
+  // @ts-ignore - NextRequest compatible
+  return handler(req as any);
+};
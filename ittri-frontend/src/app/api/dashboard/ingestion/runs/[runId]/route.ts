@@ -0,0 +1,12 @@
+import { makeGETProxyHandler, OPTIONS, HEAD, BACKEND_BASE } from "@/app/api/_proxy/shared";
+export { OPTIONS, HEAD };
+
+/** GET /api/dashboard/ingestion/runs/:runId → one ingest run with its failed rows */
+export const GET = async (req: Request, ctx: { params: { runId: string } }) => {
+  const handler = makeGETProxyHandler({
+    routeName: "dashboard-ingestion-run",
+    candidates: [{ url: `${BACKEND_BASE}/api/v1/ingestion/runs/${encodeURIComponent(ctx.params.runId)}`, withQS: false }],
+  });
+  // @ts-ignore - NextRequest compatible
+  return handler(req as any);
+};
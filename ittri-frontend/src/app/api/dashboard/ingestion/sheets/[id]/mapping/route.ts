@@ -0,0 +1,25 @@
+import { makeGETProxyHandler, makeWriteProxyHandler, OPTIONS, HEAD, BACKEND_BASE } from "@/app/api/_proxy/shared";
+export { OPTIONS, HEAD };
+
+const upstream = (id: string) => `${BACKEND_BASE}/api/v1/ingestion/sheets/${encodeURIComponent(id)}/mapping`;
+
+/** GET /api/dashboard/ingestion/sheets/:id/mapping → mapping review (keeps ?entity=&template=) */
+export const GET = async (req: Request, ctx: { params: { id: string } }) => {
+  const handler = makeGETProxyHandler({
+    routeName: "dashboard-ingestion-mapping-review",
+    candidates: [{ url: upstream(ctx.params.id), withQS: true }],
+  });
+  // @ts-ignore - NextRequest compatible
+  return handler(req as any);
+};
+
+/** POST /api/dashboard/ingestion/sheets/:id/mapping → lock the reviewed mapping */
+export const POST = async (req: Request, ctx: { params: { id: string } }) => {
+  const handler = makeWriteProxyHandler({
+    method: "POST",
+    routeName: "dashboard-ingestion-mapping-save",
+    candidates: [upstream(ctx.params.id)],
+  });
+  // @ts-ignore - NextRequest compatible
+  return handler(req as any);
+};
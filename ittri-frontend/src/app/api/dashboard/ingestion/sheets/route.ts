@@ -0,0 +1,8 @@
+import { makeGETProxyHandler, OPTIONS, HEAD, BACKEND_BASE } from "@/app/api/_proxy/shared";
+export { OPTIONS, HEAD };
+
+/** GET /api/dashboard/ingestion/sheets → backend /api/v1/ingestion/sheets */
+export const GET = makeGETProxyHandler({
+  routeName: "dashboard-ingestion-sheets",
+  candidates: [{ url: `${BACKEND_BASE}/api/v1/ingestion/sheets` }],
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { makeGETProxyHandler, makeWriteProxyHandler, OPTIONS, HEAD, BACKEND_BASE } from "@/app/api/_proxy/shared";
+export { OPTIONS, HEAD };
+
+const ACTIONS = new Set(["preview", "commit"]);
+const GET_ACTIONS = new Set(["runs"]);
+
+/** GET /api/dashboard/ingestion/stores/:id/runs → ingest run history (keeps ?limit=&before=) */
+export const GET = async (req: Request, ctx: { params: { id: string; action: string } }) => {
+  if (!GET_ACTIONS.has(ctx.params.action)) {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+  const id = encodeURIComponent(ctx.params.id);
+  const handler = makeGETProxyHandler({
+    routeName: `dashboard-ingestion-${ctx.params.action}`,
+    candidates: [{ url: `${BACKEND_BASE}/api/v1/ingestion/stores/${id}/${ctx.params.action}`, withQS: true }],
+  });
+  // @ts-ignore - NextRequest compatible
+  return handler(req as any);
+};
+
+/** POST /api/dashboard/ingestion/stores/:id/(preview|commit) → backend /api/v1/ingestion/stores/:id/... */
+export const POST = async (req: Request, ctx: { params: { id: string; action: string } }) => {
+  if (!ACTIONS.has(ctx.params.action)) {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+  const id = encodeURIComponent(ctx.params.id);
+  const handler = makeWriteProxyHandler({
+    method: "POST",
+    routeName: `dashboard-ingestion-${ctx.params.action}`,
+    candidates: [
+      `${BACKEND_BASE}/api/v1/ingestion/stores/${id}/${ctx.params.action}`,
+    ],
+  });
+  // @ts-ignore - NextRequest compatible
+  return handler(req as any);
+};
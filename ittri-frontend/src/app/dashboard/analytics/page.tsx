@@ -19,6 +19,23 @@ type BackendDashboard = {
     revenue_7d: number;
   };
   recent_orders?: Array<{ id: string; created_at: string }>;
+  landing?: LandingOverview;
+};
+
+type LandingFunnel = {
+  views: number;
+  visitors: number;
+  form_starts: number;
+  form_submits: number;
+  orders: number;
+  confirmed: number;
+  view_to_order: number;
+  order_to_confirmed: number;
+};
+
+type LandingOverview = {
+  totals: LandingFunnel;
+  funnels: Array<LandingFunnel & { product_id: string; title: string | null }>;
 };
 
 type MetricOverview = {
@@ -27,6 +44,7 @@ type MetricOverview = {
     totals?: { revenue?: number; orders?: number };
     series?: Array<{ date: string; orders?: number; revenue?: number }>;
     by_store?: Array<any>;
+    landing?: LandingOverview;
   };
 };
 
@@ -71,9 +89,21 @@ function normalizeToDashboardShape(anyRaw: any): BackendDashboard {
       revenue_7d,
     },
     recent_orders,
+    landing: m?.data?.landing,
   };
 }
 
+const pct = (r: number) => `${(Number(r || 0) * 100).toFixed(1)}%`;
+
+const FUNNEL_COLUMNS: Array<{ key: keyof LandingFunnel; label: string }> = [
+  { key: 'views', label: 'Views' },
+  { key: 'visitors', label: 'Visitors' },
+  { key: 'form_starts', label: 'Form starts' },
+  { key: 'form_submits', label: 'Submits' },
+  { key: 'orders', label: 'Orders' },
+  { key: 'confirmed', label: 'Confirmed' },
+];
+
 /* ================= Page ================= */
 export default function AnalyticsPage() {
   const [raw, setRaw] = useState<BackendDashboard | null>(null);
@@ -234,6 +264,59 @@ export default function AnalyticsPage() {
             </CardContent>
           </Card>
 
+          {/* Landing page funnel */}
+          {raw.landing && (
+            <Card className="rounded-2xl shadow-sm">
+              <CardContent className="p-6">
+                <div className="mb-4 text-sm text-gray-500">Landing page funnel ({period})</div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                          Product
+                        </th>
+                        {FUNNEL_COLUMNS.map((c) => (
+                          <th key={c.key} className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                            {c.label}
+                          </th>
+                        ))}
+                        <th className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                          Visitor → order
+                        </th>
+                        <th className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                          Order → confirmed
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {[
+                        ...raw.landing.funnels.map((f) => ({ id: f.product_id, name: f.title || 'Untitled product', f })),
+                        ...(raw.landing.funnels.length > 1 ? [{ id: 'total', name: 'All pages', f: raw.landing.totals }] : []),
+                      ].map(({ id, name, f }) => (
+                        <tr key={id} className={id === 'total' ? 'font-medium' : undefined}>
+                          <td className="px-4 py-2">{name}</td>
+                          {FUNNEL_COLUMNS.map((c) => (
+                            <td key={c.key} className="px-4 py-2 text-right">{Number(f[c.key] || 0).toLocaleString()}</td>
+                          ))}
+                          <td className="px-4 py-2 text-right">{pct(f.view_to_order)}</td>
+                          <td className="px-4 py-2 text-right">{pct(f.order_to_confirmed)}</td>
+                        </tr>
+                      ))}
+                      {raw.landing.funnels.length === 0 ? (
+                        <tr>
+                          <td className="px-4 py-3 text-gray-500" colSpan={FUNNEL_COLUMNS.length + 3}>
+                            No landing page traffic for this period. Publish a page from the landing studio to start tracking.
+                          </td>
+                        </tr>
+                      ) : null}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Orders by status */}
           <Card className="rounded-2xl shadow-sm">
             <CardContent className="p-6">
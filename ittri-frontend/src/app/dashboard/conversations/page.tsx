@@ -1,11 +1,27 @@
 'use client'
 import { useState, useEffect } from 'react'
 import { useUserStore, useUIStore } from '@/stores'
-import type { Conversation } from '@/types'
+import type { Conversation, ConversationControl, MessageDeliveryStatus } from '@/types'
 import { Card, CardContent } from '@/components/ui/card'
 import { ConversationList } from '@/components/features/conversations/conversation-list'
 import { ConversationView } from '@/components/features/conversations/conversation-view'
 
+// metadata.control as the backend stores it (takeover/handback)
+type ApiControl = { mode?: 'agent' | 'ai'; agent_id?: string | null; since?: string | null }
+
+type ActionResult = {
+  ok?: boolean
+  error?: string
+  control?: ApiControl
+  message?: { id?: string; delivery_status?: MessageDeliveryStatus | null; created_at?: string }
+}
+
+function mapControl(raw: ApiControl | null | undefined): ConversationControl {
+  return raw?.mode === 'agent'
+    ? { mode: 'agent', agentId: raw.agent_id ?? null, since: raw.since ? new Date(raw.since) : null }
+    : { mode: 'ai', agentId: null, since: raw?.since ? new Date(raw.since) : null }
+}
+
 export default function ConversationsPage() {
   const { currentStore } = useUserStore()
   const { addNotification } = useUIStore()
@@ -33,6 +49,7 @@ export default function ConversationsPage() {
           customerId: c.customer_id ?? 'unknown',
           origin: c.origin,
           status: c.status,
+          control: mapControl(c.metadata?.control),
           customer: c.customer
             ? {
                 id: c.customer.id ?? '',
@@ -47,6 +64,8 @@ export default function ConversationsPage() {
             conversationId: c.id,
             role: m.role ?? (m.direction === 'in' ? 'user' : 'assistant'),
             content: m.content ?? m.text ?? '',
+            deliveryStatus: m.delivery_status ?? null,
+            deliveryError: m.delivery_error ?? null,
             createdAt: new Date(m.created_at),
           })),
           createdAt: new Date(c.created_at),
@@ -64,13 +83,64 @@ export default function ConversationsPage() {
     fetchConversations()
   }, [currentStore, addNotification])
 
-  const handleSendMessage = (content: string) => {
-    if (!activeConversation) return
-    addNotification({ title: 'Message Sent', description: 'Your message has been sent to the customer', type: 'success' })
-    const newMessage = { id: `message-${Date.now()}`, conversationId: activeConversation.id, role: 'assistant' as const, content, createdAt: new Date() }
-    const updated = { ...activeConversation, messages: [...activeConversation.messages, newMessage], updatedAt: new Date() }
+  const replaceConversation = (updated: Conversation) => {
     setActiveConversation(updated)
-    setConversations(conversations.map(c => c.id === updated.id ? updated : c))
+    setConversations(prev => prev.map(c => c.id === updated.id ? updated : c))
+  }
+
+  const postAction = async (
+    id: string,
+    action: 'takeover' | 'handback' | 'messages',
+    body: { text?: string } = {},
+  ): Promise<ActionResult> => {
+    const res = await fetch(`/api/dashboard/conversations/${encodeURIComponent(id)}/${action}`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const json: ActionResult = await res.json().catch(() => ({}))
+    if (!res.ok || json?.ok === false) throw new Error(json?.error || `${action}_failed`)
+    return json
+  }
+
+  const handleSetControl = async (mode: 'agent' | 'ai') => {
+    if (!activeConversation) return
+    try {
+      const json = await postAction(activeConversation.id, mode === 'agent' ? 'takeover' : 'handback')
+      replaceConversation({ ...activeConversation, control: mapControl(json.control), updatedAt: new Date() })
+      addNotification({
+        title: mode === 'agent' ? 'You are in control' : 'Handed back to AI',
+        description: mode === 'agent' ? 'The AI is paused for this conversation' : 'The AI will answer the next customer message',
+        type: 'success',
+      })
+    } catch {
+      addNotification({ title: 'Error', description: 'Failed to change conversation control', type: 'error' })
+    }
+  }
+
+  const handleSendMessage = async (content: string) => {
+    if (!activeConversation) return
+    try {
+      const json = await postAction(activeConversation.id, 'messages', { text: content })
+      const m = json.message ?? {}
+      const newMessage = {
+        id: m.id ?? `message-${Date.now()}`,
+        conversationId: activeConversation.id,
+        role: 'agent' as const,
+        content,
+        deliveryStatus: m.delivery_status ?? null,
+        createdAt: new Date(m.created_at ?? Date.now()),
+      }
+      replaceConversation({ ...activeConversation, messages: [...activeConversation.messages, newMessage], updatedAt: new Date() })
+      addNotification({ title: 'Message Sent', description: 'Your message has been sent to the customer', type: 'success' })
+    } catch (e) {
+      const description =
+        e instanceof Error && e.message === 'session_window_closed'
+          ? 'The customer has not written in the last 24h; WhatsApp only allows templates'
+          : 'Failed to send the message'
+      addNotification({ title: 'Error', description, type: 'error' })
+    }
   }
 
   if (!currentStore) return <div className="text-center py-12"><h3 className="text-lg font-semibold">No store selected</h3><p className="text-muted-foreground">Please select a store to view conversations</p></div>
@@ -100,7 +170,11 @@ export default function ConversationsPage() {
         <Card className="lg:col-span-2">
           <CardContent className="p-0 h-full">
             {activeConversation ? (
-              <ConversationView conversation={activeConversation} onSendMessage={handleSendMessage} />
+              <ConversationView
+                conversation={activeConversation}
+                onSendMessage={handleSendMessage}
+                onSetControl={handleSetControl}
+              />
             ) : (
               <div className="flex items-center justify-center h-full">
                 <div className="text-center">
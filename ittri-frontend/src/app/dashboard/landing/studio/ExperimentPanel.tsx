@@ -0,0 +1,189 @@
+"use client";
+
+import * as EditorAPI from "@/lib/editor-api";
+import * as LandingAPI from "@/lib/landing-api";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { FlaskConical, Loader2, Trophy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type Props = {
+  page: LandingAPI.LandingPage;
+  onPromoted: (page: LandingAPI.LandingPage) => void;
+};
+
+const MAX_VARIANTS = 4;
+const pct = (r: number | null) => (r == null ? "—" : `${(r * 100).toFixed(1)}%`);
+
+/** A/B test of saved versions of the published file: start, watch, stop or promote the winner. */
+export default function ExperimentPanel({ page, onPromoted }: Props) {
+  const { toast } = useToast();
+  const [experiments, setExperiments] = useState<LandingAPI.Experiment[]>([]);
+  const [versions, setVersions] = useState<EditorAPI.EditorVersion[]>([]);
+  // version id → weight ("" = even split)
+  const [picked, setPicked] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [xs, vs] = await Promise.all([LandingAPI.listExperiments(page.id), EditorAPI.listVersions(page.file_id)]);
+      setExperiments(xs);
+      setVersions(vs.slice(0, 20));
+    } catch {
+      /* panel stays empty; publishing still works */
+    }
+  }, [page.id, page.file_id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const current = experiments[0];
+  const running = current?.status === "running" ? current : null;
+
+  function toggle(id: string) {
+    setPicked((p) => {
+      const next = { ...p };
+      if (id in next) delete next[id];
+      else if (Object.keys(next).length < MAX_VARIANTS) next[id] = "";
+      return next;
+    });
+  }
+
+  async function start() {
+    const ids = Object.keys(picked);
+    const weighted = ids.some((id) => picked[id].trim());
+    setBusy(true);
+    try {
+      // the live version first, so it is the control (A)
+      const ordered = [...ids].sort((a, b) => (a === page.version_id ? -1 : b === page.version_id ? 1 : 0));
+      await LandingAPI.startExperiment(page.id, {
+        variants: ordered.map((id) => ({ version_id: id, weight: weighted ? Number(picked[id] || 0) : undefined })),
+      });
+      setPicked({});
+      toast({ title: "A/B test started", description: "Visitors now see one variant each, sticky per browser." });
+      await load();
+    } catch (e) {
+      toast({ title: "Could not start the test", description: String((e as Error)?.message || e), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function stop(id: string) {
+    setBusy(true);
+    try {
+      await LandingAPI.stopExperiment(id);
+      await load();
+    } catch (e) {
+      toast({ title: "Could not stop the test", description: String((e as Error)?.message || e), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function promote(id: string, variant: LandingAPI.VariantStats) {
+    setBusy(true);
+    try {
+      const res = await LandingAPI.promoteVariant(id, variant.id);
+      onPromoted(res.page);
+      toast({ title: `Variant ${variant.label} is live`, description: res.url });
+      await load();
+    } catch (e) {
+      toast({ title: "Promote failed", description: String((e as Error)?.message || e), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <FlaskConical className="h-4 w-4" /> A/B test
+        {current && <Badge variant={running ? "success" : "secondary"} className="ml-auto">{current.status}</Badge>}
+      </div>
+
+      {current && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="py-1 text-left">Variant</th>
+                  <th className="py-1 text-right">Split</th>
+                  <th className="py-1 text-right">Visitors</th>
+                  <th className="py-1 text-right">Orders</th>
+                  <th className="py-1 text-right">Confirmed</th>
+                  <th className="py-1 text-right">Conv.</th>
+                  <th className="py-1 text-right">Lift</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {current.variants.map((v) => (
+                  <tr key={v.id} className="border-t">
+                    <td className="py-1">
+                      {v.label} <span className="text-muted-foreground">v{v.version ?? "?"}</span>
+                      {current.winner_variant_id === v.id && <Trophy className="ml-1 inline h-3 w-3 text-amber-500" />}
+                    </td>
+                    <td className="py-1 text-right">{v.weight}%</td>
+                    <td className="py-1 text-right">{v.visitors.toLocaleString()}</td>
+                    <td className="py-1 text-right">{v.orders.toLocaleString()}</td>
+                    <td className="py-1 text-right">{v.confirmed.toLocaleString()}</td>
+                    <td className="py-1 text-right">{pct(v.conversion_rate)}</td>
+                    <td className={`py-1 text-right ${v.significant ? "font-semibold" : ""}`}>{v.lift == null ? "—" : pct(v.lift)}</td>
+                    <td className="py-1 text-right">
+                      {current.status !== "promoted" && (
+                        <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" disabled={busy} onClick={() => promote(current.id, v)}>
+                          Promote
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">{current.readout.summary}</p>
+          {running && (
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => stop(running.id)}>Stop test</Button>
+          )}
+        </>
+      )}
+
+      {!running && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Pick 2–{MAX_VARIANTS} saved versions of this file. Leave the weights empty for an even split; the live version is the control.
+          </p>
+          <div className="max-h-40 space-y-1 overflow-y-auto">
+            {versions.map((v) => (
+              <label key={v.id} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={v.id in picked} onChange={() => toggle(v.id)} />
+                <span>v{v.version}</span>
+                {v.id === page.version_id && <Badge variant="secondary">live</Badge>}
+                <span className="text-xs text-muted-foreground">{new Date(v.created_at).toLocaleString()}</span>
+                {v.id in picked && (
+                  <Input
+                    className="ml-auto h-7 w-20 text-xs"
+                    inputMode="numeric"
+                    placeholder="%"
+                    value={picked[v.id]}
+                    onChange={(e) => setPicked((p) => ({ ...p, [v.id]: e.target.value.replace(/\D/g, "") }))}
+                  />
+                )}
+              </label>
+            ))}
+          </div>
+          <Button size="sm" disabled={busy || Object.keys(picked).length < 2} onClick={start}>
+            {busy ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <FlaskConical className="mr-1 h-4 w-4" />}
+            Start A/B test
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
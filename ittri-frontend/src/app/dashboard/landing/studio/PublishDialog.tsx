@@ -0,0 +1,193 @@
+"use client";
+
+import * as EditorAPI from "@/lib/editor-api";
+import * as LandingAPI from "@/lib/landing-api";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { ExternalLink, Globe, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUserStore } from "@/stores";
+import ExperimentPanel from "./ExperimentPanel";
+import SafetyReport from "./SafetyReport";
+
+type ProductOption = { id: string; title: string; store_id?: string };
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileId: string | null;
+  fileName: string;
+  content: string;
+};
+
+/** Publish the current studio file as a hosted COD page (/p/<slug>) for one product. */
+export default function PublishDialog({ open, onOpenChange, fileId, fileName, content }: Props) {
+  const { toast } = useToast();
+  const { currentStore } = useUserStore();
+
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [page, setPage] = useState<LandingAPI.LandingPage | null>(null);
+  const [productId, setProductId] = useState("");
+  const [slug, setSlug] = useState("");
+  const [askCity, setAskCity] = useState(true);
+  const [askNotes, setAskNotes] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<LandingAPI.LandingReport | null>(null);
+
+  const isHtml = /\.html?$/i.test(fileName) || /^\s*(<!doctype html|<html)/i.test(content);
+
+  useEffect(() => {
+    if (!open || !currentStore?.id) return;
+    (async () => {
+      try {
+        const res = await fetch("/api/dashboard/products", { credentials: "include", cache: "no-store" });
+        const json = await res.json().catch(() => ({}));
+        const items: ProductOption[] = Array.isArray(json?.items) ? json.items : Array.isArray(json) ? json : [];
+        const mine = items.filter((p) => !p.store_id || p.store_id === currentStore.id);
+        setProducts(mine);
+
+        const pages = fileId ? await LandingAPI.listPages(currentStore.id) : [];
+        const existing = pages.find((p) => p.file_id === fileId) ?? null;
+        setPage(existing);
+        setProductId(existing?.product_id ?? mine[0]?.id ?? "");
+        setSlug(existing?.slug ?? "");
+        setAskCity(existing?.form?.ask_city ?? true);
+        setAskNotes(existing?.form?.ask_notes ?? false);
+      } catch {
+        /* products/pages stay empty; the form says why publishing is disabled */
+      }
+    })();
+  }, [open, currentStore?.id, fileId]);
+
+  // Server-side safety check of what would be published, refreshed as the page changes
+  useEffect(() => {
+    if (!open || !isHtml) return;
+    const t = setTimeout(() => {
+      LandingAPI.validateContent(content).then(setReport).catch(() => setReport(null));
+    }, 400);
+    return () => clearTimeout(t);
+  }, [open, isHtml, content]);
+
+  async function publish() {
+    if (!fileId || !currentStore?.id || !productId) return;
+    setBusy(true);
+    try {
+      // Save what is on screen so the published version matches the preview
+      const saved = await EditorAPI.saveFile(fileId, content);
+      const res = await LandingAPI.publishPage({
+        file_id: fileId,
+        version_id: saved?.version?.id,
+        store_id: currentStore.id,
+        product_id: productId,
+        slug: slug.trim() || undefined,
+        form: { ask_city: askCity, ask_notes: askNotes },
+      });
+      setPage(res.page);
+      setSlug(res.page.slug);
+      setReport(res.report);
+      toast({
+        title: "Page published",
+        description: res.report?.removed ? `${res.url} (${res.report.removed} unsafe elements removed)` : res.url,
+      });
+    } catch (e) {
+      toast({ title: "Publish failed", description: String((e as Error)?.message || e), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function unpublish() {
+    if (!page) return;
+    setBusy(true);
+    try {
+      setPage(await LandingAPI.unpublishPage(page.id));
+      toast({ title: "Page unpublished" });
+    } catch (e) {
+      toast({ title: "Unpublish failed", description: String((e as Error)?.message || e), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const blocked = !fileId ? "Save the file first (it syncs automatically after an edit)." :
+    !isHtml ? "Only HTML files can be published; React files are for generation and download." :
+    !currentStore ? "Select a store first." :
+    !products.length ? "Add a product to this store first; the order form sells it." : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Publish Page</DialogTitle>
+          <DialogDescription>
+            Host {fileName} as a public page with a cash-on-delivery order form. Orders land in your store and get a WhatsApp confirmation.
+          </DialogDescription>
+        </DialogHeader>
+
+        {page && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border px-3 py-2 text-sm">
+            <Badge variant={page.status === "published" ? "success" : "secondary"}>{page.status}</Badge>
+            <a className="inline-flex items-center gap-1 truncate underline" href={page.url} target="_blank" rel="noreferrer">
+              {page.url} <ExternalLink className="h-3 w-3" />
+            </a>
+            <span className="ml-auto text-xs text-muted-foreground">{page.orders_count} orders</span>
+          </div>
+        )}
+
+        {blocked ? (
+          <p className="text-sm text-muted-foreground">{blocked}</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 items-center gap-3">
+              <label className="text-sm text-muted-foreground">Product</label>
+              <div className="col-span-2">
+                <select className="w-full rounded-md border bg-background px-3 py-2 text-sm" value={productId} onChange={(e) => setProductId(e.target.value)}>
+                  {products.map((p) => <option key={p.id} value={p.id}>{p.title}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 items-center gap-3">
+              <label className="text-sm text-muted-foreground">Address</label>
+              <div className="col-span-2">
+                <Input value={slug} onChange={(e) => setSlug(e.target.value.toLowerCase())} placeholder="from the product name" />
+                <p className="mt-1 text-xs text-muted-foreground">Lowercase letters, digits and dashes: /p/your-page</p>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={askCity} onChange={(e) => setAskCity(e.target.checked)} />
+              Ask for the city
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={askNotes} onChange={(e) => setAskNotes(e.target.checked)} />
+              Let buyers add a note
+            </label>
+            <p className="text-xs text-muted-foreground">
+              The form goes where the page has <code>{'<div data-ittri-order-form></div>'}</code>, otherwise at the end.
+            </p>
+            {report && <SafetyReport report={report} />}
+          </div>
+        )}
+
+        {page?.status === "published" && <ExperimentPanel page={page} onPromoted={setPage} />}
+
+        <DialogFooter>
+          {page?.status === "published" && (
+            <Button variant="outline" disabled={busy} onClick={unpublish}>Unpublish</Button>
+          )}
+          <Button disabled={busy || !!blocked || !productId} onClick={publish}>
+            {busy ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Globe className="mr-1 h-4 w-4" />}
+            {page ? "Publish update" : "Publish"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import type { LandingReport } from "@/lib/landing-api";
+
+import React from "react";
+import { AlertTriangle, CheckCircle2, ShieldAlert } from "lucide-react";
+
+const CHECK_LABELS: Record<keyof LandingReport["checks"], string> = {
+  title: "Title",
+  meta_description: "Meta description",
+  viewport: "Mobile viewport",
+  order_form: "Order form placeholder",
+};
+
+/** Pre-publish check of the page: what gets stripped (red) and what is missing (amber). */
+export default function SafetyReport({ report }: { report: LandingReport }) {
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      <div className="flex items-center gap-2 font-medium">
+        {report.ok ? <CheckCircle2 className="h-4 w-4 text-green-600" /> : <ShieldAlert className="h-4 w-4 text-red-600" />}
+        {report.ok ? "Safe to publish" : `${report.removed} unsafe element${report.removed === 1 ? "" : "s"} will be removed on publish`}
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+        {(Object.keys(CHECK_LABELS) as Array<keyof LandingReport["checks"]>).map((k) => (
+          <span key={k} className={report.checks[k] ? "text-muted-foreground" : "text-amber-600"}>
+            {report.checks[k] ? "✓" : "✗"} {CHECK_LABELS[k]}
+          </span>
+        ))}
+      </div>
+
+      {report.issues.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {report.issues.map((i) => (
+            <li key={i.code} className="flex gap-2">
+              <AlertTriangle className={`mt-0.5 h-3 w-3 shrink-0 ${i.severity === "error" ? "text-red-600" : "text-amber-500"}`} />
+              <span>
+                {i.message}
+                {i.count > 1 ? ` (${i.count})` : ""}
+                {i.samples.length > 0 && <span className="text-muted-foreground"> — {i.samples.join(", ")}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
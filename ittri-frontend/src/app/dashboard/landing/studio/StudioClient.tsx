@@ -1,6 +1,7 @@
 "use client";
 
 import * as EditorAPI from "@/lib/editor-api";
+import { readEventStream } from "@/lib/event-stream";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -14,9 +15,10 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import {
-  X, MessageSquarePlus, ExternalLink, Download, Upload, RotateCcw, RefreshCw, Save, Sparkles, Settings,
+  X, MessageSquarePlus, ExternalLink, Download, Upload, RotateCcw, RefreshCw, Save, Sparkles, Settings, Globe,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast.ts";
+import PublishDialog from "./PublishDialog";
 
 export type StudioFile = { id?: string; name: string; content: string };
 type StatusKind = "active" | "pending" | "inactive";
@@ -26,7 +28,9 @@ type ChatItem = { id: string; role: "user" | "assistant"; text: string; at: numb
 // ── constants
 const STORAGE_PREFIX = "ittri.editor";
 const ORIGINAL_CONTENT_KEY = "ittri.original";
-const GENERATE_API = "/api/v1/ai/generate";
+const GENERATE_API = "/api/v1/ai/code/gen";
+// generated code is streamed into the preview at most this often
+const PREVIEW_FLUSH_MS = 250;
 const CHAT_SEND_API = "/api/v1/ai/chat/send";
 const CHAT_MESSAGES_API = (sid: string) => `/api/v1/ai/messages/${sid}`;
 const CHAT_SESSIONS_API = "/api/v1/ai/sessions";
@@ -235,6 +239,8 @@ export default function Studio() {
   const [genPrompt, setGenPrompt] = useState<string>("Improve the structure and modernize the markup.");
   const [isPromptDialogOpen, setIsPromptDialogOpen] = useState(false);
   const abortRef = useRef<AbortController | null>(null);
+  // set while a generation streams into the open file; autosave waits for the final content
+  const streamingRef = useRef(false);
 
   // ── setup dialog
   const [isSetupOpen, setIsSetupOpen] = useState(false);
@@ -307,7 +313,7 @@ export default function Studio() {
 
   // debounced auto-save (files only)
   useEffect(() => {
-    if (!currentFile) return;
+    if (!currentFile || streamingRef.current) return;
     setIsSaving(true);
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     saveTimeoutRef.current = setTimeout(() => {
@@ -423,23 +429,33 @@ export default function Studio() {
         credentials: "include",
         headers: {
           "content-type": "application/json",
-          accept: "application/json",
+          accept: "text/event-stream, application/json",
           "x-chat-session-id": sid,
         },
-        body: JSON.stringify({ sessionId: sid, message: trimmed, store: true, stream: false }),
+        body: JSON.stringify({ sessionId: sid, message: trimmed, store: true, stream: true }),
       });
 
-      const txt = await res.text().catch(() => "");
-      let returned: any = {};
-      try { returned = txt ? JSON.parse(txt) : {}; } catch {}
-
-      const returnedSid = returned?.sessionId || returned?.session_id || returned?.id;
-      if (returnedSid && String(returnedSid) !== sid) {
-        sid = String(returnedSid);
-        setSessionId(sid);
+      if (!res.ok) {
+        const returned = await res.json().catch(() => ({}));
+        throw new Error(returned?.error || `Failed to send message (${res.status})`);
       }
 
-      if (!res.ok) throw new Error(returned?.error || `Failed to send message (${res.status})`);
+      // the reply is typed out as it streams; the stored messages replace it once complete
+      const pending: ChatItem = { id: crypto.randomUUID(), role: "assistant", text: "", at: Date.now() };
+      setChat(prev => [...prev, pending]);
+      await readEventStream(res, ({ event, data }) => {
+        if (event === "error") throw new Error(String(data?.message || "Chat failed"));
+        const returnedSid = data?.sessionId || data?.session_id;
+        if (returnedSid && String(returnedSid) !== sid) {
+          sid = String(returnedSid);
+          setSessionId(sid);
+        }
+        if (event === "delta" && typeof data?.delta === "string") {
+          pending.text += data.delta;
+          const text = pending.text;
+          setChat(prev => prev.map(c => (c.id === pending.id ? { ...c, text } : c)));
+        }
+      });
       await loadChatFromDB(sid);
     } catch (err: any) {
       toast({ title: "Chat Error", description: String(err?.message || err), variant: "destructive" });
@@ -519,6 +535,8 @@ export default function Studio() {
     setIsGenerating(true);
     setStatus({ text: "Generating…", kind: "pending" });
 
+    const target = active.kind === "file" ? active.index : null;
+    const before = currentFile.content;
     const payload = {
       mode: "code",
       prompt: genPrompt,
@@ -533,13 +551,25 @@ export default function Studio() {
       fileId: currentFile.id || undefined, // Associate generation with file context
     };
 
+    // deltas accumulate here and reach the preview a few times a second
+    let assembled = "";
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => { flushTimer = null; if (target != null) setFileContent(target, assembled); };
+    const finish = (content: string) => {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+      streamingRef.current = false;
+      if (target != null) setFileContent(target, content);
+    };
+
     try {
+      streamingRef.current = true;
       const res = await fetch(GENERATE_API, {
         method: "POST",
         credentials: "include",
         headers: {
           "Content-Type": "application/json",
-          Accept: "text/event-stream, application/x-ndjson, application/json, text/plain, */*",
+          Accept: "text/event-stream, application/x-ndjson, application/json",
           "x-chat-session-id": sid || "",
         },
         body: JSON.stringify(payload),
@@ -548,99 +578,48 @@ export default function Studio() {
       if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}\n${await res.text().catch(()=>"")}`);
 
       const ctype = (res.headers.get("content-type") || "").toLowerCase();
-      const isStreamy = ctype.includes("text/event-stream") || ctype.includes("ndjson") || ctype.includes("application/x-ndjson") || ctype.startsWith("text/") || ctype === "";
-
-      if (res.body && isStreamy) {
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let buf = "";
-        let assembled = "";
-
-        const apply = (delta: string) => {
-          if (!delta) return;
-          assembled += delta;
-          if (active.kind === "file") setFileContent(active.index, assembled);
-        };
-
-        while (true) {
-          const { value, done } = await reader.read();
-          if (done) break;
-          buf += decoder.decode(value, { stream: true });
-
-          let nl: number;
-          while ((nl = buf.indexOf("\n")) >= 0) {
-            let line = buf.slice(0, nl).replace(/\r$/, "");
-            buf = buf.slice(nl + 1);
-            if (!line.trim()) continue;
-
-            if (ctype.includes("text/event-stream")) {
-              const m = line.match(/^data:\s*(.*)$/i);
-              if (m) line = m[1];
-              if (line.trim() === "[DONE]") continue;
-            }
-
-            try {
-              const evt = JSON.parse(line) as any;
-              if (evt?.error) throw new Error(evt.error);
-
-              if (typeof evt?.type === "string") {
-                if (evt.type === "progress") continue;
-                if (evt.type === "final") {
-                  const sid2 = (evt.sessionId || evt.session_id) as string | undefined;
-                  if (sid2 && sid2 !== sid) { sid = sid2; setSessionId(sid2); }
-                  const data = evt.data ?? {};
-                  let out = "";
-                  if (data?.html) out = String(data.html);
-                  else if (data?.react?.files?.[0]?.contents) out = String(data.react.files[0].contents);
-                  else if (typeof data?.content === "string") out = data.content;
-                  if (active.kind === "file") setFileContent(active.index, out);
-                  assembled = out;
-                  try { sendChat(`AI updated ${currentFile?.name || "your page"}`); } catch {}
-                  buf = "";
-                  continue;
-                }
-              }
-
-              const delta =
-                (typeof evt?.delta === "string" && evt.delta) ||
-                (typeof evt?.content === "string" && evt.content) ||
-                (typeof evt?.text === "string" && evt.text) ||
-                "";
-
-              if (delta) apply(delta);
-              else apply(line + "\n");
-            } catch {
-              apply(line + "\n");
-            }
-          }
-        }
-        if (buf.trim()) apply(buf);
-      } else if (ctype.includes("application/json")) {
+      if (ctype.includes("application/json")) {
         const data = await res.json().catch(() => ({}));
         const sid2 = (data?.sessionId || data?.session_id) as string | undefined;
         if (sid2 && sid2 !== sid) { sid = sid2; setSessionId(sid2); }
-        const out = data?.content ?? data?.html ?? data?.result ?? data?.text ?? "";
+        const out = data?.html ?? data?.react?.files?.[0]?.contents ?? data?.content ?? data?.text ?? "";
         if (!out) throw new Error("Empty response from generator");
-        if (active.kind === "file") setFileContent(active.index, out);
+        finish(String(out));
       } else {
-        const txt = await res.text();
-        if (active.kind === "file") setFileContent(active.index, txt || "(empty)");
+        // the final event carries the complete page; the assistant message is stored only then
+        const result = { final: null as string | null };
+        await readEventStream(res, ({ event, data }) => {
+          if (event === "error") throw new Error(String(data?.message || "Generation failed"));
+          const sid2 = (data?.sessionId || data?.session_id) as string | undefined;
+          if (sid2 && sid2 !== sid) { sid = sid2; setSessionId(sid2); }
+          if (event === "delta" && typeof data?.delta === "string") {
+            assembled += data.delta;
+            if (!flushTimer) flushTimer = setTimeout(flush, PREVIEW_FLUSH_MS);
+          } else if (event === "final") {
+            const out = data?.data ?? {};
+            result.final = String(out.html ?? out.react?.files?.[0]?.contents ?? assembled);
+          }
+        });
+        if (result.final == null) throw new Error("The generation stopped before the page was complete");
+        finish(result.final);
+        try { sendChat(`AI updated ${currentFile?.name || "your page"}`); } catch {}
       }
 
       setStatus({ text: "Ready", kind: "active" });
       toast({ title: "Generation complete" });
       if (sid) await loadChatFromDB(sid);
-    } catch (err: any) {
-      if (err?.name === "AbortError") {
+    } catch (err) {
+      // partial output is dropped: the file goes back to what it was before generating
+      finish(before);
+      if ((err as Error)?.name === "AbortError") {
         setStatus({ text: "Cancelled", kind: "inactive" });
         toast({ title: "Generation cancelled" });
       } else {
-        const msg = String(err?.message || err);
         setStatus({ text: "Error", kind: "inactive" });
-        toast({ title: "Generation failed", description: msg, variant: "destructive" });
-        if (active.kind === "file") setFileContent(active.index, `/* Generation failed */\n${msg}\n`);
+        toast({ title: "Generation failed", description: String((err as Error)?.message || err), variant: "destructive" });
       }
     } finally {
+      streamingRef.current = false;
       setIsGenerating(false);
       abortRef.current = null;
     }
@@ -650,6 +629,7 @@ export default function Studio() {
   // ui state
   const [newFileName, setNewFileName] = useState("");
   const [isAddFileDialogOpen, setIsAddFileDialogOpen] = useState(false);
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
 
   // layout drag
   const [leftWidthPct, setLeftWidthPct] = useState(56);
@@ -834,6 +814,9 @@ export default function Studio() {
                 >
                   <ExternalLink className="mr-1 h-4 w-4" /> Open
                 </Button>
+                <Button size="sm" onClick={() => setIsPublishOpen(true)} disabled={!currentFile}>
+                  <Globe className="mr-1 h-4 w-4" /> Publish
+                </Button>
               </div>
             </div>
           </div>
@@ -885,6 +868,15 @@ export default function Studio() {
           </DialogContent>
         </Dialog>
 
+        {/* Publish Dialog */}
+        <PublishDialog
+          open={isPublishOpen}
+          onOpenChange={setIsPublishOpen}
+          fileId={currentFile ? serverIds[currentFile.name] ?? currentFile.id ?? null : null}
+          fileName={currentFile?.name ?? ""}
+          content={currentFile?.content ?? ""}
+        />
+
         {/* Setup Page Dialog */}
         <Dialog open={isSetupOpen} onOpenChange={setIsSetupOpen}>
           <DialogContent>
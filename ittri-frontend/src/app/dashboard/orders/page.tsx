@@ -26,6 +26,15 @@ const mapOrder = (o: any): Order => ({
   decidedBy: o.decided_by ?? undefined,
   decisionConfidence: typeof o.decision_confidence === 'number' ? o.decision_confidence : undefined,
   decisionReason: o.decision_reason ?? undefined,
+  risk: o.decision_result?.risk
+    ? {
+        score: Number(o.decision_result.risk.score ?? 0),
+        level: o.decision_result.risk.level,
+        reasons: o.decision_result.risk.reasons ?? [],
+        duplicateOf: o.decision_result.risk.duplicate_of ?? null,
+        cleared: !!o.decision_result.risk.cleared,
+      }
+    : undefined,
   items: (o.items ?? []).map((it: any) => ({
     id: it.id,
     orderId: it.order_id,
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+
+type Entity = "orders" | "products";
+
+/** Cell and field values as the backend sends them (JSON scalars; null when empty). */
+type Value = string | number | boolean | null;
+
+type FieldChange = { before: Value; after: Value };
+
+/** POST …/preview response body, `preview` (IngestPreview in the backend). */
+type Preview = {
+  mode: "dryRun" | "validateOnly";
+  entity: Entity;
+  total_rows: number;
+  counts: { insert: number; update: number; unchanged: number; invalid: number; warnings: number };
+  inserts: Array<{ row: number; key: string; fields: Record<string, Value> }>;
+  updates: Array<{ row: number; key: string; changes: Record<string, FieldChange> }>;
+  invalid: Array<{ row: number; key: string; errors: string[] }>;
+  warnings: Array<{ row: number; key: string; warnings: string[] }>;
+  truncated: boolean;
+};
+
+const isSheet = (url: string) => /^https:\/\/docs\.google\.com\/spreadsheets\//i.test(url.trim());
+
+type PreviewRequest = { entity: Entity; validateOnly: boolean; gsheet_url?: string } | { entity: Entity };
+
+type ApiResult = { success?: boolean; error?: string; preview?: Preview; queued?: boolean };
+
+const show = (v: Value | undefined) => (v === null || v === undefined || v === "" ? "—" : String(v));
+
+export default function IngestPreview({
+  storeId,
+  currentSheetUrl,
+  onSwitchSheet,
+}: {
+  storeId: string;
+  currentSheetUrl?: string | null;
+  /** Persist a new sheet URL on the store; resolves false when the save failed. */
+  onSwitchSheet: (url: string) => Promise<boolean>;
+}) {
+  const [url, setUrl] = useState(currentSheetUrl ?? "");
+  const [entity, setEntity] = useState<Entity>("orders");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewedUrl, setPreviewedUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"preview" | "validate" | "commit" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function post(action: "preview" | "commit", body: PreviewRequest): Promise<ApiResult> {
+    const r = await fetch(`/api/dashboard/ingestion/stores/${encodeURIComponent(storeId)}/${action}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", accept: "application/json" },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+    const j: ApiResult = await r.json().catch(() => ({}));
+    if (!r.ok || j?.success === false) throw new Error(j?.error || `${action} failed: ${r.status}`);
+    return j;
+  }
+
+  async function runPreview(validateOnly: boolean) {
+    const sheet = url.trim();
+    if (sheet && !isSheet(sheet)) {
+      setError("Google Sheet must be a docs.google.com/spreadsheets URL");
+      return;
+    }
+    try {
+      setBusy(validateOnly ? "validate" : "preview");
+      setError(null);
+      setNotice(null);
+      const j = await post("preview", {
+        entity,
+        validateOnly,
+        ...(sheet && sheet !== (currentSheetUrl ?? "") ? { gsheet_url: sheet } : {}),
+      });
+      setPreview(j.preview ?? null);
+      setPreviewedUrl(sheet);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Preview failed");
+      setPreview(null);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function commit() {
+    if (!previewedUrl && !currentSheetUrl) return;
+    try {
+      setBusy("commit");
+      setError(null);
+      if (previewedUrl && previewedUrl !== (currentSheetUrl ?? "")) {
+        const switched = await onSwitchSheet(previewedUrl);
+        if (!switched) throw new Error("Could not switch the store to this sheet");
+      }
+      const j = await post("commit", { entity });
+      setNotice(j.queued ? "Import queued. Orders will update shortly." : "Import started.");
+      setPreview(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Commit failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const canCommit =
+    preview?.mode === "dryRun" && previewedUrl === url.trim() && preview.counts.insert + preview.counts.update > 0;
+
+  return (
+    <Card className="card-futuristic">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Import preview</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-[1fr_180px]">
+          <div className="space-y-1">
+            <Label htmlFor="preview-sheet">Sheet to preview</Label>
+            <Input
+              id="preview-sheet"
+              value={url}
+              placeholder="https://docs.google.com/spreadsheets/..."
+              onChange={(e) => setUrl(e.currentTarget.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="preview-entity">Import</Label>
+            <Select id="preview-entity" value={entity} onChange={(e) => setEntity(e.currentTarget.value as Entity)}>
+              <option value="orders">orders</option>
+              <option value="products">products</option>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" disabled={!!busy} onClick={() => runPreview(true)}>
+            {busy === "validate" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Validate only
+          </Button>
+          <Button disabled={!!busy} onClick={() => runPreview(false)}>
+            {busy === "preview" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Preview changes
+          </Button>
+          {canCommit && (
+            <Button variant="secondary" disabled={!!busy} onClick={commit}>
+              {busy === "commit" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Commit import
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{preview.total_rows} rows</Badge>
+              {preview.mode === "dryRun" && (
+                <>
+                  <Badge variant="success">{preview.counts.insert} new</Badge>
+                  <Badge variant="info">{preview.counts.update} updated</Badge>
+                  <Badge variant="secondary">{preview.counts.unchanged} unchanged</Badge>
+                </>
+              )}
+              <Badge variant="destructive">{preview.counts.invalid} invalid</Badge>
+              <Badge variant="warning">{preview.counts.warnings} with warnings</Badge>
+            </div>
+            {preview.truncated && (
+              <p className="text-xs text-muted-foreground">Only the first rows of each list are shown.</p>
+            )}
+
+            {preview.updates.length > 0 && (
+              <Table density="compact">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>{preview.entity === "products" ? "SKU" : "Order"}</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.updates.flatMap((u) =>
+                    Object.entries(u.changes).map(([field, c], i) => (
+                      <TableRow key={`${u.row}-${field}`}>
+                        <TableCell>{i === 0 ? u.row : ""}</TableCell>
+                        <TableCell>{i === 0 ? u.key : ""}</TableCell>
+                        <TableCell>{field}</TableCell>
+                        <TableCell className="text-muted-foreground line-through">{show(c.before)}</TableCell>
+                        <TableCell>{show(c.after)}</TableCell>
+                      </TableRow>
+                    )),
+                  )}
+                </TableBody>
+              </Table>
+            )}
+
+            {preview.inserts.length > 0 && (
+              <Table density="compact">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>New {preview.entity === "products" ? "SKU" : "order"}</TableHead>
+                    <TableHead>Values</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.inserts.map((r) => (
+                    <TableRow key={r.row}>
+                      <TableCell>{r.row}</TableCell>
+                      <TableCell>{r.key}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {Object.entries(r.fields)
+                          .filter(([, v]) => v !== null && v !== undefined)
+                          .map(([k, v]) => `${k}: ${v}`)
+                          .join(" · ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {(preview.invalid.length > 0 || preview.warnings.length > 0) && (
+              <Table density="compact">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.invalid.map((r) => (
+                    <TableRow key={`e-${r.row}`}>
+                      <TableCell>{r.row}</TableCell>
+                      <TableCell>{show(r.key)}</TableCell>
+                      <TableCell className="text-destructive">{r.errors.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+                  {preview.warnings.map((r) => (
+                    <TableRow key={`w-${r.row}`}>
+                      <TableCell>{r.row}</TableCell>
+                      <TableCell>{show(r.key)}</TableCell>
+                      <TableCell className="text-muted-foreground">{r.warnings.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
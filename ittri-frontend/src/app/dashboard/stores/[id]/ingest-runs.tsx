@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+
+type RunStatus = "queued" | "running" | "succeeded" | "partial" | "failed" | "cancelled" | "skipped";
+
+/** One entry of GET …/stores/:storeId/runs, as publicRun shapes it. */
+type Run = {
+  id: string;
+  trigger: "scan" | "manual" | "upload" | "url" | "retry";
+  entity: "orders" | "products";
+  source: { type: string; name?: string | null; url?: string; run_id?: string };
+  status: RunStatus;
+  counts: { read: number; written: number; failed: number; warned: number };
+  error: string | null;
+  retry_of: string | null;
+  duration_ms: number | null;
+  created_at: string;
+};
+
+/** GET …/runs/:runId: the run (publicRun + mapping) and the rows it could not apply. */
+type RunDetail = {
+  run: Run & { mapping: { fields: Record<string, string>; uniqueKey: string; locked: boolean } | null };
+  failed_rows: Array<{ row: number; key: string | null; reason: "rejected" | "failed"; messages: string[] }>;
+  failed_rows_stored: number;
+  retries: Array<{ id: string; status: RunStatus; created_at: string }>;
+};
+
+type ErrorBody = { success?: boolean; error?: string };
+
+const STATUS_VARIANT: Record<RunStatus, "success" | "warning" | "destructive" | "secondary" | "info"> = {
+  queued: "secondary",
+  running: "info",
+  succeeded: "success",
+  partial: "warning",
+  failed: "destructive",
+  cancelled: "secondary",
+  skipped: "secondary",
+};
+
+const TRIGGER_LABEL: Record<Run["trigger"], string> = {
+  scan: "Scheduled sync",
+  manual: "Manual import",
+  upload: "File upload",
+  url: "URL import",
+  retry: "Retry",
+};
+
+function sourceLabel(r: Run) {
+  if (r.source?.type === "upload") return r.source.name || "uploaded file";
+  if (r.source?.type === "url") return r.source.url || "URL";
+  if (r.source?.type === "retry") return "failed rows of an earlier run";
+  return "Google Sheet";
+}
+
+function duration(ms: number | null) {
+  if (ms === null || ms === undefined) return "—";
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60_000)} min ${Math.round((ms % 60_000) / 1000)} s`;
+}
+
+export default function IngestRuns({ storeId }: { storeId: string }) {
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [open, setOpen] = useState<RunDetail | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const r = await fetch(`/api/dashboard/ingestion/stores/${encodeURIComponent(storeId)}/runs?limit=20`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const j: ErrorBody & { runs?: Run[] } = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || `Load failed: ${r.status}`);
+      setRuns(j.runs ?? []);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load import history");
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storeId]);
+
+  // Poll while something is still going
+  const active = runs.some((r) => r.status === "queued" || r.status === "running");
+  useEffect(() => {
+    if (!active) return;
+    const t = setInterval(() => void load(), 5000);
+    return () => clearInterval(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active]);
+
+  async function details(id: string) {
+    if (open?.run.id === id) return setOpen(null);
+    try {
+      setBusy(id);
+      const r = await fetch(`/api/dashboard/ingestion/runs/${encodeURIComponent(id)}`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const j: ErrorBody & Partial<RunDetail> = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || `Load failed: ${r.status}`);
+      setOpen(j as RunDetail);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load the run");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function retry(id: string) {
+    try {
+      setBusy(id);
+      setError(null);
+      const r = await fetch(`/api/dashboard/ingestion/runs/${encodeURIComponent(id)}/retry`, {
+        method: "POST",
+        headers: { "content-type": "application/json", accept: "application/json" },
+        credentials: "include",
+        body: JSON.stringify({}),
+      });
+      const j: ErrorBody = await r.json().catch(() => ({}));
+      if (!r.ok || j?.success === false) throw new Error(j?.error || `Retry failed: ${r.status}`);
+      setOpen(null);
+      await load();
+      setNotice("Retry queued for the failed rows.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not retry the run");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <Card className="card-futuristic">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-base">Import history</CardTitle>
+        <Button variant="ghost" size="sm" onClick={() => load()}>
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {!runs.length && !error && <p className="text-sm text-muted-foreground">No imports yet.</p>}
+
+        <ol className="space-y-3">
+          {runs.map((r) => (
+            <li key={r.id} className="border-l-2 pl-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={STATUS_VARIANT[r.status]}>{r.status}</Badge>
+                <span className="font-medium">{TRIGGER_LABEL[r.trigger]}</span>
+                <span className="text-muted-foreground truncate max-w-xs">{sourceLabel(r)}</span>
+                <span className="text-muted-foreground ml-auto">{new Date(r.created_at).toLocaleString()}</span>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                <span>{r.counts.read} read</span>
+                <span>{r.counts.written} written</span>
+                <span className={r.counts.failed ? "text-destructive" : undefined}>{r.counts.failed} failed</span>
+                {r.counts.warned > 0 && <span>{r.counts.warned} with warnings</span>}
+                <span>{duration(r.duration_ms)}</span>
+                {r.error && <span className="text-destructive">{r.error}</span>}
+                <Button variant="link" size="sm" className="h-auto p-0" disabled={busy === r.id} onClick={() => details(r.id)}>
+                  {busy === r.id && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                  {open?.run.id === r.id ? "Hide" : "Details"}
+                </Button>
+              </div>
+
+              {open?.run.id === r.id && (
+                <div className="space-y-3">
+                  {open.run.mapping && (
+                    <p className="text-xs text-muted-foreground">
+                      Mapping{open.run.mapping.locked ? " (locked)" : ""}: key {open.run.mapping.uniqueKey} ·{" "}
+                      {Object.entries(open.run.mapping.fields)
+                        .map(([f, h]) => `${f} ← ${h}`)
+                        .join(", ")}
+                    </p>
+                  )}
+
+                  {open.failed_rows.length > 0 ? (
+                    <>
+                      <Table density="compact">
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Row</TableHead>
+                            <TableHead>Key</TableHead>
+                            <TableHead>Problem</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {open.failed_rows.map((f) => (
+                            <TableRow key={f.row}>
+                              <TableCell>{f.row}</TableCell>
+                              <TableCell>{f.key || "—"}</TableCell>
+                              <TableCell className="text-muted-foreground">
+                                {f.reason === "failed" ? "Not written: " : ""}
+                                {f.messages.join("; ") || "—"}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {open.failed_rows_stored > open.failed_rows.length && (
+                        <p className="text-xs text-muted-foreground">
+                          Showing {open.failed_rows.length} of {open.failed_rows_stored} failed rows.
+                        </p>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!!busy || r.status === "queued" || r.status === "running"}
+                        onClick={() => retry(r.id)}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Retry failed rows
+                      </Button>
+                    </>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No failed rows.</p>
+                  )}
+
+                  {open.retries.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Retried {open.retries.length} time{open.retries.length === 1 ? "" : "s"}, last{" "}
+                      {open.retries[0].status}.
+                    </p>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
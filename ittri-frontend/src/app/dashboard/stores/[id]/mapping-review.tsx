@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+
+type Suggestion = {
+  field: string;
+  header: string | null;
+  source: "locked" | "template" | "ai" | "heuristic" | null;
+  confidence: number | null;
+  samples: string[];
+};
+
+/** GET …/sheets/:id/mapping: suggested (or locked) column per field. */
+type Review = {
+  entity: "orders" | "products";
+  uniqueKey: string;
+  fields: Suggestion[];
+  headers: string[];
+  unmapped_headers: string[];
+  locked: { template_id: string | null; updated_at: string | null } | null;
+  stale_fields: string[];
+  templates: Array<{ id: string; name: string; builtin: boolean; coverage: number }>;
+};
+
+type ErrorBody = { success?: boolean; error?: string };
+
+/** POST …/sheets/:id/mapping: `template` is set when the mapping was also saved as one. */
+type SaveResult = ErrorBody & { template?: { id: string; name: string } | null };
+
+const SOURCE_LABEL: Record<NonNullable<Suggestion["source"]>, string> = {
+  locked: "saved",
+  template: "template",
+  ai: "AI",
+  heuristic: "name match",
+};
+
+function confidenceVariant(c: number | null) {
+  if (c === null) return "secondary" as const;
+  if (c >= 0.85) return "success" as const;
+  if (c >= 0.65) return "warning" as const;
+  return "destructive" as const;
+}
+
+export default function MappingReview({ storeId }: { storeId: string }) {
+  const [sheetId, setSheetId] = useState<string | null>(null);
+  const [review, setReview] = useState<Review | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [uniqueKey, setUniqueKey] = useState("order_id");
+  const [templateId, setTemplateId] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [busy, setBusy] = useState<"load" | "save" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const r = await fetch("/api/dashboard/ingestion/sheets", { credentials: "include", cache: "no-store" });
+      const j = await r.json().catch(() => ({}));
+      const sheets: Array<{ id: string; store_id: string; enabled: boolean }> = j?.sheets ?? [];
+      const mine = sheets.filter((s) => s.store_id === storeId);
+      setSheetId((mine.find((s) => s.enabled) ?? mine[0])?.id ?? null);
+    })().catch(() => setSheetId(null));
+  }, [storeId]);
+
+  async function load(template?: string) {
+    if (!sheetId) return;
+    try {
+      setBusy("load");
+      setError(null);
+      setNotice(null);
+      const qs = new URLSearchParams({ entity: "orders", ...(template ? { template } : {}) });
+      const r = await fetch(`/api/dashboard/ingestion/sheets/${encodeURIComponent(sheetId)}/mapping?${qs}`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const j: ErrorBody & Partial<Review> = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || `Review failed: ${r.status}`);
+      const next = j as Review;
+      setReview(next);
+      setMapping(Object.fromEntries(next.fields.filter((f) => f.header).map((f) => [f.field, f.header as string])));
+      setUniqueKey(next.uniqueKey);
+      setTemplateId(template ?? next.locked?.template_id ?? "");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load the mapping");
+      setReview(null);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function save() {
+    if (!sheetId) return;
+    try {
+      setBusy("save");
+      setError(null);
+      const r = await fetch(`/api/dashboard/ingestion/sheets/${encodeURIComponent(sheetId)}/mapping`, {
+        method: "POST",
+        headers: { "content-type": "application/json", accept: "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          entity: "orders",
+          mapping,
+          uniqueKey,
+          template_id: templateId || null,
+          save_as_template: templateName.trim() || null,
+        }),
+      });
+      const j: SaveResult = await r.json().catch(() => ({}));
+      if (!r.ok || j?.success === false) throw new Error(j?.error || `Save failed: ${r.status}`);
+      setTemplateName("");
+      await load();
+      setNotice(
+        j.template ? `Mapping locked and saved as "${j.template.name}".` : "Mapping locked. Imports will use it as-is.",
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save the mapping");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (!sheetId) return null;
+
+  return (
+    <Card className="card-futuristic">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Column mapping</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" disabled={!!busy} onClick={() => load()}>
+            {busy === "load" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Review mapping
+          </Button>
+          {review?.locked && <Badge variant="success">Locked</Badge>}
+          {review && !review.locked && <Badge variant="warning">Suggested on each import</Badge>}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {review && (
+          <div className="space-y-4">
+            {review.stale_fields.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTitle>Sheet columns changed</AlertTitle>
+                <AlertDescription>
+                  The saved columns for {review.stale_fields.join(", ")} are no longer in the sheet. Pick them again and
+                  save.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="mapping-template">Start from a template</Label>
+                <Select
+                  id="mapping-template"
+                  value={templateId}
+                  onChange={(e) => {
+                    const next = e.currentTarget.value;
+                    setTemplateId(next);
+                    if (next) void load(next);
+                  }}
+                >
+                  <option value="">—</option>
+                  {review.templates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name} ({Math.round(t.coverage * 100)}% of columns found)
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mapping-key">Order id column (unique key)</Label>
+                <Select id="mapping-key" value={uniqueKey} onChange={(e) => setUniqueKey(e.currentTarget.value)}>
+                  {review.fields
+                    .filter((f) => mapping[f.field])
+                    .map((f) => (
+                      <option key={f.field} value={f.field}>
+                        {f.field} ({mapping[f.field]})
+                      </option>
+                    ))}
+                </Select>
+              </div>
+            </div>
+
+            <Table density="compact">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Sheet column</TableHead>
+                  <TableHead>Confidence</TableHead>
+                  <TableHead>Sample values</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {review.fields.map((f) => {
+                  const edited = (mapping[f.field] ?? null) !== f.header;
+                  return (
+                    <TableRow key={f.field}>
+                      <TableCell>{f.field}</TableCell>
+                      <TableCell>
+                        <Select
+                          aria-label={`Column for ${f.field}`}
+                          value={mapping[f.field] ?? ""}
+                          onChange={(e) => {
+                            const v = e.currentTarget.value;
+                            setMapping((m) => {
+                              const next = { ...m };
+                              if (v) next[f.field] = v;
+                              else delete next[f.field];
+                              return next;
+                            });
+                          }}
+                        >
+                          <option value="">— not mapped —</option>
+                          {review.headers.map((h) => (
+                            <option key={h} value={h}>
+                              {h}
+                            </option>
+                          ))}
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {edited ? (
+                          <Badge variant="info">edited</Badge>
+                        ) : f.source ? (
+                          <Badge variant={confidenceVariant(f.confidence)}>
+                            {f.confidence !== null ? `${Math.round(f.confidence * 100)}%` : "—"} · {SOURCE_LABEL[f.source]}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {edited ? "" : f.samples.join(" · ") || "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {review.unmapped_headers.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Not imported: {review.unmapped_headers.join(", ")}
+              </p>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-[1fr_auto] items-end">
+              <div className="space-y-1">
+                <Label htmlFor="mapping-template-name">Also save as template (optional)</Label>
+                <Input
+                  id="mapping-template-name"
+                  value={templateName}
+                  placeholder="e.g. YouCan export"
+                  onChange={(e) => setTemplateName(e.currentTarget.value)}
+                />
+              </div>
+              <Button disabled={!!busy || !mapping[uniqueKey]} onClick={save}>
+                {busy === "save" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Lock mapping
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
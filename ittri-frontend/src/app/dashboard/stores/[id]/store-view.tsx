@@ -9,6 +9,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import IngestPreview from "./ingest-preview";
+import MappingReview from "./mapping-review";
+import IngestRuns from "./ingest-runs";
 
 type Store = {
   id: string;
@@ -45,7 +48,7 @@ export default function StoreView({ id }: { id: string }) {
     }
   }
 
-  async function save(next: Partial<Pick<Store, "name" | "status" | "gsheet_url">>) {
+  async function save(next: Partial<Pick<Store, "name" | "status" | "gsheet_url">>): Promise<boolean> {
     try {
       setSaving(true);
       const r = await fetch(`/api/dashboard/stores/${encodeURIComponent(id)}`, {
@@ -63,8 +66,10 @@ export default function StoreView({ id }: { id: string }) {
       }
       setStore(j.store);
       setError(null);
+      return true;
     } catch (e: any) {
       setError(e?.message || "Failed to save");
+      return false;
     } finally {
       setSaving(false);
     }
@@ -167,6 +172,16 @@ export default function StoreView({ id }: { id: string }) {
           )}
         </CardContent>
       </Card>
+
+      <MappingReview storeId={store.id} />
+
+      <IngestPreview
+        storeId={store.id}
+        currentSheetUrl={store.gsheet_url}
+        onSwitchSheet={(url) => save({ gsheet_url: url })}
+      />
+
+      <IngestRuns storeId={store.id} />
     </div>
   );
 }
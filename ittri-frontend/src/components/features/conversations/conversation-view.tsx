@@ -2,18 +2,38 @@
 'use client';
 
 import * as React from 'react';
-import type { Conversation } from '@/types';
+import type { Conversation, Message } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { formatDateTime } from '@/lib/utils';
-import { Send, Bot, User } from 'lucide-react';
+import { Send, Bot, User, Headphones, Check, CheckCheck, Clock, AlertCircle } from 'lucide-react';
+
+/** WhatsApp-style receipt for outbound messages: pending → ✓ → ✓✓ → blue ✓✓, or failed. */
+function DeliveryTicks({ message }: { message: Message }) {
+  const s = message.deliveryStatus;
+  if (s === 'failed') {
+    const why = message.deliveryError?.title || 'Not delivered';
+    return (
+      <span className="inline-flex items-center gap-1 text-destructive" title={why} aria-label={`Failed: ${why}`}>
+        <AlertCircle className="h-3 w-3" aria-hidden />
+      </span>
+    );
+  }
+  if (s === 'read') return <CheckCheck className="h-3 w-3 text-sky-500" aria-label="Read" />;
+  if (s === 'delivered') return <CheckCheck className="h-3 w-3" aria-label="Delivered" />;
+  if (s === 'sent') return <Check className="h-3 w-3" aria-label="Sent" />;
+  return <Clock className="h-3 w-3" aria-label="Pending" />;
+}
 
 type Props = {
   conversation: Conversation;
   onSendMessage: (content: string) => void;
+  /** Take over from the AI ('agent') or hand the thread back ('ai'). */
+  onSetControl?: (mode: 'agent' | 'ai') => void;
 };
 
-export function ConversationView({ conversation, onSendMessage }: Props) {
+export function ConversationView({ conversation, onSendMessage, onSetControl }: Props) {
+  const agentInControl = conversation.control?.mode === 'agent';
   const [value, setValue] = React.useState('');
   const scrollerRef = React.useRef<HTMLDivElement>(null);
 
@@ -41,6 +61,8 @@ export function ConversationView({ conversation, onSendMessage }: Props) {
   const RoleIcon = ({ role }: { role: string }) =>
     role === 'assistant'
       ? <Bot className="h-4 w-4 text-foreground/80" aria-hidden />
+      : role === 'agent'
+      ? <Headphones className="h-4 w-4 text-foreground/80" aria-hidden />
       : <User className="h-4 w-4 text-foreground/80" aria-hidden />;
 
   return (
@@ -55,6 +77,32 @@ export function ConversationView({ conversation, onSendMessage }: Props) {
             {conversation.customer?.email || '—'} • {conversation.origin || 'unknown'}
           </p>
         </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <span
+            className={[
+              'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+              agentInControl ? 'bg-amber-100 text-amber-800' : 'bg-emerald-100 text-emerald-800',
+            ].join(' ')}
+            title={
+              agentInControl && conversation.control?.since
+                ? `Since ${formatDateTime(conversation.control.since)}`
+                : undefined
+            }
+          >
+            {agentInControl ? <Headphones className="h-3 w-3" aria-hidden /> : <Bot className="h-3 w-3" aria-hidden />}
+            {agentInControl ? 'Agent in control' : 'AI in control'}
+          </span>
+          {onSetControl && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="rounded-xl"
+              onClick={() => onSetControl(agentInControl ? 'ai' : 'agent')}
+            >
+              {agentInControl ? 'Hand back to AI' : 'Take over'}
+            </Button>
+          )}
+        </div>
       </header>
 
       {/* Messages */}
@@ -66,7 +114,7 @@ export function ConversationView({ conversation, onSendMessage }: Props) {
         aria-relevant="additions"
       >
         {conversation.messages.map((m) => {
-          const mine = m.role !== 'assistant';
+          const mine = m.role !== 'assistant' && m.role !== 'agent';
           return (
             <div
               key={m.id}
@@ -90,8 +138,9 @@ export function ConversationView({ conversation, onSendMessage }: Props) {
                 ].join(' ')}
               >
                 <p className="text-sm whitespace-pre-wrap break-words">{m.content}</p>
-                <p className="mt-1 text-[11px] text-muted-foreground">
+                <p className="mt-1 flex items-center gap-1 text-[11px] text-muted-foreground">
                   {formatDateTime(m.createdAt)}
+                  {(m.role === 'assistant' || m.role === 'agent') && <DeliveryTicks message={m} />}
                 </p>
               </div>
             </div>
@@ -105,15 +154,16 @@ export function ConversationView({ conversation, onSendMessage }: Props) {
         <div className="flex items-center gap-2">
           <Input
             id="chat-input"
-            placeholder="Type your message…"
+            placeholder={agentInControl ? 'Type your message…' : 'Take over to reply to the customer'}
             value={value}
             onChange={(e) => setValue(e.target.value)}
             onKeyDown={onKeyDown}
+            disabled={!agentInControl}
             aria-label="Message input"
           />
           <Button
             onClick={send}
-            disabled={!value.trim()}
+            disabled={!agentInControl || !value.trim()}
             className="rounded-xl"
             aria-label="Send message"
             title="Send (Enter)"
@@ -14,7 +14,7 @@ import {
   TableHead,
   TableCell,
 } from '@/components/ui/table';
-import { Eye, Check, X, AlertTriangle } from 'lucide-react';
+import { Eye, Check, X, AlertTriangle, ShieldAlert } from 'lucide-react';
 import { formatCurrency, formatDateTime } from '@/lib/utils';
 
 type Props = { orders: Order[] };
@@ -57,6 +57,35 @@ export function OrdersTable({ orders }: Props) {
     );
   };
 
+  const RISK_TEXT: Record<string, string> = {
+    phone_blocked: 'Phone is blocked',
+    phone_missing: 'No phone number',
+    phone_invalid: 'Invalid phone number',
+    phone_unreachable: 'Phone looks fake',
+    duplicate_order: 'Possible duplicate',
+    phone_burst: 'Many orders from this phone',
+    address_suspicious: 'Suspicious address',
+    name_suspicious: 'Suspicious name',
+  };
+
+  const Risk = ({ risk }: { risk?: Order['risk'] }) => {
+    if (!risk || risk.level === 'low') return <span className="text-xs text-muted-foreground">—</span>;
+    const reasons = risk.reasons.map((r) => RISK_TEXT[r.code] || r.code).join(', ');
+    if (risk.cleared) {
+      return (
+        <Badge variant="secondary" title={`Cleared · ${reasons}`}>
+          CLEARED
+        </Badge>
+      );
+    }
+    return (
+      <Badge variant={risk.level === 'high' ? 'destructive' : 'warning'} title={`${risk.score}/100 · ${reasons}`}>
+        <ShieldAlert className="mr-1 h-3 w-3" aria-hidden />
+        {risk.level === 'high' ? 'HIGH RISK' : 'REVIEW'}
+      </Badge>
+    );
+  };
+
   const totalFor = (o: Order) =>
     (o.items ?? []).reduce((sum, it) => sum + (Number(it.price) || 0) * (Number(it.qty) || 0), 0);
 
@@ -71,7 +100,7 @@ export function OrdersTable({ orders }: Props) {
   return (
     <div className="relative w-full overflow-hidden rounded-xl border">
       <div className="overflow-x-auto">
-        <Table className="min-w-[760px]">
+        <Table className="min-w-[860px]">
           <TableHeader className="sticky top-0 z-[1] bg-background/70 backdrop-blur">
             <TableRow>
               <TableHead>Order ID</TableHead>
@@ -79,6 +108,7 @@ export function OrdersTable({ orders }: Props) {
               <TableHead>Customer</TableHead>
               <TableHead>Total</TableHead>
               <TableHead>Decision</TableHead>
+              <TableHead>Risk</TableHead>
               <TableHead>Date</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
@@ -110,6 +140,10 @@ export function OrdersTable({ orders }: Props) {
                   <Decision decidedBy={order.decidedBy} status={order.status} />
                 </TableCell>
 
+                <TableCell>
+                  <Risk risk={order.risk} />
+                </TableCell>
+
                 <TableCell className="text-sm">
                   {formatDateTime(order.createdAt)}
                 </TableCell>
@@ -131,7 +165,7 @@ export function OrdersTable({ orders }: Props) {
 
           <TableFooter>
             <TableRow>
-              <TableCell colSpan={7} className="text-right text-xs text-muted-foreground">
+              <TableCell colSpan={8} className="text-right text-xs text-muted-foreground">
                 Showing {orders.length} {orders.length === 1 ? 'order' : 'orders'}
               </TableCell>
             </TableRow>
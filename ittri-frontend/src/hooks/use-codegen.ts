@@ -54,7 +54,7 @@ export function useCodegen() {
           if (!line.trim()) continue;
           try {
             const frame = JSON.parse(line);
-            if (frame.type === 'progress' && typeof frame.bytes === 'number') setProgress(frame.bytes);
+            if ((frame.type === 'delta' || frame.type === 'progress') && typeof frame.bytes === 'number') setProgress(frame.bytes);
             else if (frame.type === 'final' && frame.data) final = frame.data;
           } catch {}
         }
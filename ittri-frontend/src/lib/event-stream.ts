@@ -0,0 +1,67 @@
+/**
+ * Reads a streamed AI response (/api/v1/ai/code/gen, /api/v1/ai/chat/send with `stream: true`).
+ * Server-Sent Events come as `event:` / `data:` blocks; the NDJSON fallback as `{"type": …}` lines.
+ * Both are reported as { event, data }. Throwing from `onEvent` stops reading.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- payloads differ per route
+export type StreamEvent = { event: string; data: any };
+
+function parseData(raw: string): StreamEvent["data"] {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function sseEvent(block: string): StreamEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue; // comments / heartbeats
+    const i = line.indexOf(":");
+    const field = i < 0 ? line : line.slice(0, i);
+    const value = i < 0 ? "" : line.slice(i + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+  if (!data.length || data.join("\n") === "[DONE]") return null;
+  return { event, data: parseData(data.join("\n")) };
+}
+
+function ndjsonEvent(line: string): StreamEvent | null {
+  if (!line.trim()) return null;
+  const data = parseData(line);
+  return { event: typeof data?.type === "string" ? data.type : "message", data };
+}
+
+export async function readEventStream(res: Response, onEvent: (e: StreamEvent) => void): Promise<void> {
+  if (!res.body) throw new Error("No response body");
+  const sse = (res.headers.get("content-type") || "").toLowerCase().includes("text/event-stream");
+  const parse = sse ? sseEvent : ndjsonEvent;
+  const separator = sse ? /\r?\n\r?\n/ : /\r?\n/;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buf += decoder.decode(value, { stream: true });
+      const parts = buf.split(separator);
+      buf = parts.pop() ?? "";
+      for (const part of parts) {
+        const e = parse(part);
+        if (e) onEvent(e);
+      }
+    }
+    buf += decoder.decode();
+    const last = parse(buf);
+    if (last) onEvent(last);
+  } catch (err) {
+    reader.cancel().catch(() => {});
+    throw err;
+  }
+}
@@ -0,0 +1,177 @@
+// src/lib/landing-api.ts
+export type LandingForm = {
+  button_label?: string;
+  success_message?: string;
+  ask_city?: boolean;
+  ask_notes?: boolean;
+  max_quantity?: number;
+};
+
+export type LandingPage = {
+  id: string;
+  store_id: string;
+  product_id: string;
+  file_id: string;
+  version_id: string;
+  slug: string;
+  title: string | null;
+  status: 'published' | 'unpublished';
+  form: LandingForm;
+  orders_count: number;
+  published_at: string | null;
+  updated_at: string;
+  url: string;
+};
+
+export type ReportIssue = {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  count: number;
+  removed: boolean;
+  samples: string[];
+};
+
+/** What publishing strips from the HTML and which page basics are missing. */
+export type LandingReport = {
+  ok: boolean;
+  issues: ReportIssue[];
+  checks: { title: boolean; meta_description: boolean; viewport: boolean; order_form: boolean };
+  removed: number;
+};
+
+function headers() {
+  return { 'content-type': 'application/json' };
+}
+
+async function failure(res: Response, fallback: string) {
+  const j = await res.json().catch(() => ({}));
+  return new Error(j?.message || j?.error || fallback);
+}
+
+export async function listPages(storeId?: string): Promise<LandingPage[]> {
+  const qs = storeId ? `?store_id=${encodeURIComponent(storeId)}` : '';
+  const res = await fetch(`/api/v1/landing/pages${qs}`, { credentials: 'include' });
+  if (!res.ok) throw await failure(res, 'Failed to list landing pages');
+  const j = await res.json();
+  return j.pages || [];
+}
+
+export async function publishPage(input: {
+  file_id: string;
+  version_id?: string;
+  store_id: string;
+  product_id: string;
+  slug?: string;
+  title?: string;
+  form?: LandingForm;
+}): Promise<{ page: LandingPage; url: string; version: number; report: LandingReport }> {
+  const res = await fetch('/api/v1/landing/pages', {
+    method: 'POST',
+    credentials: 'include',
+    headers: headers(),
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw await failure(res, 'Failed to publish page');
+  return res.json();
+}
+
+export async function validateContent(content: string): Promise<LandingReport> {
+  const res = await fetch('/api/v1/landing/validate', {
+    method: 'POST',
+    credentials: 'include',
+    headers: headers(),
+    body: JSON.stringify({ content }),
+  });
+  if (!res.ok) throw await failure(res, 'Failed to check the page');
+  const j = await res.json();
+  return j.report;
+}
+
+export async function unpublishPage(id: string): Promise<LandingPage> {
+  const res = await fetch(`/api/v1/landing/pages/${id}/unpublish`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: headers(),
+    body: JSON.stringify({}),
+  });
+  if (!res.ok) throw await failure(res, 'Failed to unpublish page');
+  const j = await res.json();
+  return j.page;
+}
+
+/* ------------------------------ A/B tests ------------------------------ */
+
+export type VariantStats = {
+  id: string;
+  label: string;
+  version_id: string;
+  version: number | null;
+  weight: number;
+  views: number;
+  visitors: number;
+  orders: number;
+  confirmed: number;
+  conversion_rate: number;
+  confirmed_rate: number;
+  lift: number | null;
+  p_value: number | null;
+  significant: boolean;
+};
+
+export type Experiment = {
+  id: string;
+  landing_page_id: string;
+  name: string | null;
+  status: 'running' | 'stopped' | 'promoted';
+  winner_variant_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  variants: VariantStats[];
+  readout: { leader: string | null; significant: boolean; enough_data: boolean; summary: string };
+};
+
+export async function listExperiments(pageId: string): Promise<Experiment[]> {
+  const res = await fetch(`/api/v1/landing/pages/${pageId}/experiments`, { credentials: 'include' });
+  if (!res.ok) throw await failure(res, 'Failed to list A/B tests');
+  const j = await res.json();
+  return j.experiments || [];
+}
+
+export async function startExperiment(
+  pageId: string,
+  input: { name?: string; variants: Array<{ version_id: string; weight?: number }> }
+): Promise<Experiment> {
+  const res = await fetch(`/api/v1/landing/pages/${pageId}/experiments`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: headers(),
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw await failure(res, 'Failed to start A/B test');
+  const j = await res.json();
+  return j.experiment;
+}
+
+export async function stopExperiment(id: string): Promise<Experiment> {
+  const res = await fetch(`/api/v1/landing/experiments/${id}/stop`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: headers(),
+    body: JSON.stringify({}),
+  });
+  if (!res.ok) throw await failure(res, 'Failed to stop A/B test');
+  const j = await res.json();
+  return j.experiment;
+}
+
+export async function promoteVariant(id: string, variantId: string): Promise<{ page: LandingPage; url: string; version: number }> {
+  const res = await fetch(`/api/v1/landing/experiments/${id}/promote`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: headers(),
+    body: JSON.stringify({ variant_id: variantId }),
+  });
+  if (!res.ok) throw await failure(res, 'Failed to promote variant');
+  return res.json();
+}
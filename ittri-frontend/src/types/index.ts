@@ -55,6 +55,15 @@ export interface Customer {
   createdAt: Date;
 }
 
+/** Duplicate / fake-order score set at ingest time. */
+export interface OrderRisk {
+  score: number;
+  level: "low" | "medium" | "high";
+  reasons: Array<{ code: string; detail?: string }>;
+  duplicateOf?: string | null;
+  cleared?: boolean;
+}
+
 export interface Order {
   id: string;
   storeId: string;
@@ -70,21 +79,33 @@ export interface Order {
   decidedBy?: "ai" | "human";
   decisionConfidence?: number;
   decisionReason?: string;
+  risk?: OrderRisk;
   customer?: Customer;
   items: OrderItem[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type MessageDeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
 export interface Message {
   id: string;
   conversationId: string;
-  role: "user" | "assistant" | "system";
+  role: "user" | "assistant" | "system" | "agent";
   content: string;
   metaJson?: Record<string, any>;
+  deliveryStatus?: MessageDeliveryStatus | null;
+  deliveryError?: { code?: number | null; title?: string | null } | null;
   createdAt: Date;
 }
 
+/** 'agent' = a seller took over the WhatsApp thread and the AI is paused. */
+export interface ConversationControl {
+  mode: "ai" | "agent";
+  agentId?: string | null;
+  since?: Date | null;
+}
+
 export interface Conversation {
   id: string;
   storeId: string;
@@ -92,6 +113,7 @@ export interface Conversation {
   origin: string;
   status: "open" | "closed" | "escalated";
   metaJson?: Record<string, any>;
+  control?: ConversationControl;
   messages: Message[];
   customer?: Customer;
   createdAt: Date;